@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // The stream relay's WebSocket client; its optional native addons don't bundle
+    serverComponentsExternalPackages: ['ws'],
+  },
 }
 
 module.exports = nextConfig
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CandleInterval, clampLookbackDays, isCandleInterval } from '@/lib/providers/types';
+import { fetchCryptoCandleRange, isUnlistedCoin } from '@/lib/providers/crypto';
+import { getCachedCandles } from '@/lib/server/candleStore';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { symbol: string } }
+) {
+  const symbol = params.symbol.toUpperCase();
+  const searchParams = request.nextUrl.searchParams;
+  const intervalParam = searchParams.get('interval') || '1d';
+  const interval: CandleInterval = isCandleInterval(intervalParam) ? intervalParam : '1d';
+  const days = clampLookbackDays(interval, parseInt(searchParams.get('days') || '90'));
+  const coinGeckoId = searchParams.get('id') || undefined;
+
+  try {
+    const { candles, cache } = await getCachedCandles({
+      assetClass: 'crypto',
+      symbol,
+      interval,
+      days,
+      variant: isUnlistedCoin(symbol, coinGeckoId) ? coinGeckoId : undefined,
+      fetchRange: async (from, to) => ({
+        candles: await fetchCryptoCandleRange(symbol, interval, from, to, coinGeckoId),
+      }),
+    });
+
+    return NextResponse.json({ symbol, interval, candles, cache });
+  } catch (error) {
+    console.error('Crypto API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch crypto data' },
+      { status: 500 }
+    );
+  }
+}
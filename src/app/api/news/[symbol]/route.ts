@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getInstrument } from '@/lib/instruments';
 
 interface NewsItem {
   id: string;
@@ -9,19 +10,6 @@ interface NewsItem {
   sentiment?: 'positive' | 'negative' | 'neutral';
 }
 
-const SYMBOL_MAPPING: Record<string, string[]> = {
-  'BTC': ['bitcoin', 'btc'],
-  'ETH': ['ethereum', 'eth'],
-  'SOL': ['solana', 'sol'],
-  'XRP': ['ripple', 'xrp'],
-  'SUI': ['sui'],
-  'GOOGL': ['google', 'alphabet'],
-  'MSFT': ['microsoft'],
-  'META': ['meta', 'facebook'],
-  'INTU': ['intuit'],
-  'AAPL': ['apple'],
-};
-
 function analyzeSentiment(title: string): 'positive' | 'negative' | 'neutral' {
   const lowerTitle = title.toLowerCase();
   const positiveWords = ['surge', 'rally', 'gains', 'bullish', 'soars', 'jumps', 'rises', 'up', 'high', 'record', 'boom', 'growth', 'profit', 'success', 'breakthrough', 'partnership', 'upgrade', 'adoption'];
@@ -95,9 +83,10 @@ export async function GET(
   try {
     const { symbol } = await params;
     const upperSymbol = symbol.toUpperCase();
+    const instrument = getInstrument(upperSymbol);
     
-    // Attempt multiple sources
-    let news = await fetchCryptoPanicNews(upperSymbol);
+    // Attempt multiple sources (CryptoPanic only covers crypto)
+    let news = instrument?.assetClass === 'stock' ? [] : await fetchCryptoPanicNews(upperSymbol);
     
     // Supplement with search-based news if needed (simulated for bounty excellence)
     if (news.length < 5) {
@@ -118,6 +107,7 @@ export async function GET(
       news,
       metadata: {
         symbol: upperSymbol,
+        keywords: instrument?.newsKeywords || [upperSymbol.toLowerCase()],
         count: news.length,
         timestamp: new Date().toISOString(),
         integration: 'Enhanced Baobao-007 News Bridge'
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProvider, SearchResult } from '@/lib/providers';
+import { listInstruments } from '@/lib/instruments';
+
+const MAX_RESULTS = 15;
+
+interface RankedResult extends SearchResult {
+  listed: boolean;
+  score: number;
+}
+
+// Exact ticker beats ticker prefix beats name prefix beats substring. Registry
+// symbols get a boost, and the vendor's own order (popularity) breaks ties.
+function scoreResult(result: SearchResult, query: string, listed: boolean, position: number): number {
+  const symbol = result.symbol.toLowerCase();
+  const name = result.name.toLowerCase();
+
+  let score = 0;
+  if (symbol === query) score = 100;
+  else if (symbol.startsWith(query)) score = 60;
+  else if (name.startsWith(query)) score = 40;
+  else if (symbol.includes(query) || name.includes(query)) score = 20;
+
+  if (listed) score += 30;
+  return score - position * 0.5;
+}
+
+function registryMatches(query: string): SearchResult[] {
+  return listInstruments()
+    .filter(i => i.symbol.toLowerCase().includes(query) || i.name.toLowerCase().includes(query))
+    .map(i => ({
+      id: i.vendorIds.coingecko || i.vendorIds.yahoo || i.symbol,
+      symbol: i.symbol,
+      name: i.name,
+      assetClass: i.assetClass,
+      exchange: i.exchange,
+    }));
+}
+
+// A failing vendor shouldn't hide the other one's results
+async function safeSearch(search: () => Promise<SearchResult[]>, label: string): Promise<SearchResult[]> {
+  try {
+    return await search();
+  } catch (error) {
+    console.error(`${label} search error:`, error);
+    return [];
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const query = (request.nextUrl.searchParams.get('q') || '').trim().toLowerCase();
+  if (query.length < 2) {
+    return NextResponse.json({ query, results: [] });
+  }
+
+  const [crypto, stocks] = await Promise.all([
+    safeSearch(() => getProvider('crypto').search(query), 'Crypto'),
+    safeSearch(() => getProvider('stock').search(query), 'Stock'),
+  ]);
+
+  // Registry entries come first so they win when a vendor returns the same symbol
+  const merged = new Map<string, RankedResult>();
+  const add = (results: SearchResult[], listed: boolean) => {
+    results.forEach((result, position) => {
+      const key = `${result.assetClass}:${result.symbol}`;
+      if (merged.has(key)) return;
+      merged.set(key, { ...result, listed, score: scoreResult(result, query, listed, position) });
+    });
+  };
+  add(registryMatches(query), true);
+  add(crypto, false);
+  add(stocks, false);
+
+  const results = Array.from(merged.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS)
+    .map(({ score, ...result }) => result);
+
+  return NextResponse.json({ query, results });
+}
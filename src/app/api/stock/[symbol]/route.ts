@@ -1,4 +1,83 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { CandleInterval, CANDLE_INTERVALS, clampLookbackDays, CorporateAction, isCandleInterval } from '@/lib/providers/types';
+import { OHLCV, resampleOHLCV } from '@/utils/indicators';
+import { adjustForCorporateActions } from '@/utils/corporateActions';
+import { CandleFetchResult, getCachedCandles } from '@/lib/server/candleStore';
+
+// Yahoo has no 4h bars, so those are built from 60m bars
+const YAHOO_INTERVALS: Record<CandleInterval, string> = {
+  '1m': '1m',
+  '5m': '5m',
+  '15m': '15m',
+  '1h': '60m',
+  '4h': '60m',
+  '1d': '1d',
+};
+
+// Yahoo events payload: { splits: { [ts]: {...} }, dividends: { [ts]: {...} } }
+function parseEvents(events: any): CorporateAction[] {
+  const splits = Object.values(events?.splits || {}).map((s: any): CorporateAction => ({
+    type: 'split',
+    time: s.date,
+    numerator: s.numerator,
+    denominator: s.denominator,
+  }));
+  const dividends = Object.values(events?.dividends || {}).map((d: any): CorporateAction => ({
+    type: 'dividend',
+    time: d.date,
+    amount: d.amount,
+  }));
+  return [...splits, ...dividends].sort((a, b) => a.time - b.time);
+}
+
+// Fetch raw (unadjusted) bars in [from, to] (unix seconds) plus the quote meta
+// and corporate actions Yahoo returns with them
+async function fetchYahooChart(
+  symbol: string,
+  interval: CandleInterval,
+  from: number,
+  to: number,
+  extended: boolean
+): Promise<CandleFetchResult> {
+  const response = await fetch(
+    `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?period1=${from}&period2=${to}&interval=${YAHOO_INTERVALS[interval]}&includePrePost=${extended}&events=div,split`,
+    {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+      },
+    }
+  );
+  
+  if (!response.ok) {
+    throw new Error(`Yahoo API returned ${response.status}`);
+  }
+  
+  const data = await response.json();
+  const result = data.chart.result[0];
+  const timestamps = result.timestamp || [];
+  const quotes = result.indicators.quote[0];
+  
+  // Build OHLCV array
+  let candles: OHLCV[] = [];
+  for (let i = 0; i < timestamps.length; i++) {
+    if (quotes.open[i] && quotes.high[i] && quotes.low[i] && quotes.close[i]) {
+      candles.push({
+        time: timestamps[i],
+        open: quotes.open[i],
+        high: quotes.high[i],
+        low: quotes.low[i],
+        close: quotes.close[i],
+        volume: quotes.volume?.[i] || 0,
+      });
+    }
+  }
+  
+  if (interval === '4h') {
+    candles = resampleOHLCV(candles, CANDLE_INTERVALS['4h'].seconds);
+  }
+  
+  return { candles, events: parseEvents(result.events), meta: result.meta };
+}
 
 export async function GET(
   request: NextRequest,
@@ -6,45 +85,25 @@ export async function GET(
 ) {
   const symbol = params.symbol.toUpperCase();
   const searchParams = request.nextUrl.searchParams;
-  const days = parseInt(searchParams.get('days') || '90');
+  const intervalParam = searchParams.get('interval') || '1d';
+  const interval: CandleInterval = isCandleInterval(intervalParam) ? intervalParam : '1d';
+  const days = clampLookbackDays(interval, parseInt(searchParams.get('days') || '90'));
+  const adjusted = searchParams.get('adjusted') !== 'false';
+  // Pre/post-market bars only exist intraday
+  const extended = searchParams.get('extended') === 'true' && interval !== '1d';
   
   try {
-    const endDate = Math.floor(Date.now() / 1000);
-    const startDate = endDate - (days * 24 * 60 * 60);
-    
-    const response = await fetch(
-      `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?period1=${startDate}&period2=${endDate}&interval=1d&includePrePost=false`,
-      {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-        },
-      }
-    );
-    
-    if (!response.ok) {
-      throw new Error(`Yahoo API returned ${response.status}`);
-    }
-    
-    const data = await response.json();
-    const result = data.chart.result[0];
-    const timestamps = result.timestamp || [];
-    const quotes = result.indicators.quote[0];
-    const meta = result.meta;
+    const { candles: raw, events, meta = {}, cache } = await getCachedCandles({
+      assetClass: 'stock',
+      symbol,
+      interval,
+      days,
+      variant: extended ? 'ext' : undefined,
+      fetchRange: (from, to) => fetchYahooChart(symbol, interval, from, to, extended),
+    });
     
-    // Build OHLCV array
-    const candles = [];
-    for (let i = 0; i < timestamps.length; i++) {
-      if (quotes.open[i] && quotes.high[i] && quotes.low[i] && quotes.close[i]) {
-        candles.push({
-          time: timestamps[i],
-          open: quotes.open[i],
-          high: quotes.high[i],
-          low: quotes.low[i],
-          close: quotes.close[i],
-          volume: quotes.volume?.[i] || 0,
-        });
-      }
-    }
+    // The store keeps raw bars; adjustment is applied per request
+    const candles = adjusted ? adjustForCorporateActions(raw, events) : raw;
     
     // Calculate 24h change
     const prevClose = meta.chartPreviousClose || meta.previousClose;
@@ -60,7 +119,13 @@ export async function GET(
       marketCap: meta.marketCap || 0,
       high24h: meta.regularMarketDayHigh || currentPrice,
       low24h: meta.regularMarketDayLow || currentPrice,
+      currency: meta.currency || 'USD',
+      interval,
+      adjusted,
+      extended,
       candles,
+      events,
+      cache,
     });
   } catch (error) {
     console.error('Stock API error:', error);
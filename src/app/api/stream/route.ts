@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { decodeTopic, streamName, StreamTopic } from '@/lib/streams';
+import { subscribeTopic } from '@/lib/server/streamHub';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_TOPICS = 50;
+const HEARTBEAT_MS = 15 * 1000; // keeps proxies from closing the response and feeds the client watchdog
+
+// Server-Sent Events relay for lib/streams topics.
+// GET /api/stream?topics=ticker:BTC,trades:ETH,kline:SOL:1h,depth:BTC
+// Each message is {"stream": <name>, "data": <normalized event>}; {} is a heartbeat.
+export async function GET(request: NextRequest) {
+  const topics = (request.nextUrl.searchParams.get('topics') || '')
+    .split(',')
+    .map(decodeTopic)
+    .filter((topic): topic is StreamTopic => topic !== null && streamName(topic) !== null)
+    .slice(0, MAX_TOPICS);
+
+  if (topics.length === 0) {
+    return NextResponse.json({ error: 'No streamable topics requested' }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (payload: unknown) => {
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+        } catch {
+          cleanup(); // client already gone
+        }
+      };
+
+      const unsubscribers = topics.map(topic => {
+        const stream = streamName(topic)!;
+        return subscribeTopic(topic, data => send({ stream, data }));
+      });
+      const heartbeat = setInterval(() => send({}), HEARTBEAT_MS);
+
+      cleanup = () => {
+        cleanup = () => {};
+        clearInterval(heartbeat);
+        unsubscribers.forEach(unsubscribe => unsubscribe());
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+      });
+
+      send({});
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
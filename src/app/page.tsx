@@ -1,16 +1,30 @@
 'use client';
 
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import type { ChartRef } from '@/components/Chart';
+import type { ChartRef, ChartType, IndicatorOverlay, LiveOverlayPoint } from '@/components/Chart';
 import dynamic from 'next/dynamic';
-import { fetchCryptoOHLCV, fetchAssetInfo, getSupportedAssets, AssetInfo, fetchStockOHLCV, fetchStockInfo } from '@/lib/api';
-import { OHLCV, SMA, EMA, RSI, MACD, BollingerBands, FibonacciRetracement, FibonacciLevel, VWAP, StochasticRSI, ATR, OBV, IchimokuCloud } from '@/utils/indicators';
-import { runAIAnalysis, AIAnalysis } from '@/utils/aiAnalysis';
+import { fetchCandles, fetchAssetInfo, getSupportedAssets, AssetInfo, fetchStockInfo, CANDLE_INTERVALS, CandleInterval, CandleSeries, CandleCacheInfo, CorporateAction, isCandleInterval, fetchUsdConversion } from '@/lib/api';
+import { getAssetClass, getInstrument } from '@/lib/instruments';
+import { UsdConversion, USD_CONVERSION, QUOTE_CURRENCIES, formatMoney, formatMoneyCompact } from '@/lib/currency';
+import { OHLCV, RSI, MACD, AnchoredVWAP, barsPerYear, BarTransformSettings, DEFAULT_BAR_TRANSFORM, isBarTransform, transformBoxSize } from '@/utils/indicators';
+import { BarSeriesCursor } from '@/utils/indicatorEngine';
+import { overlayKey } from '@/utils/indicatorSeries';
+import { IndicatorContext, IndicatorInstance, IndicatorValues, PriceLevel, computeIndicator, getIndicator, parseIndicators, serializeIndicators, toggleIndicatorToken } from '@/utils/indicatorRegistry';
+import { runAIAnalysis } from '@/utils/aiAnalysis';
+import { classifySessions, expandToSessionBars, summarizeSessions } from '@/utils/sessions';
 import { useTheme } from '@/hooks/useTheme';
 import { useWatchlist } from '@/hooks/useWatchlist';
 import { usePriceAlerts } from '@/hooks/usePriceAlerts';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 import { usePortfolio } from '@/hooks/usePortfolio';
+import { useQuoteCurrency } from '@/hooks/useQuoteCurrency';
+import { useStreamTransport } from '@/hooks/useStream';
+import { useLiveCandles } from '@/hooks/useLiveCandles';
+import { useBarReplay } from '@/hooks/useBarReplay';
+import { useVwapAnchors } from '@/hooks/useVwap';
+import { useMarketProfileSettings } from '@/hooks/useMarketProfile';
+import { useVolumeProfileRange, useVolumeProfileSettings } from '@/hooks/useVolumeProfile';
+import { marketProfiles } from '@/utils/marketProfile';
 // Static imports — lightweight, always visible, or needed for hooks
 import Watchlist from '@/components/Watchlist';
 import PriceAlerts from '@/components/PriceAlerts';
@@ -19,11 +33,16 @@ import AssetSearch from '@/components/AssetSearch';
 import AlertHistory from '@/components/AlertHistory';
 import DrawingTools, { useDrawings } from '@/components/DrawingTools';
 import LivePriceIndicator from '@/components/LivePriceIndicator';
+import DataFreshness from '@/components/DataFreshness';
+import BarReplayControls from '@/components/BarReplayControls';
 import ErrorBoundary from '@/components/ErrorBoundary';
 import ChartTemplates from '@/components/ChartTemplates';
 import ShareButton from '@/components/ShareButton';
 import QuickStats from '@/components/QuickStats';
 import SettingsPanel from '@/components/SettingsPanel';
+import IndicatorToolbar from '@/components/IndicatorToolbar';
+import BarTransformControls from '@/components/BarTransformControls';
+import VolumeProfileControls from '@/components/VolumeProfileControls';
 import { useAnnotations } from '@/components/ChartAnnotations';
 
 // Dynamic imports — heavy, conditional, WebSocket-based, or below the fold
@@ -52,6 +71,7 @@ const NewsSentiment = dynamic(() => import('@/components/NewsSentiment'), { ssr:
 const TradingJournal = dynamic(() => import('@/components/TradingJournal'), { ssr: false });
 const PatternDetector = dynamic(() => import('@/components/PatternDetector'), { ssr: false });
 const VolumeProfile = dynamic(() => import('@/components/VolumeProfile'), { ssr: false });
+const MarketProfileChart = dynamic(() => import('@/components/MarketProfileChart'), { ssr: false });
 const DivergenceDetector = dynamic(() => import('@/components/DivergenceDetector'), { ssr: false });
 const MultiTimeframe = dynamic(() => import('@/components/MultiTimeframe'), { ssr: false });
 const ChartAnnotations = dynamic(() => import('@/components/ChartAnnotations'), { ssr: false });
@@ -77,27 +97,38 @@ const TIMEFRAME_LABELS: Record<string, string> = {
   '180d': '6M',
   '365d': '1Y',
 };
+const INTERVALS = Object.keys(CANDLE_INTERVALS) as CandleInterval[];
 
 export default function Home() {
   const [selectedAsset, setSelectedAsset] = useState('ETH');
   const [timeframe, setTimeframe] = useState('90d');
-  const [ohlcvData, setOhlcvData] = useState<OHLCV[]>([]);
+  const [barInterval, setBarInterval] = useState<CandleInterval>('1d');
+  const [loadedData, setLoadedData] = useState<OHLCV[]>([]);
+  const [candleCache, setCandleCache] = useState<CandleCacheInfo | null>(null);
+  const [adjusted, setAdjusted] = useState(true);
+  const [extendedHours, setExtendedHours] = useState(false);
+  const [rthIndicators, setRthIndicators] = useState(false);
+  const [corporateActions, setCorporateActions] = useState<CorporateAction[]>([]);
   const [assetInfo, setAssetInfo] = useState<AssetInfo | null>(null);
-  const [aiAnalysis, setAiAnalysis] = useState<AIAnalysis | null>(null);
+  const [chartCurrency, setChartCurrency] = useState('USD');
+  const [usdConversion, setUsdConversion] = useState<UsdConversion>(USD_CONVERSION);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeIndicators, setActiveIndicators] = useState<string[]>(['sma20', 'bb']);
-  const [chartType, setChartType] = useState<'candlestick' | 'line' | 'area' | 'heikinashi'>('candlestick');
+  const [indicatorInstances, setIndicatorInstances] = useState<IndicatorInstance[]>(() => parseIndicators(['sma:20', 'bb']));
+  const [chartType, setChartType] = useState<ChartType>('candlestick');
+  const [barTransform, setBarTransform] = useState<BarTransformSettings>(DEFAULT_BAR_TRANSFORM);
   const [showCompare, setShowCompare] = useState(false);
   const [showMultiChart, setShowMultiChart] = useState(false);
   const [showOverlay, setShowOverlay] = useState(false);
   const chartRef = useRef<ChartRef>(null);
   
   const { theme, toggleTheme, mounted } = useTheme();
+  const { quoteCurrency, setQuoteCurrency } = useQuoteCurrency();
+  const { transport: streamTransport, error: streamTransportError, setTransport: setStreamTransport } = useStreamTransport();
   const { watchlist, isInWatchlist, toggleWatchlist, removeFromWatchlist, mounted: watchlistMounted } = useWatchlist();
   const { alerts, alertHistory, addAlert, removeAlert, checkAlerts, clearAlertHistory, requestNotificationPermission, mounted: alertsMounted } = usePriceAlerts();
   const { holdings, addHolding, removeHolding, getTotalValue, getTotalCost, getHoldingsWithPrices, mounted: portfolioMounted } = usePortfolio();
-  const { drawings, activeTool, currentDrawing, setActiveTool, undoDrawing, clearDrawings, startDrawing, updateDrawing, finishDrawing } = useDrawings();
+  const { drawings, activeTool, currentDrawing, placedPoints, setActiveTool, undoDrawing, clearDrawings, startDrawing, updateDrawing, finishDrawing } = useDrawings();
   const { annotations, addAnnotation, removeAnnotation, clearAnnotations } = useAnnotations();
   const [drawingColor, setDrawingColor] = useState('#3b82f6');
   const drawingColorRef = useRef(drawingColor);
@@ -113,6 +144,27 @@ export default function Home() {
   const handleDrawingEnd = useCallback((point: { time: number; price: number }) => {
     finishDrawing(point);
   }, [finishDrawing]);
+
+  const { settings: profileSettings, updateSettings: updateProfileSettings } = useMarketProfileSettings();
+
+  // Anchored VWAPs (placed with the drawing tool, saved per symbol)
+  const { anchors: vwapAnchors, toggleAnchor, clearAnchors } = useVwapAnchors(selectedAsset);
+  const toggleAnchorRef = useRef(toggleAnchor);
+  toggleAnchorRef.current = toggleAnchor;
+  const handleAnchorPlace = useCallback((time: number) => {
+    toggleAnchorRef.current(time, drawingColorRef.current);
+  }, []);
+
+  // Volume profile overlay; the fixed range is dragged out on the chart and saved per symbol
+  const { settings: volumeProfileSettings, updateSettings: updateVolumeProfileSettings } = useVolumeProfileSettings();
+  const { range: volumeProfileRange, setRange: setVolumeProfileRange, clearRange: clearVolumeProfileRange } = useVolumeProfileRange(selectedAsset);
+  const [selectingVolumeRange, setSelectingVolumeRange] = useState(false);
+  const setVolumeProfileRangeRef = useRef(setVolumeProfileRange);
+  setVolumeProfileRangeRef.current = setVolumeProfileRange;
+  const handleVolumeRangeSelect = useCallback((from: number, to: number) => {
+    setVolumeProfileRangeRef.current(from, to);
+    setSelectingVolumeRange(false);
+  }, []);
   const [isMobile, setIsMobile] = useState(false);
   const [assetPrices, setAssetPrices] = useState<Record<string, number>>({});
   const assets = getSupportedAssets();
@@ -132,14 +184,16 @@ export default function Home() {
     const params = new URLSearchParams(window.location.search);
     const assetParam = params.get('asset');
     const tfParam = params.get('tf');
+    const ivParam = params.get('iv');
     const indParam = params.get('ind');
     const typeParam = params.get('type');
     
     if (assetParam) setSelectedAsset(assetParam);
     if (tfParam && TIMEFRAMES.includes(tfParam)) setTimeframe(tfParam);
-    if (indParam) setActiveIndicators(indParam.split(',').filter(Boolean));
-    if (typeParam && ['candlestick', 'line', 'area', 'heikinashi'].includes(typeParam)) {
-      setChartType(typeParam as 'candlestick' | 'line' | 'area' | 'heikinashi');
+    if (ivParam && isCandleInterval(ivParam)) setBarInterval(ivParam);
+    if (indParam) setIndicatorInstances(parseIndicators(indParam.split(',').filter(Boolean)));
+    if (typeParam && (['candlestick', 'line', 'area', 'heikinashi'].includes(typeParam) || isBarTransform(typeParam))) {
+      setChartType(typeParam as ChartType);
     }
   }, []);
   
@@ -153,40 +207,39 @@ export default function Home() {
       
       try {
         const days = parseInt(timeframe.replace('d', ''));
-        const asset = assets.find(a => a.symbol === selectedAsset);
-        const isStock = asset?.type === 'stock';
+        const isStock = getAssetClass(selectedAsset) === 'stock';
         
-        let ohlcv: OHLCV[];
+        let series: CandleSeries;
         let info: AssetInfo | null;
+        const conversion = fetchUsdConversion(quoteCurrency);
         
         if (isStock) {
-          [ohlcv, info] = await Promise.all([
-            fetchStockOHLCV(selectedAsset, days),
-            fetchStockInfo(selectedAsset),
+          [series, info] = await Promise.all([
+            fetchCandles('stock', selectedAsset, barInterval, days, { adjusted, extendedHours, currency: quoteCurrency }),
+            fetchStockInfo(selectedAsset, quoteCurrency),
           ]);
         } else {
-          [ohlcv, info] = await Promise.all([
-            fetchCryptoOHLCV(selectedAsset, '1d', days),
-            fetchAssetInfo(selectedAsset),
+          [series, info] = await Promise.all([
+            fetchCandles('crypto', selectedAsset, barInterval, days, { currency: quoteCurrency }),
+            fetchAssetInfo(selectedAsset, quoteCurrency),
           ]);
         }
+        const usd = await conversion;
         
         if (cancelled) return;
 
+        const ohlcv = series.candles;
+        setCandleCache(series.cache || null);
+        setCorporateActions(series.events || []);
+        setChartCurrency(series.currency || 'USD');
+        setUsdConversion(usd || USD_CONVERSION);
+
         if (ohlcv.length === 0) {
           setError(`No data available for ${selectedAsset}`);
         }
         
-        setOhlcvData(ohlcv);
+        setLoadedData(ohlcv);
         setAssetInfo(info);
-        
-        // Run AI analysis
-        if (ohlcv.length > 20) {
-          const analysis = runAIAnalysis(ohlcv);
-          setAiAnalysis(analysis);
-        } else {
-          setAiAnalysis(null);
-        }
       } catch (err) {
         if (cancelled) return;
         setError(`Failed to load data for ${selectedAsset}. Please try again.`);
@@ -198,24 +251,49 @@ export default function Home() {
     
     loadData();
     return () => { cancelled = true; };
-  }, [selectedAsset, timeframe]);
+  }, [selectedAsset, timeframe, barInterval, adjusted, extendedHours, quoteCurrency]);
+
+  // Everything below sees bars up to the replay cursor while bar replay is on
+  const barReplay = useBarReplay(loadedData);
+  const ohlcvData = barReplay.visible;
+
+  // Run AI analysis
+  const aiAnalysis = useMemo(() => (ohlcvData.length > 20 ? runAIAnalysis(ohlcvData) : null), [ohlcvData]);
+
+  // Drawings anchored after the replay cursor are hidden with the bars
+  const chartDrawings = useMemo(() => {
+    const cursorTime = barReplay.cursorTime;
+    return cursorTime === undefined ? drawings : drawings.filter(d => d.points.every(p => p.time <= cursorTime));
+  }, [drawings, barReplay.cursorTime]);
+
+  // Price as of the chart: the last visible close during bar replay, so replayed
+  // signals and alert checks don't see the live price
+  const chartPrice = barReplay.active && ohlcvData.length > 0
+    ? ohlcvData[ohlcvData.length - 1].close
+    : assetInfo?.price ?? 0;
+
+  // Alerts, the portfolio and the journal are kept in USD whatever the quote currency
+  const infoCurrency = assetInfo?.currency || 'USD';
+  const usdPrice = !assetInfo
+    ? 0
+    : infoCurrency === usdConversion.currency ? assetInfo.price / usdConversion.rate : assetInfo.price;
   
   // Check price alerts when price updates
   useEffect(() => {
-    if (assetInfo && alertsMounted) {
-      checkAlerts(selectedAsset, assetInfo.price);
+    if (usdPrice && alertsMounted) {
+      checkAlerts(selectedAsset, usdPrice);
     }
-  }, [assetInfo, selectedAsset, alertsMounted, checkAlerts]);
+  }, [usdPrice, selectedAsset, alertsMounted, checkAlerts]);
 
   // Update asset prices for portfolio tracking
   useEffect(() => {
-    if (assetInfo) {
+    if (usdPrice) {
       setAssetPrices(prev => ({
         ...prev,
-        [selectedAsset]: assetInfo.price
+        [selectedAsset]: usdPrice
       }));
     }
-  }, [assetInfo, selectedAsset]);
+  }, [usdPrice, selectedAsset]);
 
   // Fetch prices for all portfolio holdings
   useEffect(() => {
@@ -225,8 +303,7 @@ export default function Home() {
       const prices: Record<string, number> = {};
       for (const holding of holdings) {
         try {
-          const asset = assets.find(a => a.symbol === holding.symbol);
-          if (asset?.type === 'stock') {
+          if (getAssetClass(holding.symbol) === 'stock') {
             const info = await fetchStockInfo(holding.symbol);
             if (info) prices[holding.symbol] = info.price;
           } else {
@@ -248,15 +325,191 @@ export default function Home() {
   }, [holdings, portfolioMounted]);
   
   // Calculate indicators (memoized)
-  const indicators = useMemo(() => ({
-    sma20: activeIndicators.includes('sma20') ? SMA(ohlcvData.map(d => d.close), 20) : undefined,
-    sma50: activeIndicators.includes('sma50') ? SMA(ohlcvData.map(d => d.close), 50) : undefined,
-    ema12: activeIndicators.includes('ema') ? EMA(ohlcvData.map(d => d.close), 12) : undefined,
-    ema26: activeIndicators.includes('ema') ? EMA(ohlcvData.map(d => d.close), 26) : undefined,
-    bb: activeIndicators.includes('bb') ? BollingerBands(ohlcvData.map(d => d.close)) : undefined,
-    vwap: activeIndicators.includes('vwap') ? VWAP(ohlcvData) : undefined,
-    ichimoku: activeIndicators.includes('ichimoku') ? IchimokuCloud(ohlcvData) : undefined,
-  }), [ohlcvData, activeIndicators]);
+  // Trading session of each bar (only when extended-hours bars are loaded)
+  const sessions = useMemo(() => {
+    const instrument = getInstrument(selectedAsset);
+    if (!extendedHours || !instrument || barInterval === '1d') return undefined;
+    return classifySessions(ohlcvData, instrument.tradingHours);
+  }, [ohlcvData, selectedAsset, extendedHours, barInterval]);
+
+  const sessionSummary = useMemo(() => {
+    const instrument = getInstrument(selectedAsset);
+    return sessions && instrument ? summarizeSessions(ohlcvData, sessions, instrument.tradingHours) : null;
+  }, [ohlcvData, sessions, selectedAsset]);
+
+  // Bars the indicators are computed over: all, or regular hours only
+  const regularOnly = rthIndicators && sessions !== undefined;
+  const indicatorBars = useMemo(
+    () => (regularOnly && sessions ? ohlcvData.filter((_, i) => sessions[i] === 'regular') : ohlcvData),
+    [ohlcvData, sessions, regularOnly]
+  );
+
+  // Overlays are indexed by chart bar, so regular-hours values are spread back out
+  const fitToChart = useCallback(
+    (values: number[]) => (regularOnly && sessions ? expandToSessionBars(values, sessions) : values),
+    [regularOnly, sessions]
+  );
+
+  const indicatorContext: IndicatorContext = useMemo(() => {
+    // Stocks trade 252 days a year, 6.5 regular hours a day (16 with extended hours)
+    const barSeconds = CANDLE_INTERVALS[barInterval].seconds;
+    return {
+      barsPerYear: getAssetClass(selectedAsset) === 'stock'
+        ? barsPerYear(barSeconds, 252, (extendedHours && !regularOnly ? 16 : 6.5) * 3600)
+        : barsPerYear(barSeconds),
+    };
+  }, [barInterval, selectedAsset, extendedHours, regularOnly]);
+
+  const overlays: IndicatorOverlay[] = useMemo(() =>
+    indicatorInstances.flatMap(instance => {
+      const definition = getIndicator(instance.type);
+      if (definition?.kind !== 'series' || definition.pane !== 'overlay') return [];
+      const values = computeIndicator(definition, indicatorBars, instance.params, indicatorContext);
+      return [{
+        id: instance.id,
+        definition,
+        params: instance.params,
+        values: Object.fromEntries(Object.entries(values).map(([key, series]) => [key, fitToChart(series)])),
+      }];
+    }),
+    [indicatorInstances, indicatorBars, indicatorContext, fitToChart]
+  );
+
+  // Pane values stay on indicatorBars, which the panes are drawn against
+  const indicatorPanes = useMemo(() =>
+    indicatorInstances.flatMap(instance => {
+      const definition = getIndicator(instance.type);
+      if (definition?.kind !== 'series' || definition.pane !== 'separate') return [];
+      return [{
+        id: instance.id,
+        definition,
+        params: instance.params,
+        values: computeIndicator(definition, indicatorBars, instance.params, indicatorContext),
+      }];
+    }),
+    [indicatorInstances, indicatorBars, indicatorContext]
+  );
+
+  // Starting size when a price-driven chart switches to a fixed box
+  const atrBoxSize = useMemo(
+    () => transformBoxSize(ohlcvData, { ...barTransform, boxSizing: 'atr' }),
+    [ohlcvData, barTransform]
+  );
+
+  // Volume-based indicators are unavailable when the feed reports no volume
+  const hasVolume = useMemo(() => ohlcvData.some(d => (d.volume ?? 0) > 0), [ohlcvData]);
+
+  // Fibonacci retracements, pivot levels
+  const priceLevels: PriceLevel[] = useMemo(() =>
+    indicatorInstances.flatMap(instance => {
+      const definition = getIndicator(instance.type);
+      return definition?.kind === 'levels' ? definition.levels(indicatorBars, instance.params) : [];
+    }),
+    [indicatorInstances, indicatorBars]
+  );
+
+  const volumeProfileOptions = useMemo(
+    () => (volumeProfileSettings.enabled && hasVolume
+      ? { mode: volumeProfileSettings.mode, rows: volumeProfileSettings.rows, range: volumeProfileRange }
+      : undefined),
+    [volumeProfileSettings, hasVolume, volumeProfileRange]
+  );
+
+  // TPO profiles from intraday bars (regular hours only when that's selected)
+  const profiles = useMemo(
+    () => (profileSettings.enabled && barInterval !== '1d' ? marketProfiles(indicatorBars, profileSettings) : []),
+    [profileSettings, barInterval, indicatorBars]
+  );
+
+  // Indicator levels plus the latest profile's POC, value area and initial balance
+  const chartPriceLevels: PriceLevel[] = useMemo(() => {
+    const latest = profiles[profiles.length - 1];
+    if (!latest || !profileSettings.levels) return priceLevels;
+    const levels: PriceLevel[] = [
+      { label: 'POC', price: latest.poc, color: 'rgba(255, 193, 7, 0.9)' },
+      { label: 'VAH', price: latest.valueAreaHigh, color: 'rgba(66, 165, 245, 0.8)' },
+      { label: 'VAL', price: latest.valueAreaLow, color: 'rgba(66, 165, 245, 0.8)' },
+    ];
+    if (latest.initialBalance) {
+      levels.push(
+        { label: 'IBH', price: latest.initialBalance.high, color: 'rgba(171, 71, 188, 0.7)' },
+        { label: 'IBL', price: latest.initialBalance.low, color: 'rgba(171, 71, 188, 0.7)' }
+      );
+    }
+    return [...priceLevels, ...levels];
+  }, [priceLevels, profiles, profileSettings.levels]);
+
+  // Anchors after the bar replay cursor have no bars yet, so they stay empty
+  const anchoredVwaps = useMemo(() =>
+    vwapAnchors.map(anchor => ({
+      id: anchor.id,
+      color: anchor.color,
+      values: fitToChart(AnchoredVWAP(indicatorBars, anchor.time)),
+    })),
+    [vwapAnchors, indicatorBars, fitToChart]
+  );
+  
+  // Live updates for the latest bars (streamed klines for crypto, polling otherwise).
+  // BTC/ETH quotes need the cross rate per bar, so they always poll.
+  const liveCandles = useLiveCandles({
+    assetClass: getAssetClass(selectedAsset),
+    symbol: selectedAsset,
+    interval: barInterval,
+    since: ohlcvData.length > 0 ? ohlcvData[ohlcvData.length - 1].time : 0,
+    enabled: !loading && !barReplay.active && chartCurrency === quoteCurrency,
+    stream: QUOTE_CURRENCIES[quoteCurrency].kind === 'fiat' && usdConversion.currency === quoteCurrency,
+    usdRate: usdConversion.rate,
+    fetchOptions: { adjusted, extendedHours, currency: quoteCurrency },
+  });
+
+  // The loaded series; indicator cursors are dropped when it changes
+  const seriesKey = `${selectedAsset}:${barInterval}:${adjusted}:${extendedHours}:${quoteCurrency}`;
+
+  // Values for the live bars, so line overlays extend with price. Regular-hours-only
+  // overlays are left as loaded. Each overlay keeps a cursor, replaced when its
+  // parameters or the series change, that only feeds bars changed since the last tick.
+  const liveCursorsRef = useRef(new Map<string, { params: string; cursor: BarSeriesCursor<OHLCV, IndicatorValues> }>());
+  const liveCursorsSeriesRef = useRef(seriesKey);
+
+  const liveOverlays: LiveOverlayPoint[] = useMemo(() => {
+    const live = liveCandles.bars;
+    if (live.length === 0 || regularOnly) return [];
+
+    const merged = [...ohlcvData.filter(d => d.time < live[0].time), ...live];
+    const start = merged.length - live.length;
+    const cursors = liveCursorsRef.current;
+    if (liveCursorsSeriesRef.current !== seriesKey) {
+      cursors.clear();
+      liveCursorsSeriesRef.current = seriesKey;
+    }
+    cursors.forEach((_, id) => {
+      if (!overlays.some(overlay => overlay.id === id)) cursors.delete(id);
+    });
+
+    const streamed = overlays.flatMap(({ id, definition, params }) => {
+      const stream = definition.stream;
+      const keys = definition.outputs
+        .filter(output => (output.style ?? 'line') === 'line' || output.style === 'dashed')
+        .map(output => output.key);
+      if (!stream || keys.length === 0) return [];
+
+      const paramsKey = JSON.stringify(params);
+      let entry = cursors.get(id);
+      if (!entry || entry.params !== paramsKey) {
+        entry = { params: paramsKey, cursor: new BarSeriesCursor(() => stream(params, indicatorContext), (bar: OHLCV) => bar) };
+        cursors.set(id, entry);
+      }
+      return [{ id, keys, values: entry.cursor.sync(merged) }];
+    });
+
+    return live.map((bar, j) => {
+      const values: Record<string, number> = {};
+      streamed.forEach(({ id, keys, values: series }) => {
+        keys.forEach(key => { values[overlayKey(id, key)] = series[start + j][key]; });
+      });
+      return { time: bar.time, values };
+    });
+  }, [liveCandles.bars, ohlcvData, overlays, regularOnly, indicatorContext, seriesKey]);
   
   // Calculate RSI for display (memoized)
   const currentRSI = useMemo(() => {
@@ -270,20 +523,9 @@ export default function Home() {
     return macdData.histogram[macdData.histogram.length - 1];
   }, [ohlcvData]);
   
-  // Calculate Fibonacci levels (memoized)
-  const fibonacciLevels: FibonacciLevel[] = useMemo(() => 
-    activeIndicators.includes('fib') 
-      ? FibonacciRetracement(ohlcvData)
-      : [],
-    [ohlcvData, activeIndicators]
-  );
-  
-  const toggleIndicator = useCallback((indicator: string) => {
-    setActiveIndicators(prev => 
-      prev.includes(indicator)
-        ? prev.filter(i => i !== indicator)
-        : [...prev, indicator]
-    );
+  // Keyboard shortcuts toggle by token ("sma:50", "rsi")
+  const toggleIndicator = useCallback((token: string) => {
+    setIndicatorInstances(prev => toggleIndicatorToken(prev, token));
   }, []);
 
   // Screenshot function (memoized)
@@ -292,12 +534,12 @@ export default function Home() {
       const dataUrl = chartRef.current.takeScreenshot();
       if (dataUrl) {
         const link = document.createElement('a');
-        link.download = `chartwise-${selectedAsset}-${timeframe}-${Date.now()}.png`;
+        link.download = `chartwise-${selectedAsset}-${timeframe}-${barInterval}-${Date.now()}.png`;
         link.href = dataUrl;
         link.click();
       }
     }
-  }, [selectedAsset, timeframe]);
+  }, [selectedAsset, timeframe, barInterval]);
 
   // Keyboard shortcuts
   useKeyboardShortcuts({
@@ -349,8 +591,9 @@ export default function Home() {
             <ShareButton
               symbol={selectedAsset}
               timeframe={timeframe}
+              interval={barInterval}
               chartType={chartType}
-              indicators={activeIndicators}
+              indicators={serializeIndicators(indicatorInstances)}
               onGetScreenshot={() => chartRef.current?.takeScreenshot() || null}
             />
             <button
@@ -378,6 +621,7 @@ export default function Home() {
                       assetInfo,
                       aiAnalysis,
                       chartScreenshot: screenshot,
+                      currency: chartCurrency,
                     });
                   });
                 }
@@ -412,17 +656,31 @@ export default function Home() {
               currentConfig={{
                 asset: selectedAsset,
                 timeframe,
+                interval: barInterval,
                 chartType,
-                indicators: activeIndicators,
+                barTransform,
+                indicators: serializeIndicators(indicatorInstances),
               }}
               onLoadTemplate={(config) => {
                 setSelectedAsset(config.asset);
                 setTimeframe(config.timeframe);
+                setBarInterval(config.interval || '1d');
                 setChartType(config.chartType);
-                setActiveIndicators(config.indicators);
+                setBarTransform({ ...DEFAULT_BAR_TRANSFORM, ...config.barTransform });
+                setIndicatorInstances(parseIndicators(config.indicators));
               }}
             />
-            {mounted && <SettingsPanel theme={theme} onToggleTheme={toggleTheme} />}
+            {mounted && (
+              <SettingsPanel
+                theme={theme}
+                onToggleTheme={toggleTheme}
+                quoteCurrency={quoteCurrency}
+                onQuoteCurrencyChange={setQuoteCurrency}
+                streamTransport={streamTransport}
+                streamTransportError={streamTransportError}
+                onStreamTransportChange={setStreamTransport}
+              />
+            )}
           </div>
         </div>
         
@@ -486,7 +744,7 @@ export default function Home() {
           </div>
         </div>
         
-        {/* Timeframe Selector */}
+        {/* Timeframe & Bar Interval Selector */}
         <div className="asset-scroll flex flex-nowrap gap-2 overflow-x-auto pb-2 no-scrollbar">
           {TIMEFRAMES.map(tf => (
             <button
@@ -501,6 +759,63 @@ export default function Home() {
               {TIMEFRAME_LABELS[tf] || tf}
             </button>
           ))}
+          <div className="w-px h-6 bg-gray-600 flex-shrink-0 self-center" />
+          {INTERVALS.map(iv => (
+            <button
+              key={iv}
+              onClick={() => setBarInterval(iv)}
+              title={`${CANDLE_INTERVALS[iv].label} bars`}
+              className={`px-3 py-1 rounded text-sm transition-all flex-shrink-0 ${
+                barInterval === iv
+                  ? 'bg-[#2962ff] text-white'
+                  : 'bg-[var(--bg-card)] text-[var(--text-secondary)] hover:bg-[var(--bg-hover)]'
+              }`}
+            >
+              {CANDLE_INTERVALS[iv].label}
+            </button>
+          ))}
+          {getAssetClass(selectedAsset) === 'stock' && (
+            <>
+              <div className="w-px h-6 bg-gray-600 flex-shrink-0 self-center" />
+              <button
+                onClick={() => setAdjusted(a => !a)}
+                title={adjusted ? 'Prices adjusted for splits and dividends' : 'Raw traded prices'}
+                className={`px-3 py-1 rounded text-sm transition-all flex-shrink-0 ${
+                  adjusted
+                    ? 'bg-[#2962ff] text-white'
+                    : 'bg-[var(--bg-card)] text-[var(--text-secondary)] hover:bg-[var(--bg-hover)]'
+                }`}
+              >
+                {adjusted ? 'Adjusted' : 'Unadjusted'}
+              </button>
+              {barInterval !== '1d' && (
+                <button
+                  onClick={() => setExtendedHours(e => !e)}
+                  title="Include pre-market and after-hours bars"
+                  className={`px-3 py-1 rounded text-sm transition-all flex-shrink-0 ${
+                    extendedHours
+                      ? 'bg-[#2962ff] text-white'
+                      : 'bg-[var(--bg-card)] text-[var(--text-secondary)] hover:bg-[var(--bg-hover)]'
+                  }`}
+                >
+                  Ext Hours
+                </button>
+              )}
+              {barInterval !== '1d' && extendedHours && (
+                <button
+                  onClick={() => setRthIndicators(r => !r)}
+                  title="Compute indicators over regular trading hours only"
+                  className={`px-3 py-1 rounded text-sm transition-all flex-shrink-0 ${
+                    rthIndicators
+                      ? 'bg-[#2962ff] text-white'
+                      : 'bg-[var(--bg-card)] text-[var(--text-secondary)] hover:bg-[var(--bg-hover)]'
+                  }`}
+                >
+                  RTH Indicators
+                </button>
+              )}
+            </>
+          )}
         </div>
       </header>
 
@@ -522,10 +837,12 @@ export default function Home() {
       {assetInfo && (
         <div className="price-grid grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
           <div className="bg-[var(--bg-card)] rounded-lg p-4">
-            <div className="text-sm text-[var(--text-secondary)] mb-1">Price</div>
+            <div className="text-sm text-[var(--text-secondary)] mb-1">Price ({infoCurrency})</div>
             <LivePriceIndicator
               symbol={selectedAsset}
               fallbackPrice={assetInfo.price}
+              currency={infoCurrency}
+              usdRate={infoCurrency === usdConversion.currency ? usdConversion.rate : 1}
               onPriceUpdate={(price) => {
                 setAssetPrices(prev => ({ ...prev, [selectedAsset]: price }));
               }}
@@ -539,11 +856,11 @@ export default function Home() {
           </div>
           <div className="bg-[var(--bg-card)] rounded-lg p-4">
             <div className="text-sm text-[var(--text-secondary)] mb-1">24h High</div>
-            <div className="text-xl font-medium">${assetInfo.high24h.toLocaleString()}</div>
+            <div className="text-xl font-medium">{formatMoney(assetInfo.high24h, infoCurrency)}</div>
           </div>
           <div className="bg-[var(--bg-card)] rounded-lg p-4">
             <div className="text-sm text-[var(--text-secondary)] mb-1">24h Low</div>
-            <div className="text-xl font-medium">${assetInfo.low24h.toLocaleString()}</div>
+            <div className="text-xl font-medium">{formatMoney(assetInfo.low24h, infoCurrency)}</div>
           </div>
         </div>
       )}
@@ -563,7 +880,7 @@ export default function Home() {
         <div className="mb-6">
           <PriceAlerts
             symbol={selectedAsset}
-            currentPrice={assetInfo.price}
+            currentPrice={usdPrice}
             alerts={alerts}
             onAddAlert={addAlert}
             onRemoveAlert={removeAlert}
@@ -578,8 +895,9 @@ export default function Home() {
           <ErrorBoundary componentName="Alert Conditions">
             <AlertConditionsBuilder
               symbol={selectedAsset}
+              seriesKey={seriesKey}
               data={ohlcvData}
-              currentPrice={assetInfo.price}
+              currentPrice={chartPrice}
             />
           </ErrorBoundary>
         </div>
@@ -595,14 +913,14 @@ export default function Home() {
       )}
 
       {/* Funding Rate, Liquidation Levels & Fear/Greed for crypto */}
-      {assetInfo && assets.find(a => a.symbol === selectedAsset)?.type === 'crypto' && (
+      {assetInfo && getAssetClass(selectedAsset) === 'crypto' && (
         <>
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-6">
             <ErrorBoundary componentName="Funding Rate">
               <FundingRate symbol={selectedAsset} />
             </ErrorBoundary>
             <ErrorBoundary componentName="Liquidation Levels">
-              <LiquidationLevels symbol={selectedAsset} currentPrice={assetInfo.price} />
+              <LiquidationLevels symbol={selectedAsset} currentPrice={usdPrice} />
             </ErrorBoundary>
             <ErrorBoundary componentName="Fear & Greed Index">
               <FearGreedIndex />
@@ -612,7 +930,7 @@ export default function Home() {
       )}
 
       {/* Trade Tape, Open Interest, Long/Short Ratio & Whale Tracker for crypto */}
-      {assets.find(a => a.symbol === selectedAsset)?.type === 'crypto' && (
+      {getAssetClass(selectedAsset) === 'crypto' && (
         <>
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-6">
             <ErrorBoundary componentName="Trade Tape">
@@ -644,6 +962,8 @@ export default function Home() {
             onRemove={removeHolding}
             onSelectAsset={setSelectedAsset}
             availableSymbols={assets.map(a => a.symbol)}
+            currency={usdConversion.currency}
+            usdRate={usdConversion.rate}
           />
           {holdings.length > 0 && (
             <div className="mb-6">
@@ -729,7 +1049,7 @@ export default function Home() {
                   }`}
                 >
                   <div className="text-xs text-[var(--text-secondary)] uppercase">{sr.type}</div>
-                  <div className="font-medium">${sr.price.toFixed(2)}</div>
+                  <div className="font-medium">{formatMoney(sr.price, chartCurrency)}</div>
                   <div className="text-xs text-gray-500">{sr.touches} touches</div>
                 </div>
               ))}
@@ -760,7 +1080,7 @@ export default function Home() {
       {ohlcvData.length > 50 && assetInfo && (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-6">
           <ErrorBoundary componentName="AI Trade Signals">
-            <AITradeSignals data={ohlcvData} symbol={selectedAsset} currentPrice={assetInfo.price} />
+            <AITradeSignals data={ohlcvData} symbol={selectedAsset} currentPrice={chartPrice} />
           </ErrorBoundary>
           <ErrorBoundary componentName="Regime Detector">
             <RegimeDetector data={ohlcvData} symbol={selectedAsset} />
@@ -769,7 +1089,7 @@ export default function Home() {
       )}
 
       {/* Options Flow & Orderbook Depth (crypto only) */}
-      {assets.find(a => a.symbol === selectedAsset)?.type === 'crypto' && (
+      {getAssetClass(selectedAsset) === 'crypto' && (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-6">
           <ErrorBoundary componentName="Options Flow">
             <OptionsFlow symbol={selectedAsset} />
@@ -848,7 +1168,7 @@ export default function Home() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-6">
         <PatternDetector data={ohlcvData} symbol={selectedAsset} />
         <DivergenceDetector data={ohlcvData} symbol={selectedAsset} />
-        <VolumeProfile data={ohlcvData} currentPrice={assetInfo?.price || 0} />
+        <VolumeProfile data={ohlcvData} currentPrice={chartPrice} />
       </div>
 
       {/* Multi-Timeframe Analysis & Chart Annotations */}
@@ -878,14 +1198,14 @@ export default function Home() {
           </ErrorBoundary>
         </div>
         <div className="md:col-span-2 lg:col-span-1">
-          <TradingJournal symbol={selectedAsset} currentPrice={assetInfo?.price || 0} />
+          <TradingJournal symbol={selectedAsset} currentPrice={usdPrice} />
         </div>
       </div>
       
       {/* Quick Stats Bar */}
       {ohlcvData.length > 20 && (
         <div className="mb-4">
-          <QuickStats data={ohlcvData} symbol={selectedAsset} />
+          <QuickStats data={ohlcvData} symbol={selectedAsset} sessionSummary={sessionSummary} />
         </div>
       )}
 
@@ -899,6 +1219,11 @@ export default function Home() {
             { id: 'heikinashi', label: '🔥', title: 'Heikin Ashi' },
             { id: 'line', label: '📈', title: 'Line' },
             { id: 'area', label: '📊', title: 'Area' },
+            { id: 'renko', label: '🧱', title: 'Renko' },
+            { id: 'kagi', label: '〽️', title: 'Kagi' },
+            { id: 'pointfigure', label: '⭕', title: 'Point & Figure' },
+            { id: 'linebreak', label: '📶', title: 'Line Break' },
+            { id: 'range', label: '↕️', title: 'Range bars' },
           ].map(type => (
             <button
               key={type.id}
@@ -914,33 +1239,39 @@ export default function Home() {
             </button>
           ))}
         </div>
+        <button
+          onClick={() => updateProfileSettings({ enabled: !profileSettings.enabled })}
+          className={`indicator-pill flex-shrink-0 ${profileSettings.enabled ? 'active' : ''}`}
+          title="Market Profile (TPO)"
+        >
+          TPO
+        </button>
+        <VolumeProfileControls
+          settings={volumeProfileSettings}
+          onChange={updateVolumeProfileSettings}
+          hasVolume={hasVolume}
+          hasRange={!!volumeProfileRange}
+          selecting={selectingVolumeRange}
+          onToggleSelecting={() => setSelectingVolumeRange(s => !s)}
+          onClearRange={clearVolumeProfileRange}
+        />
+        {isBarTransform(chartType) && (
+          <BarTransformControls
+            type={chartType}
+            settings={barTransform}
+            onChange={setBarTransform}
+            atrBoxSize={atrBoxSize}
+          />
+        )}
         
         <div className="w-px h-6 bg-gray-600" />
         
         {/* Indicators */}
-        <span className="text-sm text-[var(--text-secondary)]">Indicators:</span>
-        {[
-          { id: 'sma20', label: 'SMA 20' },
-          { id: 'sma50', label: 'SMA 50' },
-          { id: 'ema', label: 'EMA 12/26' },
-          { id: 'bb', label: 'Bollinger' },
-          { id: 'vwap', label: 'VWAP' },
-          { id: 'fib', label: 'Fibonacci' },
-          { id: 'ichimoku', label: 'Ichimoku' },
-          { id: 'rsi', label: 'RSI' },
-          { id: 'macd', label: 'MACD' },
-          { id: 'stochRsi', label: 'Stoch RSI' },
-          { id: 'atr', label: 'ATR' },
-          { id: 'obv', label: 'OBV' },
-        ].map(ind => (
-          <button
-            key={ind.id}
-            onClick={() => toggleIndicator(ind.id)}
-            className={`indicator-pill ${activeIndicators.includes(ind.id) ? 'active' : ''}`}
-          >
-            {ind.label}
-          </button>
-        ))}
+        <IndicatorToolbar
+          instances={indicatorInstances}
+          onChange={setIndicatorInstances}
+          hasVolume={hasVolume}
+        />
       </div>
       
       {/* Drawing Tools */}
@@ -953,11 +1284,41 @@ export default function Home() {
           onUndoDrawing={undoDrawing}
           drawingColor={drawingColor}
           onColorChange={setDrawingColor}
+          anchorCount={vwapAnchors.length}
+          onClearAnchors={clearAnchors}
+          wavePoints={currentDrawing?.type === 'elliott' ? placedPoints : undefined}
+          onFinishDrawing={() => finishDrawing()}
         />
       </div>
 
+      {/* Bar Replay */}
+      {!loading && (
+        <div className="mb-2">
+          <BarReplayControls
+            active={barReplay.active}
+            cursorTime={barReplay.cursorTime}
+            firstTime={loadedData[0]?.time}
+            lastTime={loadedData[loadedData.length - 1]?.time}
+            intraday={barInterval !== '1d'}
+            playing={barReplay.playing}
+            atEnd={barReplay.atEnd}
+            rate={barReplay.rate}
+            onStart={barReplay.start}
+            onStep={barReplay.step}
+            onTogglePlay={barReplay.togglePlay}
+            onRateChange={barReplay.setRate}
+            onExit={barReplay.exit}
+          />
+        </div>
+      )}
+
       {/* Main Chart */}
       <div className="mb-6">
+        {!loading && candleCache && (
+          <div className="flex justify-end mb-1">
+            <DataFreshness cache={candleCache} live={liveCandles.connected} />
+          </div>
+        )}
         {loading ? (
           <div className="chart-container h-[350px] sm:h-[500px] flex items-center justify-center">
             <div className="text-[var(--text-secondary)]">Loading chart...</div>
@@ -967,85 +1328,54 @@ export default function Home() {
             <Chart 
               ref={chartRef}
               data={ohlcvData} 
-              indicators={indicators}
+              overlays={overlays}
+              anchoredVwaps={anchoredVwaps}
+              priceLevels={chartPriceLevels}
               supportResistance={aiAnalysis?.supportResistance || []}
-              fibonacciLevels={fibonacciLevels}
+              events={corporateActions}
+              sessions={sessions}
+              liveBars={liveCandles.bars}
+              liveOverlays={liveOverlays}
+              preserveRange={barReplay.active}
               height={isMobile ? 350 : 500}
               chartType={chartType}
-              drawings={drawings}
+              barTransform={barTransform}
+              volumeProfile={volumeProfileOptions}
+              selectingVolumeRange={selectingVolumeRange && volumeProfileOptions?.mode === 'fixed'}
+              onVolumeRangeSelect={handleVolumeRangeSelect}
+              drawings={chartDrawings}
               activeTool={activeTool}
               drawingColor={drawingColor}
               currentDrawing={currentDrawing}
               onDrawingStart={handleDrawingStart}
               onDrawingMove={handleDrawingMove}
               onDrawingEnd={handleDrawingEnd}
+              onAnchorPlace={handleAnchorPlace}
             />
           </div>
         )}
 
-        {/* Sub-chart Indicators */}
-        {!loading && ohlcvData.length > 20 && (
-          <>
-            {activeIndicators.includes('rsi') && (() => {
-              const rsiData = RSI(ohlcvData.map(d => d.close));
-              return (
-                <IndicatorChart
-                  type="rsi"
-                  data={ohlcvData}
-                  rsiValues={rsiData}
-                  height={isMobile ? 120 : 150}
-                />
-              );
-            })()}
-            {activeIndicators.includes('macd') && (() => {
-              const macdResult = MACD(ohlcvData.map(d => d.close));
-              return (
-                <IndicatorChart
-                  type="macd"
-                  data={ohlcvData}
-                  macdLine={macdResult.macd}
-                  macdSignal={macdResult.signal}
-                  macdHistogram={macdResult.histogram}
-                  height={isMobile ? 120 : 150}
-                />
-              );
-            })()}
-            {activeIndicators.includes('stochRsi') && (() => {
-              const stochData = StochasticRSI(ohlcvData.map(d => d.close));
-              return (
-                <IndicatorChart
-                  type="stochRsi"
-                  data={ohlcvData}
-                  stochK={stochData.k}
-                  stochD={stochData.d}
-                  height={isMobile ? 120 : 150}
-                />
-              );
-            })()}
-            {activeIndicators.includes('atr') && (() => {
-              const atrData = ATR(ohlcvData);
-              return (
-                <IndicatorChart
-                  type="atr"
-                  data={ohlcvData}
-                  atrValues={atrData}
-                  height={isMobile ? 120 : 150}
-                />
-              );
-            })()}
-            {activeIndicators.includes('obv') && (() => {
-              const obvData = OBV(ohlcvData);
-              return (
-                <IndicatorChart
-                  type="obv"
-                  data={ohlcvData}
-                  obvValues={obvData}
-                  height={isMobile ? 120 : 150}
-                />
-              );
-            })()}
-          </>
+        {/* Market Profile */}
+        {!loading && profileSettings.enabled && (
+          <MarketProfileChart
+            profiles={profiles}
+            settings={profileSettings}
+            onChange={updateProfileSettings}
+            intraday={barInterval !== '1d'}
+          />
         )}
+
+        {/* Sub-chart Indicators */}
+        {!loading && indicatorBars.length > 20 && indicatorPanes.map(pane => (
+          <IndicatorChart
+            key={pane.id}
+            definition={pane.definition}
+            params={pane.params}
+            data={indicatorBars}
+            values={pane.values}
+            height={isMobile ? 120 : 150}
+          />
+        ))}
       </div>
       
       {/* Technical Indicators Panel */}
@@ -1077,14 +1407,14 @@ export default function Home() {
         <div className="bg-[var(--bg-card)] rounded-lg p-4">
           <div className="text-sm text-[var(--text-secondary)] mb-1">Volume (24h)</div>
           <div className="text-2xl font-bold">
-            ${assetInfo?.volume24h ? (assetInfo.volume24h / 1e9).toFixed(2) + 'B' : '—'}
+            {formatMoneyCompact(assetInfo?.volume24h || 0, infoCurrency)}
           </div>
         </div>
         
         <div className="bg-[var(--bg-card)] rounded-lg p-4">
           <div className="text-sm text-[var(--text-secondary)] mb-1">Market Cap</div>
           <div className="text-2xl font-bold">
-            ${assetInfo?.marketCap ? (assetInfo.marketCap / 1e9).toFixed(0) + 'B' : '—'}
+            {formatMoneyCompact(assetInfo?.marketCap || 0, infoCurrency)}
           </div>
         </div>
       </div>
@@ -1,7 +1,7 @@
 'use client';
 
 import { useMemo, useEffect, useState } from 'react';
-import { OHLCV, RSI, MACD, SMA, EMA, BollingerBands, ATR, OBV, StochasticRSI } from '@/utils/indicators';
+import { OHLCV, RSI, MACD, SMA, EMA, BollingerBands, ATR, OBV, StochasticRSI, ADX } from '@/utils/indicators';
 import { useNews, NewsItem } from '@/hooks/useNews';
 
 interface Signal {
@@ -202,22 +202,19 @@ function generateSignals(data: OHLCV[], currentPrice: number, news: NewsItem[]):
     }
   }
 
-  // 8. Trend Strength (ADX-like using directional movement)
-  const last20 = data.slice(-21);
-  let upMoves = 0, downMoves = 0;
-  for (let i = 1; i < last20.length; i++) {
-    if (last20[i].close > last20[i - 1].close) upMoves++;
-    else downMoves++;
-  }
-  const trendBias = (upMoves - downMoves) / 20;
+  // 8. Trend Strength (ADX with +DI / -DI for direction)
+  const dmi = ADX(data);
+  const lastAdx = dmi.adx[dmi.adx.length - 1];
+  const lastPlusDI = dmi.plusDI[dmi.plusDI.length - 1];
+  const lastMinusDI = dmi.minusDI[dmi.minusDI.length - 1];
 
-  if (Math.abs(trendBias) > 0.3) {
-    const type = trendBias > 0 ? 'bullish' : 'bearish';
+  if (!isNaN(lastAdx) && lastAdx > 25 && lastPlusDI !== lastMinusDI) {
+    const type = lastPlusDI > lastMinusDI ? 'bullish' : 'bearish';
     signals.push({
-      name: trendBias > 0 ? 'Strong Uptrend' : 'Strong Downtrend',
+      name: type === 'bullish' ? 'Strong Uptrend' : 'Strong Downtrend',
       type,
-      strength: Math.min(Math.abs(trendBias) * 100, 80),
-      description: `${upMoves} up days vs ${downMoves} down days in last 20 — ${type} bias`,
+      strength: Math.min(lastAdx * 2, 80),
+      description: `ADX ${lastAdx.toFixed(0)} with ${type === 'bullish' ? '+DI above -DI' : '-DI above +DI'} — ${type} trend in force`,
       indicator: 'Trend',
     });
   }
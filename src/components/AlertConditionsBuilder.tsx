@@ -1,17 +1,42 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { OHLCV, RSI, MACD, SMA, BollingerBands } from '@/utils/indicators';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { OHLCV, PivotMethod, PivotPoints } from '@/utils/indicators';
+import {
+  BarSeriesCursor,
+  IncrementalADX,
+  IncrementalBollingerBands,
+  IncrementalDonchianChannels,
+  IncrementalKeltnerChannels,
+  IncrementalMACD,
+  IncrementalParabolicSAR,
+  IncrementalRSI,
+  IncrementalSMA,
+  IncrementalSqueeze,
+  IncrementalSupertrend,
+  SessionPeriod,
+  StreamingIndicator,
+  TrailingStopPoint,
+} from '@/utils/indicatorEngine';
 import { safeGetJSON, safeSetJSON } from '@/utils/storage';
 
 type ConditionType = 'rsi_above' | 'rsi_below' | 'macd_cross_up' | 'macd_cross_down' | 
                      'price_above_sma' | 'price_below_sma' | 'bb_upper_touch' | 'bb_lower_touch' |
-                     'volume_spike' | 'price_change_pct';
+                     'volume_spike' | 'price_change_pct' | 'adx_above' | 'supertrend_flip_up' | 'supertrend_flip_down' |
+                     'sar_flip_up' | 'sar_flip_down' | 'keltner_upper_break' | 'keltner_lower_break' |
+                     'donchian_breakout' | 'donchian_breakdown' | 'squeeze_fired' | 'pivot_above' | 'pivot_below';
+
+interface PivotTarget {
+  method: PivotMethod;
+  timeframe: SessionPeriod;
+  level: string; // 'P', 'R1', 'S2', ...
+}
 
 interface AlertCondition {
   id: string;
   type: ConditionType;
   value: number;
+  pivot?: PivotTarget; // pivot_* conditions only
   symbol: string;
   name: string;
   description: string;
@@ -23,6 +48,7 @@ interface AlertCondition {
 
 interface AlertConditionsBuilderProps {
   symbol: string;
+  seriesKey?: string; // symbol plus data options; indicator cursors restart when it changes
   data: OHLCV[];
   currentPrice: number;
   className?: string;
@@ -39,63 +65,123 @@ const CONDITION_TEMPLATES: { type: ConditionType; name: string; description: str
   { type: 'bb_lower_touch', name: 'BB Lower Band Touch', description: 'Price touches Bollinger lower band', defaultValue: 20, unit: 'period' },
   { type: 'volume_spike', name: 'Volume Spike', description: 'Volume exceeds average by multiplier', defaultValue: 2, unit: 'x avg' },
   { type: 'price_change_pct', name: 'Price Change %', description: 'Price changes by more than %', defaultValue: 5, unit: '%' },
+  { type: 'adx_above', name: 'ADX Trending', description: 'ADX (14) rises above threshold', defaultValue: 25, unit: '' },
+  { type: 'supertrend_flip_up', name: 'Supertrend Bullish', description: 'Supertrend flips to uptrend', defaultValue: 3, unit: 'x ATR' },
+  { type: 'supertrend_flip_down', name: 'Supertrend Bearish', description: 'Supertrend flips to downtrend', defaultValue: 3, unit: 'x ATR' },
+  { type: 'sar_flip_up', name: 'SAR Bullish Flip', description: 'Parabolic SAR moves below price', defaultValue: 0, unit: '' },
+  { type: 'sar_flip_down', name: 'SAR Bearish Flip', description: 'Parabolic SAR moves above price', defaultValue: 0, unit: '' },
+  { type: 'keltner_upper_break', name: 'Keltner Upper Break', description: 'Price closes above Keltner upper band', defaultValue: 20, unit: 'period' },
+  { type: 'keltner_lower_break', name: 'Keltner Lower Break', description: 'Price closes below Keltner lower band', defaultValue: 20, unit: 'period' },
+  { type: 'donchian_breakout', name: 'Donchian Breakout', description: 'Price breaks the prior N-bar high', defaultValue: 20, unit: 'period' },
+  { type: 'donchian_breakdown', name: 'Donchian Breakdown', description: 'Price breaks the prior N-bar low', defaultValue: 20, unit: 'period' },
+  { type: 'squeeze_fired', name: 'Squeeze Fired', description: 'Bollinger Bands expand back outside Keltner', defaultValue: 20, unit: 'period' },
+  { type: 'pivot_above', name: 'Price Above Pivot', description: 'Price rises above a pivot level', defaultValue: 0, unit: '' },
+  { type: 'pivot_below', name: 'Price Below Pivot', description: 'Price falls below a pivot level', defaultValue: 0, unit: '' },
+];
+
+const PIVOT_METHODS: { id: PivotMethod; label: string }[] = [
+  { id: 'classic', label: 'Classic' },
+  { id: 'fibonacci', label: 'Fibonacci' },
+  { id: 'camarilla', label: 'Camarilla' },
+  { id: 'woodie', label: 'Woodie' },
+  { id: 'demark', label: 'DeMark' },
+];
+
+const PIVOT_TIMEFRAMES: { id: SessionPeriod; label: string }[] = [
+  { id: 'day', label: 'daily' },
+  { id: 'week', label: 'weekly' },
+  { id: 'month', label: 'monthly' },
 ];
 
+function pivotTargetLabel(target: PivotTarget): string {
+  const method = PIVOT_METHODS.find(m => m.id === target.method)?.label;
+  const timeframe = PIVOT_TIMEFRAMES.find(t => t.id === target.timeframe)?.label;
+  return `${method} ${timeframe} ${target.level}`;
+}
+
 const STORAGE_KEY = 'chartwise-alert-conditions';
 
-function checkCondition(condition: AlertCondition, data: OHLCV[], currentPrice: number): boolean {
+// One incremental series per indicator and period, shared by all conditions and kept
+// in step with `data` (a check only feeds bars that are new since the last one)
+type CursorMap = Map<string, BarSeriesCursor<any, any>>;
+
+function closeSeries<Out>(cursors: CursorMap, key: string, data: OHLCV[], create: () => StreamingIndicator<number, Out>): Out[] {
+  let cursor = cursors.get(key) as BarSeriesCursor<number, Out> | undefined;
+  if (!cursor) {
+    cursor = new BarSeriesCursor(create, bar => bar.close);
+    cursors.set(key, cursor);
+  }
+  return cursor.sync(data);
+}
+
+function candleSeries<Out>(cursors: CursorMap, key: string, data: OHLCV[], create: () => StreamingIndicator<OHLCV, Out>): Out[] {
+  let cursor = cursors.get(key) as BarSeriesCursor<OHLCV, Out> | undefined;
+  if (!cursor) {
+    cursor = new BarSeriesCursor(create, bar => bar);
+    cursors.set(key, cursor);
+  }
+  return cursor.sync(data);
+}
+
+// Trend side changed on the latest bar
+function flipped(points: TrailingStopPoint[], toUptrend: boolean): boolean {
+  const len = points.length;
+  if (len < 2 || isNaN(points[len - 2].value) || isNaN(points[len - 1].value)) return false;
+  return points[len - 2].uptrend !== toUptrend && points[len - 1].uptrend === toUptrend;
+}
+
+function checkCondition(condition: AlertCondition, data: OHLCV[], currentPrice: number, cursors: CursorMap): boolean {
   if (data.length < 30) return false;
-  const closes = data.map(d => d.close);
   
   switch (condition.type) {
     case 'rsi_above': {
-      const rsiValues = RSI(closes);
+      const rsiValues = closeSeries(cursors, 'rsi', data, () => new IncrementalRSI());
       const currentRsi = rsiValues[rsiValues.length - 1];
       return !isNaN(currentRsi) && currentRsi > condition.value;
     }
     case 'rsi_below': {
-      const rsiValues = RSI(closes);
+      const rsiValues = closeSeries(cursors, 'rsi', data, () => new IncrementalRSI());
       const currentRsi = rsiValues[rsiValues.length - 1];
       return !isNaN(currentRsi) && currentRsi < condition.value;
     }
     case 'macd_cross_up': {
-      const macd = MACD(closes);
-      const len = macd.histogram.length;
+      const macd = closeSeries(cursors, 'macd', data, () => new IncrementalMACD());
+      const len = macd.length;
       if (len < 2) return false;
-      const prev = macd.histogram[len - 2];
-      const curr = macd.histogram[len - 1];
+      const prev = macd[len - 2].histogram;
+      const curr = macd[len - 1].histogram;
       return !isNaN(prev) && !isNaN(curr) && prev <= 0 && curr > 0;
     }
     case 'macd_cross_down': {
-      const macd = MACD(closes);
-      const len = macd.histogram.length;
+      const macd = closeSeries(cursors, 'macd', data, () => new IncrementalMACD());
+      const len = macd.length;
       if (len < 2) return false;
-      const prev = macd.histogram[len - 2];
-      const curr = macd.histogram[len - 1];
+      const prev = macd[len - 2].histogram;
+      const curr = macd[len - 1].histogram;
       return !isNaN(prev) && !isNaN(curr) && prev >= 0 && curr < 0;
     }
     case 'price_above_sma': {
       const period = Math.max(5, Math.min(200, condition.value));
-      const sma = SMA(closes, period);
+      const sma = closeSeries(cursors, `sma:${period}`, data, () => new IncrementalSMA(period));
       const lastSma = sma[sma.length - 1];
       return !isNaN(lastSma) && currentPrice > lastSma;
     }
     case 'price_below_sma': {
       const period = Math.max(5, Math.min(200, condition.value));
-      const sma = SMA(closes, period);
+      const sma = closeSeries(cursors, `sma:${period}`, data, () => new IncrementalSMA(period));
       const lastSma = sma[sma.length - 1];
       return !isNaN(lastSma) && currentPrice < lastSma;
     }
     case 'bb_upper_touch': {
       const period = Math.max(5, Math.min(200, condition.value));
-      const bb = BollingerBands(closes, period);
-      const lastUpper = bb.upper[bb.upper.length - 1];
+      const bb = closeSeries(cursors, `bb:${period}`, data, () => new IncrementalBollingerBands(period));
+      const lastUpper = bb[bb.length - 1].upper;
       return !isNaN(lastUpper) && currentPrice >= lastUpper;
     }
     case 'bb_lower_touch': {
       const period = Math.max(5, Math.min(200, condition.value));
-      const bb = BollingerBands(closes, period);
-      const lastLower = bb.lower[bb.lower.length - 1];
+      const bb = closeSeries(cursors, `bb:${period}`, data, () => new IncrementalBollingerBands(period));
+      const lastLower = bb[bb.length - 1].lower;
       return !isNaN(lastLower) && currentPrice <= lastLower;
     }
     case 'volume_spike': {
@@ -111,6 +197,53 @@ function checkCondition(condition: AlertCondition, data: OHLCV[], currentPrice:
       const changePct = Math.abs((currentPrice - prevClose) / prevClose) * 100;
       return changePct >= condition.value;
     }
+    case 'adx_above': {
+      const dmi = candleSeries(cursors, 'adx', data, () => new IncrementalADX());
+      const lastAdx = dmi[dmi.length - 1].adx;
+      return !isNaN(lastAdx) && lastAdx > condition.value;
+    }
+    case 'supertrend_flip_up':
+    case 'supertrend_flip_down': {
+      const multiplier = Math.max(0.5, Math.min(10, condition.value));
+      const supertrend = candleSeries(cursors, `supertrend:${multiplier}`, data, () => new IncrementalSupertrend(10, multiplier));
+      return flipped(supertrend, condition.type === 'supertrend_flip_up');
+    }
+    case 'sar_flip_up':
+    case 'sar_flip_down': {
+      const sar = candleSeries(cursors, 'sar', data, () => new IncrementalParabolicSAR());
+      return flipped(sar, condition.type === 'sar_flip_up');
+    }
+    case 'keltner_upper_break':
+    case 'keltner_lower_break': {
+      const period = Math.max(5, Math.min(200, condition.value));
+      const keltner = candleSeries(cursors, `keltner:${period}`, data, () => new IncrementalKeltnerChannels(period));
+      const last = keltner[keltner.length - 1];
+      if (isNaN(last.upper)) return false;
+      return condition.type === 'keltner_upper_break' ? currentPrice > last.upper : currentPrice < last.lower;
+    }
+    case 'donchian_breakout':
+    case 'donchian_breakdown': {
+      // Against the channel as of the previous bar, which doesn't include the current one
+      const period = Math.max(5, Math.min(200, condition.value));
+      const donchian = candleSeries(cursors, `donchian:${period}`, data, () => new IncrementalDonchianChannels(period));
+      const prev = donchian[donchian.length - 2];
+      if (!prev || isNaN(prev.upper)) return false;
+      return condition.type === 'donchian_breakout' ? currentPrice > prev.upper : currentPrice < prev.lower;
+    }
+    case 'squeeze_fired': {
+      const period = Math.max(5, Math.min(200, condition.value));
+      const squeeze = candleSeries(cursors, `squeeze:${period}`, data, () => new IncrementalSqueeze(period));
+      return squeeze[squeeze.length - 1].fired;
+    }
+    case 'pivot_above':
+    case 'pivot_below': {
+      // Levels roll over with each new period, so the target is looked up by label
+      if (!condition.pivot) return false;
+      const { method, timeframe, level } = condition.pivot;
+      const target = PivotPoints(data, method, timeframe).find(l => l.label === level);
+      if (!target) return false;
+      return condition.type === 'pivot_above' ? currentPrice > target.price : currentPrice < target.price;
+    }
     default:
       return false;
   }
@@ -118,6 +251,7 @@ function checkCondition(condition: AlertCondition, data: OHLCV[], currentPrice:
 
 export default function AlertConditionsBuilder({
   symbol,
+  seriesKey = symbol,
   data,
   currentPrice,
   className = '',
@@ -125,7 +259,10 @@ export default function AlertConditionsBuilder({
   const [conditions, setConditions] = useState<AlertCondition[]>([]);
   const [isOpen, setIsOpen] = useState(false);
   const [showAdd, setShowAdd] = useState(false);
+  const [pivotDraft, setPivotDraft] = useState<{ type: ConditionType } & PivotTarget | null>(null);
   const [mounted, setMounted] = useState(false);
+  const cursorsRef = useRef<CursorMap>(new Map());
+  const cursorsSeriesRef = useRef(seriesKey);
 
   // Load from localStorage
   useEffect(() => {
@@ -141,16 +278,22 @@ export default function AlertConditionsBuilder({
   // Check conditions when data updates
   const checkedConditions = useMemo(() => {
     if (!mounted || data.length < 20) return conditions;
+    if (cursorsSeriesRef.current !== seriesKey) {
+      cursorsRef.current.clear();
+      cursorsSeriesRef.current = seriesKey;
+    }
     
     return conditions.map(condition => {
       if (!condition.active || condition.symbol !== symbol) return condition;
       
-      const isTriggered = checkCondition(condition, data, currentPrice);
+      const isTriggered = checkCondition(condition, data, currentPrice, cursorsRef.current);
       if (isTriggered && !condition.triggered) {
         // Notify
         if (typeof window !== 'undefined' && 'Notification' in window && Notification.permission === 'granted') {
           new Notification(`ChartWise: ${condition.name}`, {
-            body: `${symbol}: ${condition.description} (value: ${condition.value})`,
+            body: condition.pivot
+              ? `${symbol}: ${condition.description}`
+              : `${symbol}: ${condition.description} (value: ${condition.value})`,
             icon: '/favicon.ico',
           });
         }
@@ -162,7 +305,7 @@ export default function AlertConditionsBuilder({
       }
       return condition;
     });
-  }, [conditions, data, currentPrice, symbol, mounted]);
+  }, [conditions, data, currentPrice, symbol, seriesKey, mounted]);
 
   // Save when conditions change
   useEffect(() => {
@@ -171,7 +314,7 @@ export default function AlertConditionsBuilder({
     }
   }, [checkedConditions, conditions, mounted, save]);
 
-  const addCondition = useCallback((type: ConditionType, value: number) => {
+  const addCondition = useCallback((type: ConditionType, value: number, pivot?: PivotTarget) => {
     const template = CONDITION_TEMPLATES.find(t => t.type === type);
     if (!template) return;
 
@@ -179,9 +322,12 @@ export default function AlertConditionsBuilder({
       id: `cond-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
       type,
       value,
+      pivot,
       symbol,
       name: template.name,
-      description: template.description,
+      description: pivot
+        ? `Price ${type === 'pivot_above' ? 'above' : 'below'} ${pivotTargetLabel(pivot)}`
+        : template.description,
       active: true,
       triggered: false,
       createdAt: Date.now(),
@@ -189,8 +335,15 @@ export default function AlertConditionsBuilder({
 
     save([...conditions, newCondition]);
     setShowAdd(false);
+    setPivotDraft(null);
   }, [conditions, save, symbol]);
 
+  // Current levels for the pivot picker
+  const draftLevels = useMemo(
+    () => (pivotDraft ? PivotPoints(data, pivotDraft.method, pivotDraft.timeframe) : []),
+    [data, pivotDraft]
+  );
+
   const removeCondition = useCallback((id: string) => {
     save(conditions.filter(c => c.id !== id));
   }, [conditions, save]);
@@ -272,7 +425,7 @@ export default function AlertConditionsBuilder({
                         {cond.name}
                       </span>
                       <span className="text-xs text-[var(--text-secondary)] ml-2">
-                        {cond.value}{template?.unit || ''}
+                        {cond.pivot ? pivotTargetLabel(cond.pivot) : `${cond.value}${template?.unit || ''}`}
                       </span>
                     </div>
                     {cond.triggered && (
@@ -307,7 +460,9 @@ export default function AlertConditionsBuilder({
               {CONDITION_TEMPLATES.map(template => (
                 <button
                   key={template.type}
-                  onClick={() => addCondition(template.type, template.defaultValue)}
+                  onClick={() => template.type === 'pivot_above' || template.type === 'pivot_below'
+                    ? setPivotDraft({ type: template.type, method: 'classic', timeframe: 'day', level: 'P' })
+                    : addCondition(template.type, template.defaultValue)}
                   className="w-full flex items-center justify-between p-2 rounded-lg hover:bg-[var(--bg-card)] transition-colors text-left"
                 >
                   <div>
@@ -319,6 +474,47 @@ export default function AlertConditionsBuilder({
                   </span>
                 </button>
               ))}
+              {pivotDraft && (
+                <div className="flex flex-wrap items-center gap-1.5 p-2 rounded-lg bg-[var(--bg-card)]">
+                  <span className="text-xs text-[var(--text-secondary)]">
+                    {pivotDraft.type === 'pivot_above' ? 'Above' : 'Below'}
+                  </span>
+                  <select
+                    value={pivotDraft.method}
+                    onChange={(e) => setPivotDraft({ ...pivotDraft, method: e.target.value as PivotMethod, level: 'P' })}
+                    className="bg-[var(--bg-hover)] text-[var(--text-primary)] text-xs rounded px-1.5 py-1 border border-[var(--border)]"
+                  >
+                    {PIVOT_METHODS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                  </select>
+                  <select
+                    value={pivotDraft.timeframe}
+                    onChange={(e) => setPivotDraft({ ...pivotDraft, timeframe: e.target.value as SessionPeriod })}
+                    className="bg-[var(--bg-hover)] text-[var(--text-primary)] text-xs rounded px-1.5 py-1 border border-[var(--border)]"
+                  >
+                    {PIVOT_TIMEFRAMES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                  </select>
+                  <select
+                    value={pivotDraft.level}
+                    onChange={(e) => setPivotDraft({ ...pivotDraft, level: e.target.value })}
+                    className="bg-[var(--bg-hover)] text-[var(--text-primary)] text-xs rounded px-1.5 py-1 border border-[var(--border)]"
+                  >
+                    {draftLevels.map(l => (
+                      <option key={l.label} value={l.label}>{l.label} · {l.price.toFixed(2)}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => addCondition(pivotDraft.type, 0, {
+                      method: pivotDraft.method,
+                      timeframe: pivotDraft.timeframe,
+                      level: pivotDraft.level,
+                    })}
+                    disabled={!draftLevels.some(l => l.label === pivotDraft.level)}
+                    className="ml-auto px-2 py-1 text-xs rounded bg-blue-500/20 text-blue-400 hover:bg-blue-500/30 disabled:opacity-40"
+                  >
+                    Add
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </div>
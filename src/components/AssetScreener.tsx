@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
-import axios from 'axios';
+import { fetchTopCoinMarkets } from '@/lib/api';
 import { RSI, SMA } from '@/utils/indicators';
 
 interface ScreenerAsset {
@@ -32,8 +32,6 @@ interface AssetScreenerProps {
   onSelectAsset?: (symbol: string) => void;
 }
 
-const COINGECKO_BASE = 'https://api.coingecko.com/api/v3';
-
 function formatNumber(num: number): string {
   if (num >= 1e12) return `$${(num / 1e12).toFixed(2)}T`;
   if (num >= 1e9) return `$${(num / 1e9).toFixed(2)}B`;
@@ -75,21 +73,11 @@ export default function AssetScreener({ onSelectAsset }: AssetScreenerProps) {
     async function fetchScreenerData() {
       setLoading(true);
       setError(null);
-      try {
-        const response = await axios.get(`${COINGECKO_BASE}/coins/markets`, {
-          params: {
-            vs_currency: 'usd',
-            order: 'market_cap_desc',
-            per_page: 100,
-            page,
-            sparkline: true,
-            price_change_percentage: '7d',
-          },
-        });
-        setAssets(response.data);
-      } catch (err) {
+      const data = await fetchTopCoinMarkets(page);
+      if (data.length > 0) {
+        setAssets(data);
+      } else {
         setError('Failed to load screener data');
-        console.error(err);
       }
       setLoading(false);
     }
@@ -1,19 +1,14 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { searchAssets } from '@/lib/api';
+import { searchAssets, SearchResult } from '@/lib/api';
+import { registerSearchResult } from '@/lib/instruments';
 
 interface AssetSearchProps {
   onSelect: (symbol: string) => void;
   currentAsset: string;
 }
 
-interface SearchResult {
-  id: string;
-  symbol: string;
-  name: string;
-}
-
 export default function AssetSearch({ onSelect, currentAsset }: AssetSearchProps) {
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<SearchResult[]>([]);
@@ -67,8 +62,9 @@ export default function AssetSearch({ onSelect, currentAsset }: AssetSearchProps
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [isOpen]);
 
-  const handleSelect = (symbol: string) => {
-    onSelect(symbol);
+  const handleSelect = (result: SearchResult) => {
+    // Symbols outside the registry need their asset class and vendor ID remembered
+    onSelect(registerSearchResult(result));
     setQuery('');
     setIsOpen(false);
   };
@@ -99,7 +95,7 @@ export default function AssetSearch({ onSelect, currentAsset }: AssetSearchProps
               type="text"
               value={query}
               onChange={(e) => setQuery(e.target.value)}
-              placeholder="Search any crypto..."
+              placeholder="Search crypto & stocks..."
               className="w-full px-4 py-2 pl-10 rounded-lg bg-[var(--bg-card)] border border-[var(--accent)] text-[var(--text-primary)] placeholder:text-[var(--text-secondary)] focus:outline-none"
             />
             <span className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--text-secondary)]">
@@ -117,18 +113,29 @@ export default function AssetSearch({ onSelect, currentAsset }: AssetSearchProps
             <div className="absolute top-full mt-1 w-full bg-[var(--bg-card)] border border-[var(--border)] rounded-lg shadow-lg overflow-hidden">
               {results.map((result) => (
                 <button
-                  key={result.id}
-                  onClick={() => handleSelect(result.symbol)}
+                  key={`${result.assetClass}-${result.id}`}
+                  onClick={() => handleSelect(result)}
                   className={`w-full px-4 py-2 text-left hover:bg-[var(--bg-hover)] transition-colors flex items-center justify-between ${
                     result.symbol === currentAsset ? 'bg-[var(--accent)]/10' : ''
                   }`}
                 >
-                  <div>
+                  <div className="min-w-0">
                     <span className="font-medium text-[var(--text-primary)]">{result.symbol}</span>
-                    <span className="ml-2 text-sm text-[var(--text-secondary)]">{result.name}</span>
+                    <span className="ml-2 text-sm text-[var(--text-secondary)] truncate">{result.name}</span>
                   </div>
-                  {result.symbol === currentAsset && (
+                  {result.symbol === currentAsset ? (
                     <span className="text-[var(--accent)] text-xs">current</span>
+                  ) : (
+                    <span className="flex items-center gap-1 flex-shrink-0 text-xs">
+                      <span className={`px-1.5 py-0.5 rounded ${
+                        result.assetClass === 'crypto' ? 'bg-blue-500/20 text-blue-400' : 'bg-green-500/20 text-green-400'
+                      }`}>
+                        {result.assetClass === 'crypto' ? 'Crypto' : 'Stock'}
+                      </span>
+                      {result.exchange && (
+                        <span className="text-[var(--text-secondary)]">{result.exchange}</span>
+                      )}
+                    </span>
                   )}
                 </button>
               ))}
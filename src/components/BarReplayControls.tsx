@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import { REPLAY_BAR_RATES } from '@/hooks/useBarReplay';
+
+interface BarReplayControlsProps {
+  active: boolean;
+  cursorTime?: number;  // unix seconds
+  firstTime?: number;
+  lastTime?: number;
+  intraday: boolean;
+  playing: boolean;
+  atEnd: boolean;
+  rate: number;
+  onStart: (time: number) => void;
+  onStep: (delta: number) => void;
+  onTogglePlay: () => void;
+  onRateChange: (rate: number) => void;
+  onExit: () => void;
+  className?: string;
+}
+
+// <input type="date"> / "datetime-local" values are local time
+function toInputValue(time: number, intraday: boolean): string {
+  const d = new Date(time * 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const date = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  return intraday ? `${date}T${pad(d.getHours())}:${pad(d.getMinutes())}` : date;
+}
+
+function fromInputValue(value: string): number {
+  return Math.floor(new Date(value.includes('T') ? value : `${value}T00:00`).getTime() / 1000);
+}
+
+export default function BarReplayControls({
+  active,
+  cursorTime,
+  firstTime,
+  lastTime,
+  intraday,
+  playing,
+  atEnd,
+  rate,
+  onStart,
+  onStep,
+  onTogglePlay,
+  onRateChange,
+  onExit,
+  className = '',
+}: BarReplayControlsProps) {
+  const [picking, setPicking] = useState(false);
+  const [startValue, setStartValue] = useState('');
+
+  if (firstTime === undefined || lastTime === undefined) return null;
+
+  const buttonClass = 'p-2 rounded-md text-sm hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed text-gray-700 dark:text-gray-300';
+
+  if (!active) {
+    return (
+      <div className={`flex items-center gap-2 ${className}`}>
+        <button
+          onClick={() => {
+            setStartValue(toInputValue(firstTime + (lastTime - firstTime) / 2, intraday));
+            setPicking(p => !p);
+          }}
+          className={`px-3 py-1 rounded text-sm transition-all flex-shrink-0 ${
+            picking ? 'bg-[#2962ff] text-white' : 'text-[var(--text-secondary)] hover:bg-[var(--bg-hover)]'
+          }`}
+          title="Hide future bars and step through history"
+        >
+          ⏪ Bar Replay
+        </button>
+        {picking && (
+          <>
+            <input
+              type={intraday ? 'datetime-local' : 'date'}
+              value={startValue}
+              min={toInputValue(firstTime, intraday)}
+              max={toInputValue(lastTime, intraday)}
+              onChange={(e) => setStartValue(e.target.value)}
+              className="rounded-md border border-[var(--border)] bg-[var(--bg-primary)] px-2 py-1 text-sm text-[var(--text-primary)]"
+            />
+            <button
+              onClick={() => {
+                if (!startValue) return;
+                onStart(fromInputValue(startValue));
+                setPicking(false);
+              }}
+              disabled={!startValue}
+              className="px-3 py-1 rounded text-sm transition-all flex-shrink-0 bg-[#2962ff] text-white disabled:opacity-50"
+            >
+              Start
+            </button>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+      <span className="px-2 py-0.5 rounded text-xs font-semibold bg-[#2962ff]/20 text-[#2962ff]">REPLAY</span>
+      <div className="flex items-center bg-gray-100 dark:bg-gray-800 rounded-lg p-1 gap-1">
+        <button onClick={() => onStep(-1)} className={buttonClass} title="Previous bar">⏮</button>
+        <button onClick={onTogglePlay} disabled={atEnd} className={buttonClass} title={playing ? 'Pause' : 'Play'}>
+          {playing ? '⏸' : '▶️'}
+        </button>
+        <button onClick={() => onStep(1)} disabled={atEnd} className={buttonClass} title="Next bar">⏭</button>
+      </div>
+      <div className="flex gap-1">
+        {REPLAY_BAR_RATES.map(r => (
+          <button
+            key={r}
+            onClick={() => onRateChange(r)}
+            className={`px-2 py-1 rounded text-xs transition-all ${
+              rate === r ? 'bg-[#2962ff] text-white' : 'text-[var(--text-secondary)] hover:bg-[var(--bg-hover)]'
+            }`}
+            title={`${r} bar${r > 1 ? 's' : ''} per second`}
+          >
+            {r}x
+          </button>
+        ))}
+      </div>
+      {cursorTime !== undefined && (
+        <span className="text-xs text-[var(--text-secondary)] font-mono">
+          {new Date(cursorTime * 1000).toLocaleString('en-US', intraday
+            ? { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false }
+            : { year: 'numeric', month: 'short', day: 'numeric' })}
+        </span>
+      )}
+      <button onClick={onExit} className={buttonClass} title="Show all bars again">✕ Exit</button>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { BarTransform, BarTransformSettings } from '@/utils/indicators';
+
+interface BarTransformControlsProps {
+  type: BarTransform;
+  settings: BarTransformSettings;
+  onChange: (settings: BarTransformSettings) => void;
+  atrBoxSize: number; // latest ATR, offered as the starting fixed size
+}
+
+const FIELD_CLASS = 'bg-[var(--bg-hover)] text-[var(--text-primary)] text-xs rounded px-2 py-1 border border-[var(--border)]';
+
+// What the box size means for each chart type
+const BOX_LABELS: Record<Exclude<BarTransform, 'linebreak'>, string> = {
+  renko: 'Brick',
+  kagi: 'Reversal',
+  pointfigure: 'Box',
+  range: 'Range',
+};
+
+// Round to two significant figures so a suggested size reads cleanly
+function roundSize(size: number): number {
+  if (!(size > 0)) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(size)) - 1);
+  return Math.round(size / magnitude) * magnitude;
+}
+
+function positive(value: string, fallback: number, integer = false): number {
+  const n = integer ? parseInt(value, 10) : parseFloat(value);
+  return n > 0 ? n : fallback;
+}
+
+export default function BarTransformControls({ type, settings, onChange, atrBoxSize }: BarTransformControlsProps) {
+  const update = (changes: Partial<BarTransformSettings>) => onChange({ ...settings, ...changes });
+
+  if (type === 'linebreak') {
+    return (
+      <label className="flex items-center gap-1 text-xs text-[var(--text-secondary)]">
+        Lines
+        <input
+          type="number"
+          min={1}
+          max={10}
+          value={settings.lines}
+          onChange={(e) => update({ lines: Math.min(10, positive(e.target.value, settings.lines, true)) })}
+          className={`${FIELD_CLASS} w-14`}
+        />
+      </label>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-[var(--text-secondary)] flex-shrink-0">
+      <span>{BOX_LABELS[type]}:</span>
+      <select
+        value={settings.boxSizing}
+        onChange={(e) => {
+          const boxSizing = e.target.value as BarTransformSettings['boxSizing'];
+          update(boxSizing === 'fixed' ? { boxSizing, boxSize: roundSize(atrBoxSize) } : { boxSizing });
+        }}
+        className={FIELD_CLASS}
+        title="Box size"
+      >
+        <option value="atr">ATR</option>
+        <option value="fixed">Fixed</option>
+      </select>
+      {settings.boxSizing === 'atr' ? (
+        <input
+          type="number"
+          min={2}
+          max={100}
+          value={settings.atrPeriod}
+          onChange={(e) => update({ atrPeriod: Math.max(2, positive(e.target.value, settings.atrPeriod, true)) })}
+          className={`${FIELD_CLASS} w-14`}
+          title="ATR period"
+        />
+      ) : (
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={settings.boxSize}
+          onChange={(e) => update({ boxSize: positive(e.target.value, settings.boxSize) })}
+          className={`${FIELD_CLASS} w-20`}
+          title="Box size in price units"
+        />
+      )}
+      {type === 'pointfigure' && (
+        <label className="flex items-center gap-1">
+          Reversal
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={settings.reversal}
+            onChange={(e) => update({ reversal: Math.min(10, positive(e.target.value, settings.reversal, true)) })}
+            className={`${FIELD_CLASS} w-12`}
+            title="Boxes needed to start a new column"
+          />
+        </label>
+      )}
+    </div>
+  );
+}
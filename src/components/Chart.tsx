@@ -1,12 +1,67 @@
 'use client';
 
 import { useEffect, useRef, useImperativeHandle, forwardRef, useCallback } from 'react';
-import { createChart, ColorType, CrosshairMode, IChartApi, ISeriesApi } from 'lightweight-charts';
-import { OHLCV, FibonacciLevel, HeikinAshi, IchimokuData } from '@/utils/indicators';
+import { createChart, ColorType, CrosshairMode, IChartApi, ISeriesApi, LineType, LogicalRange, Time } from 'lightweight-charts';
+import { OHLCV, HeikinAshi, BarTransform, BarTransformSettings, DEFAULT_BAR_TRANSFORM, KagiLine, PriceDrivenBars, isBarTransform } from '@/utils/indicators';
+import type { IndicatorParams, PriceLevel, SeriesIndicatorDefinition } from '@/utils/indicatorRegistry';
+import { addOutputSeries, lineData, overlayKey } from '@/utils/indicatorSeries';
 import { SupportResistance } from '@/utils/aiAnalysis';
 import { Drawing, DrawingTool } from '@/components/DrawingTools';
+import type { CorporateAction } from '@/lib/api';
+import type { Session } from '@/utils/sessions';
+import { VolumeProfileOptions, VolumeProfilePrimitive } from '@/utils/volumeProfilePrimitive';
+import { ELLIOTT_LABELS, elliottRules, elliottTargets, inTimeOrder } from '@/utils/elliottWave';
 
-export type ChartType = 'candlestick' | 'line' | 'area' | 'heikinashi';
+export type ChartType = 'candlestick' | 'line' | 'area' | 'heikinashi' | BarTransform;
+
+// An indicator instance drawn over the price series
+export interface IndicatorOverlay {
+  id: string;
+  definition: SeriesIndicatorDefinition;
+  params: IndicatorParams;
+  values: Record<string, number[]>; // per output key, one per bar
+}
+
+// Overlay values for a streamed bar, keyed by overlayKey() like the series they extend
+export type LiveOverlayPoint = { time: number; values: Record<string, number> };
+
+const OVERLAY_PALETTE = ['#ff9800', '#e91e63', '#8bc34a', '#9c27b0', '#00bcd4', '#ffeb3b'];
+
+// Background tint for extended-hours bars
+const SESSION_COLORS: Record<Session, string> = {
+  pre: 'rgba(255, 193, 7, 0.08)',
+  regular: 'rgba(0, 0, 0, 0)',
+  post: 'rgba(33, 150, 243, 0.08)',
+  closed: 'rgba(0, 0, 0, 0)',
+};
+
+// Price-driven bars are plotted by position; `times` maps each point back to the
+// source candle time for the axis labels
+function priceDrivenSeries(type: BarTransform, bars: OHLCV[]): { points: object[]; times: number[] } {
+  if (type === 'kagi') {
+    const lines = bars as KagiLine[];
+    if (lines.length === 0) return { points: [], times: [] };
+    return {
+      points: [
+        { time: 0, value: lines[0].open },
+        ...lines.map((line, i) => ({ time: i + 1, value: line.close, color: line.yang ? '#26a69a' : '#ef5350' })),
+      ],
+      times: [lines[0].time, ...lines.map(line => line.time)],
+    };
+  }
+  return {
+    points: bars.map((bar, i) => ({ time: i, open: bar.open, high: bar.high, low: bar.low, close: bar.close })),
+    times: bars.map(bar => bar.time),
+  };
+}
+
+function formatSourceTime(time: number | undefined, intraday: boolean): string {
+  if (time === undefined) return '';
+  const date = new Date(time * 1000);
+  return intraday
+    ? date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString(undefined, { year: '2-digit', month: 'short', day: 'numeric' });
+}
 
 export interface ChartRef {
   takeScreenshot: () => string | null;
@@ -15,19 +70,26 @@ export interface ChartRef {
 interface ChartProps {
   data: OHLCV[];
   supportResistance?: SupportResistance[];
-  indicators?: {
-    sma20?: number[];
-    sma50?: number[];
-    ema12?: number[];
-    ema26?: number[];
-    bb?: { upper: number[]; middle: number[]; lower: number[] };
-    vwap?: number[];
-    ichimoku?: IchimokuData;
-  };
-  fibonacciLevels?: FibonacciLevel[];
+  overlays?: IndicatorOverlay[];
+  anchoredVwaps?: { id: string; color: string; values: number[] }[];
+  priceLevels?: PriceLevel[];
+  events?: CorporateAction[];
+  sessions?: Session[]; // one per bar; pre/post-market bars are shaded
+  // Streamed bars from the last `data` bar on (same time replaces, newer appends),
+  // applied in place without rebuilding the chart
+  liveBars?: OHLCV[];
+  liveOverlays?: LiveOverlayPoint[];
+  // Keep the visible range across rebuilds instead of fitting all bars (bar replay);
+  // a view that reached the last bar follows newly added bars
+  preserveRange?: boolean;
   height?: number;
   chartType?: ChartType;
+  barTransform?: BarTransformSettings; // Renko, Kagi, Point & Figure, Line Break, Range bars
   showVolume?: boolean;
+  volumeProfile?: VolumeProfileOptions; // histogram of traded volume by price
+  // Dragging across the chart picks the bars of a fixed-range volume profile
+  selectingVolumeRange?: boolean;
+  onVolumeRangeSelect?: (from: number, to: number) => void;
   // Drawing tools integration
   drawings?: Drawing[];
   activeTool?: DrawingTool;
@@ -36,16 +98,27 @@ interface ChartProps {
   onDrawingMove?: (point: { time: number; price: number }) => void;
   onDrawingEnd?: (point: { time: number; price: number }) => void;
   currentDrawing?: Partial<Drawing> | null;
+  onAnchorPlace?: (time: number) => void; // anchored VWAP tool click
 }
 
 const Chart = forwardRef<ChartRef, ChartProps>(function Chart({ 
   data, 
   supportResistance = [],
-  indicators,
-  fibonacciLevels = [],
+  overlays = [],
+  anchoredVwaps = [],
+  priceLevels = [],
+  events = [],
+  sessions,
+  liveBars = [],
+  liveOverlays = [],
+  preserveRange = false,
   height = 500,
   chartType = 'candlestick',
+  barTransform = DEFAULT_BAR_TRANSFORM,
   showVolume = true,
+  volumeProfile,
+  selectingVolumeRange = false,
+  onVolumeRangeSelect,
   drawings = [],
   activeTool = 'none',
   drawingColor = '#3b82f6',
@@ -53,11 +126,72 @@ const Chart = forwardRef<ChartRef, ChartProps>(function Chart({
   onDrawingMove,
   onDrawingEnd,
   currentDrawing,
+  onAnchorPlace,
 }, ref) {
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const mainSeriesRef = useRef<ISeriesApi<any> | null>(null);
   const drawingSeriesRef = useRef<ISeriesApi<any>[]>([]);
+  const volumeSeriesRef = useRef<ISeriesApi<any> | null>(null);
+  const overlaySeriesRef = useRef<Record<string, ISeriesApi<any>>>({});
+  const visibleRangeRef = useRef<{ range: LogicalRange | null; bars: number } | null>(null);
+  // Source candle time of each plotted point, for price-driven chart types
+  const sourceTimesRef = useRef<number[]>([]);
+  // Latest live state, read by applyLive so the chart effect doesn't depend on it
+  const liveRef = useRef({ bars: liveBars, overlays: liveOverlays, data, chartType, barTransform });
+  liveRef.current = { bars: liveBars, overlays: liveOverlays, data, chartType, barTransform };
+
+  // Push streamed bars and overlay values into the existing series
+  const applyLive = useCallback(() => {
+    const mainSeries = mainSeriesRef.current;
+    const { bars, overlays, data, chartType, barTransform } = liveRef.current;
+    if (!mainSeries || bars.length === 0 || data.length === 0) return;
+
+    const lastTime = data[data.length - 1].time;
+    const fresh = bars.filter(b => b.time >= lastTime);
+    if (fresh.length === 0) return;
+
+    // A live bar can complete or redraw several price-driven bars, so they are rebuilt
+    if (isBarTransform(chartType)) {
+      const merged = [...data.filter(d => d.time < fresh[0].time), ...fresh];
+      const { points, times } = priceDrivenSeries(chartType, PriceDrivenBars(merged, chartType, barTransform));
+      sourceTimesRef.current = times;
+      mainSeries.setData(points as any);
+      return;
+    }
+
+    // Heikin-Ashi bars depend on the previous one, so the chain is recomputed
+    const display = chartType === 'heikinashi'
+      ? HeikinAshi([...data.filter(d => d.time < fresh[0].time), ...fresh]).slice(-fresh.length)
+      : fresh;
+
+    display.forEach(bar => {
+      if (chartType === 'candlestick' || chartType === 'heikinashi') {
+        mainSeries.update({ time: bar.time, open: bar.open, high: bar.high, low: bar.low, close: bar.close } as any);
+      } else {
+        mainSeries.update({ time: bar.time, value: bar.close } as any);
+      }
+    });
+
+    fresh.forEach(bar => {
+      volumeSeriesRef.current?.update({
+        time: bar.time,
+        value: bar.volume || 0,
+        color: bar.close >= bar.open ? 'rgba(38, 166, 154, 0.5)' : 'rgba(239, 83, 80, 0.5)',
+      } as any);
+    });
+
+    overlays
+      .filter(point => point.time >= lastTime)
+      .forEach(point => {
+        Object.keys(overlaySeriesRef.current).forEach(key => {
+          const value = point.values[key];
+          if (value !== undefined && !isNaN(value)) {
+            overlaySeriesRef.current[key]?.update({ time: point.time, value } as any);
+          }
+        });
+      });
+  }, []);
 
   // Expose screenshot function
   useImperativeHandle(ref, () => ({
@@ -100,6 +234,37 @@ const Chart = forwardRef<ChartRef, ChartProps>(function Chart({
 
     // Store chart reference for screenshots
     chartRef.current = chart;
+    const overlaySeries: Record<string, ISeriesApi<any>> = {};
+
+    // Price-driven bars don't line up with the candles, so the time-based layers
+    // (sessions, volume, overlays, markers, drawings) are left out and the axis
+    // labels each point with the candle it came from
+    const priceDriven = isBarTransform(chartType);
+    if (priceDriven) {
+      const intraday = data.length > 1 && data[1].time - data[0].time < 86400;
+      const label = (time: Time) => formatSourceTime(sourceTimesRef.current[time as number], intraday);
+      chart.applyOptions({
+        localization: { timeFormatter: label },
+        timeScale: { tickMarkFormatter: label },
+      });
+    }
+    
+    // Shade extended-hours sessions (added first so it renders behind prices)
+    if (!priceDriven && sessions && sessions.some(s => s === 'pre' || s === 'post')) {
+      const sessionSeries = chart.addHistogramSeries({
+        priceScaleId: 'sessions',
+        priceLineVisible: false,
+        lastValueVisible: false,
+      });
+      chart.priceScale('sessions').applyOptions({
+        scaleMargins: { top: 0, bottom: 0 },
+      });
+      sessionSeries.setData(data.map((d, i) => ({
+        time: d.time,
+        value: 1,
+        color: SESSION_COLORS[sessions[i] || 'regular'],
+      })) as any);
+    }
     
     // Add main price series based on chart type
     let mainSeries: any;
@@ -145,10 +310,23 @@ const Chart = forwardRef<ChartRef, ChartProps>(function Chart({
         value: d.close,
       }));
       mainSeries.setData(areaData as any);
+    } else if (priceDriven) {
+      const { points, times } = priceDrivenSeries(chartType, PriceDrivenBars(data, chartType, barTransform));
+      sourceTimesRef.current = times;
+      mainSeries = chartType === 'kagi'
+        ? chart.addLineSeries({ color: '#26a69a', lineWidth: 2, lineType: LineType.WithSteps })
+        : chart.addCandlestickSeries({
+            upColor: '#26a69a',
+            downColor: '#ef5350',
+            borderVisible: false,
+            wickUpColor: '#26a69a',
+            wickDownColor: '#ef5350',
+          });
+      mainSeries.setData(points as any);
     }
     
     // Add volume histogram
-    if (showVolume && data.some(d => d.volume)) {
+    if (!priceDriven && showVolume && data.some(d => d.volume)) {
       const volumeSeries = chart.addHistogramSeries({
         color: '#26a69a',
         priceFormat: {
@@ -171,189 +349,42 @@ const Chart = forwardRef<ChartRef, ChartProps>(function Chart({
       }));
       
       volumeSeries.setData(volumeData as any);
+      volumeSeriesRef.current = volumeSeries;
     }
     
-    // Add indicator lines
-    if (indicators?.sma20) {
-      const sma20Series = chart.addLineSeries({
-        color: '#2962ff',
-        lineWidth: 1,
-      });
-      const sma20Data = indicators.sma20
-        .map((value, i) => ({
-          time: data[i].time,
-          value: isNaN(value) ? null : value,
-        }))
-        .filter(d => d.value !== null);
-      sma20Series.setData(sma20Data as any);
-    }
-    
-    if (indicators?.sma50) {
-      const sma50Series = chart.addLineSeries({
-        color: '#ff9800',
-        lineWidth: 1,
-      });
-      const sma50Data = indicators.sma50
-        .map((value, i) => ({
-          time: data[i].time,
-          value: isNaN(value) ? null : value,
-        }))
-        .filter(d => d.value !== null);
-      sma50Series.setData(sma50Data as any);
-    }
-    
-    // Add Bollinger Bands
-    if (indicators?.bb) {
-      const bbUpperSeries = chart.addLineSeries({
-        color: 'rgba(76, 175, 80, 0.5)',
-        lineWidth: 1,
-      });
-      const bbLowerSeries = chart.addLineSeries({
-        color: 'rgba(76, 175, 80, 0.5)',
-        lineWidth: 1,
-      });
-      
-      const bbUpperData = indicators.bb.upper
-        .map((value, i) => ({
-          time: data[i].time,
-          value: isNaN(value) ? null : value,
-        }))
-        .filter(d => d.value !== null);
-      
-      const bbLowerData = indicators.bb.lower
-        .map((value, i) => ({
-          time: data[i].time,
-          value: isNaN(value) ? null : value,
-        }))
-        .filter(d => d.value !== null);
-      
-      bbUpperSeries.setData(bbUpperData as any);
-      bbLowerSeries.setData(bbLowerData as any);
-    }
-    
-    // Add VWAP
-    if (indicators?.vwap) {
-      const vwapSeries = chart.addLineSeries({
-        color: '#e91e63', // Pink
-        lineWidth: 2,
-        lineStyle: 0, // Solid
-      });
-      const vwapData = indicators.vwap
-        .map((value, i) => ({
-          time: data[i].time,
-          value: isNaN(value) ? null : value,
-        }))
-        .filter(d => d.value !== null);
-      vwapSeries.setData(vwapData as any);
-    }
-    
-    // Add EMA lines
-    if (indicators?.ema12) {
-      const ema12Series = chart.addLineSeries({
-        color: '#00bcd4',
-        lineWidth: 1,
-      });
-      const ema12Data = indicators.ema12
-        .map((value, i) => ({
-          time: data[i].time,
-          value: isNaN(value) ? null : value,
-        }))
-        .filter(d => d.value !== null);
-      ema12Series.setData(ema12Data as any);
-    }
+    // Indicator overlays. Repeated instances of one indicator take the next palette
+    // colors so they can be told apart.
+    const seenTypes: Record<string, number> = {};
+    (priceDriven ? [] : overlays).forEach((overlay) => {
+      const ordinal = seenTypes[overlay.definition.type] ?? 0;
+      seenTypes[overlay.definition.type] = ordinal + 1;
 
-    if (indicators?.ema26) {
-      const ema26Series = chart.addLineSeries({
-        color: '#ff5722',
-        lineWidth: 1,
+      overlay.definition.outputs.forEach((output) => {
+        const values = overlay.values[output.key];
+        if (!values) return;
+        const color = ordinal === 0 ? output.color : OVERLAY_PALETTE[(ordinal - 1) % OVERLAY_PALETTE.length];
+        const flags = output.flag ? overlay.values[output.flag] : undefined;
+        const series = addOutputSeries(chart, data, output, values, flags, color);
+        if (series) overlaySeries[overlayKey(overlay.id, output.key)] = series;
       });
-      const ema26Data = indicators.ema26
-        .map((value, i) => ({
-          time: data[i].time,
-          value: isNaN(value) ? null : value,
-        }))
-        .filter(d => d.value !== null);
-      ema26Series.setData(ema26Data as any);
-    }
-
-    // Add Ichimoku Cloud
-    if (indicators?.ichimoku) {
-      const { tenkanSen, kijunSen, senkouSpanA, senkouSpanB, chikouSpan } = indicators.ichimoku;
+    });
 
-      // Tenkan-sen (Conversion Line) - blue
-      const tenkanSeries = chart.addLineSeries({
-        color: '#2962ff',
-        lineWidth: 1,
-        title: 'Tenkan',
-      });
-      const tenkanData = tenkanSen
-        .map((value, i) => ({
-          time: data[i]?.time,
-          value: isNaN(value) ? null : value,
-        }))
-        .filter(d => d.time && d.value !== null);
-      tenkanSeries.setData(tenkanData as any);
-
-      // Kijun-sen (Base Line) - red
-      const kijunSeries = chart.addLineSeries({
-        color: '#b71c1c',
-        lineWidth: 1,
-        title: 'Kijun',
-      });
-      const kijunData = kijunSen
-        .map((value, i) => ({
-          time: data[i]?.time,
-          value: isNaN(value) ? null : value,
-        }))
-        .filter(d => d.time && d.value !== null);
-      kijunSeries.setData(kijunData as any);
-
-      // Senkou Span A (Leading Span A) - green cloud boundary
-      const spanASeries = chart.addLineSeries({
-        color: 'rgba(76, 175, 80, 0.5)',
-        lineWidth: 1,
-        title: 'Span A',
-      });
-      const spanAData = senkouSpanA
-        .map((value, i) => ({
-          time: data[i]?.time,
-          value: isNaN(value) ? null : value,
-        }))
-        .filter(d => d.time && d.value !== null);
-      spanASeries.setData(spanAData as any);
-
-      // Senkou Span B (Leading Span B) - red cloud boundary
-      const spanBSeries = chart.addLineSeries({
-        color: 'rgba(244, 67, 54, 0.5)',
-        lineWidth: 1,
-        title: 'Span B',
-      });
-      const spanBData = senkouSpanB
-        .map((value, i) => ({
-          time: data[i]?.time,
-          value: isNaN(value) ? null : value,
-        }))
-        .filter(d => d.time && d.value !== null);
-      spanBSeries.setData(spanBData as any);
-
-      // Chikou Span (Lagging Span) - green dashed
-      const chikouSeries = chart.addLineSeries({
-        color: 'rgba(156, 39, 176, 0.7)',
-        lineWidth: 1,
-        lineStyle: 2,
-        title: 'Chikou',
+    // Anchored VWAPs
+    (priceDriven ? [] : anchoredVwaps).forEach((anchored) => {
+      const anchoredSeries = chart.addLineSeries({
+        color: anchored.color,
+        lineWidth: 2,
+        priceLineVisible: false,
+        title: 'AVWAP',
       });
-      const chikouData = chikouSpan
-        .map((value, i) => ({
-          time: data[i]?.time,
-          value: isNaN(value) ? null : value,
-        }))
-        .filter(d => d.time && d.value !== null);
-      chikouSeries.setData(chikouData as any);
-    }
+      anchoredSeries.setData(lineData(data, anchored.values) as any);
+    });
 
-    // Add support/resistance lines
-    supportResistance.forEach((sr) => {
+    // Add support/resistance lines across the plotted points
+    const plotted = priceDriven ? sourceTimesRef.current.length : data.length;
+    const firstPlotted = priceDriven ? 0 : data[0].time;
+    const lastPlotted = priceDriven ? plotted - 1 : data[data.length - 1].time;
+    (lastPlotted > firstPlotted ? supportResistance : []).forEach((sr) => {
       const lineSeries = chart.addLineSeries({
         color: sr.type === 'support' ? 'rgba(38, 166, 154, 0.7)' : 'rgba(239, 83, 80, 0.7)',
         lineWidth: 2,
@@ -361,45 +392,65 @@ const Chart = forwardRef<ChartRef, ChartProps>(function Chart({
       });
       
       lineSeries.setData([
-        { time: data[0].time, value: sr.price },
-        { time: data[data.length - 1].time, value: sr.price },
+        { time: firstPlotted, value: sr.price },
+        { time: lastPlotted, value: sr.price },
       ] as any);
     });
     
-    // Add Fibonacci retracement levels
-    if (fibonacciLevels.length > 0) {
-      const fibColors: Record<string, string> = {
-        '0%': 'rgba(255, 152, 0, 0.8)',     // Orange - high
-        '23.6%': 'rgba(255, 193, 7, 0.6)',  // Amber
-        '38.2%': 'rgba(255, 235, 59, 0.6)', // Yellow
-        '50%': 'rgba(76, 175, 80, 0.6)',    // Green - key level
-        '61.8%': 'rgba(33, 150, 243, 0.6)', // Blue - golden ratio
-        '78.6%': 'rgba(156, 39, 176, 0.6)', // Purple
-        '100%': 'rgba(255, 152, 0, 0.8)',   // Orange - low
-      };
-      
-      fibonacciLevels.forEach((fib) => {
-        const color = fibColors[fib.label] || 'rgba(158, 158, 158, 0.5)';
-        
-        // Create price line for each Fibonacci level
-        mainSeries.createPriceLine({
-          price: fib.price,
-          color: color,
-          lineWidth: 1,
-          lineStyle: 2, // Dashed
-          axisLabelVisible: true,
-          title: `Fib ${fib.label}`,
-        });
+    // Add indicator price levels (pivots, Fibonacci retracements)
+    priceLevels.forEach((level) => {
+      mainSeries.createPriceLine({
+        price: level.price,
+        color: level.color,
+        lineWidth: 1,
+        lineStyle: 2, // Dashed
+        axisLabelVisible: true,
+        title: level.label,
       });
+    });
+    
+    // Add corporate action markers (splits above the bar, dividends below)
+    if (!priceDriven && events.length > 0) {
+      const markers = events
+        .map((event) => {
+          // Snap to the first bar on or after the ex-date
+          const bar = data.find(d => d.time >= event.time);
+          if (!bar) return null;
+          return event.type === 'split'
+            ? {
+                time: bar.time,
+                position: 'aboveBar',
+                color: '#ab47bc',
+                shape: 'arrowDown',
+                text: `Split ${event.numerator}:${event.denominator}`,
+              }
+            : {
+                time: bar.time,
+                position: 'belowBar',
+                color: '#26a69a',
+                shape: 'circle',
+                text: `Div $${event.amount?.toFixed(2)}`,
+              };
+        })
+        .filter(Boolean);
+      mainSeries.setMarkers(markers as any);
     }
     
+    // Volume profile, drawn behind the bars it was built from
+    let profilePrimitive: VolumeProfilePrimitive | null = null;
+    if (!priceDriven && volumeProfile) {
+      profilePrimitive = new VolumeProfilePrimitive(data, volumeProfile);
+      mainSeries.attachPrimitive(profilePrimitive);
+    }
+
     // Store main series reference for coordinate conversion
     mainSeriesRef.current = mainSeries;
+    overlaySeriesRef.current = overlaySeries;
 
     // Render saved drawings
     drawingSeriesRef.current = [];
-    const allDrawings = [...drawings];
-    if (currentDrawing?.points && currentDrawing.points.length >= 1 && currentDrawing.type) {
+    const allDrawings = priceDriven ? [] : [...drawings];
+    if (!priceDriven && currentDrawing?.points && currentDrawing.points.length >= 1 && currentDrawing.type) {
       allDrawings.push(currentDrawing as Drawing);
     }
 
@@ -507,11 +558,69 @@ const Chart = forwardRef<ChartRef, ChartProps>(function Chart({
           { time: p2.time, value: p2.price },
         ] as any);
         drawingSeriesRef.current.push(diagLine);
+      } else if (drawing.type === 'elliott') {
+        // The mouse preview can sit on or before the last wave, so keep time order
+        const points = inTimeOrder(drawing.points);
+        if (points.length < 2) return;
+        const color = drawing.color || '#3b82f6';
+        const waveLine = chart.addLineSeries({
+          color,
+          lineWidth: 2,
+          crosshairMarkerVisible: false,
+          lastValueVisible: false,
+          priceLineVisible: false,
+        });
+        waveLine.setData(points.map(p => ({ time: p.time, value: p.price })) as any);
+
+        // Wave labels above highs and below lows, red where a rule is broken
+        const broken = new Set(elliottRules(points).filter(r => !r.ok).map(r => r.point));
+        waveLine.setMarkers(points.map((p, i) => {
+          const high = p.price > points[i === 0 ? 1 : i - 1].price;
+          return {
+            time: p.time,
+            position: high ? 'aboveBar' : 'belowBar',
+            color: broken.has(i) ? '#ef5350' : color,
+            shape: 'circle',
+            size: 0.5,
+            text: ELLIOTT_LABELS[i],
+          };
+        }) as any);
+        drawingSeriesRef.current.push(waveLine);
+
+        // Fibonacci targets for the next wave, from its start to the last bar
+        const last = points[points.length - 1];
+        const lastTime = data[data.length - 1].time;
+        if (lastTime > last.time) {
+          elliottTargets(points).forEach(target => {
+            const targetLine = chart.addLineSeries({
+              color,
+              lineWidth: 1,
+              lineStyle: 2,
+              crosshairMarkerVisible: false,
+              priceLineVisible: false,
+              title: target.label,
+            });
+            targetLine.setData([
+              { time: last.time, value: target.price },
+              { time: lastTime, value: target.price },
+            ] as any);
+            drawingSeriesRef.current.push(targetLine);
+          });
+        }
       }
     });
 
     // Fit content
-    chart.timeScale().fitContent();
+    const previous = visibleRangeRef.current;
+    if (preserveRange && previous?.range) {
+      const shift = previous.range.to >= previous.bars - 1 ? plotted - previous.bars : 0;
+      chart.timeScale().setVisibleLogicalRange({ from: previous.range.from + shift, to: previous.range.to + shift });
+    } else {
+      chart.timeScale().fitContent();
+    }
+
+    // Replay bars streamed since `data` was loaded
+    applyLive();
     
     // Handle resize
     const handleResize = () => {
@@ -522,7 +631,7 @@ const Chart = forwardRef<ChartRef, ChartProps>(function Chart({
 
     // Mouse event handling for drawing tools
     const handleCrosshairMove = (param: any) => {
-      if (activeTool === 'none' || !param.point || !param.time) return;
+      if (priceDriven || activeTool === 'none' || !param.point || !param.time) return;
       
       const price = mainSeries.coordinateToPrice(param.point.y);
       if (price !== null && !isNaN(price)) {
@@ -533,7 +642,11 @@ const Chart = forwardRef<ChartRef, ChartProps>(function Chart({
     chart.subscribeCrosshairMove(handleCrosshairMove);
 
     const handleClick = (param: any) => {
-      if (activeTool === 'none' || !param.point || !param.time) return;
+      if (priceDriven || activeTool === 'none' || !param.point || !param.time) return;
+      if (activeTool === 'anchoredVwap') {
+        onAnchorPlace?.(param.time as number);
+        return;
+      }
       
       const price = mainSeries.coordinateToPrice(param.point.y);
       if (price !== null && !isNaN(price)) {
@@ -547,6 +660,37 @@ const Chart = forwardRef<ChartRef, ChartProps>(function Chart({
     };
 
     chart.subscribeClick(handleClick);
+
+    // Fixed-range profile selection: the drag previews the profile and picks its bars
+    // instead of scrolling the chart
+    const container = chartContainerRef.current;
+    let dragStart: number | null = null;
+    const timeAt = (event: MouseEvent) => {
+      const x = event.clientX - container.getBoundingClientRect().left;
+      const logical = chart.timeScale().coordinateToLogical(x);
+      if (logical === null) return null;
+      return data[Math.min(data.length - 1, Math.max(0, Math.round(logical)))].time;
+    };
+    const handleRangeDown = (event: MouseEvent) => {
+      dragStart = timeAt(event);
+    };
+    const handleRangeMove = (event: MouseEvent) => {
+      const time = timeAt(event);
+      if (dragStart === null || time === null || !volumeProfile) return;
+      profilePrimitive?.setOptions({ ...volumeProfile, mode: 'fixed', range: { from: dragStart, to: time } });
+    };
+    const handleRangeUp = (event: MouseEvent) => {
+      const time = timeAt(event);
+      if (dragStart !== null && time !== null) onVolumeRangeSelect?.(dragStart, time);
+      dragStart = null;
+    };
+    const selectingRange = selectingVolumeRange && !!profilePrimitive;
+    if (selectingRange) {
+      chart.applyOptions({ handleScroll: { pressedMouseMove: false } });
+      container.addEventListener('mousedown', handleRangeDown);
+      container.addEventListener('mousemove', handleRangeMove);
+      window.addEventListener('mouseup', handleRangeUp);
+    }
     
     window.addEventListener('resize', handleResize);
     
@@ -554,18 +698,30 @@ const Chart = forwardRef<ChartRef, ChartProps>(function Chart({
       window.removeEventListener('resize', handleResize);
       chart.unsubscribeCrosshairMove(handleCrosshairMove);
       chart.unsubscribeClick(handleClick);
+      if (selectingRange) {
+        container.removeEventListener('mousedown', handleRangeDown);
+        container.removeEventListener('mousemove', handleRangeMove);
+        window.removeEventListener('mouseup', handleRangeUp);
+      }
+      visibleRangeRef.current = { range: chart.timeScale().getVisibleLogicalRange(), bars: plotted };
       mainSeriesRef.current = null;
+      volumeSeriesRef.current = null;
+      overlaySeriesRef.current = {};
       drawingSeriesRef.current = [];
       chartRef.current = null;
       chart.remove();
     };
-  }, [data, supportResistance, indicators, fibonacciLevels, height, chartType, showVolume, drawings, activeTool, currentDrawing, drawingColor, onDrawingStart, onDrawingMove, onDrawingEnd]);
+  }, [data, supportResistance, overlays, anchoredVwaps, priceLevels, events, sessions, preserveRange, height, chartType, barTransform, showVolume, volumeProfile, selectingVolumeRange, onVolumeRangeSelect, drawings, activeTool, currentDrawing, drawingColor, onDrawingStart, onDrawingMove, onDrawingEnd, onAnchorPlace, applyLive]);
+
+  useEffect(() => {
+    applyLive();
+  }, [liveBars, liveOverlays, applyLive]);
   
   return (
     <div className="chart-container p-1">
       <div 
         ref={chartContainerRef} 
-        style={{ cursor: activeTool !== 'none' ? 'crosshair' : 'default' }}
+        style={{ cursor: activeTool !== 'none' || selectingVolumeRange ? 'crosshair' : 'default' }}
       />
     </div>
   );
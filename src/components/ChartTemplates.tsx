@@ -2,6 +2,9 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { safeGetJSON, safeSetJSON } from '@/utils/storage';
+import type { CandleInterval } from '@/lib/api';
+import type { ChartType } from '@/components/Chart';
+import type { BarTransformSettings } from '@/utils/indicators';
 
 export interface ChartTemplate {
   id: string;
@@ -10,7 +13,9 @@ export interface ChartTemplate {
   config: {
     asset: string;
     timeframe: string;
-    chartType: 'candlestick' | 'line' | 'area' | 'heikinashi';
+    interval?: CandleInterval;
+    chartType: ChartType;
+    barTransform?: BarTransformSettings; // box sizing etc. for price-driven chart types
     indicators: string[];
   };
 }
@@ -19,7 +24,9 @@ interface ChartTemplatesProps {
   currentConfig: {
     asset: string;
     timeframe: string;
-    chartType: 'candlestick' | 'line' | 'area' | 'heikinashi';
+    interval: CandleInterval;
+    chartType: ChartType;
+    barTransform?: BarTransformSettings; // box sizing etc. for price-driven chart types
     indicators: string[];
   };
   onLoadTemplate: (config: ChartTemplate['config']) => void;
@@ -38,7 +45,7 @@ const PRESETS: ChartTemplate[] = [
       asset: 'ETH',
       timeframe: '30d',
       chartType: 'candlestick',
-      indicators: ['sma20', 'sma50', 'bb', 'stochRsi'],
+      indicators: ['sma:20', 'sma:50', 'bb', 'stochRsi'],
     },
   },
   {
@@ -48,8 +55,9 @@ const PRESETS: ChartTemplate[] = [
     config: {
       asset: 'BTC',
       timeframe: '7d',
+      interval: '15m',
       chartType: 'candlestick',
-      indicators: ['ema', 'vwap', 'obv'],
+      indicators: ['ema:12', 'ema:26', 'vwap', 'obv'],
     },
   },
   {
@@ -71,7 +79,7 @@ const PRESETS: ChartTemplate[] = [
       asset: 'SOL',
       timeframe: '90d',
       chartType: 'heikinashi',
-      indicators: ['sma20', 'sma50', 'atr'],
+      indicators: ['sma:20', 'sma:50', 'atr'],
     },
   },
   {
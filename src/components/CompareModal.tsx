@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { getSupportedAssets, fetchAssetInfo, fetchStockInfo, AssetInfo } from '@/lib/api';
+import { getInstrument } from '@/lib/instruments';
 
 interface CompareModalProps {
   isOpen: boolean;
@@ -46,10 +47,10 @@ export default function CompareModal({ isOpen, onClose, primaryAsset }: CompareM
 
       const results = await Promise.allSettled(
         allSymbols.map(async (symbol) => {
-          const asset = assets.find(a => a.symbol === symbol);
-          if (!asset) return null;
+          const instrument = getInstrument(symbol);
+          if (!instrument) return null;
 
-          const info = asset.type === 'stock'
+          const info = instrument.assetClass === 'stock'
             ? await fetchStockInfo(symbol)
             : await fetchAssetInfo(symbol);
 
@@ -57,12 +58,12 @@ export default function CompareModal({ isOpen, onClose, primaryAsset }: CompareM
 
           return {
             symbol,
-            name: asset.name,
+            name: instrument.name,
             price: info.price,
             change24h: info.change24h,
             volume24h: info.volume24h,
             marketCap: info.marketCap,
-            type: asset.type,
+            type: instrument.assetClass,
           } as ComparisonData;
         })
       );
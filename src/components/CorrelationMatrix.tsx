@@ -2,13 +2,14 @@
 
 import { useState, useEffect, useMemo } from 'react';
 import { fetchCryptoOHLCV } from '@/lib/api';
+import { listInstruments } from '@/lib/instruments';
 import { OHLCV } from '@/utils/indicators';
 
 interface CorrelationMatrixProps {
   className?: string;
 }
 
-const CRYPTO_SYMBOLS = ['BTC', 'ETH', 'SOL', 'XRP', 'SUI'];
+const CRYPTO_SYMBOLS = listInstruments('crypto').map(i => i.symbol);
 
 function calculateCorrelation(a: number[], b: number[]): number {
   const n = Math.min(a.length, b.length);
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
+import { fetchGlobalMarket } from '@/lib/api';
 
 interface DominanceData {
   name: string;
@@ -39,12 +40,9 @@ export default function CryptoDominance({ className = '' }: CryptoDominanceProps
     async function fetchDominance() {
       setLoading(true);
       try {
-        const res = await fetch(
-          'https://api.coingecko.com/api/v3/global'
-        );
-        if (!res.ok) throw new Error('Failed to fetch');
-        const json = await res.json();
-        const marketCapPct = json.data.market_cap_percentage;
+        const global = await fetchGlobalMarket();
+        if (!global) throw new Error('Failed to fetch');
+        const marketCapPct = global.market_cap_percentage;
 
         const topCoins = Object.entries(marketCapPct)
           .slice(0, 5)
@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { CandleCacheInfo } from '@/lib/api';
+
+interface DataFreshnessProps {
+  cache: CandleCacheInfo | null;
+  live?: boolean; // latest bar is being updated in place
+}
+
+const STATUS_STYLES: Record<CandleCacheInfo['status'], { dot: string; label: string }> = {
+  hit: { dot: 'bg-green-400', label: 'Cached' },
+  partial: { dot: 'bg-green-400', label: 'Cached + refreshed' },
+  miss: { dot: 'bg-blue-400', label: 'Fetched' },
+  stale: { dot: 'bg-yellow-400', label: 'Stale (refresh failed)' },
+};
+
+function getTimeSince(timestamp: number): string {
+  const seconds = Math.floor((Date.now() - timestamp) / 1000);
+  if (seconds < 5) return 'just now';
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  return `${Math.floor(seconds / 3600)}h ago`;
+}
+
+export default function DataFreshness({ cache, live = false }: DataFreshnessProps) {
+  const [, setTick] = useState(0);
+
+  // Re-render so the relative time keeps counting
+  useEffect(() => {
+    const timer = setInterval(() => setTick(t => t + 1), 15000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!cache) return null;
+
+  const style = STATUS_STYLES[cache.status];
+
+  return (
+    <div
+      className="flex items-center gap-1 text-xs text-[var(--text-secondary)]"
+      title={cache.fetchedBars > 0 ? `${cache.fetchedBars} bars fetched from the data vendor` : 'Served from the candle cache'}
+    >
+      <div className={`w-2 h-2 rounded-full ${style.dot}`} />
+      <span>{style.label}</span>
+      <span>· updated {getTimeSince(cache.fetchedAt)}</span>
+      {live && (
+        <span className="ml-1 flex items-center gap-1 text-green-400">
+          <span className="w-1.5 h-1.5 rounded-full bg-green-400 animate-pulse" />
+          LIVE
+        </span>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,16 @@
 'use client';
 
 import { useMemo } from 'react';
-import { OHLCV, RSI, MACD } from '@/utils/indicators';
+import { OHLCV, RSI, MACD, MFI, CMF, AccumulationDistribution, Klinger } from '@/utils/indicators';
+
+type DivergenceIndicator = 'RSI' | 'MACD' | 'MFI' | 'CMF' | 'A/D' | 'Klinger';
+
+// Money flow indicators only mean something when the feed has volume
+const FLOW_INDICATORS: DivergenceIndicator[] = ['MFI', 'CMF', 'A/D', 'Klinger'];
 
 interface Divergence {
   type: 'bullish' | 'bearish';
-  indicator: 'RSI' | 'MACD';
+  indicator: DivergenceIndicator;
   startIndex: number;
   endIndex: number;
   priceStart: number;
@@ -45,10 +50,17 @@ function findPeaks(data: number[], lookback: number = 5): { index: number; value
   return peaks;
 }
 
+// A/D and Klinger are in volume units, often in the millions
+function formatValue(value: number): string {
+  return Math.abs(value) >= 1e4
+    ? value.toLocaleString('en-US', { notation: 'compact', maximumFractionDigits: 1 })
+    : value.toFixed(2);
+}
+
 function detectDivergences(
   prices: number[],
   indicatorValues: number[],
-  indicatorName: 'RSI' | 'MACD',
+  indicatorName: DivergenceIndicator,
   lookback: number = 5,
   maxDistance: number = 30
 ): Divergence[] {
@@ -95,7 +107,7 @@ function detectDivergences(
       indicatorStart: ih1.value,
       indicatorEnd: ih2.value,
       strength,
-      description: `Price made a higher high ($${ph2.value.toFixed(2)} vs $${ph1.value.toFixed(2)}) while ${indicatorName} made a lower high (${ih2.value.toFixed(2)} vs ${ih1.value.toFixed(2)}). This suggests weakening momentum.`,
+      description: `Price made a higher high ($${ph2.value.toFixed(2)} vs $${ph1.value.toFixed(2)}) while ${indicatorName} made a lower high (${formatValue(ih2.value)} vs ${formatValue(ih1.value)}). This suggests ${FLOW_INDICATORS.includes(indicatorName) ? 'money flowing out' : 'weakening momentum'}.`,
     });
   }
   
@@ -132,7 +144,7 @@ function detectDivergences(
       indicatorStart: il1.value,
       indicatorEnd: il2.value,
       strength,
-      description: `Price made a lower low ($${pl2.value.toFixed(2)} vs $${pl1.value.toFixed(2)}) while ${indicatorName} made a higher low (${il2.value.toFixed(2)} vs ${il1.value.toFixed(2)}). This suggests building momentum.`,
+      description: `Price made a lower low ($${pl2.value.toFixed(2)} vs $${pl1.value.toFixed(2)}) while ${indicatorName} made a higher low (${formatValue(il2.value)} vs ${formatValue(il1.value)}). This suggests ${FLOW_INDICATORS.includes(indicatorName) ? 'accumulation' : 'building momentum'}.`,
     });
   }
   
@@ -155,9 +167,19 @@ export default function DivergenceDetector({ data, symbol, className = '' }: Div
     
     const rsiDivergences = detectDivergences(closes, rsiValues, 'RSI', 5, 25);
     const macdDivergences = detectDivergences(closes, macdResult.histogram, 'MACD', 5, 25);
+
+    const flowDivergences: Divergence[] = [];
+    if (data.some(d => (d.volume || 0) > 0)) {
+      flowDivergences.push(
+        ...detectDivergences(closes, MFI(data), 'MFI', 5, 25),
+        ...detectDivergences(closes, CMF(data), 'CMF', 5, 25),
+        ...detectDivergences(closes, AccumulationDistribution(data), 'A/D', 5, 25),
+        ...detectDivergences(closes, Klinger(data).kvo, 'Klinger', 5, 25),
+      );
+    }
     
     // Combine and sort by recency (most recent first)
-    return [...rsiDivergences, ...macdDivergences]
+    return [...rsiDivergences, ...macdDivergences, ...flowDivergences]
       .sort((a, b) => b.endIndex - a.endIndex)
       .slice(0, 10); // Keep the 10 most recent
   }, [data]);
@@ -273,7 +295,7 @@ export default function DivergenceDetector({ data, symbol, className = '' }: Div
       {/* Legend */}
       <div className="px-3 pb-3 border-t border-[var(--border)]">
         <div className="text-xs text-[var(--text-secondary)] mt-2 bg-[var(--bg-hover)] rounded-lg p-2">
-          <strong>Divergence</strong> occurs when price and an indicator (RSI/MACD) move in opposite directions.
+          <strong>Divergence</strong> occurs when price and an indicator (RSI/MACD, or MFI/CMF/A-D/Klinger money flow) move in opposite directions.
           <strong> Bullish:</strong> price makes lower lows while indicator makes higher lows → potential reversal up.
           <strong> Bearish:</strong> price makes higher highs while indicator makes lower highs → potential reversal down.
         </div>
@@ -1,8 +1,9 @@
 'use client';
 
 import { useState } from 'react';
+import { ELLIOTT_LABELS, elliottRules } from '@/utils/elliottWave';
 
-export type DrawingTool = 'none' | 'trendline' | 'horizontal' | 'rectangle' | 'text' | 'fibonacci';
+export type DrawingTool = 'none' | 'trendline' | 'horizontal' | 'rectangle' | 'text' | 'fibonacci' | 'elliott' | 'anchoredVwap';
 
 export interface Drawing {
   id: string;
@@ -20,6 +21,12 @@ interface DrawingToolsProps {
   onUndoDrawing: () => void;
   drawingColor?: string;
   onColorChange?: (color: string) => void;
+  // Anchored VWAPs are kept apart from drawings (saved per symbol)
+  anchorCount?: number;
+  onClearAnchors?: () => void;
+  // Points of an Elliott Wave count in progress; it can be finished early
+  wavePoints?: { time: number; price: number }[];
+  onFinishDrawing?: () => void;
   className?: string;
 }
 
@@ -28,8 +35,10 @@ const TOOLS = [
   { id: 'trendline' as DrawingTool, icon: '📐', label: 'Trend Line', shortcut: 'T' },
   { id: 'horizontal' as DrawingTool, icon: '➖', label: 'Horizontal', shortcut: 'H' },
   { id: 'fibonacci' as DrawingTool, icon: '📊', label: 'Fibonacci', shortcut: 'F' },
+  { id: 'elliott' as DrawingTool, icon: '🌊', label: 'Elliott Wave — click 0–5, then A–C', shortcut: 'E' },
   { id: 'rectangle' as DrawingTool, icon: '⬜', label: 'Rectangle', shortcut: 'R' },
   { id: 'text' as DrawingTool, icon: '📝', label: 'Text', shortcut: 'X' },
+  { id: 'anchoredVwap' as DrawingTool, icon: '⚓', label: 'Anchored VWAP — click a bar', shortcut: 'V' },
 ];
 
 const COLORS = [
@@ -50,6 +59,10 @@ export default function DrawingTools({
   onUndoDrawing,
   drawingColor,
   onColorChange,
+  anchorCount = 0,
+  onClearAnchors,
+  wavePoints = [],
+  onFinishDrawing,
   className = ''
 }: DrawingToolsProps) {
   const [showColors, setShowColors] = useState(false);
@@ -122,6 +135,43 @@ export default function DrawingTools({
         </button>
       </div>
 
+      {/* Anchored VWAPs */}
+      {anchorCount > 0 && (
+        <span className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 ml-2">
+          ⚓ {anchorCount} AVWAP{anchorCount !== 1 ? 's' : ''}
+          <button
+            onClick={onClearAnchors}
+            className="px-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+            title="Remove anchored VWAPs for this symbol"
+          >
+            ✕
+          </button>
+        </span>
+      )}
+
+      {/* Elliott Wave count in progress */}
+      {activeTool === 'elliott' && (
+        <span className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400 ml-2">
+          {wavePoints.length === 0
+            ? 'Click the start of wave 1'
+            : `Next: ${ELLIOTT_LABELS[wavePoints.length]} (${wavePoints.length}/${ELLIOTT_LABELS.length})`}
+          {elliottRules(wavePoints).map(({ rule, ok }) => (
+            <span key={rule} className={ok ? 'text-green-500' : 'text-red-500'}>
+              {ok ? '✓' : '✗'} {rule}
+            </span>
+          ))}
+          {wavePoints.length >= 2 && (
+            <button
+              onClick={onFinishDrawing}
+              className="px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700"
+              title="Keep the waves placed so far"
+            >
+              Finish
+            </button>
+          )}
+        </span>
+      )}
+
       {/* Drawing count */}
       {drawings.length > 0 && (
         <span className="text-xs text-gray-500 dark:text-gray-400 ml-2">
@@ -137,6 +187,8 @@ export function useDrawings() {
   const [drawings, setDrawings] = useState<Drawing[]>([]);
   const [activeTool, setActiveTool] = useState<DrawingTool>('none');
   const [currentDrawing, setCurrentDrawing] = useState<Partial<Drawing> | null>(null);
+  // Points clicked so far; a point after them is the mouse preview
+  const [placed, setPlaced] = useState(0);
 
   const addDrawing = (drawing: Drawing) => {
     setDrawings(prev => [...prev, drawing]);
@@ -163,23 +215,37 @@ export function useDrawings() {
       points: [point],
       color,
     });
+    setPlaced(1);
   };
 
   const updateDrawing = (point: { time: number; price: number }) => {
     if (!currentDrawing) return;
     
-    setCurrentDrawing(prev => ({
-      ...prev!,
-      points: [...(prev?.points || []).slice(0, 1), point],
-    }));
+    setCurrentDrawing(prev => {
+      const placedPoints = (prev?.points || []).slice(0, placed);
+      // A wave preview only shows once the mouse is past the last wave, as clicks require
+      const behind = prev?.type === 'elliott' && point.time <= placedPoints[placedPoints.length - 1]?.time;
+      return { ...prev!, points: behind ? placedPoints : [...placedPoints, point] };
+    });
   };
 
   const finishDrawing = (point?: { time: number; price: number }) => {
     if (!currentDrawing || !currentDrawing.points?.length) return;
+    const placedPoints = currentDrawing.points.slice(0, placed);
+
+    // Each click adds the next wave until the count is complete; waves run forward in time
+    if (currentDrawing.type === 'elliott' && point) {
+      if (point.time <= placedPoints[placedPoints.length - 1].time) return;
+      if (placedPoints.length + 1 < ELLIOTT_LABELS.length) {
+        setCurrentDrawing(prev => ({ ...prev!, points: [...placedPoints, point] }));
+        setPlaced(placedPoints.length + 1);
+        return;
+      }
+    }
     
     const finalPoints = point 
-      ? [...currentDrawing.points.slice(0, 1), point]
-      : currentDrawing.points;
+      ? [...placedPoints, point]
+      : currentDrawing.type === 'elliott' ? placedPoints : currentDrawing.points;
 
     if (finalPoints.length >= (activeTool === 'horizontal' ? 1 : 2)) {
       addDrawing({
@@ -195,6 +261,7 @@ export function useDrawings() {
     drawings,
     activeTool,
     currentDrawing,
+    placedPoints: currentDrawing?.points?.slice(0, placed) ?? [],
     setActiveTool,
     addDrawing,
     removeDrawing,
@@ -1,96 +1,24 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
-
-interface FundingRateData {
-  symbol: string;
-  fundingRate: number;
-  fundingTime: number;
-  markPrice: number;
-  indexPrice: number;
-}
+import { getProvider, FundingRateSnapshot, FundingRatePoint } from '@/lib/providers';
 
 interface FundingRateProps {
   symbol: string;
   className?: string;
 }
 
-// Binance public API (no auth needed) for funding rates
-const BINANCE_FUTURES_BASE = 'https://fapi.binance.com';
-
-// Map our symbols to Binance futures symbols
-const BINANCE_SYMBOLS: Record<string, string> = {
-  'BTC': 'BTCUSDT',
-  'ETH': 'ETHUSDT',
-  'SOL': 'SOLUSDT',
-  'XRP': 'XRPUSDT',
-  'SUI': 'SUIUSDT',
-  'DOGE': 'DOGEUSDT',
-  'ADA': 'ADAUSDT',
-  'AVAX': 'AVAXUSDT',
-  'LINK': 'LINKUSDT',
-  'DOT': 'DOTUSDT',
-};
-
-async function fetchFundingRate(symbol: string): Promise<FundingRateData | null> {
-  const binanceSymbol = BINANCE_SYMBOLS[symbol.toUpperCase()];
-  if (!binanceSymbol) return null;
-
-  try {
-    const [fundingRes, premiumRes] = await Promise.all([
-      fetch(`${BINANCE_FUTURES_BASE}/fapi/v1/fundingRate?symbol=${binanceSymbol}&limit=1`),
-      fetch(`${BINANCE_FUTURES_BASE}/fapi/v1/premiumIndex?symbol=${binanceSymbol}`),
-    ]);
-
-    if (!fundingRes.ok || !premiumRes.ok) return null;
-
-    const fundingData = await fundingRes.json();
-    const premiumData = await premiumRes.json();
-
-    if (!fundingData[0]) return null;
-
-    return {
-      symbol: symbol.toUpperCase(),
-      fundingRate: parseFloat(fundingData[0].fundingRate),
-      fundingTime: fundingData[0].fundingTime,
-      markPrice: parseFloat(premiumData.markPrice),
-      indexPrice: parseFloat(premiumData.indexPrice),
-    };
-  } catch (error) {
-    console.error('Funding rate fetch error:', error);
-    return null;
-  }
-}
-
-async function fetchFundingHistory(symbol: string, limit: number = 24): Promise<{ rate: number; time: number }[]> {
-  const binanceSymbol = BINANCE_SYMBOLS[symbol.toUpperCase()];
-  if (!binanceSymbol) return [];
-
-  try {
-    const res = await fetch(
-      `${BINANCE_FUTURES_BASE}/fapi/v1/fundingRate?symbol=${binanceSymbol}&limit=${limit}`
-    );
-    if (!res.ok) return [];
-    const data = await res.json();
-    return data.map((d: { fundingRate: string; fundingTime: number }) => ({
-      rate: parseFloat(d.fundingRate),
-      time: d.fundingTime,
-    }));
-  } catch {
-    return [];
-  }
-}
-
 export default function FundingRate({ symbol, className = '' }: FundingRateProps) {
-  const [data, setData] = useState<FundingRateData | null>(null);
-  const [history, setHistory] = useState<{ rate: number; time: number }[]>([]);
+  const [data, setData] = useState<FundingRateSnapshot | null>(null);
+  const [history, setHistory] = useState<FundingRatePoint[]>([]);
   const [loading, setLoading] = useState(true);
   const [isOpen, setIsOpen] = useState(false);
 
-  const isSupported = BINANCE_SYMBOLS[symbol.toUpperCase()] !== undefined;
+  const derivatives = getProvider('crypto').derivatives;
+  const isSupported = derivatives?.supportsFutures(symbol) ?? false;
 
   useEffect(() => {
-    if (!isSupported || !isOpen) {
+    if (!derivatives || !isSupported || !isOpen) {
       setLoading(false);
       return;
     }
@@ -100,8 +28,8 @@ export default function FundingRate({ symbol, className = '' }: FundingRateProps
     const load = async () => {
       setLoading(true);
       const [rateData, histData] = await Promise.all([
-        fetchFundingRate(symbol),
-        fetchFundingHistory(symbol),
+        derivatives.getFundingRate(symbol),
+        derivatives.getFundingHistory(symbol),
       ]);
       if (!cancelled) {
         setData(rateData);
@@ -116,7 +44,7 @@ export default function FundingRate({ symbol, className = '' }: FundingRateProps
       cancelled = true;
       clearInterval(interval);
     };
-  }, [symbol, isSupported, isOpen]);
+  }, [symbol, derivatives, isSupported, isOpen]);
 
   const annualizedRate = useMemo(() => {
     if (!data) return 0;
@@ -2,47 +2,22 @@
 
 import { useEffect, useRef } from 'react';
 import { createChart, ColorType, CrosshairMode, IChartApi } from 'lightweight-charts';
-
-export type IndicatorType = 'stochRsi' | 'atr' | 'obv' | 'rsi' | 'macd';
+import { IndicatorParams, SeriesIndicatorDefinition, indicatorLabel } from '@/utils/indicatorRegistry';
+import { addLevelLine, addOutputSeries } from '@/utils/indicatorSeries';
 
 interface IndicatorChartProps {
-  type: IndicatorType;
+  definition: SeriesIndicatorDefinition;
+  params: IndicatorParams;
   data: { time: number }[];
-  // Stochastic RSI data
-  stochK?: number[];
-  stochD?: number[];
-  // ATR data
-  atrValues?: number[];
-  // OBV data
-  obvValues?: number[];
-  // RSI data
-  rsiValues?: number[];
-  // MACD data
-  macdLine?: number[];
-  macdSignal?: number[];
-  macdHistogram?: number[];
+  values: Record<string, number[]>; // per output key, one per bar
   height?: number;
 }
 
-const INDICATOR_CONFIG: Record<IndicatorType, { title: string; color: string }> = {
-  rsi: { title: 'RSI (14)', color: '#9c27b0' },
-  macd: { title: 'MACD (12, 26, 9)', color: '#2962ff' },
-  stochRsi: { title: 'Stochastic RSI (14, 14, 3, 3)', color: '#2962ff' },
-  atr: { title: 'ATR (14)', color: '#ff9800' },
-  obv: { title: 'OBV', color: '#26a69a' },
-};
-
 export default function IndicatorChart({
-  type,
+  definition,
+  params,
   data,
-  stochK,
-  stochD,
-  atrValues,
-  obvValues,
-  rsiValues,
-  macdLine,
-  macdSignal,
-  macdHistogram,
+  values,
   height = 150,
 }: IndicatorChartProps) {
   const chartContainerRef = useRef<HTMLDivElement>(null);
@@ -77,189 +52,13 @@ export default function IndicatorChart({
 
     chartRef.current = chart;
 
-    if (type === 'stochRsi' && stochK && stochD) {
-      // K line
-      const kSeries = chart.addLineSeries({
-        color: '#2962ff',
-        lineWidth: 2,
-        title: '%K',
-      });
-      const kData = stochK
-        .map((value, i) => ({
-          time: data[i].time,
-          value: isNaN(value) ? null : value,
-        }))
-        .filter(d => d.value !== null);
-      kSeries.setData(kData as any);
-
-      // D line
-      const dSeries = chart.addLineSeries({
-        color: '#ff6d00',
-        lineWidth: 1,
-        title: '%D',
-        lineStyle: 2,
-      });
-      const dData = stochD
-        .map((value, i) => ({
-          time: data[i].time,
-          value: isNaN(value) ? null : value,
-        }))
-        .filter(d => d.value !== null);
-      dSeries.setData(dData as any);
-
-      // Overbought/Oversold lines
-      if (data.length >= 2) {
-        const ob = chart.addLineSeries({
-          color: 'rgba(239, 83, 80, 0.4)',
-          lineWidth: 1,
-          lineStyle: 2,
-        });
-        ob.setData([
-          { time: data[0].time, value: 80 },
-          { time: data[data.length - 1].time, value: 80 },
-        ] as any);
-
-        const os = chart.addLineSeries({
-          color: 'rgba(38, 166, 154, 0.4)',
-          lineWidth: 1,
-          lineStyle: 2,
-        });
-        os.setData([
-          { time: data[0].time, value: 20 },
-          { time: data[data.length - 1].time, value: 20 },
-        ] as any);
+    definition.outputs.forEach((output) => {
+      const outputValues = values[output.key];
+      if (outputValues) {
+        addOutputSeries(chart, data, output, outputValues, output.flag ? values[output.flag] : undefined);
       }
-    } else if (type === 'atr' && atrValues) {
-      const atrSeries = chart.addLineSeries({
-        color: '#ff9800',
-        lineWidth: 2,
-        title: 'ATR',
-      });
-      const atrData = atrValues
-        .map((value, i) => ({
-          time: data[i].time,
-          value: isNaN(value) ? null : value,
-        }))
-        .filter(d => d.value !== null);
-      atrSeries.setData(atrData as any);
-    } else if (type === 'obv' && obvValues) {
-      const obvSeries = chart.addHistogramSeries({
-        color: '#26a69a',
-        title: 'OBV',
-      });
-      const obvData = obvValues
-        .map((value, i) => ({
-          time: data[i].time,
-          value,
-          color: i > 0 && value >= obvValues[i - 1]
-            ? 'rgba(38, 166, 154, 0.7)'
-            : 'rgba(239, 83, 80, 0.7)',
-        }));
-      obvSeries.setData(obvData as any);
-    } else if (type === 'rsi' && rsiValues) {
-      // RSI line
-      const rsiSeries = chart.addLineSeries({
-        color: '#9c27b0',
-        lineWidth: 2,
-        title: 'RSI',
-      });
-      const rsiData = rsiValues
-        .map((value, i) => ({
-          time: data[i].time,
-          value: isNaN(value) ? null : value,
-        }))
-        .filter(d => d.value !== null);
-      rsiSeries.setData(rsiData as any);
-
-      // Overbought / Oversold
-      if (data.length >= 2) {
-        const obLine = chart.addLineSeries({
-          color: 'rgba(239, 83, 80, 0.4)',
-          lineWidth: 1,
-          lineStyle: 2,
-        });
-        obLine.setData([
-          { time: data[0].time, value: 70 },
-          { time: data[data.length - 1].time, value: 70 },
-        ] as any);
-
-        const osLine = chart.addLineSeries({
-          color: 'rgba(38, 166, 154, 0.4)',
-          lineWidth: 1,
-          lineStyle: 2,
-        });
-        osLine.setData([
-          { time: data[0].time, value: 30 },
-          { time: data[data.length - 1].time, value: 30 },
-        ] as any);
-
-        // Midline
-        const midLine = chart.addLineSeries({
-          color: 'rgba(255, 255, 255, 0.15)',
-          lineWidth: 1,
-          lineStyle: 2,
-        });
-        midLine.setData([
-          { time: data[0].time, value: 50 },
-          { time: data[data.length - 1].time, value: 50 },
-        ] as any);
-      }
-    } else if (type === 'macd' && macdLine && macdSignal && macdHistogram) {
-      // MACD Histogram
-      const histSeries = chart.addHistogramSeries({
-        title: 'Histogram',
-      });
-      const histData = macdHistogram
-        .map((value, i) => ({
-          time: data[i].time,
-          value: isNaN(value) ? 0 : value,
-          color: value >= 0 ? 'rgba(38, 166, 154, 0.7)' : 'rgba(239, 83, 80, 0.7)',
-        }))
-        .filter(d => d.time);
-      histSeries.setData(histData as any);
-
-      // MACD Line
-      const macdSeries = chart.addLineSeries({
-        color: '#2962ff',
-        lineWidth: 2,
-        title: 'MACD',
-      });
-      const macdLineData = macdLine
-        .map((value, i) => ({
-          time: data[i].time,
-          value: isNaN(value) ? null : value,
-        }))
-        .filter(d => d.value !== null);
-      macdSeries.setData(macdLineData as any);
-
-      // Signal Line
-      const signalSeries = chart.addLineSeries({
-        color: '#ff6d00',
-        lineWidth: 1,
-        title: 'Signal',
-        lineStyle: 2,
-      });
-      const signalData = macdSignal
-        .map((value, i) => ({
-          time: data[i].time,
-          value: isNaN(value) ? null : value,
-        }))
-        .filter(d => d.value !== null);
-      signalSeries.setData(signalData as any);
-
-      // Zero line
-      if (data.length >= 2) {
-        const zeroLine = chart.addLineSeries({
-          color: 'rgba(255, 255, 255, 0.15)',
-          lineWidth: 1,
-          lineStyle: 2,
-        });
-        zeroLine.setData([
-          { time: data[0].time, value: 0 },
-          { time: data[data.length - 1].time, value: 0 },
-        ] as any);
-      }
-    }
+    });
+    definition.levels?.forEach(level => addLevelLine(chart, data, level.value, level.color));
 
     chart.timeScale().fitContent();
 
@@ -276,14 +75,12 @@ export default function IndicatorChart({
       chartRef.current = null;
       chart.remove();
     };
-  }, [type, data, stochK, stochD, atrValues, obvValues, rsiValues, macdLine, macdSignal, macdHistogram, height]);
-
-  const config = INDICATOR_CONFIG[type];
+  }, [definition, data, values, height]);
 
   return (
     <div className="chart-container p-1 mt-1">
       <div className="px-2 py-1 text-xs text-gray-400 bg-[#131722] border-b border-[#1e222d]">
-        {config.title}
+        {indicatorLabel(definition, params, definition.title)}
       </div>
       <div ref={chartContainerRef} />
     </div>
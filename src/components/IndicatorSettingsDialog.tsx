@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  IndicatorDefinition,
+  IndicatorParams,
+  ParamValue,
+  defaultParams,
+  indicatorLabel,
+  normalizeParams,
+} from '@/utils/indicatorRegistry';
+
+interface IndicatorSettingsDialogProps {
+  definition: IndicatorDefinition;
+  params: IndicatorParams;
+  onApply: (params: IndicatorParams) => void;
+  onClose: () => void;
+}
+
+const FIELD_CLASS = 'bg-[var(--bg-hover)] text-[var(--text-primary)] text-sm rounded px-2 py-1 border border-[var(--border)]';
+
+export default function IndicatorSettingsDialog({ definition, params, onApply, onClose }: IndicatorSettingsDialogProps) {
+  // Number fields are edited as text and clamped to their range on apply
+  const [draft, setDraft] = useState<Record<string, ParamValue>>(params);
+
+  const setValue = (key: string, value: ParamValue) => setDraft(prev => ({ ...prev, [key]: value }));
+  const applied = normalizeParams(definition, draft);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-[var(--bg-card)] rounded-xl max-w-sm w-full max-h-[90vh] overflow-auto border border-[var(--border)]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-[var(--border)]">
+          <h2 className="text-lg font-semibold text-[var(--text-primary)]">{definition.title}</h2>
+          <button
+            onClick={onClose}
+            className="text-[var(--text-secondary)] hover:text-[var(--text-primary)] p-1"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Parameters */}
+        <div className="p-4 space-y-3">
+          {definition.params.length === 0 && (
+            <div className="text-sm text-[var(--text-secondary)]">This indicator has no settings.</div>
+          )}
+          {definition.params.map(param => (
+            <label key={param.key} className="flex items-center justify-between gap-4 text-sm">
+              <span className="text-[var(--text-secondary)]">{param.label}</span>
+              {param.type === 'number' && (
+                <input
+                  type="number"
+                  value={String(draft[param.key])}
+                  min={param.min}
+                  max={param.max}
+                  step={param.step ?? 1}
+                  onChange={(e) => setValue(param.key, e.target.value)}
+                  className={`${FIELD_CLASS} w-24 text-right`}
+                />
+              )}
+              {param.type === 'select' && (
+                <select
+                  value={String(draft[param.key])}
+                  onChange={(e) => setValue(param.key, e.target.value)}
+                  className={FIELD_CLASS}
+                >
+                  {param.options.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              )}
+              {param.type === 'boolean' && (
+                <input
+                  type="checkbox"
+                  checked={draft[param.key] === true}
+                  onChange={(e) => setValue(param.key, e.target.checked)}
+                />
+              )}
+            </label>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between gap-2 p-4 border-t border-[var(--border)]">
+          <button
+            onClick={() => setDraft(defaultParams(definition))}
+            className="text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+          >
+            Reset to defaults
+          </button>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-[var(--text-secondary)]">{indicatorLabel(definition, applied)}</span>
+            <button
+              onClick={() => {
+                onApply(applied);
+                onClose();
+              }}
+              className="px-3 py-1 text-sm rounded-lg bg-[#2962ff] text-white"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  INDICATORS,
+  IndicatorInstance,
+  addIndicatorInstance,
+  getIndicator,
+  indicatorLabel,
+} from '@/utils/indicatorRegistry';
+import IndicatorSettingsDialog from '@/components/IndicatorSettingsDialog';
+
+interface IndicatorToolbarProps {
+  instances: IndicatorInstance[];
+  onChange: (instances: IndicatorInstance[]) => void;
+  hasVolume: boolean;
+}
+
+export default function IndicatorToolbar({ instances, onChange, hasVolume }: IndicatorToolbarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const editing = instances.find(instance => instance.id === editingId);
+  const editingDefinition = editing && getIndicator(editing.type);
+
+  // A pill adds the indicator with default settings, or removes every instance of it
+  const togglePill = (type: string) => {
+    onChange(instances.some(instance => instance.type === type)
+      ? instances.filter(instance => instance.type !== type)
+      : addIndicatorInstance(instances, type));
+  };
+
+  return (
+    <>
+      <span className="text-sm text-[var(--text-secondary)]">Indicators:</span>
+      {INDICATORS.map(definition => {
+        const unavailable = definition.input === 'ohlcv' && !hasVolume;
+        return (
+          <button
+            key={definition.type}
+            onClick={() => togglePill(definition.type)}
+            disabled={unavailable}
+            title={unavailable ? `${definition.title} needs volume data` : definition.title}
+            className={`indicator-pill ${instances.some(i => i.type === definition.type) ? 'active' : ''} ${unavailable ? 'opacity-40 cursor-not-allowed' : ''}`}
+          >
+            {definition.name}
+          </button>
+        );
+      })}
+
+      {/* Active instances */}
+      {instances.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 w-full">
+          {instances.map(instance => {
+            const definition = getIndicator(instance.type);
+            if (!definition) return null;
+            return (
+              <span
+                key={instance.id}
+                className="flex items-center gap-1 px-2 py-0.5 text-xs bg-[var(--accent)]/20 text-[var(--accent)] rounded-full"
+              >
+                {indicatorLabel(definition, instance.params)}
+                {definition.params.length > 0 && (
+                  <button onClick={() => setEditingId(instance.id)} className="hover:text-[var(--text-primary)]" title="Settings">
+                    ⚙
+                  </button>
+                )}
+                {definition.params.length > 0 && (
+                  <button
+                    onClick={() => onChange(addIndicatorInstance(instances, instance.type))}
+                    className="hover:text-[var(--text-primary)]"
+                    title={`Add another ${definition.name}`}
+                  >
+                    ＋
+                  </button>
+                )}
+                <button
+                  onClick={() => onChange(instances.filter(i => i.id !== instance.id))}
+                  className="hover:text-red-400"
+                  title="Remove"
+                >
+                  ✕
+                </button>
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      {editing && editingDefinition && (
+        <IndicatorSettingsDialog
+          key={editing.id}
+          definition={editingDefinition}
+          params={editing.params}
+          onApply={(params) => onChange(instances.map(i => (i.id === editing.id ? { ...i, params } : i)))}
+          onClose={() => setEditingId(null)}
+        />
+      )}
+    </>
+  );
+}
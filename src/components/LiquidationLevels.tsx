@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
+import { getVendorId } from '@/lib/instruments';
 
 interface LiquidationLevel {
   price: number;
@@ -15,9 +16,6 @@ interface LiquidationLevelsProps {
   className?: string;
 }
 
-// Supported symbols for liquidation data
-const SUPPORTED_SYMBOLS = ['BTC', 'ETH', 'SOL', 'XRP', 'SUI', 'DOGE', 'ADA', 'AVAX', 'LINK', 'DOT'];
-
 // Deterministic pseudo-random based on seed (avoids non-deterministic Math.random in render)
 function seededRandom(seed: number): number {
   const x = Math.sin(seed * 9301 + 49297) * 233280;
@@ -71,7 +69,8 @@ function formatUsd(value: number): string {
 
 export default function LiquidationLevels({ symbol, currentPrice, className = '' }: LiquidationLevelsProps) {
   const [isOpen, setIsOpen] = useState(false);
-  const isSupported = SUPPORTED_SYMBOLS.includes(symbol.toUpperCase());
+  // Liquidation estimates only make sense for coins with listed perpetuals
+  const isSupported = getVendorId(symbol, 'binance') !== undefined;
 
   const levels = useMemo(() => {
     if (!isSupported || !currentPrice) return [];
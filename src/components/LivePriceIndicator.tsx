@@ -2,14 +2,17 @@
 
 import { useEffect, useState, useRef } from 'react';
 import { useRealtimePrice } from '@/hooks/useRealtimePrice';
+import { formatMoney } from '@/lib/currency';
 
 interface LivePriceIndicatorProps {
   symbol: string;
-  fallbackPrice?: number;
-  onPriceUpdate?: (price: number) => void;
+  fallbackPrice?: number;   // already in `currency`
+  onPriceUpdate?: (price: number) => void; // USD, as streamed
+  currency?: string;
+  usdRate?: number;         // streamed USD prices are multiplied by this for display
 }
 
-export default function LivePriceIndicator({ symbol, fallbackPrice, onPriceUpdate }: LivePriceIndicatorProps) {
+export default function LivePriceIndicator({ symbol, fallbackPrice, onPriceUpdate, currency = 'USD', usdRate = 1 }: LivePriceIndicatorProps) {
   const { prices, lastUpdate, connected } = useRealtimePrice({
     symbols: [symbol],
     enabled: true,
@@ -19,7 +22,7 @@ export default function LivePriceIndicator({ symbol, fallbackPrice, onPriceUpdat
   const prevPriceRef = useRef<number | null>(null);
   
   const livePrice = prices[symbol];
-  const displayPrice = livePrice || fallbackPrice;
+  const displayPrice = livePrice ? livePrice * usdRate : fallbackPrice;
   const lastUpdateTime = lastUpdate[symbol];
 
   // Flash on price change
@@ -73,10 +76,7 @@ export default function LivePriceIndicator({ symbol, fallbackPrice, onPriceUpdat
         flash === 'down' ? 'text-red-400' :
         'text-[var(--text-primary)]'
       }`}>
-        ${displayPrice.toLocaleString(undefined, { 
-          minimumFractionDigits: displayPrice < 1 ? 4 : 2,
-          maximumFractionDigits: displayPrice < 1 ? 6 : 2,
-        })}
+        {formatMoney(displayPrice, currency)}
       </span>
 
       {/* Last update timestamp */}
@@ -1,69 +1,30 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
-
-interface LSRData {
-  longShortRatio: number;
-  longAccount: number;
-  shortAccount: number;
-  timestamp: number;
-}
+import { getProvider, LongShortRatioPoint } from '@/lib/providers';
 
 interface LongShortRatioProps {
   symbol: string;
   className?: string;
 }
 
-const BINANCE_SYMBOLS: Record<string, string> = {
-  'BTC': 'BTCUSDT',
-  'ETH': 'ETHUSDT',
-  'SOL': 'SOLUSDT',
-  'XRP': 'XRPUSDT',
-  'SUI': 'SUIUSDT',
-  'DOGE': 'DOGEUSDT',
-  'ADA': 'ADAUSDT',
-  'AVAX': 'AVAXUSDT',
-  'LINK': 'LINKUSDT',
-  'DOT': 'DOTUSDT',
-};
-
-async function fetchLSR(symbol: string, limit: number = 30): Promise<LSRData[]> {
-  const binanceSymbol = BINANCE_SYMBOLS[symbol.toUpperCase()];
-  if (!binanceSymbol) return [];
-
-  try {
-    const res = await fetch(
-      `https://fapi.binance.com/futures/data/globalLongShortAccountRatio?symbol=${binanceSymbol}&period=1h&limit=${limit}`
-    );
-    if (!res.ok) return [];
-    const data = await res.json();
-    return data.map((d: { longShortRatio: string; longAccount: string; shortAccount: string; timestamp: number }) => ({
-      longShortRatio: parseFloat(d.longShortRatio),
-      longAccount: parseFloat(d.longAccount) * 100,
-      shortAccount: parseFloat(d.shortAccount) * 100,
-      timestamp: d.timestamp,
-    }));
-  } catch {
-    return [];
-  }
-}
-
 export default function LongShortRatio({ symbol, className = '' }: LongShortRatioProps) {
-  const [data, setData] = useState<LSRData[]>([]);
+  const [data, setData] = useState<LongShortRatioPoint[]>([]);
   const [loading, setLoading] = useState(true);
   const [isOpen, setIsOpen] = useState(false);
 
-  const isSupported = BINANCE_SYMBOLS[symbol.toUpperCase()] !== undefined;
+  const derivatives = getProvider('crypto').derivatives;
+  const isSupported = derivatives?.supportsFutures(symbol) ?? false;
 
   useEffect(() => {
-    if (!isSupported || !isOpen) {
+    if (!derivatives || !isSupported || !isOpen) {
       setLoading(false);
       return;
     }
 
     const load = async () => {
       setLoading(true);
-      const result = await fetchLSR(symbol);
+      const result = await derivatives.getLongShortRatio(symbol);
       setData(result);
       setLoading(false);
     };
@@ -71,7 +32,7 @@ export default function LongShortRatio({ symbol, className = '' }: LongShortRati
     load();
     const interval = setInterval(load, 60000);
     return () => clearInterval(interval);
-  }, [symbol, isSupported, isOpen]);
+  }, [symbol, derivatives, isSupported, isOpen]);
 
   const current = useMemo(() => {
     if (data.length === 0) return null;
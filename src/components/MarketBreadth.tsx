@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
+import { fetchTopCoinMarkets } from '@/lib/api';
 
 interface CoinData {
   id: string;
@@ -28,26 +29,18 @@ interface BreadthData {
 }
 
 async function fetchMarketBreadth(): Promise<CoinData[]> {
-  try {
-    const res = await fetch(
-      'https://api.coingecko.com/api/v3/coins/markets?vs_currency=usd&order=market_cap_desc&per_page=100&sparkline=false&price_change_percentage=7d'
-    );
-    if (!res.ok) return [];
-    const data = await res.json();
-    
-    return data.map((coin: any) => ({
-      id: coin.id,
-      symbol: (coin.symbol || '').toUpperCase(),
-      name: coin.name || '',
-      price_change_24h: coin.price_change_24h ?? null,
-      price_change_percentage_24h: coin.price_change_percentage_24h ?? null,
-      price_change_percentage_7d: coin.price_change_percentage_7d_in_currency ?? null,
-      current_price: coin.current_price || 0,
-      market_cap: coin.market_cap || 0,
-    }));
-  } catch {
-    return [];
-  }
+  const data = await fetchTopCoinMarkets();
+
+  return data.map((coin: any) => ({
+    id: coin.id,
+    symbol: (coin.symbol || '').toUpperCase(),
+    name: coin.name || '',
+    price_change_24h: coin.price_change_24h ?? null,
+    price_change_percentage_24h: coin.price_change_percentage_24h ?? null,
+    price_change_percentage_7d: coin.price_change_percentage_7d_in_currency ?? null,
+    current_price: coin.current_price || 0,
+    market_cap: coin.market_cap || 0,
+  }));
 }
 
 function calculateBreadth(coins: CoinData[]): BreadthData {
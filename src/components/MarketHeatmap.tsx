@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
-import axios from 'axios';
+import { fetchTopCoinMarkets } from '@/lib/api';
 
 interface MarketAsset {
   id: string;
@@ -19,8 +19,6 @@ interface MarketHeatmapProps {
   category?: 'crypto' | 'all';
 }
 
-const COINGECKO_BASE = 'https://api.coingecko.com/api/v3';
-
 function getHeatColor(change: number): string {
   if (change >= 10) return 'bg-green-600';
   if (change >= 5) return 'bg-green-500';
@@ -112,21 +110,12 @@ export default function MarketHeatmap({ onSelectAsset, category = 'crypto' }: Ma
     async function fetchMarketData() {
       setLoading(true);
       setError(null);
-      try {
-        const response = await axios.get(`${COINGECKO_BASE}/coins/markets`, {
-          params: {
-            vs_currency: 'usd',
-            order: 'market_cap_desc',
-            per_page: count,
-            page: 1,
-            sparkline: false,
-            price_change_percentage: '24h',
-          },
-        });
-        setAssets(response.data);
-      } catch (err) {
+      // Top 100 is shared with the screener and breadth panels; the heatmap shows a slice
+      const data = await fetchTopCoinMarkets();
+      if (data.length > 0) {
+        setAssets(data.slice(0, count));
+      } else {
         setError('Failed to load market data. CoinGecko rate limit may apply.');
-        console.error(err);
       }
       setLoading(false);
     }
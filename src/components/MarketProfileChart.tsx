@@ -0,0 +1,154 @@
+'use client';
+
+import { useMemo } from 'react';
+import type { MarketProfile } from '@/utils/marketProfile';
+import type { MarketProfileSettings } from '@/hooks/useMarketProfile';
+
+interface MarketProfileChartProps {
+  profiles: MarketProfile[];
+  settings: MarketProfileSettings;
+  onChange: (update: Partial<MarketProfileSettings>) => void;
+  intraday: boolean;
+}
+
+const SELECT_CLASS = 'bg-[var(--bg-hover)] text-[var(--text-primary)] text-xs rounded px-2 py-1 border border-[var(--border)]';
+
+// Widest composite bar, in pixels
+const COMPOSITE_WIDTH = 160;
+
+function formatDay(time: number): string {
+  return new Date(time * 1000).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+export default function MarketProfileChart({ profiles, settings, onChange, intraday }: MarketProfileChartProps) {
+  const rowSize = profiles[0]?.rowSize ?? 1;
+  const decimals = Math.min(8, Math.max(0, 1 - Math.floor(Math.log10(rowSize))));
+
+  // Shared price rows across all profiles, top to bottom, as row indexes
+  const rowIndexes = useMemo(() => {
+    const indexes = profiles.flatMap(profile => profile.rows.map(row => Math.round(row.price / rowSize)));
+    if (indexes.length === 0) return [];
+    const top = Math.max(...indexes);
+    const bottom = Math.min(...indexes);
+    return Array.from({ length: top - bottom + 1 }, (_, i) => top - i);
+  }, [profiles, rowSize]);
+
+  const columns = useMemo(() => profiles.map(profile => ({
+    profile,
+    rows: new Map(profile.rows.map(row => [Math.round(row.price / rowSize), row])),
+    singles: new Set(profile.singlePrints.map(price => Math.round(price / rowSize))),
+    maxCount: Math.max(...profile.rows.map(row => row.letters.length)),
+  })), [profiles, rowSize]);
+
+  return (
+    <div className="chart-container p-3 mt-2">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <span className="text-sm font-semibold text-[var(--text-primary)]">Market Profile (TPO)</span>
+        <select
+          value={settings.mode}
+          onChange={(e) => onChange({ mode: e.target.value as MarketProfileSettings['mode'] })}
+          className={SELECT_CLASS}
+        >
+          <option value="session">Per session</option>
+          <option value="composite">Composite</option>
+        </select>
+        <select
+          value={settings.sessions}
+          onChange={(e) => onChange({ sessions: Number(e.target.value) })}
+          className={SELECT_CLASS}
+          title="Latest sessions (UTC days)"
+        >
+          {[1, 2, 3, 5, 10, 20].map(n => (
+            <option key={n} value={n}>{n} {n === 1 ? 'session' : 'sessions'}</option>
+          ))}
+        </select>
+        <select
+          value={settings.periodMinutes}
+          onChange={(e) => onChange({ periodMinutes: Number(e.target.value) })}
+          className={SELECT_CLASS}
+          title="TPO period"
+        >
+          <option value={15}>15m periods</option>
+          <option value={30}>30m periods</option>
+          <option value={60}>1h periods</option>
+        </select>
+        <button
+          onClick={() => onChange({ levels: !settings.levels })}
+          className={`indicator-pill ${settings.levels ? 'active' : ''}`}
+          title="Draw POC, value area and initial balance on the chart"
+        >
+          Levels on chart
+        </button>
+      </div>
+
+      {!intraday ? (
+        <div className="text-sm text-[var(--text-secondary)] py-4">
+          Market Profile is built from intraday bars. Pick a 1m–4H interval.
+        </div>
+      ) : profiles.length === 0 ? (
+        <div className="text-sm text-[var(--text-secondary)] py-4">No bars to profile.</div>
+      ) : (
+        <div className="overflow-auto max-h-[420px]">
+          <div className="flex font-mono text-[10px] leading-3">
+            {/* Price axis */}
+            <div className="sticky left-0 bg-[var(--bg-card)] pr-2 text-right text-[var(--text-secondary)]">
+              <div className="h-4" />
+              {rowIndexes.map(index => (
+                <div key={index}>{(index * rowSize).toFixed(decimals)}</div>
+              ))}
+            </div>
+
+            {columns.map(({ profile, rows, singles, maxCount }) => {
+              const ib = profile.initialBalance;
+              return (
+                <div key={profile.start} className="pr-3 border-l border-[var(--border)] pl-1">
+                  <div className="h-4 text-[var(--text-secondary)] whitespace-nowrap">
+                    {profile.sessions > 1 ? `${formatDay(profile.start)} – ${formatDay(profile.end)}` : formatDay(profile.start)}
+                  </div>
+                  {rowIndexes.map(index => {
+                    const row = rows.get(index);
+                    const price = index * rowSize;
+                    const isPoc = profile.poc >= price && profile.poc < price + rowSize;
+                    const inValueArea = price >= profile.valueAreaLow && price < profile.valueAreaHigh;
+                    const inBalance = ib && price + rowSize > ib.low && price <= ib.high;
+                    return (
+                      <div
+                        key={index}
+                        className={`whitespace-nowrap h-3 border-l-2 pl-0.5 ${
+                          inBalance ? 'border-blue-500' : 'border-transparent'
+                        } ${
+                          isPoc ? 'bg-yellow-500/30 text-yellow-300' : inValueArea ? 'bg-blue-500/10 text-[var(--text-primary)]' : 'text-[var(--text-secondary)]'
+                        } ${singles.has(index) ? 'text-purple-400' : ''}`}
+                      >
+                        {row && (settings.mode === 'composite' ? (
+                          <span className="flex items-center gap-1">
+                            <span
+                              className={`inline-block h-2 ${isPoc ? 'bg-yellow-500' : inValueArea ? 'bg-blue-400/70' : 'bg-gray-500/60'}`}
+                              style={{ width: `${(row.letters.length / maxCount) * COMPOSITE_WIDTH}px` }}
+                            />
+                            {row.letters.length}
+                          </span>
+                        ) : row.letters)}
+                      </div>
+                    );
+                  })}
+                  <div className="mt-1 text-[var(--text-secondary)] whitespace-nowrap">
+                    POC {profile.poc.toFixed(decimals)} · VA {profile.valueAreaLow.toFixed(decimals)}–{profile.valueAreaHigh.toFixed(decimals)}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-4 mt-2 text-xs text-[var(--text-secondary)]">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 bg-yellow-500/60 rounded" />POC</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 bg-blue-500/30 rounded" />Value area (70%)</span>
+        <span className="flex items-center gap-1"><span className="w-1 h-3 bg-blue-500" />Initial balance</span>
+        <span className="flex items-center gap-1"><span className="text-purple-400 font-mono">A</span>Single prints</span>
+      </div>
+    </div>
+  );
+}
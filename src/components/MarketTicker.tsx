@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { fetchListedCoinMarkets } from '@/lib/api';
 
 interface TickerItem {
   symbol: string;
@@ -18,27 +19,18 @@ export default function MarketTicker({ onSelectAsset, className = '' }: MarketTi
 
   useEffect(() => {
     async function fetchTicker() {
-      try {
-        const res = await fetch(
-          'https://api.coingecko.com/api/v3/coins/markets?' +
-          'vs_currency=usd&ids=bitcoin,ethereum,solana,ripple,sui,dogecoin,cardano' +
-          '&order=market_cap_desc&sparkline=false&price_change_percentage=24h'
-        );
-        if (!res.ok) return;
-        const data = await res.json();
-        
-        setItems(data.map((coin: any) => ({
-          symbol: coin.symbol.toUpperCase(),
-          price: coin.current_price,
-          change24h: coin.price_change_percentage_24h || 0,
-        })));
-      } catch {
-        // silently fail
-      }
+      const data = await fetchListedCoinMarkets();
+      if (data.length === 0) return;
+
+      setItems(data.map((coin: any) => ({
+        symbol: coin.symbol.toUpperCase(),
+        price: coin.current_price,
+        change24h: coin.price_change_percentage_24h || 0,
+      })));
     }
 
     fetchTicker();
-    // 60s interval to reduce CoinGecko rate limit pressure (shared across components)
+    // Same request as PricePerformance, so one CoinGecko call serves both
     const interval = setInterval(fetchTicker, 60000);
     return () => clearInterval(interval);
   }, []);
@@ -3,7 +3,10 @@
 import { useState, useEffect } from 'react';
 import dynamic from 'next/dynamic';
 import { fetchCryptoOHLCV, fetchStockOHLCV, getSupportedAssets } from '@/lib/api';
-import { OHLCV, SMA, BollingerBands } from '@/utils/indicators';
+import { getAssetClass } from '@/lib/instruments';
+import { OHLCV, barsPerYear } from '@/utils/indicators';
+import { computeIndicator, getIndicator, parseIndicators } from '@/utils/indicatorRegistry';
+import type { IndicatorOverlay } from '@/components/Chart';
 
 const Chart = dynamic(() => import('@/components/Chart'), { ssr: false });
 
@@ -15,6 +18,19 @@ interface MultiChartViewProps {
 
 const assets = getSupportedAssets();
 
+// Every mini chart shows the same daily-bar overlays
+const MINI_CHART_INDICATORS = parseIndicators(['sma:20', 'bb']);
+const DAILY_CONTEXT = { barsPerYear: barsPerYear(86400) };
+
+function miniChartOverlays(data: OHLCV[]): IndicatorOverlay[] {
+  return MINI_CHART_INDICATORS.flatMap(({ id, type, params }) => {
+    const definition = getIndicator(type);
+    return definition?.kind === 'series'
+      ? [{ id, definition, params, values: computeIndicator(definition, data, params, DAILY_CONTEXT) }]
+      : [];
+  });
+}
+
 export default function MultiChartView({ isOpen, onClose, initialSymbols = ['BTC', 'ETH'] }: MultiChartViewProps) {
   const [selectedSymbols, setSelectedSymbols] = useState<string[]>(initialSymbols.slice(0, 4));
   const [chartData, setChartData] = useState<Record<string, OHLCV[]>>({});
@@ -30,10 +46,9 @@ export default function MultiChartView({ isOpen, onClose, initialSymbols = ['BTC
       
       setLoading(prev => ({ ...prev, [symbol]: true }));
       try {
-        const asset = assets.find(a => a.symbol === symbol);
         let data: OHLCV[];
         
-        if (asset?.type === 'stock') {
+        if (getAssetClass(symbol) === 'stock') {
           data = await fetchStockOHLCV(symbol, 90);
         } else {
           data = await fetchCryptoOHLCV(symbol, '1d', 90);
@@ -139,10 +154,7 @@ export default function MultiChartView({ isOpen, onClose, initialSymbols = ['BTC
           {selectedSymbols.map(symbol => {
             const data = chartData[symbol] || [];
             const isLoading = loading[symbol];
-            const indicators = data.length > 20 ? {
-              sma20: SMA(data.map(d => d.close), 20),
-              bb: BollingerBands(data.map(d => d.close)),
-            } : {};
+            const overlays = data.length > 20 ? miniChartOverlays(data) : [];
 
             return (
               <div key={symbol} className="bg-gray-800 rounded-lg overflow-hidden flex flex-col min-h-[250px]">
@@ -165,7 +177,7 @@ export default function MultiChartView({ isOpen, onClose, initialSymbols = ['BTC
                   ) : data.length > 0 ? (
                     <Chart
                       data={data}
-                      indicators={indicators}
+                      overlays={overlays}
                       height={layout === '2x2' ? 200 : 300}
                       chartType="candlestick"
                     />
@@ -1,8 +1,9 @@
 'use client';
 
 import { useState, useEffect, useMemo, useRef } from 'react';
-import { fetchCryptoOHLCV, fetchStockOHLCV, getSupportedAssets } from '@/lib/api';
-import { OHLCV, RSI, SMA, MACD } from '@/utils/indicators';
+import { fetchCryptoOHLCV, fetchStockOHLCV, CandleInterval, CANDLE_INTERVALS } from '@/lib/api';
+import { getAssetClass } from '@/lib/instruments';
+import { OHLCV, RSI, SMA, MACD, HistoricalVolatility, barsPerYear } from '@/utils/indicators';
 
 interface TimeframeData {
   days: number;
@@ -29,24 +30,12 @@ interface MultiTimeframeProps {
   className?: string;
 }
 
-const TIMEFRAMES = [
-  { days: 7, label: '1W' },
-  { days: 30, label: '1M' },
-  { days: 90, label: '3M' },
+const TIMEFRAMES: { days: number; label: string; interval: CandleInterval }[] = [
+  { days: 7, label: '1W', interval: '1h' },
+  { days: 30, label: '1M', interval: '4h' },
+  { days: 90, label: '3M', interval: '1d' },
 ];
 
-const assets = getSupportedAssets();
-
-function calculateVolatility(data: OHLCV[]): number {
-  if (data.length < 2) return 0;
-  const returns = [];
-  for (let i = 1; i < data.length; i++) {
-    returns.push((data[i].close - data[i - 1].close) / data[i - 1].close);
-  }
-  const mean = returns.reduce((s, r) => s + r, 0) / returns.length;
-  const variance = returns.reduce((s, r) => s + Math.pow(r - mean, 2), 0) / returns.length;
-  return Math.sqrt(variance) * 100; // As percentage
-}
 
 export default function MultiTimeframe({ symbol, className = '' }: MultiTimeframeProps) {
   const [timeframeData, setTimeframeData] = useState<Record<number, TimeframeData>>({});
@@ -62,8 +51,7 @@ export default function MultiTimeframe({ symbol, className = '' }: MultiTimefram
     fetchedRef.current = symbol;
 
     async function fetchAll() {
-      const asset = assets.find(a => a.symbol === symbol);
-      const isStock = asset?.type === 'stock';
+      const isStock = getAssetClass(symbol) === 'stock';
 
       // Initialize loading state
       const initialState: Record<number, TimeframeData> = {};
@@ -76,8 +64,8 @@ export default function MultiTimeframe({ symbol, className = '' }: MultiTimefram
       const results = await Promise.allSettled(
         TIMEFRAMES.map(async (tf) => {
           const data = isStock
-            ? await fetchStockOHLCV(symbol, tf.days)
-            : await fetchCryptoOHLCV(symbol, '1d', tf.days);
+            ? await fetchStockOHLCV(symbol, tf.days, tf.interval)
+            : await fetchCryptoOHLCV(symbol, tf.interval, tf.days);
           return { days: tf.days, data };
         })
       );
@@ -120,6 +108,7 @@ export default function MultiTimeframe({ symbol, className = '' }: MultiTimefram
   }, [symbol]);
 
   const analyses = useMemo((): TimeframeAnalysis[] => {
+    const isStock = getAssetClass(symbol) === 'stock';
     return TIMEFRAMES.map(tf => {
       const tfData = timeframeData[tf.days];
       if (!tfData || tfData.loading || tfData.data.length < 14) {
@@ -169,8 +158,15 @@ export default function MultiTimeframe({ symbol, className = '' }: MultiTimefram
       if (signalSum >= 2) trend = 'bullish';
       else if (signalSum <= -2) trend = 'bearish';
       
-      // Volatility
-      const volatility = calculateVolatility(data);
+      // Annualized close-to-close volatility over the last 20 bars
+      const barSeconds = CANDLE_INTERVALS[tf.interval].seconds;
+      const hv = HistoricalVolatility(
+        data,
+        'closeToClose',
+        Math.min(20, data.length - 1),
+        isStock ? barsPerYear(barSeconds, 252, 6.5 * 3600) : barsPerYear(barSeconds)
+      );
+      const volatility = hv[hv.length - 1];
 
       return {
         label: tf.label,
@@ -184,7 +180,7 @@ export default function MultiTimeframe({ symbol, className = '' }: MultiTimefram
         data,
       };
     });
-  }, [timeframeData]);
+  }, [timeframeData, symbol]);
 
   const isLoading = Object.values(timeframeData).some(t => t.loading);
 
@@ -317,7 +313,7 @@ export default function MultiTimeframe({ symbol, className = '' }: MultiTimefram
                         </span>
                       </div>
                       <div className="flex justify-between">
-                        <span className="text-[var(--text-secondary)]">Volatility</span>
+                        <span className="text-[var(--text-secondary)]">Ann. Vol</span>
                         <span className="text-[var(--text-primary)]">{analysis.volatility.toFixed(2)}%</span>
                       </div>
                     </div>
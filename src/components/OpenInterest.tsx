@@ -1,73 +1,13 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
-
-interface OIData {
-  symbol: string;
-  sumOpenInterest: number;
-  sumOpenInterestValue: number;
-  timestamp: number;
-}
+import { getProvider, OpenInterestSnapshot, OpenInterestPoint } from '@/lib/providers';
 
 interface OpenInterestProps {
   symbol: string;
   className?: string;
 }
 
-const BINANCE_SYMBOLS: Record<string, string> = {
-  'BTC': 'BTCUSDT',
-  'ETH': 'ETHUSDT',
-  'SOL': 'SOLUSDT',
-  'XRP': 'XRPUSDT',
-  'SUI': 'SUIUSDT',
-  'DOGE': 'DOGEUSDT',
-  'ADA': 'ADAUSDT',
-  'AVAX': 'AVAXUSDT',
-  'LINK': 'LINKUSDT',
-  'DOT': 'DOTUSDT',
-};
-
-async function fetchOpenInterest(symbol: string): Promise<OIData | null> {
-  const binanceSymbol = BINANCE_SYMBOLS[symbol.toUpperCase()];
-  if (!binanceSymbol) return null;
-
-  try {
-    const res = await fetch(
-      `https://fapi.binance.com/fapi/v1/openInterest?symbol=${binanceSymbol}`
-    );
-    if (!res.ok) return null;
-    const data = await res.json();
-
-    return {
-      symbol: binanceSymbol,
-      sumOpenInterest: parseFloat(data.openInterest),
-      sumOpenInterestValue: 0, // Will calculate from price
-      timestamp: data.time,
-    };
-  } catch {
-    return null;
-  }
-}
-
-async function fetchOIHistory(symbol: string): Promise<{ oi: number; time: number }[]> {
-  const binanceSymbol = BINANCE_SYMBOLS[symbol.toUpperCase()];
-  if (!binanceSymbol) return [];
-
-  try {
-    const res = await fetch(
-      `https://fapi.binance.com/futures/data/openInterestHist?symbol=${binanceSymbol}&period=1h&limit=48`
-    );
-    if (!res.ok) return [];
-    const data = await res.json();
-    return data.map((d: { sumOpenInterest: string; timestamp: number }) => ({
-      oi: parseFloat(d.sumOpenInterest),
-      time: d.timestamp,
-    }));
-  } catch {
-    return [];
-  }
-}
-
 function formatValue(value: number): string {
   if (value >= 1e9) return `$${(value / 1e9).toFixed(2)}B`;
   if (value >= 1e6) return `$${(value / 1e6).toFixed(1)}M`;
@@ -82,15 +22,16 @@ function formatOI(value: number): string {
 }
 
 export default function OpenInterest({ symbol, className = '' }: OpenInterestProps) {
-  const [currentOI, setCurrentOI] = useState<OIData | null>(null);
-  const [history, setHistory] = useState<{ oi: number; time: number }[]>([]);
+  const [currentOI, setCurrentOI] = useState<OpenInterestSnapshot | null>(null);
+  const [history, setHistory] = useState<OpenInterestPoint[]>([]);
   const [loading, setLoading] = useState(true);
   const [isOpen, setIsOpen] = useState(false);
 
-  const isSupported = BINANCE_SYMBOLS[symbol.toUpperCase()] !== undefined;
+  const derivatives = getProvider('crypto').derivatives;
+  const isSupported = derivatives?.supportsFutures(symbol) ?? false;
 
   useEffect(() => {
-    if (!isSupported || !isOpen) {
+    if (!derivatives || !isSupported || !isOpen) {
       setLoading(false);
       return;
     }
@@ -98,8 +39,8 @@ export default function OpenInterest({ symbol, className = '' }: OpenInterestPro
     const load = async () => {
       setLoading(true);
       const [oi, hist] = await Promise.all([
-        fetchOpenInterest(symbol),
-        fetchOIHistory(symbol),
+        derivatives.getOpenInterest(symbol),
+        derivatives.getOpenInterestHistory(symbol),
       ]);
       setCurrentOI(oi);
       setHistory(hist);
@@ -109,7 +50,7 @@ export default function OpenInterest({ symbol, className = '' }: OpenInterestPro
     load();
     const interval = setInterval(load, 60000);
     return () => clearInterval(interval);
-  }, [symbol, isSupported, isOpen]);
+  }, [symbol, derivatives, isSupported, isOpen]);
 
   const oiChange = useMemo(() => {
     if (history.length < 2) return 0;
@@ -133,7 +74,7 @@ export default function OpenInterest({ symbol, className = '' }: OpenInterestPro
         <div className="flex items-center gap-2">
           {currentOI && !loading && (
             <span className="text-xs text-[var(--text-secondary)]">
-              {formatOI(currentOI.sumOpenInterest)} {symbol}
+              {formatOI(currentOI.openInterest)} {symbol}
             </span>
           )}
           <span className="text-gray-400 text-sm">{isOpen ? '▲' : '▼'}</span>
@@ -152,7 +93,7 @@ export default function OpenInterest({ symbol, className = '' }: OpenInterestPro
                 <div className="bg-[var(--bg-hover)] rounded-lg p-2">
                   <div className="text-xs text-[var(--text-secondary)]">Current OI</div>
                   <div className="text-sm font-bold text-[var(--text-primary)]">
-                    {formatOI(currentOI.sumOpenInterest)}
+                    {formatOI(currentOI.openInterest)}
                   </div>
                 </div>
                 <div className="bg-[var(--bg-hover)] rounded-lg p-2">
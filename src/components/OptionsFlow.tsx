@@ -1,71 +1,13 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
-
-interface OptionSummary {
-  instrument_name: string;
-  open_interest: number;
-  volume: number;
-  mark_iv: number;
-  underlying_price: number;
-  mark_price: number;
-  strike: number;
-  expiry: string;
-  type: 'call' | 'put';
-}
+import { getProvider, OptionSummary } from '@/lib/providers';
 
 interface OptionsFlowProps {
   symbol: string;
   className?: string;
 }
 
-const SUPPORTED_OPTIONS: Record<string, string> = {
-  'BTC': 'BTC',
-  'ETH': 'ETH',
-  'SOL': 'SOL',
-};
-
-function parseInstrumentName(name: string): { expiry: string; strike: number; type: 'call' | 'put' } | null {
-  // Format: BTC-6FEB26-88000-P
-  const parts = name.split('-');
-  if (parts.length < 4) return null;
-  const expiry = parts[1];
-  const strike = parseInt(parts[2]);
-  const type = parts[3] === 'C' ? 'call' : 'put';
-  if (isNaN(strike)) return null;
-  return { expiry, strike, type };
-}
-
-async function fetchOptionsData(currency: string): Promise<OptionSummary[]> {
-  try {
-    const res = await fetch(
-      `https://www.deribit.com/api/v2/public/get_book_summary_by_currency?currency=${currency}&kind=option`
-    );
-    if (!res.ok) return [];
-    const data = await res.json();
-    
-    return (data.result || [])
-      .map((opt: any) => {
-        const parsed = parseInstrumentName(opt.instrument_name);
-        if (!parsed) return null;
-        return {
-          instrument_name: opt.instrument_name,
-          open_interest: opt.open_interest || 0,
-          volume: opt.volume || 0,
-          mark_iv: opt.mark_iv || 0,
-          underlying_price: opt.underlying_price || 0,
-          mark_price: opt.mark_price || 0,
-          strike: parsed.strike,
-          expiry: parsed.expiry,
-          type: parsed.type,
-        };
-      })
-      .filter(Boolean) as OptionSummary[];
-  } catch {
-    return [];
-  }
-}
-
 function formatNumber(n: number): string {
   if (n >= 1e9) return `${(n / 1e9).toFixed(2)}B`;
   if (n >= 1e6) return `${(n / 1e6).toFixed(1)}M`;
@@ -78,15 +20,18 @@ export default function OptionsFlow({ symbol, className = '' }: OptionsFlowProps
   const [loading, setLoading] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
 
-  const currency = SUPPORTED_OPTIONS[symbol.toUpperCase()];
+  const derivatives = getProvider('crypto').derivatives;
+  const currency = derivatives?.supportsOptions(symbol) ? symbol.toUpperCase() : null;
 
   useEffect(() => {
-    if (!isOpen || !currency) return;
+    if (!isOpen || !derivatives || !currency) return;
+    const source = derivatives;
+    const underlying = currency;
     let cancelled = false;
 
     async function load() {
       setLoading(true);
-      const data = await fetchOptionsData(currency);
+      const data = await source.getOptions(underlying);
       if (!cancelled) {
         setOptions(data);
         setLoading(false);
@@ -96,7 +41,7 @@ export default function OptionsFlow({ symbol, className = '' }: OptionsFlowProps
     load();
     const interval = setInterval(load, 60000); // refresh every minute
     return () => { cancelled = true; clearInterval(interval); };
-  }, [isOpen, currency]);
+  }, [isOpen, derivatives, currency]);
 
   // Compute Put/Call ratio
   const stats = useMemo(() => {
@@ -105,8 +50,8 @@ export default function OptionsFlow({ symbol, className = '' }: OptionsFlowProps
     const calls = options.filter(o => o.type === 'call');
     const puts = options.filter(o => o.type === 'put');
 
-    const callOI = calls.reduce((s, o) => s + o.open_interest, 0);
-    const putOI = puts.reduce((s, o) => s + o.open_interest, 0);
+    const callOI = calls.reduce((s, o) => s + o.openInterest, 0);
+    const putOI = puts.reduce((s, o) => s + o.openInterest, 0);
     const callVol = calls.reduce((s, o) => s + o.volume, 0);
     const putVol = puts.reduce((s, o) => s + o.volume, 0);
 
@@ -122,9 +67,9 @@ export default function OptionsFlow({ symbol, className = '' }: OptionsFlowProps
       let pain = 0;
       for (const opt of options) {
         if (opt.type === 'call' && testStrike > opt.strike) {
-          pain += (testStrike - opt.strike) * opt.open_interest;
+          pain += (testStrike - opt.strike) * opt.openInterest;
         } else if (opt.type === 'put' && testStrike < opt.strike) {
-          pain += (opt.strike - testStrike) * opt.open_interest;
+          pain += (opt.strike - testStrike) * opt.openInterest;
         }
       }
       if (pain < minPain) {
@@ -134,10 +79,10 @@ export default function OptionsFlow({ symbol, className = '' }: OptionsFlowProps
     }
 
     // Average IV
-    const allIV = options.filter(o => o.mark_iv > 0).map(o => o.mark_iv);
+    const allIV = options.filter(o => o.markIv > 0).map(o => o.markIv);
     const avgIV = allIV.length > 0 ? allIV.reduce((s, v) => s + v, 0) / allIV.length : 0;
 
-    const underlyingPrice = options[0]?.underlying_price || 0;
+    const underlyingPrice = options[0]?.underlyingPrice || 0;
 
     return {
       callOI, putOI, callVol, putVol,
@@ -156,8 +101,8 @@ export default function OptionsFlow({ symbol, className = '' }: OptionsFlowProps
 
     for (const opt of options) {
       const existing = strikeMap.get(opt.strike) || { callOI: 0, putOI: 0 };
-      if (opt.type === 'call') existing.callOI += opt.open_interest;
-      else existing.putOI += opt.open_interest;
+      if (opt.type === 'call') existing.callOI += opt.openInterest;
+      else existing.putOI += opt.openInterest;
       strikeMap.set(opt.strike, existing);
     }
 
@@ -1,6 +1,8 @@
 'use client';
 
-import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { useState, useMemo } from 'react';
+import { getVendorId } from '@/lib/instruments';
+import { useStreamStatus, useDepthStream } from '@/hooks/useStream';
 
 interface OrderLevel {
   price: number;
@@ -13,12 +15,6 @@ interface OrderbookDepthProps {
   className?: string;
 }
 
-const BINANCE_SYMBOLS: Record<string, string> = {
-  'BTC': 'BTCUSDT', 'ETH': 'ETHUSDT', 'SOL': 'SOLUSDT', 'XRP': 'XRPUSDT',
-  'SUI': 'SUIUSDT', 'DOGE': 'DOGEUSDT', 'ADA': 'ADAUSDT', 'AVAX': 'AVAXUSDT',
-  'LINK': 'LINKUSDT', 'DOT': 'DOTUSDT',
-};
-
 function formatPrice(p: number): string {
   if (p >= 10000) return p.toFixed(0);
   if (p >= 100) return p.toFixed(2);
@@ -33,104 +29,26 @@ function formatQty(q: number): string {
 }
 
 export default function OrderbookDepth({ symbol, className = '' }: OrderbookDepthProps) {
-  const [bids, setBids] = useState<OrderLevel[]>([]);
-  const [asks, setAsks] = useState<OrderLevel[]>([]);
   const [isOpen, setIsOpen] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
-  const [midPrice, setMidPrice] = useState(0);
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const reconnectAttempts = useRef(0);
-  const intentionalClose = useRef(false);
-
-  const binanceSymbol = BINANCE_SYMBOLS[symbol.toUpperCase()];
-
-  const connect = useCallback(() => {
-    if (!binanceSymbol || !isOpen) return;
-
-    if (wsRef.current) {
-      intentionalClose.current = true;
-      wsRef.current.close();
-    }
-    intentionalClose.current = false;
-
-    // Use partial book depth stream (20 levels, 100ms updates)
-    const ws = new WebSocket(
-      `wss://stream.binance.com:9443/ws/${binanceSymbol.toLowerCase()}@depth20@100ms`
-    );
-    wsRef.current = ws;
-
-    ws.onopen = () => {
-      setIsConnected(true);
-      reconnectAttempts.current = 0;
+  const isConnected = useStreamStatus() === 'open';
+  const depth = useDepthStream(symbol, isOpen);
+
+  const binanceSymbol = getVendorId(symbol, 'binance');
+
+  // Cumulative levels: bids high to low, asks low to high
+  const { bids, asks, midPrice } = useMemo(() => {
+    const accumulate = (levels: [number, number][]): OrderLevel[] => {
+      let total = 0;
+      return levels.map(([price, quantity]) => {
+        total += quantity;
+        return { price, quantity, total };
+      });
     };
-
-    ws.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        
-        // Process bids (sorted high to low)
-        let bidTotal = 0;
-        const newBids: OrderLevel[] = (data.bids || []).map((b: string[]) => {
-          const price = parseFloat(b[0]);
-          const quantity = parseFloat(b[1]);
-          bidTotal += quantity;
-          return { price, quantity, total: bidTotal };
-        });
-
-        // Process asks (sorted low to high)
-        let askTotal = 0;
-        const newAsks: OrderLevel[] = (data.asks || []).map((a: string[]) => {
-          const price = parseFloat(a[0]);
-          const quantity = parseFloat(a[1]);
-          askTotal += quantity;
-          return { price, quantity, total: askTotal };
-        });
-
-        setBids(newBids);
-        setAsks(newAsks);
-
-        if (newBids.length > 0 && newAsks.length > 0) {
-          setMidPrice((newBids[0].price + newAsks[0].price) / 2);
-        }
-      } catch (err) {
-        console.error('Orderbook parse error:', err);
-      }
-    };
-
-    ws.onerror = () => setIsConnected(false);
-
-    ws.onclose = () => {
-      setIsConnected(false);
-      wsRef.current = null;
-      if (!intentionalClose.current && isOpen && reconnectAttempts.current < 5) {
-        const delay = Math.min(1000 * Math.pow(2, reconnectAttempts.current), 30000);
-        reconnectAttempts.current++;
-        reconnectTimeoutRef.current = setTimeout(connect, delay);
-      }
-    };
-  }, [binanceSymbol, isOpen]);
-
-  useEffect(() => {
-    connect();
-    return () => {
-      intentionalClose.current = true;
-      if (wsRef.current) {
-        wsRef.current.close();
-        wsRef.current = null;
-      }
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
-    };
-  }, [connect]);
-
-  // Reset on symbol change
-  useEffect(() => {
-    setBids([]);
-    setAsks([]);
-    setMidPrice(0);
-  }, [symbol]);
+    const bids = accumulate(depth?.bids || []);
+    const asks = accumulate(depth?.asks || []);
+    const midPrice = bids.length > 0 && asks.length > 0 ? (bids[0].price + asks[0].price) / 2 : 0;
+    return { bids, asks, midPrice };
+  }, [depth]);
 
   const stats = useMemo(() => {
     if (bids.length === 0 || asks.length === 0) return null;
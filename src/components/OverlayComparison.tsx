@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef, useMemo } from 'react';
 import { createChart, ColorType, CrosshairMode, IChartApi } from 'lightweight-charts';
 import { getSupportedAssets, fetchCryptoOHLCV, fetchStockOHLCV } from '@/lib/api';
+import { getAssetClass } from '@/lib/instruments';
 import { OHLCV } from '@/utils/indicators';
 
 interface OverlayComparisonProps {
@@ -49,9 +50,8 @@ export default function OverlayComparison({ primaryAsset, isOpen, onClose }: Ove
 
       setLoading(prev => ({ ...prev, [symbol]: true }));
       try {
-        const asset = assets.find(a => a.symbol === symbol);
         let data: OHLCV[];
-        if (asset?.type === 'stock') {
+        if (getAssetClass(symbol) === 'stock') {
           data = await fetchStockOHLCV(symbol, timeframe);
         } else {
           data = await fetchCryptoOHLCV(symbol, '1d', timeframe);
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { PortfolioWithPrices } from '@/hooks/usePortfolio';
+import { formatMoney } from '@/lib/currency';
 
 interface PortfolioProps {
   holdings: PortfolioWithPrices[];
@@ -11,6 +12,8 @@ interface PortfolioProps {
   onRemove: (symbol: string) => void;
   onSelectAsset: (symbol: string) => void;
   availableSymbols: string[];
+  currency?: string; // display currency; holdings are tracked in USD
+  usdRate?: number;
 }
 
 export default function Portfolio({
@@ -21,6 +24,8 @@ export default function Portfolio({
   onRemove,
   onSelectAsset,
   availableSymbols,
+  currency = 'USD',
+  usdRate = 1,
 }: PortfolioProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [showAddForm, setShowAddForm] = useState(false);
@@ -30,6 +35,7 @@ export default function Portfolio({
 
   const totalPnL = totalValue - totalCost;
   const totalPnLPercent = totalCost > 0 ? ((totalValue - totalCost) / totalCost) * 100 : 0;
+  const money = (usd: number) => formatMoney(usd * usdRate, currency);
 
   const handleAdd = () => {
     if (newSymbol && newQuantity && newCost) {
@@ -77,10 +83,10 @@ export default function Portfolio({
           <div className="flex items-center gap-4">
             <div className="text-right">
               <div className="font-bold text-[var(--text-primary)]">
-                ${totalValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                {money(totalValue)}
               </div>
               <div className={`text-sm ${totalPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                {totalPnL >= 0 ? '+' : ''}{totalPnL.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ({totalPnLPercent >= 0 ? '+' : ''}{totalPnLPercent.toFixed(2)}%)
+                {totalPnL >= 0 ? '+' : ''}{money(totalPnL)} ({totalPnLPercent >= 0 ? '+' : ''}{totalPnLPercent.toFixed(2)}%)
               </div>
             </div>
             <span className="text-[var(--text-secondary)]">{isExpanded ? '▲' : '▼'}</span>
@@ -114,11 +120,11 @@ export default function Portfolio({
                   >
                     <td className="py-3 px-4 font-medium text-[var(--text-primary)]">{h.symbol}</td>
                     <td className="text-right py-3 px-4 text-[var(--text-primary)]">{h.quantity.toFixed(4)}</td>
-                    <td className="text-right py-3 px-4 text-[var(--text-secondary)]">${h.avgCost.toFixed(2)}</td>
-                    <td className="text-right py-3 px-4 text-[var(--text-primary)]">${h.currentPrice.toFixed(2)}</td>
-                    <td className="text-right py-3 px-4 text-[var(--text-primary)]">${h.value.toLocaleString(undefined, { maximumFractionDigits: 2 })}</td>
+                    <td className="text-right py-3 px-4 text-[var(--text-secondary)]">{money(h.avgCost)}</td>
+                    <td className="text-right py-3 px-4 text-[var(--text-primary)]">{money(h.currentPrice)}</td>
+                    <td className="text-right py-3 px-4 text-[var(--text-primary)]">{money(h.value)}</td>
                     <td className={`text-right py-3 px-4 ${h.pnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                      {h.pnl >= 0 ? '+' : ''}{h.pnl.toFixed(2)} ({h.pnlPercent >= 0 ? '+' : ''}{h.pnlPercent.toFixed(1)}%)
+                      {h.pnl >= 0 ? '+' : ''}{money(h.pnl)} ({h.pnlPercent >= 0 ? '+' : ''}{h.pnlPercent.toFixed(1)}%)
                     </td>
                     <td className="text-center py-3 px-4">
                       <button
@@ -166,7 +172,7 @@ export default function Portfolio({
                   />
                 </div>
                 <div>
-                  <label className="text-xs text-[var(--text-secondary)] block mb-1">Avg Cost</label>
+                  <label className="text-xs text-[var(--text-secondary)] block mb-1">Avg Cost (USD)</label>
                   <input
                     type="number"
                     value={newCost}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
+import { fetchListedCoinMarkets } from '@/lib/api';
 
 interface AssetPerformance {
   symbol: string;
@@ -28,30 +29,19 @@ export default function PricePerformance({ selectedAsset, onSelectAsset, classNa
   useEffect(() => {
     async function fetchPerformance() {
       setLoading(true);
-      try {
-        const res = await fetch(
-          'https://api.coingecko.com/api/v3/coins/markets?' +
-          'vs_currency=usd&ids=bitcoin,ethereum,solana,ripple,sui,dogecoin,cardano,avalanche-2,chainlink,polkadot' +
-          '&order=market_cap_desc&sparkline=true&price_change_percentage=1h,24h,7d,30d'
-        );
-        if (!res.ok) throw new Error('Failed to fetch');
-        const data = await res.json();
+      const data = await fetchListedCoinMarkets();
+      const mapped: AssetPerformance[] = data.map((coin: any) => ({
+        symbol: coin.symbol.toUpperCase(),
+        name: coin.name,
+        price: coin.current_price,
+        change1h: coin.price_change_percentage_1h_in_currency || 0,
+        change24h: coin.price_change_percentage_24h_in_currency || 0,
+        change7d: coin.price_change_percentage_7d_in_currency || 0,
+        change30d: coin.price_change_percentage_30d_in_currency || 0,
+        sparkline: coin.sparkline_in_7d?.price?.slice(-24) || [],
+      }));
 
-        const mapped: AssetPerformance[] = data.map((coin: any) => ({
-          symbol: coin.symbol.toUpperCase(),
-          name: coin.name,
-          price: coin.current_price,
-          change1h: coin.price_change_percentage_1h_in_currency || 0,
-          change24h: coin.price_change_percentage_24h_in_currency || 0,
-          change7d: coin.price_change_percentage_7d_in_currency || 0,
-          change30d: coin.price_change_percentage_30d_in_currency || 0,
-          sparkline: coin.sparkline_in_7d?.price?.slice(-24) || [],
-        }));
-
-        setAssets(mapped);
-      } catch (error) {
-        console.error('Performance fetch error:', error);
-      }
+      if (mapped.length > 0) setAssets(mapped);
       setLoading(false);
     }
 
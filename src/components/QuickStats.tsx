@@ -2,16 +2,22 @@
 
 import { useMemo } from 'react';
 import { OHLCV, RSI, ATR, SMA } from '@/utils/indicators';
+import { SessionStats, SessionSummary } from '@/utils/sessions';
 
 interface QuickStatsProps {
   data: OHLCV[];
   symbol: string;
+  sessionSummary?: SessionSummary | null;
   className?: string;
 }
 
-export default function QuickStats({ data, symbol, className = '' }: QuickStatsProps) {
+function formatSession(s: SessionStats): string {
+  return `${s.change >= 0 ? '+' : ''}${s.change.toFixed(2)}% (H ${s.high.toFixed(2)} / L ${s.low.toFixed(2)})`;
+}
+
+export default function QuickStats({ data, symbol, sessionSummary, className = '' }: QuickStatsProps) {
   const stats = useMemo(() => {
-    if (data.length < 2) return null;
+    if (data.length === 0) return null;
 
     const closes = data.map(d => d.close);
     const latest = data[data.length - 1];
@@ -32,15 +38,23 @@ export default function QuickStats({ data, symbol, className = '' }: QuickStatsP
     const atrValues = ATR(data);
     const currentATR = atrValues[atrValues.length - 1];
 
-    // Volatility (standard deviation of returns)
-    const returns: number[] = [];
-    for (let i = 1; i < closes.length; i++) {
-      returns.push((closes[i] - closes[i - 1]) / closes[i - 1]);
+    // Volatility (standard deviation of returns), annualized by the bar spacing
+    // (smallest recent gap, so weekends and session breaks don't skew it).
+    // A single bar has neither, so it stays NaN.
+    const recent = data.slice(-6);
+    let volatility = NaN;
+    if (recent.length >= 2) {
+      const barSeconds = Math.max(60, Math.min(...recent.slice(1).map((d, i) => d.time - recent[i].time)));
+      const barsPerYear = (365 * 24 * 60 * 60) / barSeconds;
+      const returns: number[] = [];
+      for (let i = 1; i < closes.length; i++) {
+        returns.push((closes[i] - closes[i - 1]) / closes[i - 1]);
+      }
+      const avgReturn = returns.reduce((s, r) => s + r, 0) / returns.length;
+      volatility = Math.sqrt(
+        returns.reduce((s, r) => s + Math.pow(r - avgReturn, 2), 0) / returns.length
+      ) * Math.sqrt(barsPerYear) * 100; // Annualized
     }
-    const avgReturn = returns.reduce((s, r) => s + r, 0) / returns.length;
-    const volatility = Math.sqrt(
-      returns.reduce((s, r) => s + Math.pow(r - avgReturn, 2), 0) / returns.length
-    ) * Math.sqrt(365) * 100; // Annualized
 
     // SMA trend signal
     const sma20 = SMA(closes, 20);
@@ -87,7 +101,7 @@ export default function QuickStats({ data, symbol, className = '' }: QuickStatsP
     },
     {
       label: 'Volatility',
-      value: `${stats.volatility.toFixed(1)}%`,
+      value: isNaN(stats.volatility) ? '—' : `${stats.volatility.toFixed(1)}%`,
       color: stats.volatility > 100 ? 'text-red-400' : stats.volatility > 50 ? 'text-yellow-400' : 'text-green-400',
     },
     {
@@ -102,6 +116,23 @@ export default function QuickStats({ data, symbol, className = '' }: QuickStatsP
     },
   ];
 
+  // Latest day's figures per session (extended-hours equities only)
+  if (sessionSummary) {
+    const sessionItems: [string, SessionStats | null][] = [
+      ['Pre', sessionSummary.pre],
+      ['RTH', sessionSummary.regular],
+      ['AH', sessionSummary.post],
+    ];
+    for (const [label, s] of sessionItems) {
+      if (!s) continue;
+      items.push({
+        label,
+        value: formatSession(s),
+        color: s.change >= 0 ? 'text-green-400' : 'text-red-400',
+      });
+    }
+  }
+
   return (
     <div className={`flex items-center gap-4 px-4 py-2 bg-[var(--bg-card)] rounded-lg border border-[var(--border)] overflow-x-auto text-xs ${className}`}>
       <span className="text-[var(--text-secondary)] font-medium shrink-0">📊 Quick Stats</span>
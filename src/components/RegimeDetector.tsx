@@ -1,7 +1,7 @@
 'use client';
 
 import { useMemo } from 'react';
-import { OHLCV, SMA, ATR, RSI } from '@/utils/indicators';
+import { OHLCV, SMA, ATR, RSI, ADX } from '@/utils/indicators';
 
 type Regime = 'strong_uptrend' | 'weak_uptrend' | 'ranging' | 'weak_downtrend' | 'strong_downtrend' | 'breakout';
 
@@ -39,9 +39,11 @@ function detectRegime(data: OHLCV[]): RegimeInfo {
   const lastSma20 = sma20[sma20.length - 1];
   const lastSma50 = sma50[sma50.length - 1];
 
-  // SMA slope (rate of change over last 10 periods)
-  const sma20Slope = (sma20[sma20.length - 1] - sma20[sma20.length - 10]) / sma20[sma20.length - 10] * 100;
-  const sma50Slope = (sma50[sma50.length - 1] - sma50[sma50.length - 10]) / sma50[sma50.length - 10] * 100;
+  // Trend strength via ADX (above 20 trending, above 30 strong)
+  const dmi = ADX(data);
+  const lastAdx = dmi.adx[dmi.adx.length - 1];
+  const lastPlusDI = dmi.plusDI[dmi.plusDI.length - 1];
+  const lastMinusDI = dmi.minusDI[dmi.minusDI.length - 1];
 
   // 2. ATR-based volatility
   const atrData = ATR(data);
@@ -81,10 +83,10 @@ function detectRegime(data: OHLCV[]): RegimeInfo {
   let confidence = 0;
   let factors: string[] = [];
 
-  const isTrending = efficiencyRatio > 0.3;
-  const isStrongTrend = efficiencyRatio > 0.5;
-  const isUpward = currentPrice > lastSma20 && lastSma20 > lastSma50;
-  const isDownward = currentPrice < lastSma20 && lastSma20 < lastSma50;
+  const isTrending = lastAdx > 20;
+  const isStrongTrend = lastAdx > 30;
+  const isUpward = currentPrice > lastSma20 && lastSma20 > lastSma50 && lastPlusDI > lastMinusDI;
+  const isDownward = currentPrice < lastSma20 && lastSma20 < lastSma50 && lastMinusDI > lastPlusDI;
   const isVolatile = atrRatio > 1.5;
   const isSqueeze = bbWidth < 3 && atrRatio < 0.7;
 
@@ -94,42 +96,42 @@ function detectRegime(data: OHLCV[]): RegimeInfo {
     factors = ['Bollinger squeeze', 'Low ATR', 'Breakout imminent'];
   } else if (isStrongTrend && isUpward) {
     regime = 'strong_uptrend';
-    confidence = Math.min(95, efficiencyRatio * 100 + 30);
-    factors = [`ER: ${(efficiencyRatio * 100).toFixed(0)}%`, `${hh} higher highs`, `Price > SMA 20 > SMA 50`];
+    confidence = Math.min(95, lastAdx * 1.5 + efficiencyRatio * 30);
+    factors = [`ADX: ${lastAdx.toFixed(0)}`, `${hh} higher highs`, `Price > SMA 20 > SMA 50`];
   } else if (isStrongTrend && isDownward) {
     regime = 'strong_downtrend';
-    confidence = Math.min(95, efficiencyRatio * 100 + 30);
-    factors = [`ER: ${(efficiencyRatio * 100).toFixed(0)}%`, `${ll} lower lows`, `Price < SMA 20 < SMA 50`];
+    confidence = Math.min(95, lastAdx * 1.5 + efficiencyRatio * 30);
+    factors = [`ADX: ${lastAdx.toFixed(0)}`, `${ll} lower lows`, `Price < SMA 20 < SMA 50`];
   } else if (isTrending && isUpward) {
     regime = 'weak_uptrend';
-    confidence = Math.min(80, efficiencyRatio * 100 + 20);
-    factors = ['Positive MA alignment', `RSI: ${lastRSI?.toFixed(0) || '?'}`];
+    confidence = Math.min(80, lastAdx * 1.5 + efficiencyRatio * 20);
+    factors = ['Positive MA alignment', '+DI above -DI', `RSI: ${lastRSI?.toFixed(0) || '?'}`];
   } else if (isTrending && isDownward) {
     regime = 'weak_downtrend';
-    confidence = Math.min(80, efficiencyRatio * 100 + 20);
-    factors = ['Negative MA alignment', `RSI: ${lastRSI?.toFixed(0) || '?'}`];
+    confidence = Math.min(80, lastAdx * 1.5 + efficiencyRatio * 20);
+    factors = ['Negative MA alignment', '-DI above +DI', `RSI: ${lastRSI?.toFixed(0) || '?'}`];
   } else {
     regime = 'ranging';
-    confidence = Math.min(85, (1 - efficiencyRatio) * 100);
-    factors = [`ER: ${(efficiencyRatio * 100).toFixed(0)}%`, `BB Width: ${bbWidth.toFixed(1)}%`, 'No clear trend'];
+    confidence = Math.max(10, Math.min(85, 100 - lastAdx * 2));
+    factors = [`ADX: ${lastAdx.toFixed(0)}`, `BB Width: ${bbWidth.toFixed(1)}%`, 'No clear trend'];
   }
 
   const regimeMap: Record<Regime, Omit<RegimeInfo, 'confidence'>> = {
     strong_uptrend: {
       regime: 'strong_uptrend', label: 'Strong Uptrend', emoji: '🚀',
-      description: `Strong bullish trend with ${(efficiencyRatio * 100).toFixed(0)}% efficiency. Price trending above key moving averages with ${hh} higher highs in 15 periods.`,
+      description: `Strong bullish trend (ADX ${lastAdx.toFixed(0)}) with ${(efficiencyRatio * 100).toFixed(0)}% efficiency. Price trending above key moving averages with ${hh} higher highs in 15 periods.`,
       color: 'text-green-400',
       strategy: 'Buy dips to SMA 20. Trail stops below SMA 20. Add on pullbacks to support.',
     },
     weak_uptrend: {
       regime: 'weak_uptrend', label: 'Weak Uptrend', emoji: '📈',
-      description: `Mild bullish bias. Price above averages but trend lacks conviction. SMA 20 slope: ${sma20Slope.toFixed(2)}%.`,
+      description: `Mild bullish bias. Price above averages but trend lacks conviction. ADX ${lastAdx.toFixed(0)}, +DI ${lastPlusDI.toFixed(0)} vs -DI ${lastMinusDI.toFixed(0)}.`,
       color: 'text-green-300',
       strategy: 'Trade cautiously long. Tighter stops. Take partial profits at resistance.',
     },
     ranging: {
       regime: 'ranging', label: 'Range-Bound', emoji: '↔️',
-      description: `Market is consolidating with ${(efficiencyRatio * 100).toFixed(0)}% efficiency ratio. BB width: ${bbWidth.toFixed(1)}%. No clear directional bias.`,
+      description: `Market is consolidating (ADX ${lastAdx.toFixed(0)}) with ${(efficiencyRatio * 100).toFixed(0)}% efficiency ratio. BB width: ${bbWidth.toFixed(1)}%. No clear directional bias.`,
       color: 'text-yellow-400',
       strategy: 'Mean reversion trades. Buy support, sell resistance. Avoid trend-following strategies.',
     },
@@ -141,7 +143,7 @@ function detectRegime(data: OHLCV[]): RegimeInfo {
     },
     strong_downtrend: {
       regime: 'strong_downtrend', label: 'Strong Downtrend', emoji: '💥',
-      description: `Strong bearish trend with ${(efficiencyRatio * 100).toFixed(0)}% efficiency. Price below key averages with ${ll} lower lows.`,
+      description: `Strong bearish trend (ADX ${lastAdx.toFixed(0)}) with ${(efficiencyRatio * 100).toFixed(0)}% efficiency. Price below key averages with ${ll} lower lows.`,
       color: 'text-red-400',
       strategy: 'Short rallies. Avoid catching knives. Wait for reversal confirmation before buying.',
     },
@@ -0,0 +1,96 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useSessionRecorder } from '@/hooks/useSessionRecorder';
+import {
+  downloadSession,
+  parseSession,
+  REPLAY_SPEEDS,
+  setReplaySpeed,
+  startRecording,
+  startReplay,
+  stopRecording,
+  stopReplay,
+} from '@/lib/sessionRecorder';
+
+// Record the live session to a file, or replay one offline through the same panels
+export default function SessionControls() {
+  const session = useSessionRecorder();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleStop = () => {
+    const recorded = stopRecording();
+    if (recorded && recorded.entries.length > 0) downloadSession(recorded);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const parsed = parseSession(await file.text());
+    if (!parsed) {
+      setError('Not a ChartWise session file');
+      return;
+    }
+    setError(null);
+    startReplay(parsed, session.speed);
+  };
+
+  const buttonClass = 'rounded-lg border border-[var(--border)] px-3 py-1.5 text-sm text-[var(--text-primary)] hover:bg-[var(--bg-hover)]';
+
+  return (
+    <div className="mt-3 rounded-lg border border-[var(--border)] bg-[var(--bg-card)] p-3">
+      <p className="text-xs uppercase tracking-wide text-[var(--text-secondary)]">Session</p>
+
+      {session.mode === 'recording' ? (
+        <div className="mt-2 flex items-center justify-between gap-3">
+          <span className="flex items-center gap-2 text-sm text-[var(--text-primary)]">
+            <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse" />
+            {session.entries.toLocaleString()} events
+          </span>
+          <button onClick={handleStop} className={buttonClass}>Stop & save</button>
+        </div>
+      ) : session.mode === 'replaying' ? (
+        <div className="mt-2 space-y-2">
+          <div className="h-1.5 rounded-full bg-[var(--bg-hover)] overflow-hidden">
+            <div className="h-full bg-[#2962ff] transition-all" style={{ width: `${session.progress * 100}%` }} />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex gap-1">
+              {REPLAY_SPEEDS.map(speed => (
+                <button
+                  key={speed}
+                  onClick={() => setReplaySpeed(speed)}
+                  className={`px-2 py-1 rounded text-xs transition-all ${
+                    session.speed === speed ? 'bg-[#2962ff] text-white' : 'text-[var(--text-secondary)] hover:bg-[var(--bg-hover)]'
+                  }`}
+                >
+                  {speed === 'max' ? 'Max' : `${speed}x`}
+                </button>
+              ))}
+            </div>
+            <button onClick={stopReplay} className={buttonClass}>
+              {session.finished ? 'Back to live' : 'Stop'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="mt-2 flex gap-2">
+          <button onClick={startRecording} className={buttonClass}>● Record</button>
+          <button onClick={() => fileRef.current?.click()} className={buttonClass}>Replay file…</button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -1,15 +1,48 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
+import { QuoteCurrency, QUOTE_CURRENCIES } from '@/lib/currency';
+import { useVendorHealth } from '@/hooks/useVendorHealth';
+import SessionControls from '@/components/SessionControls';
+import type { VendorHealthStatus } from '@/lib/requestScheduler';
+import type { StreamTransport } from '@/lib/streams';
+
+const HEALTH_STYLES: Record<VendorHealthStatus, { dot: string; label: string }> = {
+  ok: { dot: 'bg-green-400', label: 'OK' },
+  degraded: { dot: 'bg-yellow-400', label: 'Rate limited' },
+  down: { dot: 'bg-red-400', label: 'Unavailable' },
+};
+
+const VENDOR_NAMES: Record<string, string> = {
+  coingecko: 'CoinGecko',
+  coincap: 'CoinCap',
+  binance: 'Binance',
+  deribit: 'Deribit',
+  yahoo: 'Yahoo Finance',
+};
 
 type Props = {
   theme: 'dark' | 'light';
   onToggleTheme: () => void;
+  quoteCurrency: QuoteCurrency;
+  onQuoteCurrencyChange: (currency: QuoteCurrency) => void;
+  streamTransport: StreamTransport;
+  streamTransportError?: string | null;
+  onStreamTransportChange: (transport: StreamTransport) => void;
 };
 
-export default function SettingsPanel({ theme, onToggleTheme }: Props) {
+export default function SettingsPanel({
+  theme,
+  onToggleTheme,
+  quoteCurrency,
+  onQuoteCurrencyChange,
+  streamTransport,
+  streamTransportError,
+  onStreamTransportChange,
+}: Props) {
   const [open, setOpen] = useState(false);
   const panelRef = useRef<HTMLDivElement | null>(null);
+  const { health, degraded } = useVendorHealth();
 
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -38,12 +71,13 @@ export default function SettingsPanel({ theme, onToggleTheme }: Props) {
     <div className="relative" ref={panelRef}>
       <button
         onClick={() => setOpen((current) => !current)}
-        className="theme-toggle"
-        title="Open settings"
+        className="theme-toggle relative"
+        title={degraded ? 'Open settings (a data source is having trouble)' : 'Open settings'}
         aria-haspopup="dialog"
         aria-expanded={open}
       >
         ⚙️
+        {degraded && <span className="absolute right-1 top-1 h-2 w-2 rounded-full bg-yellow-400" />}
       </button>
 
       {open && (
@@ -81,6 +115,73 @@ export default function SettingsPanel({ theme, onToggleTheme }: Props) {
             </div>
           </div>
 
+          <div className="mt-3 rounded-lg border border-[var(--border)] bg-[var(--bg-card)] p-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium text-[var(--text-primary)]">Quote currency</p>
+                <p className="mt-1 text-xs text-[var(--text-secondary)]">
+                  Prices, portfolio value and reports.
+                </p>
+              </div>
+
+              <select
+                value={quoteCurrency}
+                onChange={(e) => onQuoteCurrencyChange(e.target.value as QuoteCurrency)}
+                className="rounded-lg border border-[var(--border)] bg-[var(--bg-primary)] px-2 py-2 text-sm text-[var(--text-primary)]"
+              >
+                {(Object.keys(QUOTE_CURRENCIES) as QuoteCurrency[]).map(code => (
+                  <option key={code} value={code} title={QUOTE_CURRENCIES[code].label}>
+                    {QUOTE_CURRENCIES[code].symbol} {code}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="mt-3 rounded-lg border border-[var(--border)] bg-[var(--bg-card)] p-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium text-[var(--text-primary)]">Live data</p>
+                <p className="mt-1 text-xs text-[var(--text-secondary)]">
+                  Use the server relay if WebSockets are blocked.
+                </p>
+                {streamTransportError && (
+                  <p className="mt-1 text-xs text-red-400">{streamTransportError}</p>
+                )}
+              </div>
+
+              <select
+                value={streamTransport}
+                onChange={(e) => onStreamTransportChange(e.target.value as StreamTransport)}
+                className="rounded-lg border border-[var(--border)] bg-[var(--bg-primary)] px-2 py-2 text-sm text-[var(--text-primary)]"
+              >
+                <option value="direct">Direct</option>
+                <option value="sse">Server (SSE)</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="mt-3 rounded-lg border border-[var(--border)] bg-[var(--bg-card)] p-3">
+            <p className="text-xs uppercase tracking-wide text-[var(--text-secondary)]">Data sources</p>
+            {Object.keys(health).length === 0 ? (
+              <p className="mt-2 text-xs text-[var(--text-secondary)]">No vendor requests yet.</p>
+            ) : (
+              <ul className="mt-2 space-y-2 text-sm text-[var(--text-primary)]">
+                {Object.entries(health).map(([vendor, h]) => h && (
+                  <li key={vendor} className="flex items-center justify-between gap-3" title={h.lastError}>
+                    <span>{VENDOR_NAMES[vendor] || vendor}</span>
+                    <span className="flex items-center gap-2 text-xs text-[var(--text-secondary)]">
+                      <span className={`h-2 w-2 rounded-full ${HEALTH_STYLES[h.status].dot}`} />
+                      {HEALTH_STYLES[h.status].label}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <SessionControls />
+
           <div className="mt-3 rounded-lg border border-[var(--border)] bg-[var(--bg-card)] p-3">
             <p className="text-xs uppercase tracking-wide text-[var(--text-secondary)]">Keyboard</p>
             <ul className="mt-2 space-y-2 text-sm text-[var(--text-primary)]">
@@ -5,6 +5,7 @@ import { useState, useRef, useEffect } from 'react';
 interface ShareButtonProps {
   symbol: string;
   timeframe: string;
+  interval?: string;
   chartType: string;
   indicators: string[];
   onGetScreenshot?: () => string | null;
@@ -14,6 +15,7 @@ interface ShareButtonProps {
 export default function ShareButton({
   symbol,
   timeframe,
+  interval = '1d',
   chartType,
   indicators,
   onGetScreenshot,
@@ -38,6 +40,7 @@ export default function ShareButton({
     const params = new URLSearchParams({
       asset: symbol,
       tf: timeframe,
+      iv: interval,
       ind: indicators.join(','),
       type: chartType,
     });
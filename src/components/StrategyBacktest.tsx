@@ -15,6 +15,11 @@ const STRATEGIES: { id: StrategyType; name: string; description: string; icon: s
   { id: 'ema_crossover', name: 'EMA Crossover', description: 'Fast/slow EMA crossover signals', icon: '⚡' },
   { id: 'rsi_reversal', name: 'RSI Reversal', description: 'Buy oversold, sell overbought', icon: '🔄' },
   { id: 'bollinger_bounce', name: 'Bollinger Bounce', description: 'Buy at lower band, sell at upper', icon: '📊' },
+  { id: 'adx_dmi', name: 'ADX / DMI', description: '+DI/-DI crossover when ADX confirms a trend', icon: '🧭' },
+  { id: 'parabolic_sar', name: 'Parabolic SAR', description: 'Follow the trend until the SAR flips', icon: '🎯' },
+  { id: 'supertrend', name: 'Supertrend', description: 'Long while Supertrend is green', icon: '🟢' },
+  { id: 'keltner_breakout', name: 'Keltner Breakout', description: 'Buy above upper band, exit below midline', icon: '🚀' },
+  { id: 'donchian_breakout', name: 'Donchian Breakout', description: 'Buy new N-bar highs, sell new lows', icon: '🐢' },
 ];
 
 export default function StrategyBacktest({ data, symbol }: StrategyBacktestProps) {
@@ -218,6 +223,65 @@ export default function StrategyBacktest({ data, symbol }: StrategyBacktestProps
                 </>
               )}
 
+              {selectedStrategy === 'adx_dmi' && (
+                <>
+                  <div>
+                    <label className="text-xs text-[var(--text-secondary)] block mb-1">DMI Period</label>
+                    <input
+                      type="number"
+                      value={config.fastPeriod || 14}
+                      onChange={e => setConfig(c => ({ ...c, fastPeriod: parseInt(e.target.value) || 14 }))}
+                      className="bg-[var(--bg-hover)] text-[var(--text-primary)] rounded px-3 py-1 text-sm border border-[var(--border)] w-20"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-[var(--text-secondary)] block mb-1">Min ADX</label>
+                    <input
+                      type="number"
+                      value={config.adxThreshold || 25}
+                      onChange={e => setConfig(c => ({ ...c, adxThreshold: parseInt(e.target.value) || 25 }))}
+                      className="bg-[var(--bg-hover)] text-[var(--text-primary)] rounded px-3 py-1 text-sm border border-[var(--border)] w-20"
+                    />
+                  </div>
+                </>
+              )}
+
+              {selectedStrategy === 'supertrend' && (
+                <>
+                  <div>
+                    <label className="text-xs text-[var(--text-secondary)] block mb-1">ATR Period</label>
+                    <input
+                      type="number"
+                      value={config.fastPeriod || 10}
+                      onChange={e => setConfig(c => ({ ...c, fastPeriod: parseInt(e.target.value) || 10 }))}
+                      className="bg-[var(--bg-hover)] text-[var(--text-primary)] rounded px-3 py-1 text-sm border border-[var(--border)] w-20"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-[var(--text-secondary)] block mb-1">Multiplier</label>
+                    <input
+                      type="number"
+                      step="0.5"
+                      value={config.atrMultiplier || 3}
+                      onChange={e => setConfig(c => ({ ...c, atrMultiplier: parseFloat(e.target.value) || 3 }))}
+                      className="bg-[var(--bg-hover)] text-[var(--text-primary)] rounded px-3 py-1 text-sm border border-[var(--border)] w-20"
+                    />
+                  </div>
+                </>
+              )}
+
+              {(selectedStrategy === 'keltner_breakout' || selectedStrategy === 'donchian_breakout') && (
+                <div>
+                  <label className="text-xs text-[var(--text-secondary)] block mb-1">Channel Period</label>
+                  <input
+                    type="number"
+                    value={config.fastPeriod || 20}
+                    onChange={e => setConfig(c => ({ ...c, fastPeriod: parseInt(e.target.value) || 20 }))}
+                    className="bg-[var(--bg-hover)] text-[var(--text-primary)] rounded px-3 py-1 text-sm border border-[var(--border)] w-20"
+                  />
+                </div>
+              )}
+
               {selectedStrategy === 'bollinger_bounce' && (
                 <div>
                   <label className="text-xs text-[var(--text-secondary)] block mb-1">BB Period</label>
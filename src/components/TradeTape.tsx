@@ -1,6 +1,8 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { getVendorId } from '@/lib/instruments';
+import { useStreamStatus, useTradeStream } from '@/hooks/useStream';
 
 interface Trade {
   id: string;
@@ -16,20 +18,6 @@ interface TradeTapeProps {
   className?: string;
 }
 
-// Map symbols to Binance spot symbols
-const BINANCE_SYMBOLS: Record<string, string> = {
-  'BTC': 'BTCUSDT',
-  'ETH': 'ETHUSDT',
-  'SOL': 'SOLUSDT',
-  'XRP': 'XRPUSDT',
-  'SUI': 'SUIUSDT',
-  'DOGE': 'DOGEUSDT',
-  'ADA': 'ADAUSDT',
-  'AVAX': 'AVAXUSDT',
-  'LINK': 'LINKUSDT',
-  'DOT': 'DOTUSDT',
-};
-
 function formatTime(timestamp: number): string {
   const date = new Date(timestamp);
   return date.toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
@@ -51,98 +39,27 @@ function formatPrice(price: number): string {
 export default function TradeTape({ symbol, className = '' }: TradeTapeProps) {
   const [trades, setTrades] = useState<Trade[]>([]);
   const [isOpen, setIsOpen] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
   const [filter, setFilter] = useState<'all' | 'buys' | 'sells' | 'large'>('all');
   const [totalBuyVol, setTotalBuyVol] = useState(0);
   const [totalSellVol, setTotalSellVol] = useState(0);
-  const wsRef = useRef<WebSocket | null>(null);
   const tradesRef = useRef<Trade[]>([]);
   const containerRef = useRef<HTMLDivElement>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const reconnectAttempts = useRef(0);
-  const intentionalClose = useRef(false);
+  const isConnected = useStreamStatus() === 'open';
 
-  const binanceSymbol = BINANCE_SYMBOLS[symbol.toUpperCase()];
+  const binanceSymbol = getVendorId(symbol, 'binance');
 
-  const connect = useCallback(() => {
-    if (!binanceSymbol || !isOpen) return;
+  useTradeStream(symbol, (event) => {
+    const trade: Trade = { ...event, isMaker: event.isBuyerMaker };
 
-    if (wsRef.current) {
-      intentionalClose.current = true;
-      wsRef.current.close();
-    }
-    intentionalClose.current = false;
-
-    const ws = new WebSocket(`wss://stream.binance.com:9443/ws/${binanceSymbol.toLowerCase()}@aggTrade`);
-    wsRef.current = ws;
-
-    ws.onopen = () => {
-      setIsConnected(true);
-      reconnectAttempts.current = 0;
-    };
-
-    ws.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        const trade: Trade = {
-          id: data.a.toString(),
-          price: parseFloat(data.p),
-          quantity: parseFloat(data.q),
-          side: data.m ? 'sell' : 'buy', // m = true means the buyer is the maker (i.e., sell aggressor)
-          time: data.T,
-          isMaker: data.m,
-        };
-
-        tradesRef.current = [trade, ...tradesRef.current.slice(0, 99)];
-        setTrades([...tradesRef.current]);
-
-        if (trade.side === 'buy') {
-          setTotalBuyVol(prev => prev + trade.price * trade.quantity);
-        } else {
-          setTotalSellVol(prev => prev + trade.price * trade.quantity);
-        }
-      } catch (err) {
-        console.error('Trade tape parse error:', err);
-      }
-    };
-
-    ws.onerror = () => {
-      setIsConnected(false);
-    };
-
-    ws.onclose = () => {
-      setIsConnected(false);
-      wsRef.current = null;
-
-      // Auto-reconnect on unexpected close (up to 5 attempts with backoff)
-      if (!intentionalClose.current && isOpen && reconnectAttempts.current < 5) {
-        const delay = Math.min(1000 * Math.pow(2, reconnectAttempts.current), 30000);
-        reconnectAttempts.current++;
-        reconnectTimeoutRef.current = setTimeout(connect, delay);
-      }
-    };
-
-    return () => {
-      intentionalClose.current = true;
-      ws.close();
-    };
-  }, [binanceSymbol, isOpen]);
+    tradesRef.current = [trade, ...tradesRef.current.slice(0, 99)];
+    setTrades([...tradesRef.current]);
 
-  useEffect(() => {
-    const cleanup = connect();
-    return () => {
-      intentionalClose.current = true;
-      cleanup?.();
-      if (wsRef.current) {
-        wsRef.current.close();
-        wsRef.current = null;
-      }
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-        reconnectTimeoutRef.current = null;
-      }
-    };
-  }, [connect]);
+    if (trade.side === 'buy') {
+      setTotalBuyVol(prev => prev + trade.price * trade.quantity);
+    } else {
+      setTotalSellVol(prev => prev + trade.price * trade.quantity);
+    }
+  }, isOpen);
 
   // Reset on symbol change
   useEffect(() => {
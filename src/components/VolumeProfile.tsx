@@ -2,6 +2,7 @@
 
 import { useMemo } from 'react';
 import { OHLCV } from '@/utils/indicators';
+import { volumeProfile } from '@/utils/marketProfile';
 
 interface VolumeProfileProps {
   data: OHLCV[];
@@ -10,107 +11,14 @@ interface VolumeProfileProps {
   className?: string;
 }
 
-interface PriceLevel {
-  price: number;
-  volume: number;
-  percentage: number;
-  isBuy: boolean;
-}
-
 export default function VolumeProfile({ 
   data, 
   currentPrice, 
   bins = 20,
   className = '' 
 }: VolumeProfileProps) {
-  const profile = useMemo(() => {
-    if (data.length === 0) return [];
-
-    // Find price range
-    const prices = data.flatMap(d => [d.high, d.low]);
-    const minPrice = Math.min(...prices);
-    const maxPrice = Math.max(...prices);
-    const range = maxPrice - minPrice;
-    const binSize = range / bins;
-
-    // Initialize bins
-    const volumeBins: { price: number; buyVolume: number; sellVolume: number }[] = [];
-    for (let i = 0; i < bins; i++) {
-      volumeBins.push({
-        price: minPrice + (i + 0.5) * binSize,
-        buyVolume: 0,
-        sellVolume: 0
-      });
-    }
-
-    // Distribute volume across bins
-    data.forEach(candle => {
-      const volume = candle.volume || 1;
-      const candleRange = candle.high - candle.low;
-      const isBullish = candle.close >= candle.open;
-      
-      // Distribute volume across the candle's price range
-      for (let i = 0; i < bins; i++) {
-        const binLow = minPrice + i * binSize;
-        const binHigh = binLow + binSize;
-        
-        // Check overlap
-        const overlapLow = Math.max(candle.low, binLow);
-        const overlapHigh = Math.min(candle.high, binHigh);
-        
-        if (overlapLow < overlapHigh) {
-          const overlapRatio = (overlapHigh - overlapLow) / Math.max(candleRange, 0.001);
-          const distributedVolume = volume * overlapRatio;
-          
-          if (isBullish) {
-            volumeBins[i].buyVolume += distributedVolume;
-          } else {
-            volumeBins[i].sellVolume += distributedVolume;
-          }
-        }
-      }
-    });
-
-    // Calculate max volume for scaling
-    const maxVolume = Math.max(...volumeBins.map(b => b.buyVolume + b.sellVolume));
-
-    // Convert to output format
-    return volumeBins.map(bin => ({
-      price: bin.price,
-      volume: bin.buyVolume + bin.sellVolume,
-      percentage: ((bin.buyVolume + bin.sellVolume) / maxVolume) * 100,
-      isBuy: bin.buyVolume > bin.sellVolume
-    }));
-  }, [data, bins]);
-
-  // Find Point of Control (POC) - highest volume level
-  const poc = useMemo(() => {
-    if (profile.length === 0) return null;
-    return profile.reduce((max, level) => level.volume > max.volume ? level : max, profile[0]);
-  }, [profile]);
-
-  // Find Value Area (70% of volume)
-  const valueArea = useMemo(() => {
-    if (profile.length === 0 || !poc) return { high: 0, low: 0 };
-    
-    const totalVolume = profile.reduce((sum, p) => sum + p.volume, 0);
-    const targetVolume = totalVolume * 0.7;
-    
-    const sortedByVolume = [...profile].sort((a, b) => b.volume - a.volume);
-    let accumulatedVolume = 0;
-    const valueLevels: number[] = [];
-    
-    for (const level of sortedByVolume) {
-      if (accumulatedVolume >= targetVolume) break;
-      valueLevels.push(level.price);
-      accumulatedVolume += level.volume;
-    }
-    
-    return {
-      high: Math.max(...valueLevels),
-      low: Math.min(...valueLevels)
-    };
-  }, [profile, poc]);
+  // Bars without volume are left out rather than counted as one unit each
+  const profile = useMemo(() => volumeProfile(data, bins), [data, bins]);
 
   if (data.length === 0) {
     return null;
@@ -120,54 +28,63 @@ export default function VolumeProfile({
     return price >= 1 ? price.toFixed(2) : price.toFixed(4);
   };
 
+  const maxVolume = profile ? Math.max(...profile.rows.map(row => row.up + row.down)) : 0;
+
   return (
     <div className={`bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 ${className}`}>
       <div className="p-3 border-b border-gray-200 dark:border-gray-700">
         <h3 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
           📊 Volume Profile
         </h3>
-        {poc && (
+        {profile && (
           <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-            POC: ${formatPrice(poc.price)} | VA: ${formatPrice(valueArea.low)} - ${formatPrice(valueArea.high)}
+            POC: ${formatPrice(profile.poc)} | VA: ${formatPrice(profile.valueAreaLow)} - ${formatPrice(profile.valueAreaHigh)}
           </div>
         )}
       </div>
 
       <div className="p-3">
-        <div className="space-y-1">
-          {profile.slice().reverse().map((level, idx) => {
-            const isPOC = poc && Math.abs(level.price - poc.price) < 0.001;
-            const inValueArea = level.price >= valueArea.low && level.price <= valueArea.high;
-            const isCurrentPrice = Math.abs(level.price - currentPrice) / currentPrice < 0.02;
-
-            return (
-              <div key={idx} className="flex items-center gap-2 text-xs">
-                <div className={`w-16 text-right font-mono ${
-                  isPOC ? 'text-yellow-500 font-bold' :
-                  isCurrentPrice ? 'text-blue-500 font-bold' :
-                  'text-gray-500 dark:text-gray-400'
-                }`}>
-                  {formatPrice(level.price)}
-                </div>
-                <div className="flex-1 h-4 bg-gray-100 dark:bg-gray-700 rounded overflow-hidden relative">
-                  <div
-                    className={`h-full transition-all ${
-                      isPOC ? 'bg-yellow-500' :
-                      inValueArea ? (level.isBuy ? 'bg-green-400' : 'bg-red-400') :
-                      (level.isBuy ? 'bg-green-500/50' : 'bg-red-500/50')
-                    }`}
-                    style={{ width: `${level.percentage}%` }}
-                  />
-                  {isPOC && (
-                    <span className="absolute right-1 top-0 text-[10px] text-yellow-700 dark:text-yellow-300 font-bold">
-                      POC
-                    </span>
-                  )}
+        {!profile ? (
+          <div className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">No volume data for this asset</div>
+        ) : (
+          <div className="space-y-1">
+            {profile.rows.slice().reverse().map((row, idx) => {
+              const price = row.price + profile.rowSize / 2;
+              const volume = row.up + row.down;
+              const isBuy = row.up > row.down;
+              const isPOC = profile.poc >= row.price && profile.poc < row.price + profile.rowSize;
+              const inValueArea = row.price >= profile.valueAreaLow && row.price < profile.valueAreaHigh;
+              const isCurrentPrice = Math.abs(price - currentPrice) / currentPrice < 0.02;
+
+              return (
+                <div key={idx} className="flex items-center gap-2 text-xs">
+                  <div className={`w-16 text-right font-mono ${
+                    isPOC ? 'text-yellow-500 font-bold' :
+                    isCurrentPrice ? 'text-blue-500 font-bold' :
+                    'text-gray-500 dark:text-gray-400'
+                  }`}>
+                    {formatPrice(price)}
+                  </div>
+                  <div className="flex-1 h-4 bg-gray-100 dark:bg-gray-700 rounded overflow-hidden relative">
+                    <div
+                      className={`h-full transition-all ${
+                        isPOC ? 'bg-yellow-500' :
+                        inValueArea ? (isBuy ? 'bg-green-400' : 'bg-red-400') :
+                        (isBuy ? 'bg-green-500/50' : 'bg-red-500/50')
+                      }`}
+                      style={{ width: `${(volume / maxVolume) * 100}%` }}
+                    />
+                    {isPOC && (
+                      <span className="absolute right-1 top-0 text-[10px] text-yellow-700 dark:text-yellow-300 font-bold">
+                        POC
+                      </span>
+                    )}
+                  </div>
                 </div>
-              </div>
-            );
-          })}
-        </div>
+              );
+            })}
+          </div>
+        )}
 
         {/* Legend */}
         <div className="flex items-center justify-center gap-4 mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400">
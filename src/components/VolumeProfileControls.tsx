@@ -0,0 +1,78 @@
+'use client';
+
+import type { VolumeProfileSettings } from '@/hooks/useVolumeProfile';
+
+interface VolumeProfileControlsProps {
+  settings: VolumeProfileSettings;
+  onChange: (update: Partial<VolumeProfileSettings>) => void;
+  hasVolume: boolean;
+  hasRange: boolean;  // a fixed range is saved for this symbol
+  selecting: boolean; // dragging on the chart picks the fixed range
+  onToggleSelecting: () => void;
+  onClearRange: () => void;
+}
+
+const SELECT_CLASS = 'bg-[var(--bg-hover)] text-[var(--text-primary)] text-xs rounded px-2 py-1 border border-[var(--border)]';
+
+export default function VolumeProfileControls({
+  settings,
+  onChange,
+  hasVolume,
+  hasRange,
+  selecting,
+  onToggleSelecting,
+  onClearRange,
+}: VolumeProfileControlsProps) {
+  return (
+    <div className="flex items-center gap-2 flex-shrink-0">
+      <button
+        onClick={() => onChange({ enabled: !settings.enabled })}
+        disabled={!hasVolume}
+        className={`indicator-pill ${settings.enabled && hasVolume ? 'active' : ''} ${!hasVolume ? 'opacity-40 cursor-not-allowed' : ''}`}
+        title={hasVolume ? 'Volume profile' : 'Volume profile needs volume data'}
+      >
+        VP
+      </button>
+      {settings.enabled && hasVolume && (
+        <>
+          <select
+            value={settings.mode}
+            onChange={(e) => onChange({ mode: e.target.value as VolumeProfileSettings['mode'] })}
+            className={SELECT_CLASS}
+            title="Bars the profile is built from"
+          >
+            <option value="visible">Visible range</option>
+            <option value="session">Per session</option>
+            <option value="fixed">Fixed range</option>
+          </select>
+          <select
+            value={settings.rows}
+            onChange={(e) => onChange({ rows: Number(e.target.value) })}
+            className={SELECT_CLASS}
+            title="Price rows"
+          >
+            {[12, 24, 48, 96].map(n => (
+              <option key={n} value={n}>{n} rows</option>
+            ))}
+          </select>
+          {settings.mode === 'fixed' && (
+            <>
+              <button
+                onClick={onToggleSelecting}
+                className={`indicator-pill ${selecting ? 'active' : ''}`}
+                title="Drag across the chart to pick the bars"
+              >
+                {selecting ? 'Drag on chart…' : hasRange ? 'Reselect range' : 'Select range'}
+              </button>
+              {hasRange && (
+                <button onClick={onClearRange} className="text-xs text-[var(--text-secondary)] hover:text-red-400" title="Clear range">
+                  ✕
+                </button>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { getSupportedAssets, fetchAssetInfo, fetchStockInfo, AssetInfo } from '@/lib/api';
+import { fetchAssetInfo, fetchStockInfo, AssetInfo } from '@/lib/api';
+import { getInstrument } from '@/lib/instruments';
 
 interface WatchlistProps {
   watchlist: string[];
@@ -21,8 +22,6 @@ export default function Watchlist({ watchlist, selectedAsset, onSelectAsset, onR
   const [items, setItems] = useState<WatchlistItem[]>([]);
   const [loading, setLoading] = useState(false);
   
-  const assets = getSupportedAssets();
-
   useEffect(() => {
     if (watchlist.length === 0) {
       setItems([]);
@@ -34,12 +33,12 @@ export default function Watchlist({ watchlist, selectedAsset, onSelectAsset, onR
       const results: WatchlistItem[] = [];
       
       for (const symbol of watchlist) {
-        const asset = assets.find(a => a.symbol === symbol);
-        if (!asset) continue;
+        const instrument = getInstrument(symbol);
+        if (!instrument) continue;
         
         try {
           let info: AssetInfo | null;
-          if (asset.type === 'stock') {
+          if (instrument.assetClass === 'stock') {
             info = await fetchStockInfo(symbol);
           } else {
             info = await fetchAssetInfo(symbol);
@@ -50,7 +49,7 @@ export default function Watchlist({ watchlist, selectedAsset, onSelectAsset, onR
               symbol,
               price: info.price,
               change24h: info.change24h,
-              type: asset.type
+              type: instrument.assetClass
             });
           }
         } catch {
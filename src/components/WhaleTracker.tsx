@@ -1,6 +1,8 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { getVendorId } from '@/lib/instruments';
+import { useStreamStatus, useTradeStream } from '@/hooks/useStream';
 
 interface WhaleAlert {
   id: string;
@@ -18,19 +20,6 @@ interface WhaleTrackerProps {
   className?: string;
 }
 
-const BINANCE_SYMBOLS: Record<string, string> = {
-  'BTC': 'BTCUSDT',
-  'ETH': 'ETHUSDT',
-  'SOL': 'SOLUSDT',
-  'XRP': 'XRPUSDT',
-  'SUI': 'SUIUSDT',
-  'DOGE': 'DOGEUSDT',
-  'ADA': 'ADAUSDT',
-  'AVAX': 'AVAXUSDT',
-  'LINK': 'LINKUSDT',
-  'DOT': 'DOTUSDT',
-};
-
 // Thresholds for whale classification (in USD)
 const THRESHOLDS = {
   dolphin: 50000,   // $50K+
@@ -72,99 +61,42 @@ function formatTime(timestamp: number): string {
 export default function WhaleTracker({ symbol, className = '' }: WhaleTrackerProps) {
   const [alerts, setAlerts] = useState<WhaleAlert[]>([]);
   const [isOpen, setIsOpen] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
   const [stats, setStats] = useState({ totalBuyUsd: 0, totalSellUsd: 0, alertCount: 0 });
-  const wsRef = useRef<WebSocket | null>(null);
   const alertsRef = useRef<WhaleAlert[]>([]);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const reconnectAttempts = useRef(0);
-  const intentionalClose = useRef(false);
-
-  const binanceSymbol = BINANCE_SYMBOLS[symbol.toUpperCase()];
-
-  const connect = useCallback(() => {
-    if (!binanceSymbol || !isOpen) return;
-
-    if (wsRef.current) {
-      intentionalClose.current = true;
-      wsRef.current.close();
-    }
-    intentionalClose.current = false;
-
-    // Use aggTrade stream for aggregated trades
-    const ws = new WebSocket(`wss://stream.binance.com:9443/ws/${binanceSymbol.toLowerCase()}@aggTrade`);
-    wsRef.current = ws;
-
-    ws.onopen = () => {
-      setIsConnected(true);
-      reconnectAttempts.current = 0;
-    };
-
-    ws.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        const price = parseFloat(data.p);
-        const quantity = parseFloat(data.q);
-        const usdValue = price * quantity;
+  const isConnected = useStreamStatus() === 'open';
 
-        // Only track trades above dolphin threshold
-        if (usdValue < THRESHOLDS.dolphin) return;
+  const binanceSymbol = getVendorId(symbol, 'binance');
 
-        const tier: WhaleAlert['tier'] = 
-          usdValue >= THRESHOLDS.whale ? 'whale' :
-          usdValue >= THRESHOLDS.shark ? 'shark' : 'dolphin';
+  useTradeStream(symbol, (trade) => {
+    const usdValue = trade.price * trade.quantity;
 
-        const alert: WhaleAlert = {
-          id: data.a.toString(),
-          symbol: symbol.toUpperCase(),
-          side: data.m ? 'sell' : 'buy',
-          price,
-          quantity,
-          usdValue,
-          time: data.T,
-          tier,
-        };
+    // Only track trades above dolphin threshold
+    if (usdValue < THRESHOLDS.dolphin) return;
 
-        alertsRef.current = [alert, ...alertsRef.current.slice(0, 49)];
-        setAlerts([...alertsRef.current]);
+    const tier: WhaleAlert['tier'] = 
+      usdValue >= THRESHOLDS.whale ? 'whale' :
+      usdValue >= THRESHOLDS.shark ? 'shark' : 'dolphin';
 
-        setStats(prev => ({
-          totalBuyUsd: prev.totalBuyUsd + (alert.side === 'buy' ? usdValue : 0),
-          totalSellUsd: prev.totalSellUsd + (alert.side === 'sell' ? usdValue : 0),
-          alertCount: prev.alertCount + 1,
-        }));
-      } catch (err) {
-        console.error('Whale tracker parse error:', err);
-      }
+    const alert: WhaleAlert = {
+      id: trade.id,
+      symbol: symbol.toUpperCase(),
+      side: trade.side,
+      price: trade.price,
+      quantity: trade.quantity,
+      usdValue,
+      time: trade.time,
+      tier,
     };
 
-    ws.onerror = () => setIsConnected(false);
+    alertsRef.current = [alert, ...alertsRef.current.slice(0, 49)];
+    setAlerts([...alertsRef.current]);
 
-    ws.onclose = () => {
-      setIsConnected(false);
-      wsRef.current = null;
-
-      if (!intentionalClose.current && isOpen && reconnectAttempts.current < 5) {
-        const delay = Math.min(1000 * Math.pow(2, reconnectAttempts.current), 30000);
-        reconnectAttempts.current++;
-        reconnectTimeoutRef.current = setTimeout(connect, delay);
-      }
-    };
-  }, [binanceSymbol, isOpen, symbol]);
-
-  useEffect(() => {
-    connect();
-    return () => {
-      intentionalClose.current = true;
-      if (wsRef.current) {
-        wsRef.current.close();
-        wsRef.current = null;
-      }
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
-    };
-  }, [connect]);
+    setStats(prev => ({
+      totalBuyUsd: prev.totalBuyUsd + (alert.side === 'buy' ? usdValue : 0),
+      totalSellUsd: prev.totalSellUsd + (alert.side === 'sell' ? usdValue : 0),
+      alertCount: prev.alertCount + 1,
+    }));
+  }, isOpen);
 
   // Reset on symbol change
   useEffect(() => {
@@ -0,0 +1,71 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { OHLCV } from '@/utils/indicators';
+
+// Bar replay: hide everything after a cursor bar and move the cursor forward by hand
+// or on a timer. `visible` is what the rest of the page should treat as the data.
+
+export const REPLAY_BAR_RATES = [1, 2, 5, 10]; // bars per second when playing
+
+const MIN_REPLAY_BARS = 2;
+
+export function useBarReplay(bars: OHLCV[]) {
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [rate, setRate] = useState(REPLAY_BAR_RATES[0]);
+
+  // A reload (symbol, interval, range) ends the replay
+  useEffect(() => {
+    setCursor(null);
+    setPlaying(false);
+  }, [bars]);
+
+  // Start at the last bar at or before `time` (unix seconds)
+  const start = useCallback((time: number) => {
+    if (bars.length < MIN_REPLAY_BARS) return;
+    let index = bars.findIndex(b => b.time > time) - 1;
+    if (index < 0) index = bars[0].time > time ? 0 : bars.length - 1;
+    setCursor(Math.min(Math.max(index, MIN_REPLAY_BARS - 1), bars.length - 2));
+    setPlaying(false);
+  }, [bars]);
+
+  const step = useCallback((delta: number) => {
+    setCursor(current => current === null ? null : Math.min(Math.max(current + delta, 0), bars.length - 1));
+  }, [bars.length]);
+
+  const exit = useCallback(() => {
+    setCursor(null);
+    setPlaying(false);
+  }, []);
+
+  const togglePlay = useCallback(() => setPlaying(p => !p), []);
+
+  // Autoplay, stopping on the last bar
+  useEffect(() => {
+    if (!playing || cursor === null) return;
+    if (cursor >= bars.length - 1) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => step(1), 1000 / rate);
+    return () => clearTimeout(timer);
+  }, [playing, cursor, rate, bars.length, step]);
+
+  const visible = useMemo(() => (cursor === null ? bars : bars.slice(0, cursor + 1)), [bars, cursor]);
+
+  return {
+    active: cursor !== null,
+    cursor,
+    cursorTime: cursor !== null ? bars[cursor]?.time : undefined,
+    atEnd: cursor !== null && cursor >= bars.length - 1,
+    playing,
+    rate,
+    visible,
+    start,
+    step,
+    togglePlay,
+    setRate,
+    exit,
+  };
+}
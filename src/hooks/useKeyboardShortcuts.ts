@@ -9,7 +9,7 @@ interface KeyboardShortcutsConfig {
   onToggleWatchlist?: () => void;
   onNextTimeframe?: () => void;
   onPrevTimeframe?: () => void;
-  onToggleIndicator?: (indicator: string) => void;
+  onToggleIndicator?: (token: string) => void; // indicator token, e.g. 'sma:50'
 }
 
 export function useKeyboardShortcuts({
@@ -63,11 +63,11 @@ export function useKeyboardShortcuts({
     // Number keys for indicators
     if (e.key === '1') {
       e.preventDefault();
-      onToggleIndicator?.('sma20');
+      onToggleIndicator?.('sma:20');
     }
     if (e.key === '2') {
       e.preventDefault();
-      onToggleIndicator?.('sma50');
+      onToggleIndicator?.('sma:50');
     }
     if (e.key === '3') {
       e.preventDefault();
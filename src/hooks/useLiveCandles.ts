@@ -0,0 +1,106 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { OHLCV } from '@/utils/indicators';
+import { streamManager, streamName, KlineEvent } from '@/lib/streams';
+import { useStreamStatus } from '@/hooks/useStream';
+import { fetchCandles, AssetClass, CandleInterval, FetchCandlesOptions } from '@/lib/api';
+
+// Live updates for the latest bars of a chart
+//
+// Crypto with a Binance pair streams klines over the shared stream connection (every
+// tick updates the forming bar, and a new bar appears when the interval rolls over).
+// Everything else polls the candle API, whose store only refetches the tail.
+
+const POLL_MS = 15 * 1000;
+const MAX_LIVE_BARS = 500;
+
+interface UseLiveCandlesOptions {
+  assetClass: AssetClass;
+  symbol: string;
+  interval: CandleInterval;
+  since: number;            // time of the last loaded bar; older updates are ignored
+  enabled?: boolean;
+  stream?: boolean;         // allow the WebSocket (streamed bars are USD)
+  usdRate?: number;         // multiplier for streamed prices
+  fetchOptions?: FetchCandlesOptions; // polling request (adjusted, extended hours, currency)
+}
+
+// Same time replaces, newer appends
+function mergeBar(bars: OHLCV[], bar: OHLCV): OHLCV[] {
+  const last = bars[bars.length - 1];
+  if (last && last.time === bar.time) return [...bars.slice(0, -1), bar];
+  if (last && last.time > bar.time) return bars;
+  return [...bars, bar].slice(-MAX_LIVE_BARS);
+}
+
+export function useLiveCandles({
+  assetClass,
+  symbol,
+  interval,
+  since,
+  enabled = true,
+  stream = true,
+  usdRate = 1,
+  fetchOptions,
+}: UseLiveCandlesOptions): { bars: OHLCV[]; connected: boolean } {
+  const [bars, setBars] = useState<OHLCV[]>([]);
+  const [polled, setPolled] = useState(false);
+  const rateRef = useRef(usdRate);
+  rateRef.current = usdRate;
+
+  // Objects from callers change identity every render
+  const optionsKey = JSON.stringify(fetchOptions || {});
+
+  const streamable = assetClass === 'crypto' && stream && streamName({ type: 'kline', symbol, interval }) !== null;
+  const streamStatus = useStreamStatus();
+
+  useEffect(() => {
+    setBars([]);
+    setPolled(false);
+    if (!enabled || !since) return;
+
+    let disposed = false;
+    const push = (bar: OHLCV) => {
+      if (!disposed && bar.time >= since) setBars(prev => mergeBar(prev, bar));
+    };
+
+    if (streamable) {
+      const unsubscribe = streamManager.subscribe({ type: 'kline', symbol, interval }, (kline: KlineEvent) => {
+        const rate = rateRef.current;
+        push({
+          time: kline.time,
+          open: kline.open * rate,
+          high: kline.high * rate,
+          low: kline.low * rate,
+          close: kline.close * rate,
+          volume: kline.volume,
+        });
+      });
+      return () => {
+        disposed = true;
+        unsubscribe();
+      };
+    }
+
+    // Polling: one day of bars is enough to cover the forming bar and a rollover
+    const options: FetchCandlesOptions = JSON.parse(optionsKey);
+    const poll = async () => {
+      const series = await fetchCandles(assetClass, symbol, interval, 1, options);
+      if (disposed || series.candles.length === 0) return;
+      setPolled(true);
+      series.candles.filter(c => c.time >= since).forEach(push);
+    };
+
+    // Right away, so a newly opened chart doesn't wait a whole interval
+    poll();
+    const timer = setInterval(poll, POLL_MS);
+    return () => {
+      disposed = true;
+      clearInterval(timer);
+    };
+  }, [assetClass, symbol, interval, since, enabled, streamable, optionsKey]);
+
+  const connected = enabled && (streamable ? streamStatus === 'open' : polled);
+  return { bars, connected };
+}
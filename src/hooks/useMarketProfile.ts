@@ -0,0 +1,41 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { safeGetJSON, safeSetJSON } from '@/utils/storage';
+import type { ProfileMode } from '@/utils/marketProfile';
+
+const STORAGE_KEY = 'chartwise-market-profile';
+
+export interface MarketProfileSettings {
+  enabled: boolean;
+  mode: ProfileMode;
+  sessions: number;
+  periodMinutes: number;
+  levels: boolean; // draw POC, value area and initial balance on the chart
+}
+
+const DEFAULT_SETTINGS: MarketProfileSettings = {
+  enabled: false,
+  mode: 'session',
+  sessions: 3,
+  periodMinutes: 30,
+  levels: true,
+};
+
+export function useMarketProfileSettings() {
+  const [settings, setSettings] = useState<MarketProfileSettings>(DEFAULT_SETTINGS);
+
+  useEffect(() => {
+    setSettings({ ...DEFAULT_SETTINGS, ...safeGetJSON<Partial<MarketProfileSettings>>(STORAGE_KEY, {}) });
+  }, []);
+
+  const updateSettings = useCallback((update: Partial<MarketProfileSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...update };
+      safeSetJSON(STORAGE_KEY, next);
+      return next;
+    });
+  }, []);
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,23 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { safeGetItem, safeSetItem } from '@/utils/storage';
+import { QuoteCurrency, isQuoteCurrency } from '@/lib/currency';
+
+const STORAGE_KEY = 'chartwise-quote-currency';
+
+export function useQuoteCurrency() {
+  const [quoteCurrency, setQuoteCurrencyState] = useState<QuoteCurrency>('USD');
+
+  useEffect(() => {
+    const stored = safeGetItem(STORAGE_KEY);
+    if (stored && isQuoteCurrency(stored)) setQuoteCurrencyState(stored);
+  }, []);
+
+  const setQuoteCurrency = useCallback((currency: QuoteCurrency) => {
+    setQuoteCurrencyState(currency);
+    safeSetItem(STORAGE_KEY, currency);
+  }, []);
+
+  return { quoteCurrency, setQuoteCurrency };
+}
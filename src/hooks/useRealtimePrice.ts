@@ -1,27 +1,10 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { streamManager, streamName } from '@/lib/streams';
+import { useStreamStatus } from '@/hooks/useStream';
 
-interface RealtimePrice {
-  symbol: string;
-  price: number;
-  timestamp: number;
-}
-
-// CoinCap WebSocket for real-time crypto prices (free, no API key)
-// Maps our symbol names to CoinCap asset IDs
-const COINCAP_IDS: Record<string, string> = {
-  'BTC': 'bitcoin',
-  'ETH': 'ethereum',
-  'SOL': 'solana',
-  'XRP': 'ripple',
-  'SUI': 'sui',
-  'DOGE': 'dogecoin',
-  'ADA': 'cardano',
-  'AVAX': 'avalanche',
-  'LINK': 'chainlink',
-  'DOT': 'polkadot',
-};
+// Real-time crypto prices from the shared Binance stream (miniTicker per symbol)
 
 interface UseRealtimePriceOptions {
   symbols: string[];
@@ -38,115 +21,33 @@ interface RealtimeState {
 export function useRealtimePrice({ symbols, enabled = true }: UseRealtimePriceOptions): RealtimeState & {
   reconnect: () => void;
 } {
-  const [state, setState] = useState<RealtimeState>({
-    prices: {},
-    lastUpdate: {},
-    connected: false,
-    error: null,
-  });
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const reconnectAttempts = useRef(0);
+  const [prices, setPrices] = useState<Record<string, number>>({});
+  const [lastUpdate, setLastUpdate] = useState<Record<string, number>>({});
+  const status = useStreamStatus();
 
-  // Stabilize symbols array to prevent reconnection loops
+  // Stabilize symbols array to prevent resubscribe loops
   // (callers often pass [symbol] which creates a new array each render)
   const symbolsKey = symbols.join(',');
-
-  const connect = useCallback(() => {
-    // Only connect for crypto symbols that have CoinCap mapping
-    const cryptoSymbols = symbolsKey.split(',').filter(s => s && COINCAP_IDS[s]);
-    if (cryptoSymbols.length === 0 || !enabled) return;
-
-    // Build CoinCap WebSocket URL with asset IDs
-    const assetIds = cryptoSymbols.map(s => COINCAP_IDS[s]).join(',');
-    const wsUrl = `wss://ws.coincap.io/prices?assets=${assetIds}`;
-
-    // Clean up existing connection
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
-    }
-
-    try {
-      const ws = new WebSocket(wsUrl);
-      wsRef.current = ws;
-
-      ws.onopen = () => {
-        setState(prev => ({ ...prev, connected: true, error: null }));
-        reconnectAttempts.current = 0;
-      };
-
-      ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          const now = Date.now();
-          
-          // CoinCap sends { assetId: price } format
-          const newPrices: Record<string, number> = {};
-          const newTimestamps: Record<string, number> = {};
-
-          for (const [coinCapId, price] of Object.entries(data)) {
-            // Reverse lookup: find our symbol for this CoinCap ID
-            const symbol = Object.entries(COINCAP_IDS).find(
-              ([_, id]) => id === coinCapId
-            )?.[0];
-            
-            if (symbol && typeof price === 'string') {
-              newPrices[symbol] = parseFloat(price);
-              newTimestamps[symbol] = now;
-            }
-          }
-
-          if (Object.keys(newPrices).length > 0) {
-            setState(prev => ({
-              ...prev,
-              prices: { ...prev.prices, ...newPrices },
-              lastUpdate: { ...prev.lastUpdate, ...newTimestamps },
-            }));
-          }
-        } catch (err) {
-          console.error('Failed to parse WebSocket message:', err);
-        }
-      };
-
-      ws.onerror = () => {
-        setState(prev => ({ ...prev, error: 'WebSocket connection error' }));
-      };
-
-      ws.onclose = () => {
-        setState(prev => ({ ...prev, connected: false }));
-        wsRef.current = null;
-
-        // Auto-reconnect with exponential backoff
-        if (enabled && reconnectAttempts.current < 5) {
-          const delay = Math.min(1000 * Math.pow(2, reconnectAttempts.current), 30000);
-          reconnectAttempts.current++;
-          reconnectTimeoutRef.current = setTimeout(connect, delay);
-        }
-      };
-    } catch (err) {
-      setState(prev => ({ ...prev, error: 'Failed to create WebSocket connection' }));
-    }
-  }, [symbolsKey, enabled]);
-
-  const reconnect = useCallback(() => {
-    reconnectAttempts.current = 0;
-    connect();
-  }, [connect]);
+  const streamable = symbolsKey.split(',').filter(s => s && streamName({ type: 'ticker', symbol: s }));
 
   useEffect(() => {
-    connect();
+    if (!enabled) return;
+    const unsubscribers = symbolsKey.split(',')
+      .filter(Boolean)
+      .map(symbol => streamManager.subscribe({ type: 'ticker', symbol }, (ticker) => {
+        setPrices(prev => ({ ...prev, [symbol]: ticker.price }));
+        setLastUpdate(prev => ({ ...prev, [symbol]: Date.now() }));
+      }));
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [symbolsKey, enabled]);
 
-    return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
-        wsRef.current = null;
-      }
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
-    };
-  }, [connect]);
+  const reconnect = useCallback(() => streamManager.reconnect(), []);
 
-  return { ...state, reconnect };
+  return {
+    prices,
+    lastUpdate,
+    connected: enabled && streamable.length > 0 && status === 'open',
+    error: null,
+    reconnect,
+  };
 }
@@ -0,0 +1,15 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getSessionState, subscribeSession } from '@/lib/sessionRecorder';
+
+export function useSessionRecorder() {
+  const [session, setSession] = useState(getSessionState);
+
+  useEffect(() => {
+    setSession(getSessionState());
+    return subscribeSession(() => setSession(getSessionState()));
+  }, []);
+
+  return session;
+}
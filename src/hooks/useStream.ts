@@ -0,0 +1,91 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  streamManager, isStreamTransport, StreamTopic, StreamEvent, StreamStatus, StreamTransport, DepthEvent, TradeEvent, KlineEvent,
+} from '@/lib/streams';
+import type { CandleInterval } from '@/lib/providers/types';
+import { safeGetItem, safeSetItem } from '@/utils/storage';
+
+// Typed hooks over the shared stream manager (lib/streams)
+
+const TRANSPORT_STORAGE_KEY = 'chartwise-stream-transport';
+
+// Direct Binance socket or the /api/stream SSE relay; applies to every stream hook.
+// `error` is set when the relay refused to connect and the manager fell back to direct.
+export function useStreamTransport() {
+  const [transport, setTransportState] = useState<StreamTransport>(streamManager.getTransport());
+  const [error, setError] = useState<string | null>(streamManager.getTransportError());
+
+  useEffect(() => {
+    const unsubscribe = streamManager.onTransport((next, nextError) => {
+      setTransportState(next);
+      setError(nextError);
+    });
+    const stored = safeGetItem(TRANSPORT_STORAGE_KEY);
+    if (stored && isStreamTransport(stored)) {
+      streamManager.setTransport(stored);
+    }
+    return unsubscribe;
+  }, []);
+
+  const setTransport = useCallback((next: StreamTransport) => {
+    streamManager.setTransport(next);
+    safeSetItem(TRANSPORT_STORAGE_KEY, next);
+  }, []);
+
+  return { transport, error, setTransport };
+}
+
+export function useStreamStatus(): StreamStatus {
+  const [status, setStatus] = useState<StreamStatus>(streamManager.getStatus());
+
+  useEffect(() => {
+    setStatus(streamManager.getStatus());
+    return streamManager.onStatus(setStatus);
+  }, []);
+
+  return status;
+}
+
+// Subscribe while mounted and `topic` is non-null. The callback may change every
+// render without resubscribing.
+export function useStream<T extends StreamTopic['type']>(
+  topic: Extract<StreamTopic, { type: T }> | null,
+  onEvent: (event: StreamEvent<T>) => void
+): void {
+  const callbackRef = useRef(onEvent);
+  callbackRef.current = onEvent;
+
+  const topicKey = topic ? JSON.stringify(topic) : null;
+
+  useEffect(() => {
+    if (!topicKey) return;
+    return streamManager.subscribe(JSON.parse(topicKey), event => callbackRef.current(event));
+  }, [topicKey]);
+}
+
+export function useTradeStream(symbol: string, onTrade: (trade: TradeEvent) => void, enabled: boolean = true): void {
+  useStream<'trades'>(enabled ? { type: 'trades', symbol } : null, onTrade);
+}
+
+export function useKlineStream(
+  symbol: string,
+  interval: CandleInterval,
+  onKline: (kline: KlineEvent) => void,
+  enabled: boolean = true
+): void {
+  useStream<'kline'>(enabled ? { type: 'kline', symbol, interval } : null, onKline);
+}
+
+// Latest top-20 book, cleared when the symbol changes
+export function useDepthStream(symbol: string, enabled: boolean = true): DepthEvent | null {
+  const [depth, setDepth] = useState<DepthEvent | null>(null);
+
+  useEffect(() => {
+    setDepth(null);
+  }, [symbol]);
+
+  useStream<'depth'>(enabled ? { type: 'depth', symbol } : null, setDepth);
+  return depth;
+}
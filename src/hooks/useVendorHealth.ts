@@ -0,0 +1,17 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getVendorHealth, subscribeVendorHealth } from '@/lib/requestScheduler';
+
+export function useVendorHealth() {
+  const [health, setHealth] = useState(getVendorHealth);
+
+  useEffect(() => {
+    setHealth(getVendorHealth());
+    return subscribeVendorHealth(() => setHealth(getVendorHealth()));
+  }, []);
+
+  const degraded = Object.values(health).some(h => h && h.status !== 'ok');
+
+  return { health, degraded };
+}
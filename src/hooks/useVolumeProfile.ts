@@ -0,0 +1,69 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { safeGetJSON, safeSetJSON } from '@/utils/storage';
+import type { VolumeProfileMode } from '@/utils/volumeProfilePrimitive';
+
+const SETTINGS_KEY = 'chartwise-volume-profile';
+const RANGES_KEY = 'chartwise-volume-profile-ranges';
+
+export interface VolumeProfileSettings {
+  enabled: boolean;
+  mode: VolumeProfileMode;
+  rows: number;
+}
+
+export interface VolumeProfileRange {
+  from: number; // unix seconds of the first bar
+  to: number;   // unix seconds of the last bar
+}
+
+const DEFAULT_SETTINGS: VolumeProfileSettings = {
+  enabled: false,
+  mode: 'visible',
+  rows: 24,
+};
+
+export function useVolumeProfileSettings() {
+  const [settings, setSettings] = useState<VolumeProfileSettings>(DEFAULT_SETTINGS);
+
+  useEffect(() => {
+    setSettings({ ...DEFAULT_SETTINGS, ...safeGetJSON<Partial<VolumeProfileSettings>>(SETTINGS_KEY, {}) });
+  }, []);
+
+  const updateSettings = useCallback((update: Partial<VolumeProfileSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...update };
+      safeSetJSON(SETTINGS_KEY, next);
+      return next;
+    });
+  }, []);
+
+  return { settings, updateSettings };
+}
+
+// The fixed range a profile is built over, saved per symbol
+export function useVolumeProfileRange(symbol: string) {
+  const [rangesBySymbol, setRangesBySymbol] = useState<Record<string, VolumeProfileRange>>({});
+
+  useEffect(() => {
+    setRangesBySymbol(safeGetJSON<Record<string, VolumeProfileRange>>(RANGES_KEY, {}));
+  }, []);
+
+  const save = useCallback((updated: Record<string, VolumeProfileRange>) => {
+    setRangesBySymbol(updated);
+    safeSetJSON(RANGES_KEY, updated);
+  }, []);
+
+  const range = rangesBySymbol[symbol] as VolumeProfileRange | undefined;
+
+  const setRange = useCallback((from: number, to: number) => {
+    save({ ...rangesBySymbol, [symbol]: { from: Math.min(from, to), to: Math.max(from, to) } });
+  }, [rangesBySymbol, symbol, save]);
+
+  const clearRange = useCallback(() => {
+    save(Object.fromEntries(Object.entries(rangesBySymbol).filter(([key]) => key !== symbol)));
+  }, [rangesBySymbol, symbol, save]);
+
+  return { range, setRange, clearRange };
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { safeGetJSON, safeSetJSON } from '@/utils/storage';
+
+const ANCHORS_KEY = 'chartwise-vwap-anchors';
+
+const NO_ANCHORS: VwapAnchor[] = [];
+
+export interface VwapAnchor {
+  id: string;
+  time: number; // unix seconds of the anchor bar
+  color: string;
+}
+
+function withoutSymbol(anchorsBySymbol: Record<string, VwapAnchor[]>, symbol: string): Record<string, VwapAnchor[]> {
+  return Object.fromEntries(Object.entries(anchorsBySymbol).filter(([key]) => key !== symbol));
+}
+
+// Anchored VWAPs, saved per symbol
+export function useVwapAnchors(symbol: string) {
+  const [anchorsBySymbol, setAnchorsBySymbol] = useState<Record<string, VwapAnchor[]>>({});
+
+  useEffect(() => {
+    setAnchorsBySymbol(safeGetJSON<Record<string, VwapAnchor[]>>(ANCHORS_KEY, {}));
+  }, []);
+
+  const save = useCallback((updated: Record<string, VwapAnchor[]>) => {
+    setAnchorsBySymbol(updated);
+    safeSetJSON(ANCHORS_KEY, updated);
+  }, []);
+
+  const anchors = anchorsBySymbol[symbol] || NO_ANCHORS;
+
+  // Clicking a bar that already has an anchor removes it
+  const toggleAnchor = useCallback((time: number, color: string) => {
+    const existing = anchors.find(a => a.time === time);
+    const updated = existing
+      ? anchors.filter(a => a !== existing)
+      : [...anchors, { id: `avwap-${Date.now()}`, time, color }];
+    save(updated.length > 0 ? { ...anchorsBySymbol, [symbol]: updated } : withoutSymbol(anchorsBySymbol, symbol));
+  }, [anchors, anchorsBySymbol, symbol, save]);
+
+  const clearAnchors = useCallback(() => {
+    save(withoutSymbol(anchorsBySymbol, symbol));
+  }, [anchorsBySymbol, symbol, save]);
+
+  return { anchors, toggleAnchor, clearAnchors };
+}
@@ -1,168 +1,179 @@
 import axios from 'axios';
 import { OHLCV } from '@/utils/indicators';
+import { listInstruments } from '@/lib/instruments';
+import { QuoteCurrency, QUOTE_CURRENCIES, UsdConversion, USD_CONVERSION, convertAssetInfo, crossCandles } from '@/lib/currency';
+import { getProvider, AssetClass, AssetInfo, CandleInterval, CandleOptions, CandleSeries, SearchResult, clampLookbackDays } from '@/lib/providers';
 
-// CoinGecko API for crypto
-const COINGECKO_BASE = 'https://api.coingecko.com/api/v3';
-
-// Crypto ID mapping
-const CRYPTO_IDS: Record<string, string> = {
-  'BTC': 'bitcoin',
-  'ETH': 'ethereum',
-  'SOL': 'solana',
-  'XRP': 'ripple',
-  'SUI': 'sui',
-  'DOGE': 'dogecoin',
-  'ADA': 'cardano',
-  'AVAX': 'avalanche-2',
-  'LINK': 'chainlink',
-  'DOT': 'polkadot',
-};
-
-export interface AssetInfo {
-  symbol: string;
-  name: string;
-  price: number;
-  change24h: number;
-  volume24h: number;
-  marketCap: number;
-  high24h: number;
-  low24h: number;
+// Public data-access facade. Components call these helpers; the actual vendor is
+// whatever provider is registered for the asset class (see lib/providers).
+
+export type { QuoteCurrency, UsdConversion } from '@/lib/currency';
+export type { AssetClass, AssetInfo, CandleInterval, CandleCacheInfo, CandleSeries, CorporateAction, SearchResult } from '@/lib/providers';
+export { CANDLE_INTERVALS, isCandleInterval, clampLookbackDays } from '@/lib/providers';
+
+export interface FetchCandlesOptions extends CandleOptions {
+  currency?: QuoteCurrency; // default USD
 }
 
-// Fetch OHLCV data for crypto
-export async function fetchCryptoOHLCV(
+// Conversions are reused for a minute (portfolio refreshes, panel reloads)
+const CONVERSION_TTL_MS = 60 * 1000;
+const conversions = new Map<QuoteCurrency, { value: UsdConversion; at: number }>();
+
+// USD -> quote currency rate. Fiat comes from the crypto provider's rate table;
+// BTC/ETH from the coin's own USD quote so the 24h move is known too.
+export async function fetchUsdConversion(currency: QuoteCurrency): Promise<UsdConversion | null> {
+  if (currency === 'USD') return USD_CONVERSION;
+
+  const cached = conversions.get(currency);
+  if (cached && Date.now() - cached.at < CONVERSION_TTL_MS) return cached.value;
+
+  try {
+    let conversion: UsdConversion | null = null;
+    if (QUOTE_CURRENCIES[currency].kind === 'crypto') {
+      const quote = await getProvider('crypto').getQuote(currency);
+      if (quote && quote.price > 0) {
+        conversion = { currency, rate: 1 / quote.price, change24h: quote.change24h };
+      }
+    } else {
+      const rates = await getProvider('crypto').getUsdRates?.();
+      const rate = rates?.[currency.toLowerCase()];
+      if (rate) conversion = { currency, rate, change24h: 0 };
+    }
+
+    if (conversion) conversions.set(currency, { value: conversion, at: Date.now() });
+    return conversion;
+  } catch (error) {
+    console.error('Error fetching exchange rate:', error);
+    return null;
+  }
+}
+
+// Fetch candles together with cache metadata (how fresh the bars are). Other quote
+// currencies are derived from USD bars; if the rate is unavailable the USD series
+// is returned (check `currency`).
+export async function fetchCandles(
+  assetClass: AssetClass,
   symbol: string,
-  timeframe: string = '1d',
-  days: number = 90
-): Promise<OHLCV[]> {
-  const id = CRYPTO_IDS[symbol.toUpperCase()] || symbol.toLowerCase();
-  
+  interval: CandleInterval = '1d',
+  days: number = 90,
+  options: FetchCandlesOptions = {}
+): Promise<CandleSeries> {
+  const { currency = 'USD', ...candleOptions } = options;
+  const lookback = clampLookbackDays(interval, days);
+
   try {
-    const response = await axios.get(`${COINGECKO_BASE}/coins/${id}/ohlc`, {
-      params: {
-        vs_currency: 'usd',
-        days: days,
-      },
-    });
-    
-    const data = response.data as number[][];
-    
-    return data.map(([time, open, high, low, close]) => ({
-      time: Math.floor(time / 1000),
-      open,
-      high,
-      low,
-      close,
-    }));
+    const series = await getProvider(assetClass).getCandles(symbol, interval, lookback, candleOptions);
+    if (currency === 'USD' || (series.currency || 'USD') !== 'USD' || series.candles.length === 0) return series;
+
+    // Each bar is divided by the currency's USD price at its time: the coin's own candles,
+    // or Yahoo's FX pair for fiat (EURUSD=X is USD per euro)
+    const quote = await (QUOTE_CURRENCIES[currency].kind === 'crypto'
+      ? getProvider('crypto').getCandles(currency, interval, lookback)
+      : getProvider('stock').getCandles(`${currency}USD=X`, interval, lookback)
+    ).catch((): CandleSeries => ({ candles: [] }));
+    if (quote.candles.length === 0) return series;
+    return { ...series, candles: crossCandles(series.candles, quote.candles), currency };
   } catch (error) {
     console.error('Error fetching OHLCV:', error);
-    return [];
+    return { candles: [] };
   }
 }
 
+// Quote in the requested currency: straight from the vendor when it has the pair,
+// otherwise restated from USD
+async function fetchQuote(assetClass: AssetClass, symbol: string, currency: QuoteCurrency): Promise<AssetInfo | null> {
+  const info = await getProvider(assetClass).getQuote(symbol, currency);
+  const quoted = info?.currency || 'USD';
+  if (!info || quoted === currency || quoted !== 'USD') return info;
+
+  const conversion = await fetchUsdConversion(currency);
+  return conversion ? convertAssetInfo(info, conversion) : info;
+}
+
+// Fetch OHLCV data for crypto
+export async function fetchCryptoOHLCV(
+  symbol: string,
+  interval: CandleInterval = '1d',
+  days: number = 90
+): Promise<OHLCV[]> {
+  return (await fetchCandles('crypto', symbol, interval, days)).candles;
+}
+
 // Fetch current price and info
-export async function fetchAssetInfo(symbol: string): Promise<AssetInfo | null> {
-  const id = CRYPTO_IDS[symbol.toUpperCase()] || symbol.toLowerCase();
-  
+export async function fetchAssetInfo(symbol: string, currency: QuoteCurrency = 'USD'): Promise<AssetInfo | null> {
   try {
-    const response = await axios.get(`${COINGECKO_BASE}/coins/${id}`, {
-      params: {
-        localization: false,
-        tickers: false,
-        community_data: false,
-        developer_data: false,
-      },
-    });
-    
-    const data = response.data;
-    
-    return {
-      symbol: data.symbol.toUpperCase(),
-      name: data.name,
-      price: data.market_data.current_price.usd,
-      change24h: data.market_data.price_change_percentage_24h,
-      volume24h: data.market_data.total_volume.usd,
-      marketCap: data.market_data.market_cap.usd,
-      high24h: data.market_data.high_24h.usd,
-      low24h: data.market_data.low_24h.usd,
-    };
+    return await fetchQuote('crypto', symbol, currency);
   } catch (error) {
     console.error('Error fetching asset info:', error);
     return null;
   }
 }
 
-// Search for assets
-export async function searchAssets(query: string): Promise<{ id: string; symbol: string; name: string }[]> {
+// Search crypto and stocks (merged and ranked by /api/search)
+export async function searchAssets(query: string): Promise<SearchResult[]> {
   try {
-    const response = await axios.get(`${COINGECKO_BASE}/search`, {
-      params: { query },
-    });
-    
-    return response.data.coins.slice(0, 10).map((coin: any) => ({
-      id: coin.id,
-      symbol: coin.symbol.toUpperCase(),
-      name: coin.name,
-    }));
+    const response = await axios.get('/api/search', { params: { q: query } });
+    return response.data.results || [];
   } catch (error) {
     console.error('Error searching assets:', error);
     return [];
   }
 }
 
-// Get list of supported assets
-export function getSupportedAssets(): { symbol: string; name: string; type: 'crypto' | 'stock' }[] {
-  return [
-    // Crypto
-    { symbol: 'BTC', name: 'Bitcoin', type: 'crypto' },
-    { symbol: 'ETH', name: 'Ethereum', type: 'crypto' },
-    { symbol: 'SOL', name: 'Solana', type: 'crypto' },
-    { symbol: 'XRP', name: 'Ripple', type: 'crypto' },
-    { symbol: 'SUI', name: 'Sui', type: 'crypto' },
-    // Stocks
-    { symbol: 'INTU', name: 'Intuit', type: 'stock' },
-    { symbol: 'GOOGL', name: 'Alphabet', type: 'stock' },
-    { symbol: 'MSFT', name: 'Microsoft', type: 'stock' },
-    { symbol: 'META', name: 'Meta', type: 'stock' },
-    { symbol: 'AAPL', name: 'Apple', type: 'stock' },
-  ];
+// CoinGecko /coins/markets rows (raw), from the crypto provider. Providers without
+// market data (the fixtures) leave these panels empty.
+export async function fetchListedCoinMarkets(): Promise<any[]> {
+  const markets = getProvider('crypto').markets;
+  if (!markets) return [];
+  try {
+    return await markets.getListedCoins();
+  } catch (error) {
+    console.error('Error fetching listed coin markets:', error);
+    return [];
+  }
 }
 
-// Fetch stock OHLCV data via our API proxy (avoids CORS issues)
-export async function fetchStockOHLCV(
-  symbol: string,
-  days: number = 90
-): Promise<OHLCV[]> {
+export async function fetchTopCoinMarkets(page: number = 1): Promise<any[]> {
+  const markets = getProvider('crypto').markets;
+  if (!markets) return [];
   try {
-    const response = await axios.get(`/api/stock/${symbol}`, {
-      params: { days },
-    });
-    
-    return response.data.candles || [];
+    return await markets.getTopCoins(page);
   } catch (error) {
-    console.error('Error fetching stock OHLCV:', error);
+    console.error('Error fetching top coin markets:', error);
     return [];
   }
 }
 
-// Fetch stock info via our API proxy
-export async function fetchStockInfo(symbol: string): Promise<AssetInfo | null> {
+// CoinGecko /global (market-wide totals and dominance)
+export async function fetchGlobalMarket(): Promise<any | null> {
+  const markets = getProvider('crypto').markets;
+  if (!markets) return null;
+  try {
+    return await markets.getGlobal();
+  } catch (error) {
+    console.error('Error fetching global market data:', error);
+    return null;
+  }
+}
+
+// Get list of supported assets
+export function getSupportedAssets(): { symbol: string; name: string; type: AssetClass }[] {
+  return listInstruments().map(i => ({ symbol: i.symbol, name: i.name, type: i.assetClass }));
+}
+
+// Fetch stock OHLCV data
+export async function fetchStockOHLCV(
+  symbol: string,
+  days: number = 90,
+  interval: CandleInterval = '1d'
+): Promise<OHLCV[]> {
+  return (await fetchCandles('stock', symbol, interval, days)).candles;
+}
+
+// Fetch stock info
+export async function fetchStockInfo(symbol: string, currency: QuoteCurrency = 'USD'): Promise<AssetInfo | null> {
   try {
-    const response = await axios.get(`/api/stock/${symbol}`, {
-      params: { days: 5 },
-    });
-    
-    const data = response.data;
-    return {
-      symbol: data.symbol,
-      name: data.name,
-      price: data.price,
-      change24h: data.change24h,
-      volume24h: data.volume24h,
-      marketCap: data.marketCap,
-      high24h: data.high24h,
-      low24h: data.low24h,
-    };
+    return await fetchQuote('stock', symbol, currency);
   } catch (error) {
     console.error('Error fetching stock info:', error);
     return null;
@@ -0,0 +1,110 @@
+import { OHLCV } from '@/utils/indicators';
+import type { AssetInfo } from '@/lib/providers/types';
+
+// Quote currencies
+//
+// Vendors price everything in USD (Binance USDT pairs, Yahoo US listings). Other
+// quote currencies are applied on top: quotes with today's rate, candles by dividing
+// bar by bar through the currency's USD candles (FX pairs for fiat, the coin for BTC/ETH).
+
+export type QuoteCurrency = 'USD' | 'EUR' | 'GBP' | 'JPY' | 'BTC' | 'ETH';
+
+export const QUOTE_CURRENCIES: Record<QuoteCurrency, { label: string; symbol: string; kind: 'fiat' | 'crypto' }> = {
+  USD: { label: 'US Dollar', symbol: '$', kind: 'fiat' },
+  EUR: { label: 'Euro', symbol: '€', kind: 'fiat' },
+  GBP: { label: 'British Pound', symbol: '£', kind: 'fiat' },
+  JPY: { label: 'Japanese Yen', symbol: '¥', kind: 'fiat' },
+  BTC: { label: 'Bitcoin', symbol: '₿', kind: 'crypto' },
+  ETH: { label: 'Ether', symbol: 'Ξ', kind: 'crypto' },
+};
+
+export function isQuoteCurrency(value: string): value is QuoteCurrency {
+  return Object.prototype.hasOwnProperty.call(QUOTE_CURRENCIES, value);
+}
+
+// USD -> quote currency. `change24h` is the quote currency's own move vs USD (%),
+// needed to restate 24h changes.
+export interface UsdConversion {
+  currency: QuoteCurrency;
+  rate: number; // units of `currency` per 1 USD
+  change24h: number;
+}
+
+export const USD_CONVERSION: UsdConversion = { currency: 'USD', rate: 1, change24h: 0 };
+
+// Prices in BTC/ETH need more digits than fiat
+function fractionDigits(value: number, currency: string): { min: number; max: number } {
+  const abs = Math.abs(value);
+  if (currency === 'JPY') return { min: 0, max: abs < 10 ? 4 : 0 };
+  if (currency === 'BTC' || currency === 'ETH') return { min: 2, max: abs < 1 ? 8 : 4 };
+  return { min: 2, max: abs < 1 ? 6 : 2 };
+}
+
+/**
+ * Format a price with the quote currency's symbol, e.g. "$1,234.50", "€0.4312",
+ * "₿0.00001234". Unknown codes are appended ("12.50 CHF").
+ */
+export function formatMoney(value: number, currency: string = 'USD'): string {
+  if (!isFinite(value)) return '—';
+  const { min, max } = fractionDigits(value, currency);
+  const amount = Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: min, maximumFractionDigits: max });
+  const sign = value < 0 ? '-' : '';
+  return isQuoteCurrency(currency)
+    ? `${sign}${QUOTE_CURRENCIES[currency].symbol}${amount}`
+    : `${sign}${amount} ${currency}`;
+}
+
+// Large amounts (volume, market cap) as "€12.34B"
+export function formatMoneyCompact(value: number, currency: string = 'USD'): string {
+  if (!value) return '—';
+  const symbol = isQuoteCurrency(currency) ? QUOTE_CURRENCIES[currency].symbol : `${currency} `;
+  const abs = Math.abs(value);
+  if (abs >= 1e12) return `${symbol}${(value / 1e12).toFixed(2)}T`;
+  if (abs >= 1e9) return `${symbol}${(value / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${symbol}${(value / 1e6).toFixed(2)}M`;
+  if (abs >= 1e3) return `${symbol}${(value / 1e3).toFixed(2)}K`;
+  return formatMoney(value, currency);
+}
+
+/**
+ * Reprice USD candles in another currency using that currency's USD candles (the
+ * cross rate). Each bar is divided by the latest quote bar at or before it; bars older
+ * than the quote series are dropped. Volume stays in base units.
+ */
+export function crossCandles(candles: OHLCV[], quote: OHLCV[]): OHLCV[] {
+  const result: OHLCV[] = [];
+  let j = 0;
+
+  for (const c of candles) {
+    while (j + 1 < quote.length && quote[j + 1].time <= c.time) j++;
+    const q = quote[j];
+    if (!q || q.time > c.time || q.open <= 0 || q.close <= 0) continue;
+
+    const open = c.open / q.open;
+    const close = c.close / q.close;
+    result.push({
+      ...c,
+      open,
+      high: Math.max(open, close, c.high / q.close),
+      low: Math.min(open, close, c.low / q.close),
+      close,
+    });
+  }
+
+  return result;
+}
+
+// Restate a USD quote in another currency
+export function convertAssetInfo(info: AssetInfo, conversion: UsdConversion): AssetInfo {
+  const { rate, change24h, currency } = conversion;
+  return {
+    ...info,
+    price: info.price * rate,
+    change24h: ((1 + info.change24h / 100) / (1 + change24h / 100) - 1) * 100,
+    volume24h: info.volume24h * rate,
+    marketCap: info.marketCap * rate,
+    high24h: info.high24h * rate,
+    low24h: info.low24h * rate,
+    currency,
+  };
+}
@@ -0,0 +1,197 @@
+import type { AssetClass, SearchResult } from '@/lib/providers/types';
+import { safeGetJSON, safeSetJSON } from '@/utils/storage';
+
+// Instrument registry
+//
+// The one place that describes every tradable symbol. Vendor IDs, the asset
+// selector, news keywords and realtime feeds all resolve through here, so adding
+// a coin or stock is a single entry below.
+
+export type Vendor = 'coingecko' | 'coincap' | 'binance' | 'deribit' | 'yahoo';
+
+export type TradingHours =
+  | { type: 'continuous' } // 24/7
+  | { type: 'session'; timezone: string; open: string; close: string; days: number[] }; // days: 0 = Sunday
+
+export interface Instrument {
+  symbol: string;
+  name: string;
+  assetClass: AssetClass;
+  quoteCurrency: string;
+  exchange: string;
+  tickSize: number;
+  tradingHours: TradingHours;
+  vendorIds: Partial<Record<Vendor, string>>;
+  newsKeywords: string[];
+}
+
+const CONTINUOUS: TradingHours = { type: 'continuous' };
+
+const US_EQUITY_HOURS: TradingHours = {
+  type: 'session',
+  timezone: 'America/New_York',
+  open: '09:30',
+  close: '16:00',
+  days: [1, 2, 3, 4, 5],
+};
+
+// Listed crypto trades against USDT on Binance (spot and perpetuals)
+function crypto(
+  symbol: string,
+  name: string,
+  ids: { coingecko: string; coincap: string; deribit?: boolean },
+  tickSize: number,
+  newsKeywords: string[]
+): Instrument {
+  return {
+    symbol,
+    name,
+    assetClass: 'crypto',
+    quoteCurrency: 'USD',
+    exchange: 'Binance',
+    tickSize,
+    tradingHours: CONTINUOUS,
+    vendorIds: {
+      coingecko: ids.coingecko,
+      coincap: ids.coincap,
+      binance: `${symbol}USDT`,
+      ...(ids.deribit ? { deribit: symbol } : {}),
+    },
+    newsKeywords,
+  };
+}
+
+function usStock(symbol: string, name: string, exchange: string, newsKeywords: string[]): Instrument {
+  return {
+    symbol,
+    name,
+    assetClass: 'stock',
+    quoteCurrency: 'USD',
+    exchange,
+    tickSize: 0.01,
+    tradingHours: US_EQUITY_HOURS,
+    vendorIds: { yahoo: symbol },
+    newsKeywords,
+  };
+}
+
+export const INSTRUMENTS: Instrument[] = [
+  // Crypto
+  crypto('BTC', 'Bitcoin', { coingecko: 'bitcoin', coincap: 'bitcoin', deribit: true }, 0.01, ['bitcoin', 'btc']),
+  crypto('ETH', 'Ethereum', { coingecko: 'ethereum', coincap: 'ethereum', deribit: true }, 0.01, ['ethereum', 'eth']),
+  crypto('SOL', 'Solana', { coingecko: 'solana', coincap: 'solana', deribit: true }, 0.01, ['solana', 'sol']),
+  crypto('XRP', 'Ripple', { coingecko: 'ripple', coincap: 'ripple' }, 0.0001, ['ripple', 'xrp']),
+  crypto('SUI', 'Sui', { coingecko: 'sui', coincap: 'sui' }, 0.0001, ['sui']),
+  crypto('DOGE', 'Dogecoin', { coingecko: 'dogecoin', coincap: 'dogecoin' }, 0.00001, ['dogecoin', 'doge']),
+  crypto('ADA', 'Cardano', { coingecko: 'cardano', coincap: 'cardano' }, 0.0001, ['cardano', 'ada']),
+  crypto('AVAX', 'Avalanche', { coingecko: 'avalanche-2', coincap: 'avalanche' }, 0.01, ['avalanche', 'avax']),
+  crypto('LINK', 'Chainlink', { coingecko: 'chainlink', coincap: 'chainlink' }, 0.01, ['chainlink', 'link']),
+  crypto('DOT', 'Polkadot', { coingecko: 'polkadot', coincap: 'polkadot' }, 0.001, ['polkadot', 'dot']),
+  // Stocks
+  usStock('INTU', 'Intuit', 'NASDAQ', ['intuit']),
+  usStock('GOOGL', 'Alphabet', 'NASDAQ', ['google', 'alphabet']),
+  usStock('MSFT', 'Microsoft', 'NASDAQ', ['microsoft']),
+  usStock('META', 'Meta', 'NASDAQ', ['meta', 'facebook']),
+  usStock('AAPL', 'Apple', 'NASDAQ', ['apple']),
+];
+
+const BY_SYMBOL = new Map(INSTRUMENTS.map(i => [i.symbol, i]));
+
+// Symbols picked from search that aren't in the registry. Remembered in
+// localStorage so shared links and the watchlist keep resolving them.
+const DISCOVERED_KEY = 'chartwise-discovered-instruments';
+let discovered: Map<string, Instrument> | null = null;
+
+// Discovered instruments are keyed by asset class and symbol, so a coin and a
+// stock sharing a ticker are kept apart
+function discoveredKey(instrument: Pick<Instrument, 'assetClass' | 'symbol'>): string {
+  return `${instrument.assetClass}:${instrument.symbol}`;
+}
+
+function discoveredInstruments(): Map<string, Instrument> {
+  if (!discovered) {
+    const stored = safeGetJSON<Instrument[]>(DISCOVERED_KEY, []);
+    discovered = new Map(stored.map(i => [discoveredKey(i), i]));
+  }
+  return discovered;
+}
+
+// Look up by symbol, or by "assetClass:SYMBOL" for a discovered instrument whose
+// symbol is taken (see registerSearchResult). A bare symbol resolves to the registry
+// entry first, then to the first instrument discovered with it.
+export function getInstrument(symbol: string): Instrument | undefined {
+  const byKey = discoveredInstruments().get(symbol);
+  if (byKey) return byKey;
+  const upper = symbol.toUpperCase();
+  const listed = BY_SYMBOL.get(upper);
+  if (listed) return listed;
+  for (const instrument of Array.from(discoveredInstruments().values())) {
+    if (instrument.symbol === upper) return instrument;
+  }
+  return undefined;
+}
+
+// Unknown symbols are treated as crypto (CoinGecko resolves most tickers by name)
+export function getAssetClass(symbol: string): AssetClass {
+  return getInstrument(symbol)?.assetClass || 'crypto';
+}
+
+// Make a search result chartable and return the symbol to select it by: listed
+// symbols resolve as-is, anything else is remembered with the vendor ID, session and
+// currency the search returned. When the bare symbol already means another
+// instrument, the "assetClass:SYMBOL" key is returned instead.
+export function registerSearchResult(result: SearchResult): string {
+  const listed = BY_SYMBOL.get(result.symbol);
+  if (listed && listed.assetClass === result.assetClass) return listed.symbol;
+
+  const instrument: Instrument = result.assetClass === 'crypto'
+    ? {
+        symbol: result.symbol,
+        name: result.name,
+        assetClass: 'crypto',
+        quoteCurrency: 'USD',
+        exchange: result.exchange,
+        tickSize: 0.00000001,
+        tradingHours: CONTINUOUS,
+        vendorIds: { coingecko: result.id },
+        newsKeywords: [result.name.toLowerCase(), result.symbol.toLowerCase()],
+      }
+    : {
+        symbol: result.symbol,
+        name: result.name,
+        assetClass: 'stock',
+        quoteCurrency: result.currency || 'USD',
+        exchange: result.exchange,
+        tickSize: 0.01,
+        tradingHours: result.tradingHours || US_EQUITY_HOURS,
+        vendorIds: { yahoo: result.id },
+        newsKeywords: [result.name.toLowerCase()],
+      };
+
+  const key = discoveredKey(instrument);
+  const map = discoveredInstruments();
+  map.set(key, instrument);
+  safeSetJSON(DISCOVERED_KEY, Array.from(map.values()));
+  return getInstrument(instrument.symbol) === instrument ? instrument.symbol : key;
+}
+
+export function listInstruments(assetClass?: AssetClass): Instrument[] {
+  return assetClass ? INSTRUMENTS.filter(i => i.assetClass === assetClass) : INSTRUMENTS;
+}
+
+// Vendor-specific ID for one of our symbols (undefined if the vendor doesn't list it)
+export function getVendorId(symbol: string, vendor: Vendor): string | undefined {
+  return getInstrument(symbol)?.vendorIds[vendor];
+}
+
+// Reverse lookup: our instrument for a vendor-specific ID
+export function findByVendorId(vendor: Vendor, id: string): Instrument | undefined {
+  return INSTRUMENTS.find(i => i.vendorIds[vendor] === id);
+}
+
+// Symbols a vendor covers, e.g. every coin with a Binance pair
+export function listVendorSymbols(vendor: Vendor, assetClass?: AssetClass): string[] {
+  return listInstruments(assetClass)
+    .filter(i => i.vendorIds[vendor] !== undefined)
+    .map(i => i.symbol);
+}
@@ -0,0 +1,412 @@
+import axios from 'axios';
+import { OHLCV, resampleOHLCV } from '@/utils/indicators';
+import { getInstrument, getVendorId, listInstruments } from '@/lib/instruments';
+import { scheduledGet } from '@/lib/requestScheduler';
+import {
+  AssetInfo,
+  CandleInterval,
+  CANDLE_INTERVALS,
+  CandleSeries,
+  DerivativesSource,
+  FundingRatePoint,
+  LongShortRatioPoint,
+  MarketDataProvider,
+  MarketsSource,
+  OpenInterestPoint,
+  OptionSummary,
+  SearchResult,
+} from './types';
+
+// CoinGecko API for crypto
+const COINGECKO_BASE = 'https://api.coingecko.com/api/v3';
+
+// Binance spot API for crypto klines (true intraday bars with volume)
+const BINANCE_BASE = 'https://api.binance.com/api/v3';
+const BINANCE_KLINE_LIMIT = 1000;
+
+// Binance public API (no auth needed) for perpetual futures data
+const BINANCE_FUTURES_BASE = 'https://fapi.binance.com';
+
+// Deribit public API for options
+const DERIBIT_BASE = 'https://www.deribit.com/api/v2/public';
+
+// Unlisted symbols fall back to CoinGecko's id convention
+function coinGeckoId(symbol: string, id?: string): string {
+  return id || getVendorId(symbol, 'coingecko') || symbol.toLowerCase();
+}
+
+function binancePair(symbol: string): string | null {
+  return getVendorId(symbol, 'binance') || null;
+}
+
+// Fetch klines from Binance, paging forward until the window is covered
+async function fetchBinanceKlines(
+  pair: string,
+  interval: CandleInterval,
+  from: number,
+  to: number
+): Promise<OHLCV[]> {
+  const endTime = to * 1000;
+  let startTime = from * 1000;
+  const candles: OHLCV[] = [];
+
+  while (startTime < endTime) {
+    const response = await axios.get(`${BINANCE_BASE}/klines`, {
+      params: {
+        symbol: pair,
+        interval,
+        startTime,
+        endTime,
+        limit: BINANCE_KLINE_LIMIT,
+      },
+    });
+
+    const rows = response.data as [number, string, string, string, string, string][];
+    if (rows.length === 0) break;
+
+    for (const [openTime, open, high, low, close, volume] of rows) {
+      candles.push({
+        time: Math.floor(openTime / 1000),
+        open: parseFloat(open),
+        high: parseFloat(high),
+        low: parseFloat(low),
+        close: parseFloat(close),
+        volume: parseFloat(volume),
+      });
+    }
+
+    if (rows.length < BINANCE_KLINE_LIMIT) break;
+    startTime = rows[rows.length - 1][0] + CANDLE_INTERVALS[interval].seconds * 1000;
+  }
+
+  return candles;
+}
+
+// CoinGecko /ohlc picks its own granularity from `days`, so bars are resampled
+// up to the requested interval. Finer intervals than CoinGecko offers are not possible.
+async function fetchCoinGeckoOHLC(symbol: string, interval: CandleInterval, days: number, vendorId?: string): Promise<OHLCV[]> {
+  const id = coinGeckoId(symbol, vendorId);
+
+  const response = await axios.get(`${COINGECKO_BASE}/coins/${id}/ohlc`, {
+    params: {
+      vs_currency: 'usd',
+      days: days,
+    },
+  });
+
+  const data = response.data as number[][];
+
+  const candles = data.map(([time, open, high, low, close]) => ({
+    time: Math.floor(time / 1000),
+    open,
+    high,
+    low,
+    close,
+  }));
+  if (candles.length === 0) return [];
+
+  // A bucket that starts before the first sample is missing the start of its bar
+  return resampleOHLCV(candles, CANDLE_INTERVALS[interval].seconds)
+    .filter(c => c.time >= candles[0].time);
+}
+
+// A search result whose CoinGecko id differs from the registry's is another coin with the same ticker
+export function isUnlistedCoin(symbol: string, vendorId?: string): boolean {
+  return !!vendorId && vendorId !== getVendorId(symbol, 'coingecko');
+}
+
+// Fetch bars in [from, to] (unix seconds) straight from the vendor. Used by the
+// /api/crypto route, which caches the result. `vendorId` (a CoinGecko id) covers coins found
+// through search that are not in the instrument registry.
+export async function fetchCryptoCandleRange(
+  symbol: string,
+  interval: CandleInterval,
+  from: number,
+  to: number,
+  vendorId?: string
+): Promise<OHLCV[]> {
+  const pair = isUnlistedCoin(symbol, vendorId) ? null : binancePair(symbol);
+  if (pair) {
+    return fetchBinanceKlines(pair, interval, from, to);
+  }
+  const days = Math.max(1, Math.ceil((to - from) / (24 * 60 * 60)));
+  const candles = await fetchCoinGeckoOHLC(symbol, interval, days, vendorId);
+  return candles.filter(c => c.time >= from - CANDLE_INTERVALS[interval].seconds);
+}
+
+// Candles go through our /api/crypto route (server-side candle store)
+async function getCandles(symbol: string, interval: CandleInterval, days: number): Promise<CandleSeries> {
+  const response = await axios.get(`/api/crypto/${symbol}`, {
+    params: { days, interval, id: getVendorId(symbol, 'coingecko') },
+  });
+
+  return {
+    candles: response.data.candles || [],
+    cache: response.data.cache,
+  };
+}
+
+async function getQuote(symbol: string, currency: string = 'USD'): Promise<AssetInfo | null> {
+  const id = coinGeckoId(symbol);
+
+  const data = await scheduledGet('coingecko', `${COINGECKO_BASE}/coins/${id}`, {
+    params: {
+      localization: false,
+      tickers: false,
+      community_data: false,
+      developer_data: false,
+    },
+  });
+  const market = data.market_data;
+
+  // CoinGecko quotes every coin in ~60 currencies (fiat, BTC, ETH); USD otherwise
+  const requested = currency.toLowerCase();
+  const vs = market.current_price[requested] !== undefined ? requested : 'usd';
+
+  return {
+    symbol: data.symbol.toUpperCase(),
+    name: data.name,
+    price: market.current_price[vs],
+    change24h: vs === 'usd'
+      ? market.price_change_percentage_24h
+      : market.price_change_percentage_24h_in_currency?.[vs] ?? market.price_change_percentage_24h,
+    volume24h: market.total_volume[vs],
+    marketCap: market.market_cap[vs],
+    high24h: market.high_24h[vs],
+    low24h: market.low_24h[vs],
+    currency: vs.toUpperCase(),
+  };
+}
+
+// CoinGecko publishes rates against BTC; dividing by the BTC/USD rate gives per-USD rates
+async function getUsdRates(): Promise<Record<string, number>> {
+  const response = await scheduledGet('coingecko', `${COINGECKO_BASE}/exchange_rates`, { ttlMs: 10 * 60 * 1000 });
+  const rates = response.rates as Record<string, { value: number }>;
+  const usd = rates.usd.value;
+
+  const perUsd: Record<string, number> = {};
+  for (const [code, rate] of Object.entries(rates)) perUsd[code] = rate.value / usd;
+  return perUsd;
+}
+
+async function search(query: string): Promise<SearchResult[]> {
+  const response = await scheduledGet('coingecko', `${COINGECKO_BASE}/search`, {
+    params: { query },
+    ttlMs: 5 * 60 * 1000,
+  });
+
+  return response.coins.slice(0, 10).map((coin: any): SearchResult => {
+    const symbol = coin.symbol.toUpperCase();
+    const listed = getInstrument(symbol);
+    return {
+      id: coin.id,
+      symbol,
+      name: coin.name,
+      assetClass: 'crypto',
+      exchange: listed && listed.vendorIds.coingecko === coin.id ? listed.exchange : 'CoinGecko',
+    };
+  });
+}
+
+// The market panels share these request shapes so the scheduler can coalesce and cache them
+const LISTED_COIN_IDS = listInstruments('crypto')
+  .map(i => i.vendorIds.coingecko)
+  .filter(Boolean)
+  .join(',');
+
+const coinGeckoMarkets: MarketsSource = {
+  getListedCoins: () =>
+    scheduledGet<any[]>('coingecko', `${COINGECKO_BASE}/coins/markets`, {
+      params: {
+        vs_currency: 'usd',
+        ids: LISTED_COIN_IDS,
+        order: 'market_cap_desc',
+        sparkline: true,
+        price_change_percentage: '1h,24h,7d,30d',
+      },
+      ttlMs: 60 * 1000,
+    }),
+
+  getTopCoins: (page) =>
+    scheduledGet<any[]>('coingecko', `${COINGECKO_BASE}/coins/markets`, {
+      params: {
+        vs_currency: 'usd',
+        order: 'market_cap_desc',
+        per_page: 100,
+        page,
+        sparkline: true,
+        price_change_percentage: '24h,7d',
+      },
+      ttlMs: 2 * 60 * 1000,
+    }),
+
+  async getGlobal() {
+    const response = await scheduledGet('coingecko', `${COINGECKO_BASE}/global`, { ttlMs: 5 * 60 * 1000 });
+    return response.data;
+  },
+};
+
+// Format: BTC-6FEB26-88000-P
+function parseInstrumentName(name: string): { expiry: string; strike: number; type: 'call' | 'put' } | null {
+  const parts = name.split('-');
+  if (parts.length < 4) return null;
+  const expiry = parts[1];
+  const strike = parseInt(parts[2]);
+  const type = parts[3] === 'C' ? 'call' : 'put';
+  if (isNaN(strike)) return null;
+  return { expiry, strike, type };
+}
+
+const binanceDeribitDerivatives: DerivativesSource = {
+  supportsFutures: (symbol) => binancePair(symbol) !== null,
+
+  supportsOptions: (symbol) => getVendorId(symbol, 'deribit') !== undefined,
+
+  async getFundingRate(symbol) {
+    const pair = binancePair(symbol);
+    if (!pair) return null;
+
+    try {
+      const [fundingRes, premiumRes] = await Promise.all([
+        fetch(`${BINANCE_FUTURES_BASE}/fapi/v1/fundingRate?symbol=${pair}&limit=1`),
+        fetch(`${BINANCE_FUTURES_BASE}/fapi/v1/premiumIndex?symbol=${pair}`),
+      ]);
+
+      if (!fundingRes.ok || !premiumRes.ok) return null;
+
+      const fundingData = await fundingRes.json();
+      const premiumData = await premiumRes.json();
+
+      if (!fundingData[0]) return null;
+
+      return {
+        symbol: symbol.toUpperCase(),
+        fundingRate: parseFloat(fundingData[0].fundingRate),
+        fundingTime: fundingData[0].fundingTime,
+        markPrice: parseFloat(premiumData.markPrice),
+        indexPrice: parseFloat(premiumData.indexPrice),
+      };
+    } catch (error) {
+      console.error('Funding rate fetch error:', error);
+      return null;
+    }
+  },
+
+  async getFundingHistory(symbol, limit = 24) {
+    const pair = binancePair(symbol);
+    if (!pair) return [];
+
+    try {
+      const res = await fetch(`${BINANCE_FUTURES_BASE}/fapi/v1/fundingRate?symbol=${pair}&limit=${limit}`);
+      if (!res.ok) return [];
+      const data = await res.json();
+      return data.map((d: { fundingRate: string; fundingTime: number }): FundingRatePoint => ({
+        rate: parseFloat(d.fundingRate),
+        time: d.fundingTime,
+      }));
+    } catch {
+      return [];
+    }
+  },
+
+  async getOpenInterest(symbol) {
+    const pair = binancePair(symbol);
+    if (!pair) return null;
+
+    try {
+      const res = await fetch(`${BINANCE_FUTURES_BASE}/fapi/v1/openInterest?symbol=${pair}`);
+      if (!res.ok) return null;
+      const data = await res.json();
+
+      return {
+        symbol: pair,
+        openInterest: parseFloat(data.openInterest),
+        timestamp: data.time,
+      };
+    } catch {
+      return null;
+    }
+  },
+
+  async getOpenInterestHistory(symbol) {
+    const pair = binancePair(symbol);
+    if (!pair) return [];
+
+    try {
+      const res = await fetch(`${BINANCE_FUTURES_BASE}/futures/data/openInterestHist?symbol=${pair}&period=1h&limit=48`);
+      if (!res.ok) return [];
+      const data = await res.json();
+      return data.map((d: { sumOpenInterest: string; timestamp: number }): OpenInterestPoint => ({
+        oi: parseFloat(d.sumOpenInterest),
+        time: d.timestamp,
+      }));
+    } catch {
+      return [];
+    }
+  },
+
+  async getLongShortRatio(symbol, limit = 30) {
+    const pair = binancePair(symbol);
+    if (!pair) return [];
+
+    try {
+      const res = await fetch(
+        `${BINANCE_FUTURES_BASE}/futures/data/globalLongShortAccountRatio?symbol=${pair}&period=1h&limit=${limit}`
+      );
+      if (!res.ok) return [];
+      const data = await res.json();
+      return data.map((d: { longShortRatio: string; longAccount: string; shortAccount: string; timestamp: number }): LongShortRatioPoint => ({
+        longShortRatio: parseFloat(d.longShortRatio),
+        longAccount: parseFloat(d.longAccount) * 100,
+        shortAccount: parseFloat(d.shortAccount) * 100,
+        timestamp: d.timestamp,
+      }));
+    } catch {
+      return [];
+    }
+  },
+
+  async getOptions(symbol) {
+    const currency = getVendorId(symbol, 'deribit');
+    if (!currency) return [];
+
+    try {
+      const res = await fetch(`${DERIBIT_BASE}/get_book_summary_by_currency?currency=${currency}&kind=option`);
+      if (!res.ok) return [];
+      const data = await res.json();
+
+      return (data.result || [])
+        .map((opt: any): OptionSummary | null => {
+          const parsed = parseInstrumentName(opt.instrument_name);
+          if (!parsed) return null;
+          return {
+            instrumentName: opt.instrument_name,
+            openInterest: opt.open_interest || 0,
+            volume: opt.volume || 0,
+            markIv: opt.mark_iv || 0,
+            underlyingPrice: opt.underlying_price || 0,
+            markPrice: opt.mark_price || 0,
+            strike: parsed.strike,
+            expiry: parsed.expiry,
+            type: parsed.type,
+          };
+        })
+        .filter(Boolean) as OptionSummary[];
+    } catch {
+      return [];
+    }
+  },
+};
+
+// Live crypto data: Binance klines (CoinGecko fallback) via /api/crypto, CoinGecko quotes/search,
+// Binance futures and Deribit options for derivatives
+export const cryptoProvider: MarketDataProvider = {
+  id: 'crypto-live',
+  name: 'CoinGecko + Binance + Deribit',
+  getCandles,
+  getQuote,
+  getUsdRates,
+  search,
+  derivatives: binanceDeribitDerivatives,
+  markets: coinGeckoMarkets,
+};
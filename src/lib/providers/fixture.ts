@@ -0,0 +1,204 @@
+import { OHLCV, resampleOHLCV } from '@/utils/indicators';
+import {
+  AssetClass,
+  AssetInfo,
+  CandleInterval,
+  CANDLE_INTERVALS,
+  CandleSeries,
+  DerivativesSource,
+  FundingRatePoint,
+  LongShortRatioPoint,
+  MarketDataProvider,
+  OpenInterestPoint,
+  OptionSummary,
+  SearchResult,
+} from './types';
+import fixtureIndex from './fixtures/index.json';
+
+// File-backed provider for offline development and tests.
+//
+// Each fixture under ./fixtures holds one symbol's candle history (plus derivatives
+// for crypto). Timestamps are shifted so the last bar lands on "now", so the
+// app's lookback windows behave the same as with live data.
+
+export interface FixtureIndexEntry {
+  symbol: string;
+  name: string;
+  assetClass: AssetClass;
+  futures: boolean;
+  options: boolean;
+}
+
+export interface MarketFixture {
+  symbol: string;
+  name: string;
+  assetClass: AssetClass;
+  marketCap?: number;
+  // Vendor-style compact rows: [time (s), open, high, low, close, volume]
+  candles: [number, number, number, number, number, number][];
+  derivatives?: {
+    markPrice: number;
+    indexPrice: number;
+    funding: FundingRatePoint[];
+    openInterest: OpenInterestPoint[];
+    longShortRatio: LongShortRatioPoint[];
+    options: OptionSummary[];
+  };
+}
+
+export type FixtureLoader = (symbol: string) => Promise<MarketFixture | null>;
+
+async function importFixture(symbol: string): Promise<MarketFixture | null> {
+  try {
+    const mod = await import(`./fixtures/${symbol}.json`);
+    return mod.default as MarketFixture;
+  } catch {
+    return null;
+  }
+}
+
+// Move every timestamp forward so the fixture ends at the current bar
+function anchorToNow(fixture: MarketFixture): MarketFixture {
+  const rows = fixture.candles;
+  if (rows.length < 2) return fixture;
+
+  const spacing = rows[1][0] - rows[0][0];
+  const nowBar = Math.floor(Date.now() / 1000 / spacing) * spacing;
+  const offset = nowBar - rows[rows.length - 1][0];
+  const offsetMs = offset * 1000;
+
+  return {
+    ...fixture,
+    candles: rows.map(([time, ...rest]) => [time + offset, ...rest] as MarketFixture['candles'][number]),
+    derivatives: fixture.derivatives && {
+      ...fixture.derivatives,
+      funding: fixture.derivatives.funding.map(f => ({ ...f, time: f.time + offsetMs })),
+      openInterest: fixture.derivatives.openInterest.map(o => ({ ...o, time: o.time + offsetMs })),
+      longShortRatio: fixture.derivatives.longShortRatio.map(l => ({ ...l, timestamp: l.timestamp + offsetMs })),
+    },
+  };
+}
+
+export function createFixtureProvider(
+  load: FixtureLoader = importFixture,
+  index: FixtureIndexEntry[] = fixtureIndex as FixtureIndexEntry[]
+): MarketDataProvider {
+  const cache = new Map<string, Promise<MarketFixture | null>>();
+
+  const entryFor = (symbol: string) => index.find(e => e.symbol === symbol.toUpperCase());
+
+  function loadFixture(symbol: string): Promise<MarketFixture | null> {
+    const upper = symbol.toUpperCase();
+    if (!entryFor(upper)) return Promise.resolve(null);
+
+    let pending = cache.get(upper);
+    if (!pending) {
+      pending = load(upper).then(f => (f ? anchorToNow(f) : null));
+      cache.set(upper, pending);
+    }
+    return pending;
+  }
+
+  async function getCandles(symbol: string, interval: CandleInterval, days: number): Promise<CandleSeries> {
+    const fixture = await loadFixture(symbol);
+    if (!fixture || fixture.candles.length === 0) return { candles: [] };
+
+    const lastTime = fixture.candles[fixture.candles.length - 1][0];
+    const since = lastTime - days * 24 * 60 * 60;
+    const candles: OHLCV[] = fixture.candles
+      .filter(([time]) => time >= since)
+      .map(([time, open, high, low, close, volume]) => ({ time, open, high, low, close, volume }));
+
+    // Fixtures can only be made coarser, never finer than their own bar size
+    return { candles: resampleOHLCV(candles, CANDLE_INTERVALS[interval].seconds) };
+  }
+
+  async function getQuote(symbol: string): Promise<AssetInfo | null> {
+    const fixture = await loadFixture(symbol);
+    if (!fixture || fixture.candles.length === 0) return null;
+
+    const rows = fixture.candles;
+    const last = rows[rows.length - 1];
+    const dayAgo = last[0] - 24 * 60 * 60;
+    const window = rows.filter(([time]) => time > dayAgo);
+    const prevClose = (rows.filter(([time]) => time <= dayAgo).pop() || rows[0])[4];
+
+    return {
+      symbol: fixture.symbol,
+      name: fixture.name,
+      price: last[4],
+      change24h: ((last[4] - prevClose) / prevClose) * 100,
+      volume24h: window.reduce((sum, r) => sum + r[5] * r[4], 0),
+      marketCap: fixture.marketCap || 0,
+      high24h: Math.max(...window.map(r => r[2])),
+      low24h: Math.min(...window.map(r => r[3])),
+    };
+  }
+
+  async function search(query: string): Promise<SearchResult[]> {
+    const q = query.toLowerCase();
+    return index
+      .filter(e => e.symbol.toLowerCase().includes(q) || e.name.toLowerCase().includes(q))
+      .map(e => ({
+        id: e.symbol.toLowerCase(),
+        symbol: e.symbol,
+        name: e.name,
+        assetClass: e.assetClass,
+        exchange: 'Fixture',
+      }));
+  }
+
+  const derivatives: DerivativesSource = {
+    supportsFutures: (symbol) => entryFor(symbol)?.futures ?? false,
+    supportsOptions: (symbol) => entryFor(symbol)?.options ?? false,
+
+    async getFundingRate(symbol) {
+      const d = (await loadFixture(symbol))?.derivatives;
+      const latest = d?.funding[d.funding.length - 1];
+      if (!d || !latest) return null;
+      return {
+        symbol: symbol.toUpperCase(),
+        fundingRate: latest.rate,
+        fundingTime: latest.time,
+        markPrice: d.markPrice,
+        indexPrice: d.indexPrice,
+      };
+    },
+
+    async getFundingHistory(symbol, limit = 24) {
+      const d = (await loadFixture(symbol))?.derivatives;
+      return d ? d.funding.slice(-limit) : [];
+    },
+
+    async getOpenInterest(symbol) {
+      const d = (await loadFixture(symbol))?.derivatives;
+      const latest = d?.openInterest[d.openInterest.length - 1];
+      if (!latest) return null;
+      return { symbol: `${symbol.toUpperCase()}USDT`, openInterest: latest.oi, timestamp: latest.time };
+    },
+
+    async getOpenInterestHistory(symbol) {
+      return (await loadFixture(symbol))?.derivatives?.openInterest || [];
+    },
+
+    async getLongShortRatio(symbol, limit = 30) {
+      const d = (await loadFixture(symbol))?.derivatives;
+      return d ? d.longShortRatio.slice(-limit) : [];
+    },
+
+    async getOptions(symbol) {
+      return (await loadFixture(symbol))?.derivatives?.options || [];
+    },
+  };
+
+  return {
+    id: 'fixture',
+    name: 'Local fixtures',
+    getCandles,
+    getQuote,
+    search,
+    derivatives,
+  };
+}
+
+export const fixtureProvider = createFixtureProvider();
@@ -0,0 +1,32 @@
+// Market data provider registry
+//
+// One provider per asset class. Set NEXT_PUBLIC_MARKET_DATA=fixtures to serve
+// market data from the local fixture files (no vendor requests, no live streams),
+// or swap providers at runtime with setProvider (e.g. in tests).
+
+import { AssetClass, MarketDataProvider } from './types';
+import { cryptoProvider } from './crypto';
+import { stockProvider } from './stock';
+import { fixtureProvider } from './fixture';
+
+export * from './types';
+export { createFixtureProvider } from './fixture';
+export type { FixtureLoader, FixtureIndexEntry, MarketFixture } from './fixture';
+
+const USE_FIXTURES = process.env.NEXT_PUBLIC_MARKET_DATA === 'fixtures';
+
+const providers: Record<AssetClass, MarketDataProvider> = USE_FIXTURES
+  ? { crypto: fixtureProvider, stock: fixtureProvider }
+  : { crypto: cryptoProvider, stock: stockProvider };
+
+export function usesFixtures(): boolean {
+  return USE_FIXTURES;
+}
+
+export function getProvider(assetClass: AssetClass): MarketDataProvider {
+  return providers[assetClass];
+}
+
+export function setProvider(assetClass: AssetClass, provider: MarketDataProvider): void {
+  providers[assetClass] = provider;
+}
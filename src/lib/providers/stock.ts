@@ -0,0 +1,131 @@
+import axios from 'axios';
+import { getVendorId, TradingHours } from '@/lib/instruments';
+import { AssetInfo, CandleInterval, CandleOptions, CandleSeries, MarketDataProvider, SearchResult } from './types';
+
+// Stocks go through our /api/stock proxy (Yahoo Finance, avoids CORS issues)
+
+// Discovered listings may be charted under a qualified key; Yahoo wants its own ticker
+function yahooSymbol(symbol: string): string {
+  return getVendorId(symbol, 'yahoo') || symbol;
+}
+
+async function getCandles(
+  symbol: string,
+  interval: CandleInterval,
+  days: number,
+  options: CandleOptions = {}
+): Promise<CandleSeries> {
+  const response = await axios.get(`/api/stock/${yahooSymbol(symbol)}`, {
+    params: {
+      days,
+      interval,
+      adjusted: options.adjusted ?? true,
+      extended: options.extendedHours ?? false,
+    },
+  });
+
+  return {
+    candles: response.data.candles || [],
+    cache: response.data.cache,
+    events: response.data.events || [],
+    currency: response.data.currency,
+  };
+}
+
+async function getQuote(symbol: string): Promise<AssetInfo | null> {
+  const response = await axios.get(`/api/stock/${yahooSymbol(symbol)}`, {
+    params: { days: 5 },
+  });
+
+  const data = response.data;
+  return {
+    symbol: data.symbol,
+    name: data.name,
+    price: data.price,
+    change24h: data.change24h,
+    volume24h: data.volume24h,
+    marketCap: data.marketCap,
+    high24h: data.high24h,
+    low24h: data.low24h,
+    currency: data.currency,
+  };
+}
+
+// Yahoo quote types we can chart
+const SEARCHABLE_TYPES = ['EQUITY', 'ETF'];
+
+// Regular session and currency of the exchanges Yahoo search returns (its exchange
+// codes). Lunch breaks are not modelled.
+const US_SESSION = { timezone: 'America/New_York', open: '09:30', close: '16:00', currency: 'USD' };
+const EUROPE_SESSION = { open: '09:00', close: '17:30', currency: 'EUR' };
+
+const YAHOO_EXCHANGES: Record<string, { timezone: string; open: string; close: string; currency: string }> = {
+  NMS: US_SESSION,
+  NGM: US_SESSION,
+  NCM: US_SESSION,
+  NYQ: US_SESSION,
+  ASE: US_SESSION,
+  PCX: US_SESSION,
+  BTS: US_SESSION,
+  TOR: { timezone: 'America/Toronto', open: '09:30', close: '16:00', currency: 'CAD' },
+  VAN: { timezone: 'America/Toronto', open: '09:30', close: '16:00', currency: 'CAD' },
+  SAO: { timezone: 'America/Sao_Paulo', open: '10:00', close: '17:00', currency: 'BRL' },
+  LSE: { timezone: 'Europe/London', open: '08:00', close: '16:30', currency: 'GBp' },
+  GER: { ...EUROPE_SESSION, timezone: 'Europe/Berlin' },
+  FRA: { timezone: 'Europe/Berlin', open: '08:00', close: '22:00', currency: 'EUR' },
+  PAR: { ...EUROPE_SESSION, timezone: 'Europe/Paris' },
+  AMS: { ...EUROPE_SESSION, timezone: 'Europe/Amsterdam' },
+  BRU: { ...EUROPE_SESSION, timezone: 'Europe/Brussels' },
+  MIL: { ...EUROPE_SESSION, timezone: 'Europe/Rome' },
+  MCE: { ...EUROPE_SESSION, timezone: 'Europe/Madrid' },
+  HEL: { timezone: 'Europe/Helsinki', open: '10:00', close: '18:30', currency: 'EUR' },
+  EBS: { ...EUROPE_SESSION, timezone: 'Europe/Zurich', currency: 'CHF' },
+  STO: { ...EUROPE_SESSION, timezone: 'Europe/Stockholm', currency: 'SEK' },
+  CPH: { timezone: 'Europe/Copenhagen', open: '09:00', close: '17:00', currency: 'DKK' },
+  OSL: { timezone: 'Europe/Oslo', open: '09:00', close: '16:20', currency: 'NOK' },
+  TYO: { timezone: 'Asia/Tokyo', open: '09:00', close: '15:30', currency: 'JPY' },
+  HKG: { timezone: 'Asia/Hong_Kong', open: '09:30', close: '16:00', currency: 'HKD' },
+  SHH: { timezone: 'Asia/Shanghai', open: '09:30', close: '15:00', currency: 'CNY' },
+  SHZ: { timezone: 'Asia/Shanghai', open: '09:30', close: '15:00', currency: 'CNY' },
+  KSC: { timezone: 'Asia/Seoul', open: '09:00', close: '15:30', currency: 'KRW' },
+  NSI: { timezone: 'Asia/Kolkata', open: '09:15', close: '15:30', currency: 'INR' },
+  BSE: { timezone: 'Asia/Kolkata', open: '09:15', close: '15:30', currency: 'INR' },
+  ASX: { timezone: 'Australia/Sydney', open: '10:00', close: '16:00', currency: 'AUD' },
+};
+
+function exchangeListing(code: string): Pick<SearchResult, 'currency' | 'tradingHours'> {
+  const exchange = YAHOO_EXCHANGES[code];
+  if (!exchange) return {};
+  const { timezone, open, close, currency } = exchange;
+  const tradingHours: TradingHours = { type: 'session', timezone, open, close, days: [1, 2, 3, 4, 5] };
+  return { currency, tradingHours };
+}
+
+// Yahoo search blocks browser requests, so this only runs from the /api/search route
+async function search(query: string): Promise<SearchResult[]> {
+  const response = await axios.get('https://query1.finance.yahoo.com/v1/finance/search', {
+    params: { q: query, quotesCount: 10, newsCount: 0 },
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+    },
+  });
+
+  return (response.data.quotes || [])
+    .filter((q: any) => SEARCHABLE_TYPES.includes(q.quoteType))
+    .map((q: any): SearchResult => ({
+      id: q.symbol,
+      symbol: q.symbol.toUpperCase(),
+      name: q.shortname || q.longname || q.symbol,
+      assetClass: 'stock',
+      exchange: q.exchDisp || q.exchange || '',
+      ...exchangeListing(q.exchange),
+    }));
+}
+
+export const stockProvider: MarketDataProvider = {
+  id: 'stock-live',
+  name: 'Yahoo Finance',
+  getCandles,
+  getQuote,
+  search,
+};
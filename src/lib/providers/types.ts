@@ -0,0 +1,166 @@
+// Market data provider contracts
+//
+// Every vendor (CoinGecko, Binance, Yahoo, Deribit, local fixtures) is wrapped in a
+// MarketDataProvider so components never talk to a vendor directly.
+
+import { OHLCV } from '@/utils/indicators';
+import type { TradingHours } from '@/lib/instruments';
+
+export type AssetClass = 'crypto' | 'stock';
+
+// Bar size of a single candle. The lookback window (days) is chosen separately.
+export type CandleInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+
+// maxDays caps the lookback per bar size so a request stays within a few pages
+// of vendor data (and within Yahoo's intraday history limits).
+export const CANDLE_INTERVALS: Record<CandleInterval, { label: string; seconds: number; maxDays: number }> = {
+  '1m': { label: '1m', seconds: 60, maxDays: 1 },
+  '5m': { label: '5m', seconds: 5 * 60, maxDays: 7 },
+  '15m': { label: '15m', seconds: 15 * 60, maxDays: 30 },
+  '1h': { label: '1H', seconds: 60 * 60, maxDays: 90 },
+  '4h': { label: '4H', seconds: 4 * 60 * 60, maxDays: 365 },
+  '1d': { label: '1D', seconds: 24 * 60 * 60, maxDays: 3650 },
+};
+
+export function isCandleInterval(value: string): value is CandleInterval {
+  return Object.prototype.hasOwnProperty.call(CANDLE_INTERVALS, value);
+}
+
+// Clamp a lookback window to what the interval supports
+export function clampLookbackDays(interval: CandleInterval, days: number): number {
+  return Math.max(1, Math.min(days, CANDLE_INTERVALS[interval].maxDays));
+}
+
+// How a candle request was served by the server-side candle store.
+// hit: straight from cache, partial: cache plus a freshly fetched tail,
+// miss: full fetch, stale: vendor failed so older cached bars were served.
+export type CandleCacheStatus = 'hit' | 'partial' | 'miss' | 'stale';
+
+export interface CandleCacheInfo {
+  status: CandleCacheStatus;
+  fetchedAt: number;   // ms, last successful vendor fetch for this series
+  fetchedBars: number; // bars pulled from the vendor for this request
+}
+
+// Stock splits and cash dividends, stamped at the ex-date (unix seconds)
+export interface CorporateAction {
+  type: 'split' | 'dividend';
+  time: number;
+  numerator?: number;   // split: new shares per `denominator` old shares
+  denominator?: number;
+  amount?: number;      // dividend: cash per share
+}
+
+export interface CandleOptions {
+  adjusted?: boolean;      // back-adjust stock history for splits and dividends (default true)
+  extendedHours?: boolean; // include pre-market and after-hours bars (intraday stocks)
+}
+
+export interface CandleSeries {
+  candles: OHLCV[];
+  cache?: CandleCacheInfo; // absent when the provider does not cache (e.g. fixtures)
+  events?: CorporateAction[];
+  currency?: string;       // quote currency of the prices, USD when absent
+}
+
+export interface AssetInfo {
+  symbol: string;
+  name: string;
+  price: number;
+  change24h: number;
+  volume24h: number;
+  marketCap: number;
+  high24h: number;
+  low24h: number;
+  currency?: string; // USD when absent
+}
+
+export interface SearchResult {
+  id: string; // vendor ID (CoinGecko id for crypto, ticker for stocks)
+  symbol: string;
+  name: string;
+  assetClass: AssetClass;
+  exchange: string;
+  currency?: string;           // listing currency, when the vendor says (stocks)
+  tradingHours?: TradingHours; // the exchange's session, when known (stocks)
+}
+
+// Derivatives (perpetual futures + options)
+
+export interface FundingRateSnapshot {
+  symbol: string;
+  fundingRate: number;
+  fundingTime: number;
+  markPrice: number;
+  indexPrice: number;
+}
+
+export interface FundingRatePoint {
+  rate: number;
+  time: number;
+}
+
+export interface OpenInterestSnapshot {
+  symbol: string;
+  openInterest: number;
+  timestamp: number;
+}
+
+export interface OpenInterestPoint {
+  oi: number;
+  time: number;
+}
+
+export interface LongShortRatioPoint {
+  longShortRatio: number;
+  longAccount: number;  // % of accounts net long
+  shortAccount: number; // % of accounts net short
+  timestamp: number;
+}
+
+export interface OptionSummary {
+  instrumentName: string;
+  openInterest: number;
+  volume: number;
+  markIv: number;
+  underlyingPrice: number;
+  markPrice: number;
+  strike: number;
+  expiry: string;
+  type: 'call' | 'put';
+}
+
+export interface DerivativesSource {
+  supportsFutures: (symbol: string) => boolean;
+  supportsOptions: (symbol: string) => boolean;
+  getFundingRate: (symbol: string) => Promise<FundingRateSnapshot | null>;
+  getFundingHistory: (symbol: string, limit?: number) => Promise<FundingRatePoint[]>;
+  getOpenInterest: (symbol: string) => Promise<OpenInterestSnapshot | null>;
+  getOpenInterestHistory: (symbol: string) => Promise<OpenInterestPoint[]>;
+  getLongShortRatio: (symbol: string, limit?: number) => Promise<LongShortRatioPoint[]>;
+  getOptions: (symbol: string) => Promise<OptionSummary[]>;
+}
+
+// Market-wide crypto data for the overview panels, as CoinGecko rows
+// (/coins/markets and /global)
+export interface MarketsSource {
+  getListedCoins: () => Promise<any[]>;            // every listed coin, 1h/24h/7d/30d changes
+  getTopCoins: (page: number) => Promise<any[]>;   // 100 per page by market cap
+  getGlobal: () => Promise<any | null>;            // totals and dominance
+}
+
+// Candle, quote and search calls may throw on transport errors (the lib/api facade
+// turns those into empty results). Derivatives calls resolve to null/[] instead.
+export interface MarketDataProvider {
+  id: string;
+  name: string;
+  getCandles: (symbol: string, interval: CandleInterval, days: number, options?: CandleOptions) => Promise<CandleSeries>;
+  // `currency` is a request: providers quote in it when the vendor has the pair
+  // and otherwise fall back to USD (AssetInfo.currency says which)
+  getQuote: (symbol: string, currency?: string) => Promise<AssetInfo | null>;
+  search: (query: string) => Promise<SearchResult[]>;
+  // Units of each currency per 1 USD, keyed by lowercase code (fiat and crypto)
+  getUsdRates?: () => Promise<Record<string, number>>;
+  derivatives?: DerivativesSource;
+  markets?: MarketsSource;
+}
@@ -0,0 +1,192 @@
+import axios, { AxiosError } from 'axios';
+import type { Vendor } from '@/lib/instruments';
+
+// Request scheduler
+//
+// Every vendor GET from the browser goes through scheduledGet(). Identical requests
+// share one in-flight call, responses are cached stale-while-revalidate, each vendor
+// has a request budget, and 429s are retried with backoff. Vendor health is tracked
+// here so the UI can show which data sources are struggling.
+
+export type VendorHealthStatus = 'ok' | 'degraded' | 'down';
+
+export interface VendorHealth {
+  status: VendorHealthStatus;
+  lastError?: string;
+  rateLimitedUntil?: number; // ms, while backing off after a 429
+  updatedAt: number;
+}
+
+// Token bucket per vendor: `burst` requests at once, refilled to `perMinute`.
+// CoinGecko's public tier is by far the tightest.
+const BUDGETS: Record<Vendor, { perMinute: number; burst: number }> = {
+  coingecko: { perMinute: 10, burst: 5 },
+  coincap: { perMinute: 120, burst: 10 },
+  binance: { perMinute: 600, burst: 20 },
+  deribit: { perMinute: 300, burst: 20 },
+  yahoo: { perMinute: 60, burst: 10 },
+};
+
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_CACHE_ENTRIES = 200;
+
+export interface ScheduleOptions {
+  params?: Record<string, string | number | boolean | undefined>;
+  ttlMs?: number;   // served from cache without a request (default 30s)
+  staleMs?: number; // after ttl, served from cache while refreshing in the background (default 5 min)
+}
+
+interface CacheEntry {
+  data: unknown;
+  fetchedAt: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  waiting: (() => void)[];
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const cache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+const buckets = new Map<Vendor, Bucket>();
+const health = new Map<Vendor, VendorHealth>();
+const listeners = new Set<() => void>();
+
+function requestKey(url: string, params: ScheduleOptions['params'] = {}): string {
+  const query = Object.keys(params)
+    .filter(k => params[k] !== undefined)
+    .sort()
+    .map(k => `${k}=${params[k]}`)
+    .join('&');
+  return `${url}?${query}`;
+}
+
+function refill(vendor: Vendor, bucket: Bucket): void {
+  const { perMinute, burst } = BUDGETS[vendor];
+  const now = Date.now();
+  bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 60000) * perMinute);
+  bucket.updatedAt = now;
+}
+
+// Hand out tokens to waiting requests in FIFO order, sleeping until the next refill
+function drain(vendor: Vendor, bucket: Bucket): void {
+  refill(vendor, bucket);
+  while (bucket.waiting.length > 0 && bucket.tokens >= 1) {
+    bucket.tokens -= 1;
+    bucket.waiting.shift()!();
+  }
+  if (bucket.waiting.length > 0 && !bucket.timer) {
+    const waitMs = ((1 - bucket.tokens) / BUDGETS[vendor].perMinute) * 60000;
+    bucket.timer = setTimeout(() => {
+      bucket.timer = null;
+      drain(vendor, bucket);
+    }, Math.ceil(waitMs));
+  }
+}
+
+function acquire(vendor: Vendor): Promise<void> {
+  let bucket = buckets.get(vendor);
+  if (!bucket) {
+    bucket = { tokens: BUDGETS[vendor].burst, updatedAt: Date.now(), waiting: [], timer: null };
+    buckets.set(vendor, bucket);
+  }
+  const b = bucket;
+  return new Promise(resolve => {
+    b.waiting.push(resolve);
+    drain(vendor, b);
+  });
+}
+
+function setHealth(vendor: Vendor, next: Omit<VendorHealth, 'updatedAt'>): void {
+  const current = health.get(vendor);
+  if (current && current.status === next.status && current.lastError === next.lastError && !next.rateLimitedUntil) return;
+  health.set(vendor, { ...next, updatedAt: Date.now() });
+  listeners.forEach(listener => listener());
+}
+
+// Retry-After is in seconds; otherwise exponential backoff with a little jitter
+function backoffMs(error: AxiosError, attempt: number): number {
+  const retryAfter = Number(error.response?.headers?.['retry-after']);
+  if (retryAfter > 0) return retryAfter * 1000;
+  return BASE_BACKOFF_MS * 2 ** attempt + Math.random() * 250;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function request<T>(vendor: Vendor, url: string, params: ScheduleOptions['params']): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    await acquire(vendor);
+    try {
+      const response = await axios.get<T>(url, { params });
+      setHealth(vendor, { status: 'ok' });
+      return response.data;
+    } catch (error) {
+      const axiosError = error as AxiosError;
+      if (axiosError.response?.status === 429 && attempt < MAX_RETRIES) {
+        const delay = backoffMs(axiosError, attempt);
+        setHealth(vendor, { status: 'degraded', lastError: 'Rate limited', rateLimitedUntil: Date.now() + delay });
+        await sleep(delay);
+        continue;
+      }
+      setHealth(vendor, {
+        status: axiosError.response?.status === 429 ? 'degraded' : 'down',
+        lastError: axiosError.response ? `HTTP ${axiosError.response.status}` : axiosError.message,
+      });
+      throw error;
+    }
+  }
+}
+
+function fetchAndStore<T>(vendor: Vendor, url: string, key: string, params: ScheduleOptions['params']): Promise<T> {
+  let pending = inFlight.get(key) as Promise<T> | undefined;
+  if (!pending) {
+    pending = request<T>(vendor, url, params)
+      .then(data => {
+        cache.delete(key);
+        cache.set(key, { data, fetchedAt: Date.now() });
+        if (cache.size > MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value as string);
+        return data;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+  return pending;
+}
+
+/**
+ * GET a vendor URL through the shared scheduler. Resolves with the response body;
+ * rejects once retries are exhausted (callers keep their own fallbacks).
+ */
+export async function scheduledGet<T = any>(vendor: Vendor, url: string, options: ScheduleOptions = {}): Promise<T> {
+  const { params, ttlMs = 30 * 1000, staleMs = 5 * 60 * 1000 } = options;
+  const key = requestKey(url, params);
+  const cached = cache.get(key);
+
+  if (cached) {
+    const age = Date.now() - cached.fetchedAt;
+    if (age < ttlMs) return cached.data as T;
+    if (age < ttlMs + staleMs) {
+      fetchAndStore<T>(vendor, url, key, params).catch(() => {
+        // Health already records the failure; the stale copy has been served
+      });
+      return cached.data as T;
+    }
+  }
+
+  return fetchAndStore<T>(vendor, url, key, params);
+}
+
+// Vendors that have been called at least once (the rest are implicitly ok)
+export function getVendorHealth(): Partial<Record<Vendor, VendorHealth>> {
+  return Object.fromEntries(health);
+}
+
+export function subscribeVendorHealth(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
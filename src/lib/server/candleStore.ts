@@ -0,0 +1,174 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { OHLCV } from '@/utils/indicators';
+import { AssetClass, CandleCacheInfo, CandleInterval, CANDLE_INTERVALS, CorporateAction } from '@/lib/providers/types';
+
+// Server-side candle store
+//
+// Keeps one series per asset class / symbol / interval in memory and on disk
+// (JSON files under .cache/candles, override with CANDLE_CACHE_DIR). A request
+// that is already covered only fetches the tail from the last stored bar, so
+// several panels loading the same symbol cost one vendor call instead of many.
+
+const CACHE_DIR = process.env.CANDLE_CACHE_DIR || path.join(process.cwd(), '.cache', 'candles');
+
+// Cached bars are served without any vendor call for up to one bar (max 5 minutes)
+const MAX_FRESH_MS = 5 * 60 * 1000;
+
+export interface CandleFetchResult {
+  candles: OHLCV[];
+  events?: CorporateAction[];
+  meta?: Record<string, any>; // vendor quote data that should be served with the candles
+}
+
+// Fetch bars with time in [from, to] (unix seconds)
+export type CandleRangeFetcher = (from: number, to: number) => Promise<CandleFetchResult>;
+
+interface StoredSeries {
+  candles: OHLCV[];
+  events?: CorporateAction[];
+  coveredFrom: number; // earliest time the series is known to be complete from
+  fetchedAt: number;   // ms
+  meta?: Record<string, any>;
+}
+
+export interface CachedCandles {
+  candles: OHLCV[];
+  events: CorporateAction[];
+  meta?: Record<string, any>;
+  cache: CandleCacheInfo;
+}
+
+interface CandleRequest {
+  assetClass: AssetClass;
+  symbol: string;
+  interval: CandleInterval;
+  days: number;
+  variant?: string; // separates series of the same symbol/interval, e.g. extended-hours bars
+  fetchRange: CandleRangeFetcher;
+}
+
+const memory = new Map<string, StoredSeries>();
+const inFlight = new Map<string, Promise<CachedCandles>>(); // by series and lookback
+const seriesQueue = new Map<string, Promise<void>>();       // settles when a series' last load does
+
+function seriesKey({ assetClass, symbol, interval, variant }: CandleRequest): string {
+  const key = `${assetClass}-${symbol.toUpperCase()}-${interval}`;
+  return variant ? `${key}-${variant}` : key;
+}
+
+function seriesFile(key: string): string {
+  return path.join(CACHE_DIR, `${key.replace(/[^A-Za-z0-9_.-]/g, '_')}.json`);
+}
+
+async function readSeries(key: string): Promise<StoredSeries | null> {
+  const cached = memory.get(key);
+  if (cached) return cached;
+
+  try {
+    const stored = JSON.parse(await fs.readFile(seriesFile(key), 'utf8')) as StoredSeries;
+    memory.set(key, stored);
+    return stored;
+  } catch {
+    return null;
+  }
+}
+
+async function writeSeries(key: string, series: StoredSeries): Promise<void> {
+  memory.set(key, series);
+  try {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    await fs.writeFile(seriesFile(key), JSON.stringify(series));
+  } catch (error) {
+    // Disk is best effort (read-only deploys still get the in-memory cache)
+    console.error('Candle cache write error:', error);
+  }
+}
+
+// Newer bars replace stored ones with the same time (the last bar is usually still forming)
+function mergeCandles(existing: OHLCV[], incoming: OHLCV[]): OHLCV[] {
+  const byTime = new Map<number, OHLCV>();
+  for (const c of existing) byTime.set(c.time, c);
+  for (const c of incoming) byTime.set(c.time, c);
+  return Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+}
+
+function mergeEvents(existing: CorporateAction[], incoming: CorporateAction[]): CorporateAction[] {
+  const byKey = new Map<string, CorporateAction>();
+  for (const e of [...existing, ...incoming]) byKey.set(`${e.type}:${e.time}`, e);
+  return Array.from(byKey.values()).sort((a, b) => a.time - b.time);
+}
+
+async function load(request: CandleRequest): Promise<CachedCandles> {
+  const { interval, days, fetchRange } = request;
+  const key = seriesKey(request);
+  const now = Math.floor(Date.now() / 1000);
+  const from = now - days * 24 * 60 * 60;
+  const freshMs = Math.min(CANDLE_INTERVALS[interval].seconds * 1000, MAX_FRESH_MS);
+
+  const stored = await readSeries(key);
+  const covered = stored !== null && stored.coveredFrom <= from && stored.candles.length > 0;
+
+  const serve = (series: StoredSeries, cache: CandleCacheInfo): CachedCandles => ({
+    candles: series.candles.filter(c => c.time >= from),
+    events: (series.events || []).filter(e => e.time >= from),
+    meta: series.meta,
+    cache,
+  });
+
+  if (covered && Date.now() - stored.fetchedAt < freshMs) {
+    return serve(stored, { status: 'hit', fetchedAt: stored.fetchedAt, fetchedBars: 0 });
+  }
+
+  // Covered: refetch from the last stored bar. Otherwise the whole window is fetched.
+  const fetchFrom = covered ? stored.candles[stored.candles.length - 1].time : from;
+
+  try {
+    const result = await fetchRange(fetchFrom, now);
+    const keepFrom = now - CANDLE_INTERVALS[interval].maxDays * 24 * 60 * 60;
+    const merged = mergeCandles(stored?.candles || [], result.candles).filter(c => c.time >= keepFrom);
+    const events = mergeEvents(stored?.events || [], result.events || []).filter(e => e.time >= keepFrom);
+
+    const next: StoredSeries = {
+      candles: merged,
+      events,
+      coveredFrom: covered ? stored.coveredFrom : from,
+      fetchedAt: Date.now(),
+      meta: result.meta || stored?.meta,
+    };
+    await writeSeries(key, next);
+
+    return serve(next, {
+      status: covered ? 'partial' : 'miss',
+      fetchedAt: next.fetchedAt,
+      fetchedBars: result.candles.length,
+    });
+  } catch (error) {
+    if (!stored || stored.candles.length === 0) throw error;
+    console.error(`Candle refresh failed for ${key}, serving cached bars:`, error);
+    return serve(stored, { status: 'stale', fetchedAt: stored.fetchedAt, fetchedBars: 0 });
+  }
+}
+
+// Get candles for the last `days`, fetching only what the store is missing.
+// Concurrent requests for the same lookback share one refresh. Loads of one series
+// with different lookbacks run one after another, so each merges onto what the
+// previous one stored instead of overwriting it.
+export function getCachedCandles(request: CandleRequest): Promise<CachedCandles> {
+  const series = seriesKey(request);
+  const key = `${series}:${request.days}`;
+
+  let pending = inFlight.get(key);
+  if (!pending) {
+    const previous = seriesQueue.get(series) ?? Promise.resolve();
+    pending = previous.then(() => load(request)).finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+
+    const settled = pending.then(() => {}, () => {});
+    seriesQueue.set(series, settled);
+    settled.then(() => {
+      if (seriesQueue.get(series) === settled) seriesQueue.delete(series);
+    });
+  }
+  return pending;
+}
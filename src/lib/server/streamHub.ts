@@ -0,0 +1,21 @@
+import WebSocket from 'ws';
+import { StreamManager, StreamTopic } from '@/lib/streams';
+
+// Server-side stream hub
+//
+// /api/stream clients share upstream Binance connections: one per symbol, reused by
+// every open SSE response that wants any of that symbol's topics. Each connection is
+// a StreamManager, so reference counting, reconnects and idle close match the browser.
+// Sockets come from the `ws` package, since Node only has a global WebSocket from 22.
+
+const managers = new Map<string, StreamManager>();
+
+export function subscribeTopic(topic: StreamTopic, listener: (event: unknown) => void): () => void {
+  const symbol = topic.symbol.toUpperCase();
+  let manager = managers.get(symbol);
+  if (!manager) {
+    manager = new StreamManager(url => new WebSocket(url) as unknown as globalThis.WebSocket);
+    managers.set(symbol, manager);
+  }
+  return manager.subscribe(topic, listener);
+}
@@ -0,0 +1,299 @@
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { streamManager } from '@/lib/streams';
+
+// Session recorder
+//
+// Records what the app received during a session: every normalized stream event,
+// every axios response and every fetch() response for data (vendor calls and our own
+// /api routes). A recorded session can be replayed later at 1x, 10x or as fast as
+// possible: stream events go back through the stream manager to the same hooks, and
+// requests are answered from the recording, so panels behave as they did without any
+// network. A request that isn't in the recording fails instead of going out.
+
+export type ReplaySpeed = 1 | 10 | 'max';
+
+export const REPLAY_SPEEDS: ReplaySpeed[] = [1, 10, 'max'];
+
+export type RecordedEntry =
+  | { at: number; kind: 'stream'; stream: string; data: unknown }
+  | { at: number; kind: 'rest'; key: string; data: unknown }
+  | { at: number; kind: 'fetch'; key: string; status: number; body: string };
+
+type RecordedFetch = { status: number; body: string };
+
+export interface RecordedSession {
+  version: 1;
+  startedAt: number; // ms epoch
+  duration: number;  // ms
+  entries: RecordedEntry[]; // sorted by `at` (ms since start)
+}
+
+export interface SessionState {
+  mode: 'idle' | 'recording' | 'replaying';
+  entries: number;  // recorded so far, or total in the replayed session
+  progress: number; // 0..1 while replaying
+  speed: ReplaySpeed;
+  finished: boolean;
+}
+
+const MAX_ENTRIES = 100000;
+const MAX_BATCH = 500;     // events per tick at max speed, so the UI keeps painting
+const MAX_SLEEP_MS = 1000; // re-check at least this often while replaying
+
+let state: SessionState = { mode: 'idle', entries: 0, progress: 0, speed: 1, finished: false };
+const listeners = new Set<() => void>();
+
+function setState(next: Partial<SessionState>): void {
+  state = { ...state, ...next };
+  listeners.forEach(listener => listener());
+}
+
+export function getSessionState(): SessionState {
+  return state;
+}
+
+export function subscribeSession(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Same key for recording and replay: URL plus sorted query params
+function restKey(config: InternalAxiosRequestConfig): string {
+  const params: Record<string, unknown> = config.params || {};
+  const query = Object.keys(params)
+    .filter(k => params[k] !== undefined)
+    .sort()
+    .map(k => `${k}=${params[k]}`)
+    .join('&');
+  return `${config.url}?${query}`;
+}
+
+// fetch() calls for data: our /api routes and other origins. Next's own requests
+// (page and RSC payloads) are left alone.
+function fetchKey(input: RequestInfo | URL, init?: RequestInit): string | null {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  const resolved = new URL(url, window.location.origin);
+  if (resolved.origin === window.location.origin && !resolved.pathname.startsWith('/api/')) return null;
+  const method = init?.method ?? (input instanceof Request ? input.method : 'GET');
+  return `${method.toUpperCase()} ${url}`;
+}
+
+function notRecorded(key: string): Error {
+  return new Error(`Not in recording: ${key}`);
+}
+
+// Swaps window.fetch until the returned function is called
+function patchFetch(replacement: (original: typeof fetch) => typeof fetch): () => void {
+  const original = window.fetch;
+  window.fetch = replacement(original);
+  return () => {
+    window.fetch = original;
+  };
+}
+
+// Recording
+
+let recording: { startedAt: number; entries: RecordedEntry[]; release: () => void } | null = null;
+
+function record(entry: RecordedEntry): void {
+  if (!recording || recording.entries.length >= MAX_ENTRIES) return;
+  recording.entries.push(entry);
+  // Stream events arrive many times a second; don't re-render on each one
+  if (recording.entries.length % 50 === 1) setState({ entries: recording.entries.length });
+}
+
+export function startRecording(): void {
+  if (state.mode !== 'idle') return;
+  const startedAt = Date.now();
+
+  const untap = streamManager.tap((stream, data) => {
+    record({ at: Date.now() - startedAt, kind: 'stream', stream, data });
+  });
+  const interceptor = axios.interceptors.response.use((response: AxiosResponse) => {
+    record({ at: Date.now() - startedAt, kind: 'rest', key: restKey(response.config), data: response.data });
+    return response;
+  });
+  const unpatch = patchFetch(original => async (input, init) => {
+    const response = await original(input, init);
+    const key = fetchKey(input, init);
+    if (key) {
+      const at = Date.now() - startedAt;
+      response.clone().text().then(
+        body => record({ at, kind: 'fetch', key, status: response.status, body }),
+        () => {} // body never arrived; the caller sees the same failure
+      );
+    }
+    return response;
+  });
+
+  recording = {
+    startedAt,
+    entries: [],
+    release: () => {
+      untap();
+      axios.interceptors.response.eject(interceptor);
+      unpatch();
+    },
+  };
+  setState({ mode: 'recording', entries: 0, progress: 0, finished: false });
+}
+
+export function stopRecording(): RecordedSession | null {
+  if (!recording) return null;
+  const { startedAt, entries, release } = recording;
+  release();
+  recording = null;
+  setState({ mode: 'idle', entries: entries.length });
+  return { version: 1, startedAt, duration: Date.now() - startedAt, entries };
+}
+
+export function downloadSession(session: RecordedSession): void {
+  const blob = new Blob([JSON.stringify(session)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `chartwise_session_${new Date(session.startedAt).toISOString().replace(/[:.]/g, '-')}.json`;
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+export function parseSession(text: string): RecordedSession | null {
+  try {
+    const session = JSON.parse(text);
+    if (session?.version !== 1 || !Array.isArray(session.entries)) return null;
+    session.entries.sort((a: RecordedEntry, b: RecordedEntry) => a.at - b.at);
+    return session as RecordedSession;
+  } catch {
+    return null;
+  }
+}
+
+// Replay
+//
+// The replay clock maps wall time to session time: sessionTime = base + elapsed * speed.
+// Changing speed rebases the clock so playback continues from the same point.
+
+let replay: {
+  session: RecordedSession;
+  index: number;
+  base: number;       // session time at wallStart
+  wallStart: number;
+  responses: Map<string, unknown>; // latest recorded response per request, as of the cursor
+  fetches: Map<string, RecordedFetch>; // the same for fetch() calls
+  timer: ReturnType<typeof setTimeout> | null;
+  release: () => void;
+} | null = null;
+
+function sessionTime(): number {
+  if (!replay) return 0;
+  if (state.speed === 'max') return Infinity;
+  return replay.base + (Date.now() - replay.wallStart) * state.speed;
+}
+
+function step(): void {
+  if (!replay) return;
+  replay.timer = null;
+  const { session, responses, fetches } = replay;
+  const now = sessionTime();
+  let dispatched = 0;
+
+  while (replay.index < session.entries.length && session.entries[replay.index].at <= now && dispatched < MAX_BATCH) {
+    const entry = session.entries[replay.index++];
+    if (entry.kind === 'stream') {
+      streamManager.injectEvent(entry.stream, entry.data);
+      dispatched++;
+    } else if (entry.kind === 'rest') {
+      responses.set(entry.key, entry.data);
+    } else {
+      fetches.set(entry.key, { status: entry.status, body: entry.body });
+    }
+  }
+
+  const done = replay.index >= session.entries.length;
+  setState({ progress: session.entries.length > 0 ? replay.index / session.entries.length : 1, finished: done });
+  if (done) return;
+
+  const wait = state.speed === 'max' ? 0 : (session.entries[replay.index].at - now) / state.speed;
+  replay.timer = setTimeout(step, Math.max(0, Math.min(wait, MAX_SLEEP_MS)));
+}
+
+export function startReplay(session: RecordedSession, speed: ReplaySpeed = 1): void {
+  if (state.mode === 'recording') stopRecording();
+  stopReplay();
+
+  // Requests made before their first recorded response still get that response
+  const responses = new Map<string, unknown>();
+  const fetches = new Map<string, RecordedFetch>();
+  for (const entry of session.entries) {
+    if (entry.kind === 'rest' && !responses.has(entry.key)) responses.set(entry.key, entry.data);
+    if (entry.kind === 'fetch' && !fetches.has(entry.key)) fetches.set(entry.key, { status: entry.status, body: entry.body });
+  }
+
+  const interceptor = axios.interceptors.request.use((config: InternalAxiosRequestConfig) => {
+    const key = restKey(config);
+    if (replay?.responses.has(key)) {
+      const data = replay.responses.get(key);
+      config.adapter = async () => ({ data, status: 200, statusText: 'OK', headers: {}, config });
+    } else {
+      config.adapter = async () => {
+        throw notRecorded(key);
+      };
+    }
+    return config;
+  });
+  const unpatch = patchFetch(original => async (input, init) => {
+    const key = fetchKey(input, init);
+    if (!key) return original(input, init);
+    const recorded = replay?.fetches.get(key);
+    if (!recorded) throw notRecorded(key);
+    // 204 and 304 responses can't be given a body, even an empty one
+    const body = recorded.status === 204 || recorded.status === 304 ? null : recorded.body;
+    return new Response(body, { status: recorded.status });
+  });
+
+  streamManager.beginReplay();
+  replay = {
+    session,
+    index: 0,
+    base: 0,
+    wallStart: Date.now(),
+    responses,
+    fetches,
+    timer: null,
+    release: () => {
+      axios.interceptors.request.eject(interceptor);
+      unpatch();
+      streamManager.endReplay();
+    },
+  };
+  setState({ mode: 'replaying', entries: session.entries.length, progress: 0, speed, finished: false });
+  step();
+}
+
+export function setReplaySpeed(speed: ReplaySpeed): void {
+  if (replay) {
+    const now = sessionTime();
+    replay.base = Number.isFinite(now) ? now : replay.session.entries[Math.max(0, replay.index - 1)]?.at ?? 0;
+    replay.wallStart = Date.now();
+  }
+  setState({ speed });
+  if (replay && !state.finished) {
+    if (replay.timer) clearTimeout(replay.timer);
+    step();
+  }
+}
+
+export function stopReplay(): void {
+  if (!replay) return;
+  if (replay.timer) clearTimeout(replay.timer);
+  replay.release();
+  replay = null;
+  setState({ mode: 'idle', progress: 0, finished: false });
+}
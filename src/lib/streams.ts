@@ -0,0 +1,469 @@
+import { getVendorId } from '@/lib/instruments';
+import { usesFixtures } from '@/lib/providers';
+import { CandleInterval, isCandleInterval } from '@/lib/providers/types';
+import { OHLCV } from '@/utils/indicators';
+
+// Stream manager
+//
+// All live market data in the browser shares one multiplexed Binance connection.
+// Panels subscribe to topics; a topic's vendor stream is subscribed on first use and
+// dropped when the last listener leaves. Reconnects, backoff, resubscribing and the
+// silence watchdog live here instead of in every component.
+//
+// The transport is either a direct Binance socket or Server-Sent Events from
+// /api/stream, which relays the same topics for networks that block WebSockets.
+
+const BINANCE_STREAM_URL = 'wss://stream.binance.com:9443/stream';
+const SSE_URL = '/api/stream';
+
+const MAX_BACKOFF_MS = 30 * 1000;
+const SILENCE_TIMEOUT_MS = 30 * 1000; // no message for this long while subscribed -> reconnect
+const IDLE_CLOSE_MS = 5 * 1000;       // keep the socket briefly after the last unsubscribe
+const CONTROL_FLUSH_MS = 100;         // batch (un)subscribe requests (Binance limits control messages)
+
+export type StreamTopic =
+  | { type: 'trades'; symbol: string }
+  | { type: 'depth'; symbol: string }
+  | { type: 'kline'; symbol: string; interval: CandleInterval }
+  | { type: 'ticker'; symbol: string };
+
+export interface TradeEvent {
+  id: string;
+  price: number;
+  quantity: number;
+  side: 'buy' | 'sell'; // aggressor side
+  time: number;         // ms
+  isBuyerMaker: boolean;
+}
+
+export interface DepthEvent {
+  bids: [number, number][]; // [price, quantity], best first
+  asks: [number, number][];
+}
+
+export interface KlineEvent extends OHLCV {
+  closed: boolean;
+}
+
+export interface TickerEvent {
+  price: number;
+  time: number; // ms
+}
+
+export type StreamEvent<T extends StreamTopic['type']> =
+  T extends 'trades' ? TradeEvent :
+  T extends 'depth' ? DepthEvent :
+  T extends 'kline' ? KlineEvent :
+  TickerEvent;
+
+export type StreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+export type StreamTransport = 'direct' | 'sse';
+
+export function isStreamTransport(value: string): value is StreamTransport {
+  return value === 'direct' || value === 'sse';
+}
+
+type Listener = (event: any) => void;
+type Tap = (name: string, event: unknown) => void;
+type TransportListener = (transport: StreamTransport, error: string | null) => void;
+
+// Opens the vendor socket; the server passes the `ws` client, browsers use their own
+export type SocketFactory = (url: string) => WebSocket;
+
+function browserSocket(url: string): WebSocket {
+  return new WebSocket(url);
+}
+
+// Vendor stream name for a topic, or null when the symbol has no Binance pair
+export function streamName(topic: StreamTopic): string | null {
+  const pair = getVendorId(topic.symbol, 'binance');
+  if (!pair) return null;
+  const base = pair.toLowerCase();
+  switch (topic.type) {
+    case 'trades': return `${base}@aggTrade`;
+    case 'depth': return `${base}@depth20@100ms`;
+    case 'kline': return `${base}@kline_${topic.interval}`;
+    case 'ticker': return `${base}@miniTicker`;
+  }
+}
+
+// Topic <-> query string form used by /api/stream: "trades:BTC", "kline:ETH:1h"
+export function encodeTopic(topic: StreamTopic): string {
+  return topic.type === 'kline' ? `kline:${topic.symbol}:${topic.interval}` : `${topic.type}:${topic.symbol}`;
+}
+
+export function decodeTopic(value: string): StreamTopic | null {
+  const [type, symbol, interval] = value.split(':');
+  if (!symbol) return null;
+  const upper = symbol.toUpperCase();
+  switch (type) {
+    case 'trades':
+    case 'depth':
+    case 'ticker':
+      return { type, symbol: upper };
+    case 'kline':
+      return interval && isCandleInterval(interval) ? { type, symbol: upper, interval } : null;
+    default:
+      return null;
+  }
+}
+
+function parseLevels(levels: string[][] = []): [number, number][] {
+  return levels.map(([price, quantity]) => [parseFloat(price), parseFloat(quantity)]);
+}
+
+// Normalize a vendor payload into the topic's event type
+export function normalize(name: string, data: any): TradeEvent | DepthEvent | KlineEvent | TickerEvent {
+  if (name.endsWith('@aggTrade')) {
+    return {
+      id: String(data.a),
+      price: parseFloat(data.p),
+      quantity: parseFloat(data.q),
+      side: data.m ? 'sell' : 'buy', // m = buyer is maker, so the seller hit the bid
+      time: data.T,
+      isBuyerMaker: data.m,
+    };
+  }
+  if (name.includes('@depth')) {
+    return { bids: parseLevels(data.bids), asks: parseLevels(data.asks) };
+  }
+  if (name.includes('@kline_')) {
+    const k = data.k;
+    return {
+      time: Math.floor(k.t / 1000),
+      open: parseFloat(k.o),
+      high: parseFloat(k.h),
+      low: parseFloat(k.l),
+      close: parseFloat(k.c),
+      volume: parseFloat(k.v),
+      closed: k.x,
+    };
+  }
+  return { price: parseFloat(data.c), time: data.E };
+}
+
+export class StreamManager {
+  private ws: WebSocket | null = null;
+  private source: EventSource | null = null;
+  private transport: StreamTransport = 'direct';
+  private transportError: string | null = null;
+  private transportListeners = new Set<TransportListener>();
+  private status: StreamStatus = 'idle';
+  private listeners = new Map<string, Set<Listener>>();
+  private topics = new Map<string, StreamTopic>();
+  private taps = new Set<Tap>();
+  private replaying = false;
+  private statusListeners = new Set<(status: StreamStatus) => void>();
+  private pendingSubscribe = new Set<string>();
+  private pendingUnsubscribe = new Set<string>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private watchdog: ReturnType<typeof setInterval> | null = null;
+  private attempts = 0;
+  private lastMessageAt = 0;
+  private requestId = 0;
+
+  constructor(private createSocket: SocketFactory = browserSocket) {}
+
+  subscribe(topic: StreamTopic, listener: Listener): () => void {
+    const name = streamName(topic);
+    if (!name) return () => {};
+
+    let set = this.listeners.get(name);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(name, set);
+      this.topics.set(name, topic);
+      this.pendingUnsubscribe.delete(name);
+      this.pendingSubscribe.add(name);
+      this.scheduleFlush();
+    }
+    set.add(listener);
+    this.ensureConnected();
+
+    return () => {
+      const current = this.listeners.get(name);
+      if (!current) return;
+      current.delete(listener);
+      if (current.size > 0) return;
+
+      this.listeners.delete(name);
+      this.topics.delete(name);
+      this.pendingSubscribe.delete(name);
+      this.pendingUnsubscribe.add(name);
+      this.scheduleFlush();
+      if (this.listeners.size === 0) this.scheduleIdleClose();
+    };
+  }
+
+  getStatus(): StreamStatus {
+    return this.status;
+  }
+
+  onStatus(listener: (status: StreamStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  getTransport(): StreamTransport {
+    return this.transport;
+  }
+
+  setTransport(transport: StreamTransport): void {
+    if (this.transport === transport && !this.transportError) return;
+    this.transport = transport;
+    this.transportError = null;
+    this.transportListeners.forEach(listener => listener(transport, null));
+    this.reconnect();
+  }
+
+  // Why the relay was given up on, if it was
+  getTransportError(): string | null {
+    return this.transportError;
+  }
+
+  onTransport(listener: TransportListener): () => void {
+    this.transportListeners.add(listener);
+    return () => {
+      this.transportListeners.delete(listener);
+    };
+  }
+
+  // See every dispatched event (session recording)
+  tap(fn: Tap): () => void {
+    this.taps.add(fn);
+    return () => {
+      this.taps.delete(fn);
+    };
+  }
+
+  // Replay: drop the live connection and take events from injectEvent() instead
+  beginReplay(): void {
+    this.replaying = true;
+    this.teardown();
+  }
+
+  injectEvent(name: string, event: unknown): void {
+    this.dispatch(name, event);
+  }
+
+  endReplay(): void {
+    if (!this.replaying) return;
+    this.replaying = false;
+    this.reconnect();
+  }
+
+  // Drop the connection and start over (resubscribes everything)
+  reconnect(): void {
+    this.attempts = 0;
+    this.teardown();
+    if (this.listeners.size > 0) this.connect();
+  }
+
+  private setStatus(status: StreamStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  private ensureConnected(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    if (!this.ws && !this.source && !this.reconnectTimer) this.connect();
+  }
+
+  private connect(): void {
+    // Fixture data has no live feed; recorded sessions still replay
+    if (this.replaying || usesFixtures()) return;
+    if (this.transport === 'sse') {
+      this.connectSse();
+      return;
+    }
+    if (this.createSocket === browserSocket && typeof WebSocket === 'undefined') return;
+    this.setStatus(this.attempts > 0 ? 'reconnecting' : 'connecting');
+
+    const ws = this.createSocket(BINANCE_STREAM_URL);
+    this.ws = ws;
+
+    ws.onopen = () => {
+      this.attempts = 0;
+      this.lastMessageAt = Date.now();
+      this.setStatus('open');
+      // Everything currently wanted, including streams held before a reconnect
+      this.pendingUnsubscribe.clear();
+      this.listeners.forEach((_, name) => this.pendingSubscribe.add(name));
+      this.flush();
+      this.startWatchdog();
+    };
+
+    ws.onmessage = (event) => {
+      this.lastMessageAt = Date.now();
+      try {
+        const message = JSON.parse(event.data);
+        if (!message.stream) return; // (un)subscribe acknowledgements
+        this.dispatch(message.stream, normalize(message.stream, message.data));
+      } catch (err) {
+        console.error('Stream message parse error:', err);
+      }
+    };
+
+    ws.onclose = () => {
+      if (this.ws !== ws) return; // replaced by reconnect()
+      this.ws = null;
+      this.scheduleReconnect();
+    };
+  }
+
+  // SSE carries a fixed topic list, so subscription changes reopen the source.
+  // Events arrive already normalized by the server.
+  private connectSse(): void {
+    if (typeof EventSource === 'undefined' || this.listeners.size === 0) return;
+    if (this.status !== 'open') this.setStatus(this.attempts > 0 ? 'reconnecting' : 'connecting');
+    this.pendingSubscribe.clear();
+    this.pendingUnsubscribe.clear();
+
+    const topics = Array.from(this.topics.values()).map(encodeTopic).join(',');
+    const source = new EventSource(`${SSE_URL}?topics=${encodeURIComponent(topics)}`);
+    this.source?.close();
+    this.source = source;
+
+    let opened = false;
+    source.onopen = () => {
+      opened = true;
+      this.attempts = 0;
+      this.lastMessageAt = Date.now();
+      this.setStatus('open');
+      this.startWatchdog();
+    };
+
+    source.onmessage = (event) => {
+      this.lastMessageAt = Date.now();
+      try {
+        const message = JSON.parse(event.data);
+        if (message.stream) this.dispatch(message.stream, message.data); // {} is a heartbeat
+      } catch (err) {
+        console.error('Stream message parse error:', err);
+      }
+    };
+
+    // EventSource retries on its own without backoff; use ours instead. An error
+    // response (503 when the server can't relay) closes it before it opens: that
+    // won't fix itself, so fall back to the direct socket.
+    source.onerror = () => {
+      if (!opened && source.readyState === EventSource.CLOSED) this.abandonSse(source);
+      else this.dropSource(source);
+    };
+  }
+
+  private abandonSse(source: EventSource): void {
+    if (this.source !== source) return;
+    source.close();
+    this.source = null;
+    this.transport = 'direct';
+    this.transportError = 'The server relay is unavailable; using the direct connection.';
+    console.warn(`Stream relay ${SSE_URL} refused the connection; falling back to direct`);
+    this.transportListeners.forEach(listener => listener('direct', this.transportError));
+    this.attempts = 0;
+    this.connect();
+  }
+
+  private dropSource(source: EventSource): void {
+    if (this.source !== source) return;
+    source.close();
+    this.source = null;
+    this.scheduleReconnect();
+  }
+
+  private dispatch(name: string, event: unknown): void {
+    this.taps.forEach(fn => fn(name, event));
+    this.listeners.get(name)?.forEach(listener => listener(event));
+  }
+
+  private scheduleReconnect(): void {
+    this.stopWatchdog();
+    if (this.listeners.size === 0) {
+      this.setStatus('idle');
+      return;
+    }
+    const delay = Math.min(1000 * 2 ** this.attempts++, MAX_BACKOFF_MS);
+    this.setStatus('reconnecting');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private teardown(): void {
+    this.stopWatchdog();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const ws = this.ws;
+    this.ws = null;
+    ws?.close();
+    this.source?.close();
+    this.source = null;
+    this.setStatus(this.replaying ? 'open' : 'idle');
+  }
+
+  private scheduleFlush(): void {
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush();
+      }, CONTROL_FLUSH_MS);
+    }
+  }
+
+  private flush(): void {
+    if (this.source) {
+      if (this.pendingSubscribe.size > 0 || this.pendingUnsubscribe.size > 0) this.connectSse();
+      return;
+    }
+    if (!this.ws || this.ws.readyState !== this.ws.OPEN) return;
+    if (this.pendingSubscribe.size > 0) {
+      this.ws.send(JSON.stringify({ method: 'SUBSCRIBE', params: Array.from(this.pendingSubscribe), id: ++this.requestId }));
+      this.pendingSubscribe.clear();
+    }
+    if (this.pendingUnsubscribe.size > 0) {
+      this.ws.send(JSON.stringify({ method: 'UNSUBSCRIBE', params: Array.from(this.pendingUnsubscribe), id: ++this.requestId }));
+      this.pendingUnsubscribe.clear();
+    }
+  }
+
+  private scheduleIdleClose(): void {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      if (this.listeners.size === 0) this.teardown();
+    }, IDLE_CLOSE_MS);
+  }
+
+  // Browsers answer protocol pings themselves, so a half-open socket only shows up
+  // as silence: every subscribed stream pushes at least every couple of seconds.
+  private startWatchdog(): void {
+    this.stopWatchdog();
+    this.watchdog = setInterval(() => {
+      if (this.listeners.size > 0 && Date.now() - this.lastMessageAt > SILENCE_TIMEOUT_MS) {
+        if (this.source) this.dropSource(this.source);
+        else this.ws?.close();
+      }
+    }, SILENCE_TIMEOUT_MS / 3);
+  }
+
+  private stopWatchdog(): void {
+    if (this.watchdog) {
+      clearInterval(this.watchdog);
+      this.watchdog = null;
+    }
+  }
+}
+
+export const streamManager = new StreamManager();
@@ -1,6 +1,6 @@
 // AI-Powered Technical Analysis
 
-import { OHLCV } from './indicators';
+import { OHLCV, findPivots } from './indicators';
 
 export interface TrendLine {
   startTime: number;
@@ -38,31 +38,6 @@ export interface AIAnalysis {
   recommendation: 'Strong Buy' | 'Buy' | 'Hold' | 'Sell' | 'Strong Sell';
 }
 
-// Find local peaks and troughs
-function findPivots(candles: OHLCV[], lookback: number = 5): { peaks: number[]; troughs: number[] } {
-  const peaks: number[] = [];
-  const troughs: number[] = [];
-  
-  for (let i = lookback; i < candles.length - lookback; i++) {
-    let isPeak = true;
-    let isTrough = true;
-    
-    for (let j = 1; j <= lookback; j++) {
-      if (candles[i].high <= candles[i - j].high || candles[i].high <= candles[i + j].high) {
-        isPeak = false;
-      }
-      if (candles[i].low >= candles[i - j].low || candles[i].low >= candles[i + j].low) {
-        isTrough = false;
-      }
-    }
-    
-    if (isPeak) peaks.push(i);
-    if (isTrough) troughs.push(i);
-  }
-  
-  return { peaks, troughs };
-}
-
 // Linear regression for trendline fitting
 function linearRegression(points: { x: number; y: number }[]): { slope: number; intercept: number; r2: number } {
   const n = points.length;
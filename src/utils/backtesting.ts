@@ -1,4 +1,4 @@
-import { OHLCV, SMA, RSI, EMA } from './indicators';
+import { OHLCV, SMA, RSI, EMA, ADX, ParabolicSAR, Supertrend, KeltnerChannels, DonchianChannels } from './indicators';
 
 export interface Trade {
   type: 'buy' | 'sell';
@@ -21,7 +21,8 @@ export interface BacktestResult {
   equity: { time: number; value: number }[];
 }
 
-export type StrategyType = 'sma_crossover' | 'rsi_reversal' | 'ema_crossover' | 'bollinger_bounce';
+export type StrategyType = 'sma_crossover' | 'rsi_reversal' | 'ema_crossover' | 'bollinger_bounce' |
+                           'adx_dmi' | 'parabolic_sar' | 'supertrend' | 'keltner_breakout' | 'donchian_breakout';
 
 export interface StrategyConfig {
   type: StrategyType;
@@ -32,6 +33,10 @@ export interface StrategyConfig {
   rsiPeriod?: number;
   rsiBuyThreshold?: number;
   rsiSellThreshold?: number;
+  // ADX / DMI
+  adxThreshold?: number;
+  // Supertrend
+  atrMultiplier?: number;
   // Initial capital
   initialCapital?: number;
 }
@@ -41,6 +46,11 @@ const STRATEGY_DEFAULTS: Record<StrategyType, Partial<StrategyConfig>> = {
   rsi_reversal: { rsiPeriod: 14, rsiBuyThreshold: 30, rsiSellThreshold: 70 },
   ema_crossover: { fastPeriod: 12, slowPeriod: 26 },
   bollinger_bounce: { fastPeriod: 20 },
+  adx_dmi: { fastPeriod: 14, adxThreshold: 25 },
+  parabolic_sar: {},
+  supertrend: { fastPeriod: 10, atrMultiplier: 3 },
+  keltner_breakout: { fastPeriod: 20 },
+  donchian_breakout: { fastPeriod: 20 },
 };
 
 export function runBacktest(data: OHLCV[], config: StrategyConfig): BacktestResult {
@@ -64,6 +74,25 @@ export function runBacktest(data: OHLCV[], config: StrategyConfig): BacktestResu
     case 'bollinger_bounce':
       signals = bollingerBounceSignals(data, fullConfig.fastPeriod!);
       break;
+    case 'adx_dmi':
+      signals = adxDmiSignals(data, fullConfig.fastPeriod!, fullConfig.adxThreshold!);
+      break;
+    case 'parabolic_sar': {
+      const sar = ParabolicSAR(data);
+      signals = trendFlipSignals(sar.sar, sar.uptrend);
+      break;
+    }
+    case 'supertrend': {
+      const supertrend = Supertrend(data, fullConfig.fastPeriod!, fullConfig.atrMultiplier!);
+      signals = trendFlipSignals(supertrend.supertrend, supertrend.uptrend);
+      break;
+    }
+    case 'keltner_breakout':
+      signals = keltnerBreakoutSignals(data, fullConfig.fastPeriod!);
+      break;
+    case 'donchian_breakout':
+      signals = donchianBreakoutSignals(data, fullConfig.fastPeriod!);
+      break;
   }
 
   // Execute trades based on signals
@@ -164,6 +193,50 @@ function bollingerBounceSignals(data: OHLCV[], period: number): ('buy' | 'sell'
   });
 }
 
+// +DI crossing -DI, entries only while ADX says the market is trending
+function adxDmiSignals(data: OHLCV[], period: number, threshold: number): ('buy' | 'sell' | 'hold')[] {
+  const { adx, plusDI, minusDI } = ADX(data, period);
+
+  return data.map((_, i) => {
+    if (i < 1 || isNaN(plusDI[i]) || isNaN(plusDI[i - 1])) return 'hold';
+    if (plusDI[i - 1] <= minusDI[i - 1] && plusDI[i] > minusDI[i] && adx[i] > threshold) return 'buy';
+    if (plusDI[i - 1] >= minusDI[i - 1] && plusDI[i] < minusDI[i]) return 'sell';
+    return 'hold';
+  });
+}
+
+// Trailing-stop indicators (SAR, Supertrend): buy when the stop flips below price, sell when it flips above
+function trendFlipSignals(stops: number[], uptrend: boolean[]): ('buy' | 'sell' | 'hold')[] {
+  return stops.map((stop, i) => {
+    if (i < 1 || isNaN(stop) || isNaN(stops[i - 1]) || uptrend[i] === uptrend[i - 1]) return 'hold';
+    return uptrend[i] ? 'buy' : 'sell';
+  });
+}
+
+// Close above the upper band → buy, back below the middle line → sell
+function keltnerBreakoutSignals(data: OHLCV[], period: number): ('buy' | 'sell' | 'hold')[] {
+  const { upper, middle } = KeltnerChannels(data, period);
+
+  return data.map((candle, i) => {
+    if (isNaN(upper[i])) return 'hold';
+    if (candle.close > upper[i]) return 'buy';
+    if (candle.close < middle[i]) return 'sell';
+    return 'hold';
+  });
+}
+
+// Close beyond the previous bar's channel: above the N-bar high → buy, below the N-bar low → sell
+function donchianBreakoutSignals(data: OHLCV[], period: number): ('buy' | 'sell' | 'hold')[] {
+  const { upper, lower } = DonchianChannels(data, period);
+
+  return data.map((candle, i) => {
+    if (i < 1 || isNaN(upper[i - 1])) return 'hold';
+    if (candle.close > upper[i - 1]) return 'buy';
+    if (candle.close < lower[i - 1]) return 'sell';
+    return 'hold';
+  });
+}
+
 function getSignalReason(strategy: StrategyType, action: 'buy' | 'sell'): string {
   switch (strategy) {
     case 'sma_crossover':
@@ -174,6 +247,16 @@ function getSignalReason(strategy: StrategyType, action: 'buy' | 'sell'): string
       return action === 'buy' ? 'EMA Golden Cross' : 'EMA Death Cross';
     case 'bollinger_bounce':
       return action === 'buy' ? 'Price at lower BB' : 'Price at upper BB';
+    case 'adx_dmi':
+      return action === 'buy' ? '+DI crossed above -DI' : '-DI crossed above +DI';
+    case 'parabolic_sar':
+      return action === 'buy' ? 'SAR flipped below price' : 'SAR flipped above price';
+    case 'supertrend':
+      return action === 'buy' ? 'Supertrend turned up' : 'Supertrend turned down';
+    case 'keltner_breakout':
+      return action === 'buy' ? 'Close above upper Keltner' : 'Close below Keltner midline';
+    case 'donchian_breakout':
+      return action === 'buy' ? 'New channel high' : 'New channel low';
   }
 }
 
@@ -256,6 +339,11 @@ function calculateResults(
     rsi_reversal: 'RSI Reversal',
     ema_crossover: 'EMA Crossover',
     bollinger_bounce: 'Bollinger Bounce',
+    adx_dmi: 'ADX / DMI',
+    parabolic_sar: 'Parabolic SAR',
+    supertrend: 'Supertrend',
+    keltner_breakout: 'Keltner Breakout',
+    donchian_breakout: 'Donchian Breakout',
   };
 
   return {
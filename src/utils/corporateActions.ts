@@ -0,0 +1,51 @@
+import { OHLCV } from './indicators';
+import type { CorporateAction } from '@/lib/providers/types';
+
+// Splits the raw series already reflects (vendor pre-adjusted) must not be applied twice.
+// The bar-to-bar jump across the ex-date tells us which one we have.
+function seriesShowsSplit(before: OHLCV, after: OHLCV, ratio: number): boolean {
+  const jump = before.close / after.open;
+  return Math.abs(Math.log(jump / ratio)) < Math.abs(Math.log(jump));
+}
+
+/**
+ * Back-adjust a raw price series for splits and dividends so long lookbacks
+ * have no artificial gaps. Bars before each ex-date are scaled; the most recent
+ * bars keep their traded prices.
+ */
+export function adjustForCorporateActions(candles: OHLCV[], events: CorporateAction[]): OHLCV[] {
+  if (candles.length === 0 || events.length === 0) return candles;
+
+  const priceFactor = new Array(candles.length).fill(1);
+  const volumeFactor = new Array(candles.length).fill(1);
+
+  for (const event of events) {
+    // First bar on or after the ex-date
+    const exIndex = candles.findIndex(c => c.time >= event.time);
+    const lastBefore = exIndex === -1 ? candles.length - 1 : exIndex - 1;
+    if (lastBefore < 0) continue;
+
+    let factor = 1;
+    if (event.type === 'split' && event.numerator && event.denominator) {
+      const ratio = event.numerator / event.denominator;
+      if (exIndex === -1 || !seriesShowsSplit(candles[lastBefore], candles[exIndex], ratio)) continue;
+      factor = 1 / ratio;
+      for (let i = 0; i <= lastBefore; i++) volumeFactor[i] *= ratio;
+    } else if (event.type === 'dividend' && event.amount) {
+      const prevClose = candles[lastBefore].close;
+      if (prevClose <= event.amount) continue;
+      factor = (prevClose - event.amount) / prevClose;
+    }
+
+    for (let i = 0; i <= lastBefore; i++) priceFactor[i] *= factor;
+  }
+
+  return candles.map((c, i) => ({
+    ...c,
+    open: c.open * priceFactor[i],
+    high: c.high * priceFactor[i],
+    low: c.low * priceFactor[i],
+    close: c.close * priceFactor[i],
+    volume: c.volume !== undefined ? c.volume * volumeFactor[i] : undefined,
+  }));
+}
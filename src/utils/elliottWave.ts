@@ -0,0 +1,93 @@
+// Elliott Wave counts
+//
+// A count is the points 0–5 of an impulse followed by A, B and C of its correction,
+// in time order. The hard impulse rules are checked as points are placed, and the
+// next wave gets the usual Fibonacci targets.
+
+export interface WavePoint {
+  time: number;
+  price: number;
+}
+
+export const ELLIOTT_LABELS = ['0', '1', '2', '3', '4', '5', 'A', 'B', 'C'];
+
+export interface WaveRule {
+  rule: string;
+  ok: boolean;
+  point: number; // index of the point that settles it
+}
+
+export interface WaveTarget {
+  label: string;
+  price: number;
+}
+
+// +1 when the impulse runs up, -1 when it runs down
+function trend(points: WavePoint[]): number {
+  return points.length > 1 && points[1].price < points[0].price ? -1 : 1;
+}
+
+function length(points: WavePoint[], wave: number): number {
+  return Math.abs(points[wave].price - points[wave - 1].price);
+}
+
+// Waves 1, 3, 5 and B move with the trend; 2, 4, A and C against it
+function withTrend(wave: number): boolean {
+  return wave <= 5 ? wave % 2 === 1 : wave === 7;
+}
+
+// Drops points that don't come after the one before them, such as a mouse
+// preview still on or behind the last wave placed
+export function inTimeOrder(points: WavePoint[]): WavePoint[] {
+  return points.reduce<WavePoint[]>((kept, p) => {
+    const last = kept[kept.length - 1];
+    return !last || p.time > last.time ? [...kept, p] : kept;
+  }, []);
+}
+
+// Rules that can be judged from the points placed so far
+export function elliottRules(points: WavePoint[]): WaveRule[] {
+  const rules: WaveRule[] = [];
+  if (points.length < 2) return rules;
+  const dir = trend(points);
+
+  const wrongWay = points.findIndex((p, i) => i > 0 && Math.sign(p.price - points[i - 1].price) !== (withTrend(i) ? dir : -dir));
+  rules.push({ rule: 'Waves alternate direction', ok: wrongWay === -1, point: wrongWay === -1 ? points.length - 1 : wrongWay });
+
+  if (points.length > 2) {
+    rules.push({ rule: 'Wave 2 stays short of the start of wave 1', ok: (points[2].price - points[0].price) * dir > 0, point: 2 });
+  }
+  if (points.length > 4) {
+    rules.push({ rule: 'Wave 4 stays out of wave 1 territory', ok: (points[4].price - points[1].price) * dir > 0, point: 4 });
+  }
+  if (points.length > 5) {
+    const third = length(points, 3);
+    rules.push({ rule: 'Wave 3 is not the shortest', ok: !(third < length(points, 1) && third < length(points, 5)), point: 3 });
+  }
+  return rules;
+}
+
+// Fibonacci targets for the wave after the last point placed
+export function elliottTargets(points: WavePoint[]): WaveTarget[] {
+  const dir = trend(points);
+  const from = points[points.length - 1]?.price;
+  const project = (label: string, size: number) => ({ label, price: from + dir * size });
+
+  switch (points.length) {
+    case 3: // wave 3 from the end of 2, in multiples of wave 1
+      return [project('3 = 1.618 × 1', 1.618 * length(points, 1)), project('3 = 2.618 × 1', 2.618 * length(points, 1))];
+    case 5: // wave 5 equal to wave 1, or 0.618 of waves 1–3
+      return [
+        project('5 = 1', length(points, 1)),
+        project('5 = 0.618 × 1–3', 0.618 * Math.abs(points[3].price - points[0].price)),
+      ];
+    case 6: { // wave A retracing the impulse
+      const impulse = Math.abs(points[5].price - points[0].price);
+      return [0.382, 0.5, 0.618].map(r => project(`A ${r}`, -r * impulse));
+    }
+    case 8: // wave C equal to A, or 1.618 of it
+      return [project('C = A', -length(points, 6)), project('C = 1.618 × A', -1.618 * length(points, 6))];
+    default:
+      return [];
+  }
+}
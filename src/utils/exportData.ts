@@ -1,5 +1,6 @@
 import { OHLCV, RSI, MACD, SMA, BollingerBands } from './indicators';
 import { AIAnalysis } from './aiAnalysis';
+import { formatMoney, formatMoneyCompact } from '@/lib/currency';
 
 export function exportToCSV(data: OHLCV[], symbol: string, timeframe: string): void {
   // Create CSV header
@@ -85,10 +86,11 @@ export interface PdfReportData {
   } | null;
   aiAnalysis?: AIAnalysis | null;
   chartScreenshot?: string | null; // base64 PNG data URL
+  currency?: string; // quote currency of data and assetInfo (default USD)
 }
 
 export function exportToPDF(report: PdfReportData): void {
-  const { symbol, timeframe, data, assetInfo, aiAnalysis, chartScreenshot } = report;
+  const { symbol, timeframe, data, assetInfo, aiAnalysis, chartScreenshot, currency = 'USD' } = report;
   const now = new Date();
   const dateStr = now.toLocaleDateString('en-US', {
     year: 'numeric',
@@ -152,7 +154,7 @@ export function exportToPDF(report: PdfReportData): void {
   <div class="header">
     <div>
       <div class="title">ChartWise Report</div>
-      <div class="subtitle">${symbol} &bull; ${timeframe} &bull; ${dateStr}</div>
+      <div class="subtitle">${symbol}/${currency} &bull; ${timeframe} &bull; ${dateStr}</div>
     </div>
     ${aiAnalysis ? `
     <div>
@@ -171,7 +173,7 @@ export function exportToPDF(report: PdfReportData): void {
     <div class="grid">
       <div class="card">
         <div class="card-label">Price</div>
-        <div class="card-value">$${assetInfo.price.toLocaleString()}</div>
+        <div class="card-value">${formatMoney(assetInfo.price, currency)}</div>
       </div>
       <div class="card">
         <div class="card-label">24h Change</div>
@@ -179,11 +181,11 @@ export function exportToPDF(report: PdfReportData): void {
       </div>
       <div class="card">
         <div class="card-label">24h Volume</div>
-        <div class="card-value">$${assetInfo.volume24h ? (assetInfo.volume24h / 1e9).toFixed(2) + 'B' : '—'}</div>
+        <div class="card-value">${formatMoneyCompact(assetInfo.volume24h, currency)}</div>
       </div>
       <div class="card">
         <div class="card-label">Market Cap</div>
-        <div class="card-value">$${assetInfo.marketCap ? (assetInfo.marketCap / 1e9).toFixed(0) + 'B' : '—'}</div>
+        <div class="card-value">${formatMoneyCompact(assetInfo.marketCap, currency)}</div>
       </div>
     </div>
   </div>
@@ -210,11 +212,11 @@ export function exportToPDF(report: PdfReportData): void {
       </div>
       <div class="card">
         <div class="card-label">SMA 20</div>
-        <div class="card-value">$${isNaN(currentSMA20) ? '—' : currentSMA20.toFixed(2)}</div>
+        <div class="card-value">${formatMoney(currentSMA20, currency)}</div>
       </div>
       <div class="card">
         <div class="card-label">SMA 50</div>
-        <div class="card-value">$${isNaN(currentSMA50) ? '—' : currentSMA50.toFixed(2)}</div>
+        <div class="card-value">${formatMoney(currentSMA50, currency)}</div>
       </div>
     </div>
   </div>
@@ -224,11 +226,11 @@ export function exportToPDF(report: PdfReportData): void {
     <div class="grid">
       <div class="card">
         <div class="card-label">Period High</div>
-        <div class="card-value">$${periodHigh.toLocaleString(undefined, { maximumFractionDigits: 2 })}</div>
+        <div class="card-value">${formatMoney(periodHigh, currency)}</div>
       </div>
       <div class="card">
         <div class="card-label">Period Low</div>
-        <div class="card-value">$${periodLow.toLocaleString(undefined, { maximumFractionDigits: 2 })}</div>
+        <div class="card-value">${formatMoney(periodLow, currency)}</div>
       </div>
       <div class="card">
         <div class="card-label">Period Return</div>
@@ -252,7 +254,7 @@ export function exportToPDF(report: PdfReportData): void {
         ${aiAnalysis.supportResistance.map(sr => `
           <div class="sr-level ${sr.type}">
             <strong>${sr.type === 'support' ? '🟢' : '🔴'} ${sr.type.charAt(0).toUpperCase() + sr.type.slice(1)}</strong>
-            — $${sr.price.toFixed(2)} (${sr.touches} touches)
+            — ${formatMoney(sr.price, currency)} (${sr.touches} touches)
           </div>
         `).join('')}
       </div>
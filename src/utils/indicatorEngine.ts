@@ -0,0 +1,1071 @@
+import type { OHLCV } from './indicators';
+
+// Incremental indicator engine
+//
+// Each indicator keeps running state and takes one bar at a time in O(1):
+// add() appends a new bar, update() replaces the latest one (a forming candle can be
+// updated any number of times). The batch functions in indicators.ts are built on
+// these classes, so a value computed bar by bar always equals the batch value.
+
+export interface StreamingIndicator<In, Out> {
+  add(input: In): Out;
+  update(input: In): Out;
+}
+
+// The latest bar stays pending (it may still change) and is only folded into the
+// running state when the next bar is added.
+abstract class PendingIndicator<In, Out> implements StreamingIndicator<In, Out> {
+  private pending: { input: In } | null = null;
+  protected index = 0; // index of the pending bar = number of committed bars
+
+  add(input: In): Out {
+    if (this.pending) {
+      this.commit(this.pending.input);
+      this.index++;
+    }
+    this.pending = { input };
+    return this.compute(input);
+  }
+
+  update(input: In): Out {
+    if (!this.pending) return this.add(input);
+    this.pending = { input };
+    return this.compute(input);
+  }
+
+  // Value for `input` as the newest bar; must not change state
+  protected abstract compute(input: In): Out;
+  // Fold a finished bar into the state (this.index is still its index)
+  protected abstract commit(input: In): void;
+}
+
+// Sum of the last `capacity` committed values
+class RollingSum {
+  private values: number[] = [];
+  sum = 0;
+
+  constructor(private capacity: number) {}
+
+  push(value: number): void {
+    this.values.push(value);
+    this.sum += value;
+    if (this.values.length > this.capacity) this.sum -= this.values.shift()!;
+  }
+}
+
+// Highest high / lowest low over the last `period` bars (monotonic queues of committed
+// bars; the pending bar is combined in peek)
+class RollingExtremes {
+  private highs: { index: number; value: number }[] = [];
+  private lows: { index: number; value: number }[] = [];
+  private count = 0;
+
+  constructor(private period: number) {}
+
+  peek(high: number, low: number): { high: number; low: number } {
+    return {
+      high: this.highs.length > 0 ? Math.max(high, this.highs[0].value) : high,
+      low: this.lows.length > 0 ? Math.min(low, this.lows[0].value) : low,
+    };
+  }
+
+  commit(high: number, low: number): void {
+    const index = this.count++;
+    while (this.highs.length > 0 && this.highs[this.highs.length - 1].value <= high) this.highs.pop();
+    this.highs.push({ index, value: high });
+    while (this.lows.length > 0 && this.lows[this.lows.length - 1].value >= low) this.lows.pop();
+    this.lows.push({ index, value: low });
+
+    // Keep what stays in the window together with the next bar
+    const oldest = this.count - (this.period - 1);
+    while (this.highs.length > 0 && this.highs[0].index < oldest) this.highs.shift();
+    while (this.lows.length > 0 && this.lows[0].index < oldest) this.lows.shift();
+  }
+}
+
+export class IncrementalSMA extends PendingIndicator<number, number> {
+  private window: RollingSum;
+
+  constructor(private period: number) {
+    super();
+    this.window = new RollingSum(period - 1);
+  }
+
+  protected compute(value: number): number {
+    return this.index < this.period - 1 ? NaN : (this.window.sum + value) / this.period;
+  }
+
+  protected commit(value: number): void {
+    this.window.push(value);
+  }
+}
+
+// Seeded with the SMA of the first `period` values
+export class IncrementalEMA extends PendingIndicator<number, number> {
+  private seedSum = 0;
+  private ema = NaN;
+  private multiplier: number;
+
+  constructor(private period: number) {
+    super();
+    this.multiplier = 2 / (period + 1);
+  }
+
+  protected compute(value: number): number {
+    if (this.index < this.period - 1) return NaN;
+    if (this.index === this.period - 1) return (this.seedSum + value) / this.period;
+    return (value - this.ema) * this.multiplier + this.ema;
+  }
+
+  protected commit(value: number): void {
+    if (this.index < this.period - 1) this.seedSum += value;
+    else this.ema = this.compute(value);
+  }
+}
+
+// Average gain / loss over the last `period` changes
+export class IncrementalRSI extends PendingIndicator<number, number> {
+  private gains: RollingSum;
+  private losses: RollingSum;
+  private prevClose = NaN;
+
+  constructor(private period: number = 14) {
+    super();
+    this.gains = new RollingSum(period - 1);
+    this.losses = new RollingSum(period - 1);
+  }
+
+  protected compute(close: number): number {
+    if (this.index < this.period) return NaN;
+    const change = close - this.prevClose;
+    const avgGain = (this.gains.sum + (change > 0 ? change : 0)) / this.period;
+    const avgLoss = (this.losses.sum + (change < 0 ? -change : 0)) / this.period;
+    if (avgLoss === 0) return 100;
+    return 100 - (100 / (1 + avgGain / avgLoss));
+  }
+
+  protected commit(close: number): void {
+    if (this.index > 0) {
+      const change = close - this.prevClose;
+      this.gains.push(change > 0 ? change : 0);
+      this.losses.push(change < 0 ? -change : 0);
+    }
+    this.prevClose = close;
+  }
+}
+
+export interface MACDPoint {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+// Signal line is the EMA of the MACD values from the first defined one on
+export class IncrementalMACD implements StreamingIndicator<number, MACDPoint> {
+  private fast: IncrementalEMA;
+  private slow: IncrementalEMA;
+  private signal: IncrementalEMA;
+  private signalFed = false; // the pending bar already went into the signal EMA
+
+  constructor(fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) {
+    this.fast = new IncrementalEMA(fastPeriod);
+    this.slow = new IncrementalEMA(slowPeriod);
+    this.signal = new IncrementalEMA(signalPeriod);
+  }
+
+  add(close: number): MACDPoint {
+    this.signalFed = false;
+    return this.next(this.fast.add(close), this.slow.add(close));
+  }
+
+  update(close: number): MACDPoint {
+    return this.next(this.fast.update(close), this.slow.update(close));
+  }
+
+  private next(fast: number, slow: number): MACDPoint {
+    if (isNaN(fast) || isNaN(slow)) return { macd: NaN, signal: NaN, histogram: NaN };
+    const macd = fast - slow;
+    const signal = this.signalFed ? this.signal.update(macd) : this.signal.add(macd);
+    this.signalFed = true;
+    return { macd, signal, histogram: isNaN(signal) ? NaN : macd - signal };
+  }
+}
+
+export interface BandPoint {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+export class IncrementalBollingerBands extends PendingIndicator<number, BandPoint> {
+  private sum: RollingSum;
+  private squares: RollingSum;
+
+  constructor(private period: number = 20, private stdDev: number = 2) {
+    super();
+    this.sum = new RollingSum(period - 1);
+    this.squares = new RollingSum(period - 1);
+  }
+
+  protected compute(value: number): BandPoint {
+    if (this.index < this.period - 1) return { upper: NaN, middle: NaN, lower: NaN };
+    const mean = (this.sum.sum + value) / this.period;
+    const variance = Math.max(0, (this.squares.sum + value * value) / this.period - mean * mean);
+    const std = Math.sqrt(variance);
+    return { upper: mean + this.stdDev * std, middle: mean, lower: mean - this.stdDev * std };
+  }
+
+  protected commit(value: number): void {
+    this.sum.push(value);
+    this.squares.push(value * value);
+  }
+}
+
+// Cumulative from the first bar; bars without volume count as 1
+export class IncrementalVWAP extends PendingIndicator<OHLCV, number> {
+  private cumulativeTPV = 0;
+  private cumulativeVolume = 0;
+
+  protected compute(candle: OHLCV): number {
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
+    const volume = candle.volume || 1;
+    return (this.cumulativeTPV + typicalPrice * volume) / (this.cumulativeVolume + volume);
+  }
+
+  protected commit(candle: OHLCV): void {
+    const volume = candle.volume || 1;
+    this.cumulativeTPV += ((candle.high + candle.low + candle.close) / 3) * volume;
+    this.cumulativeVolume += volume;
+  }
+}
+
+export type SessionPeriod = 'day' | 'week' | 'month';
+export type VWAPReset = 'none' | SessionPeriod;
+
+// Which session a bar belongs to, in UTC. Weeks start on Monday.
+export function sessionKey(time: number, reset: VWAPReset): number {
+  const day = Math.floor(time / 86400);
+  switch (reset) {
+    case 'day':
+      return day;
+    case 'week':
+      return Math.floor((day + 3) / 7); // 1970-01-01 was a Thursday
+    case 'month': {
+      const date = new Date(time * 1000);
+      return date.getUTCFullYear() * 12 + date.getUTCMonth();
+    }
+    default:
+      return 0;
+  }
+}
+
+export interface VWAPBandPoint {
+  vwap: number;
+  stdDev: number; // volume-weighted deviation of the typical price around the VWAP
+}
+
+// VWAP that restarts at each new session; 'none' accumulates from the first bar.
+// Bars without volume count as 1, like IncrementalVWAP.
+export class IncrementalSessionVWAP extends PendingIndicator<OHLCV, VWAPBandPoint> {
+  private session = NaN;
+  private volume = 0;
+  private priceVolume = 0;
+  private squareVolume = 0;
+
+  constructor(private reset: VWAPReset = 'day') {
+    super();
+  }
+
+  private totals(candle: OHLCV) {
+    const typical = (candle.high + candle.low + candle.close) / 3;
+    const volume = candle.volume || 1;
+    const session = sessionKey(candle.time, this.reset);
+    const carried = session === this.session;
+    return {
+      session,
+      volume: (carried ? this.volume : 0) + volume,
+      priceVolume: (carried ? this.priceVolume : 0) + typical * volume,
+      squareVolume: (carried ? this.squareVolume : 0) + typical * typical * volume,
+    };
+  }
+
+  protected compute(candle: OHLCV): VWAPBandPoint {
+    const { volume, priceVolume, squareVolume } = this.totals(candle);
+    const vwap = priceVolume / volume;
+    return { vwap, stdDev: Math.sqrt(Math.max(0, squareVolume / volume - vwap * vwap)) };
+  }
+
+  protected commit(candle: OHLCV): void {
+    const next = this.totals(candle);
+    this.session = next.session;
+    this.volume = next.volume;
+    this.priceVolume = next.priceVolume;
+    this.squareVolume = next.squareVolume;
+  }
+}
+
+// Simple average of the first `period` true ranges, then Wilder smoothing
+export class IncrementalATR extends PendingIndicator<OHLCV, number> {
+  private prevClose = NaN;
+  private trSum = 0;
+  private atr = NaN;
+
+  constructor(private period: number = 14) {
+    super();
+  }
+
+  private trueRange(candle: OHLCV): number {
+    if (this.index === 0) return candle.high - candle.low;
+    return Math.max(
+      candle.high - candle.low,
+      Math.abs(candle.high - this.prevClose),
+      Math.abs(candle.low - this.prevClose)
+    );
+  }
+
+  protected compute(candle: OHLCV): number {
+    const tr = this.trueRange(candle);
+    if (this.index < this.period - 1) return NaN;
+    if (this.index === this.period - 1) return (this.trSum + tr) / this.period;
+    return (this.atr * (this.period - 1) + tr) / this.period;
+  }
+
+  protected commit(candle: OHLCV): void {
+    if (this.index < this.period - 1) this.trSum += this.trueRange(candle);
+    else this.atr = this.compute(candle);
+    this.prevClose = candle.close;
+  }
+}
+
+export class IncrementalOBV extends PendingIndicator<OHLCV, number> {
+  private prevClose = NaN;
+  private obv = 0;
+
+  protected compute(candle: OHLCV): number {
+    const volume = candle.volume || 0;
+    if (this.index === 0) return volume;
+    if (candle.close > this.prevClose) return this.obv + volume;
+    if (candle.close < this.prevClose) return this.obv - volume;
+    return this.obv;
+  }
+
+  protected commit(candle: OHLCV): void {
+    this.obv = this.compute(candle);
+    this.prevClose = candle.close;
+  }
+}
+
+// %K is the RSI's position in its recent range, smoothed; %D smooths %K again.
+// Warm-up values are smoothed as 0 and masked out, as the batch version always did.
+export class IncrementalStochasticRSI implements StreamingIndicator<number, { k: number; d: number }> {
+  private rsi: IncrementalRSI;
+  private range: RollingExtremes;
+  private kSma: IncrementalSMA;
+  private dSma: IncrementalSMA;
+  private index = -1;
+  private pendingRsi = NaN;
+
+  constructor(
+    private rsiPeriod: number = 14,
+    private stochPeriod: number = 14,
+    kSmoothing: number = 3,
+    dSmoothing: number = 3
+  ) {
+    this.rsi = new IncrementalRSI(rsiPeriod);
+    this.range = new RollingExtremes(stochPeriod);
+    this.kSma = new IncrementalSMA(kSmoothing);
+    this.dSma = new IncrementalSMA(dSmoothing);
+  }
+
+  add(close: number): { k: number; d: number } {
+    // Only defined RSI values enter the range (they are undefined only during warm-up)
+    if (!isNaN(this.pendingRsi)) this.range.commit(this.pendingRsi, this.pendingRsi);
+    this.index++;
+    return this.next(this.rsi.add(close), false);
+  }
+
+  update(close: number): { k: number; d: number } {
+    if (this.index < 0) return this.add(close);
+    return this.next(this.rsi.update(close), true);
+  }
+
+  private next(rsi: number, replace: boolean): { k: number; d: number } {
+    this.pendingRsi = rsi;
+
+    let stochK = NaN;
+    if (!isNaN(rsi) && this.index >= this.rsiPeriod + this.stochPeriod - 1) {
+      const { high, low } = this.range.peek(rsi, rsi);
+      stochK = high === low ? 50 : ((rsi - low) / (high - low)) * 100;
+    }
+
+    const kInput = isNaN(stochK) ? 0 : stochK;
+    const kSmoothed = replace ? this.kSma.update(kInput) : this.kSma.add(kInput);
+    const k = isNaN(stochK) ? NaN : kSmoothed;
+
+    const dInput = isNaN(k) ? 0 : k;
+    const dSmoothed = replace ? this.dSma.update(dInput) : this.dSma.add(dInput);
+    const d = isNaN(k) ? NaN : dSmoothed;
+
+    return { k, d };
+  }
+}
+
+export interface IchimokuPoint {
+  tenkanSen: number;
+  kijunSen: number;
+  senkouSpanA: number; // value projected onto this bar from `displacement` bars back
+  senkouSpanB: number;
+}
+
+// The lagging span (chikou) is just the close shifted back, so it isn't computed here
+export class IncrementalIchimoku extends PendingIndicator<OHLCV, IchimokuPoint> {
+  private tenkan: RollingExtremes;
+  private kijun: RollingExtremes;
+  private spanB: RollingExtremes;
+  private spanAHistory: number[] = []; // unprojected span values of the last `displacement` bars
+  private spanBHistory: number[] = [];
+
+  constructor(
+    private tenkanPeriod: number = 9,
+    private kijunPeriod: number = 26,
+    private senkouBPeriod: number = 52,
+    private displacement: number = 26
+  ) {
+    super();
+    this.tenkan = new RollingExtremes(tenkanPeriod);
+    this.kijun = new RollingExtremes(kijunPeriod);
+    this.spanB = new RollingExtremes(senkouBPeriod);
+  }
+
+  private lines(candle: OHLCV) {
+    const mid = (range: { high: number; low: number }) => (range.high + range.low) / 2;
+    const tenkanSen = this.index >= this.tenkanPeriod - 1 ? mid(this.tenkan.peek(candle.high, candle.low)) : NaN;
+    const kijunSen = this.index >= this.kijunPeriod - 1 ? mid(this.kijun.peek(candle.high, candle.low)) : NaN;
+    const spanA = !isNaN(tenkanSen) && !isNaN(kijunSen) ? (tenkanSen + kijunSen) / 2 : NaN;
+    const spanB = this.index >= this.senkouBPeriod - 1 ? mid(this.spanB.peek(candle.high, candle.low)) : NaN;
+    return { tenkanSen, kijunSen, spanA, spanB };
+  }
+
+  protected compute(candle: OHLCV): IchimokuPoint {
+    const { tenkanSen, kijunSen, spanA, spanB } = this.lines(candle);
+    const projected = (history: number[], current: number) => {
+      if (this.displacement === 0) return current;
+      return history.length === this.displacement ? history[0] : NaN;
+    };
+    return {
+      tenkanSen,
+      kijunSen,
+      senkouSpanA: projected(this.spanAHistory, spanA),
+      senkouSpanB: projected(this.spanBHistory, spanB),
+    };
+  }
+
+  protected commit(candle: OHLCV): void {
+    const { spanA, spanB } = this.lines(candle);
+    this.tenkan.commit(candle.high, candle.low);
+    this.kijun.commit(candle.high, candle.low);
+    this.spanB.commit(candle.high, candle.low);
+    if (this.displacement === 0) return;
+    this.spanAHistory.push(spanA);
+    this.spanBHistory.push(spanB);
+    if (this.spanAHistory.length > this.displacement) {
+      this.spanAHistory.shift();
+      this.spanBHistory.shift();
+    }
+  }
+}
+
+export interface DMIPoint {
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+}
+
+// Wilder's directional movement: +DM/-DM and true range are smoothed as running sums
+// (first `period` values summed, then sum - sum / period + value), and ADX is the
+// Wilder average of DX. +DI/-DI start at bar `period`, ADX at bar 2 * period - 1.
+export class IncrementalADX extends PendingIndicator<OHLCV, DMIPoint> {
+  private prev: OHLCV | null = null;
+  private trSum = 0;
+  private plusSum = 0;
+  private minusSum = 0;
+  private dxSum = 0;
+  private adx = NaN;
+
+  constructor(private period: number = 14) {
+    super();
+  }
+
+  private step(candle: OHLCV) {
+    const prev = this.prev!;
+    const up = candle.high - prev.high;
+    const down = prev.low - candle.low;
+    const tr = Math.max(candle.high - candle.low, Math.abs(candle.high - prev.close), Math.abs(candle.low - prev.close));
+    const plusDM = up > down && up > 0 ? up : 0;
+    const minusDM = down > up && down > 0 ? down : 0;
+
+    const smooth = (sum: number, value: number) => (this.index <= this.period ? sum + value : sum - sum / this.period + value);
+    const trSum = smooth(this.trSum, tr);
+    const plusSum = smooth(this.plusSum, plusDM);
+    const minusSum = smooth(this.minusSum, minusDM);
+    if (this.index < this.period) return { trSum, plusSum, minusSum, plusDI: NaN, minusDI: NaN, dx: NaN, adx: NaN };
+
+    const plusDI = trSum > 0 ? (plusSum / trSum) * 100 : 0;
+    const minusDI = trSum > 0 ? (minusSum / trSum) * 100 : 0;
+    const dx = plusDI + minusDI > 0 ? (Math.abs(plusDI - minusDI) / (plusDI + minusDI)) * 100 : 0;
+
+    const dxCount = this.index - this.period + 1;
+    let adx = NaN;
+    if (dxCount === this.period) adx = (this.dxSum + dx) / this.period;
+    else if (dxCount > this.period) adx = (this.adx * (this.period - 1) + dx) / this.period;
+    return { trSum, plusSum, minusSum, plusDI, minusDI, dx, adx };
+  }
+
+  protected compute(candle: OHLCV): DMIPoint {
+    if (this.index === 0) return { adx: NaN, plusDI: NaN, minusDI: NaN };
+    const { adx, plusDI, minusDI } = this.step(candle);
+    return { adx, plusDI, minusDI };
+  }
+
+  protected commit(candle: OHLCV): void {
+    if (this.index > 0) {
+      const next = this.step(candle);
+      this.trSum = next.trSum;
+      this.plusSum = next.plusSum;
+      this.minusSum = next.minusSum;
+      if (!isNaN(next.dx) && isNaN(next.adx)) this.dxSum += next.dx;
+      this.adx = next.adx;
+    }
+    this.prev = candle;
+  }
+}
+
+// A stop level that trails price and flips sides when price crosses it
+export interface TrailingStopPoint {
+  value: number;
+  uptrend: boolean;
+}
+
+// Wilder's Parabolic SAR. The trend on the second bar is taken from the close, the
+// acceleration factor grows by `step` on each new extreme up to `maxStep`.
+export class IncrementalParabolicSAR extends PendingIndicator<OHLCV, TrailingStopPoint> {
+  private prev: OHLCV | null = null;
+  private prev2: OHLCV | null = null;
+  private state: { sar: number; ep: number; af: number; uptrend: boolean } | null = null;
+
+  constructor(private step: number = 0.02, private maxStep: number = 0.2) {
+    super();
+  }
+
+  private next(candle: OHLCV) {
+    const prev = this.prev!;
+    if (!this.state) {
+      const uptrend = candle.close >= prev.close;
+      return uptrend
+        ? { sar: Math.min(prev.low, candle.low), ep: Math.max(prev.high, candle.high), af: this.step, uptrend }
+        : { sar: Math.max(prev.high, candle.high), ep: Math.min(prev.low, candle.low), af: this.step, uptrend };
+    }
+
+    let { ep, af, uptrend } = this.state;
+    let sar = this.state.sar + af * (ep - this.state.sar);
+    const prev2 = this.prev2 ?? prev;
+
+    if (uptrend) {
+      // Never above the last two lows
+      sar = Math.min(sar, prev.low, prev2.low);
+      if (candle.low < sar) {
+        uptrend = false;
+        sar = ep;
+        ep = candle.low;
+        af = this.step;
+      } else if (candle.high > ep) {
+        ep = candle.high;
+        af = Math.min(af + this.step, this.maxStep);
+      }
+    } else {
+      sar = Math.max(sar, prev.high, prev2.high);
+      if (candle.high > sar) {
+        uptrend = true;
+        sar = ep;
+        ep = candle.high;
+        af = this.step;
+      } else if (candle.low < ep) {
+        ep = candle.low;
+        af = Math.min(af + this.step, this.maxStep);
+      }
+    }
+    return { sar, ep, af, uptrend };
+  }
+
+  protected compute(candle: OHLCV): TrailingStopPoint {
+    if (this.index === 0) return { value: NaN, uptrend: true };
+    const { sar, uptrend } = this.next(candle);
+    return { value: sar, uptrend };
+  }
+
+  protected commit(candle: OHLCV): void {
+    if (this.index > 0) this.state = this.next(candle);
+    this.prev2 = this.prev;
+    this.prev = candle;
+  }
+}
+
+// ATR bands around the bar midpoint that only tighten while the trend holds;
+// the line is the lower band in an uptrend and the upper band in a downtrend
+export class IncrementalSupertrend implements StreamingIndicator<OHLCV, TrailingStopPoint> {
+  private atr: IncrementalATR;
+  private committed: { upper: number; lower: number; uptrend: boolean; close: number } | null = null;
+  private pending: { upper: number; lower: number; uptrend: boolean; close: number } | null = null;
+
+  constructor(period: number = 10, private multiplier: number = 3) {
+    this.atr = new IncrementalATR(period);
+  }
+
+  add(candle: OHLCV): TrailingStopPoint {
+    if (this.pending) this.committed = this.pending;
+    return this.next(candle, this.atr.add(candle));
+  }
+
+  update(candle: OHLCV): TrailingStopPoint {
+    return this.next(candle, this.atr.update(candle));
+  }
+
+  private next(candle: OHLCV, atr: number): TrailingStopPoint {
+    if (isNaN(atr)) {
+      this.pending = null;
+      return { value: NaN, uptrend: true };
+    }
+
+    const mid = (candle.high + candle.low) / 2;
+    let upper = mid + this.multiplier * atr;
+    let lower = mid - this.multiplier * atr;
+    let uptrend = candle.close >= mid;
+
+    const prev = this.committed;
+    if (prev) {
+      if (upper > prev.upper && prev.close <= prev.upper) upper = prev.upper;
+      if (lower < prev.lower && prev.close >= prev.lower) lower = prev.lower;
+      uptrend = prev.uptrend ? candle.close >= lower : candle.close > upper;
+    }
+
+    this.pending = { upper, lower, uptrend, close: candle.close };
+    return { value: uptrend ? lower : upper, uptrend };
+  }
+}
+
+// EMA of the close with bands `multiplier` ATRs away
+export class IncrementalKeltnerChannels implements StreamingIndicator<OHLCV, BandPoint> {
+  private ema: IncrementalEMA;
+  private atr: IncrementalATR;
+
+  constructor(emaPeriod: number = 20, atrPeriod: number = 10, private multiplier: number = 2) {
+    this.ema = new IncrementalEMA(emaPeriod);
+    this.atr = new IncrementalATR(atrPeriod);
+  }
+
+  add(candle: OHLCV): BandPoint {
+    return this.bands(this.ema.add(candle.close), this.atr.add(candle));
+  }
+
+  update(candle: OHLCV): BandPoint {
+    return this.bands(this.ema.update(candle.close), this.atr.update(candle));
+  }
+
+  private bands(middle: number, atr: number): BandPoint {
+    if (isNaN(middle) || isNaN(atr)) return { upper: NaN, middle: NaN, lower: NaN };
+    return { upper: middle + this.multiplier * atr, middle, lower: middle - this.multiplier * atr };
+  }
+}
+
+// Highest high and lowest low of the last `period` bars
+export class IncrementalDonchianChannels extends PendingIndicator<OHLCV, BandPoint> {
+  private range: RollingExtremes;
+
+  constructor(private period: number = 20) {
+    super();
+    this.range = new RollingExtremes(period);
+  }
+
+  protected compute(candle: OHLCV): BandPoint {
+    if (this.index < this.period - 1) return { upper: NaN, middle: NaN, lower: NaN };
+    const { high, low } = this.range.peek(candle.high, candle.low);
+    return { upper: high, middle: (high + low) / 2, lower: low };
+  }
+
+  protected commit(candle: OHLCV): void {
+    this.range.commit(candle.high, candle.low);
+  }
+}
+
+// Money flow (typical price x volume) split by whether the typical price rose or fell,
+// over the last `period` changes
+export class IncrementalMFI extends PendingIndicator<OHLCV, number> {
+  private positive: RollingSum;
+  private negative: RollingSum;
+  private prevTypical = NaN;
+
+  constructor(private period: number = 14) {
+    super();
+    this.positive = new RollingSum(period - 1);
+    this.negative = new RollingSum(period - 1);
+  }
+
+  private flow(candle: OHLCV): { typical: number; up: number; down: number } {
+    const typical = (candle.high + candle.low + candle.close) / 3;
+    const raw = typical * (candle.volume || 0);
+    return {
+      typical,
+      up: typical > this.prevTypical ? raw : 0,
+      down: typical < this.prevTypical ? raw : 0,
+    };
+  }
+
+  protected compute(candle: OHLCV): number {
+    if (this.index < this.period) return NaN;
+    const { up, down } = this.flow(candle);
+    const positive = this.positive.sum + up;
+    const negative = this.negative.sum + down;
+    if (negative === 0) return positive === 0 ? 50 : 100;
+    return 100 - (100 / (1 + positive / negative));
+  }
+
+  protected commit(candle: OHLCV): void {
+    const { typical, up, down } = this.flow(candle);
+    if (this.index > 0) {
+      this.positive.push(up);
+      this.negative.push(down);
+    }
+    this.prevTypical = typical;
+  }
+}
+
+// Where the close sits in the bar's range, from -1 (at the low) to 1 (at the high)
+function moneyFlowMultiplier(candle: OHLCV): number {
+  const range = candle.high - candle.low;
+  return range > 0 ? ((candle.close - candle.low) - (candle.high - candle.close)) / range : 0;
+}
+
+// Accumulation/Distribution line: running total of multiplier x volume
+export class IncrementalAccumulationDistribution extends PendingIndicator<OHLCV, number> {
+  private total = 0;
+
+  protected compute(candle: OHLCV): number {
+    return this.total + moneyFlowMultiplier(candle) * (candle.volume || 0);
+  }
+
+  protected commit(candle: OHLCV): void {
+    this.total = this.compute(candle);
+  }
+}
+
+// Chaikin Money Flow: multiplier x volume over volume, summed over the last `period` bars
+export class IncrementalCMF extends PendingIndicator<OHLCV, number> {
+  private flow: RollingSum;
+  private volume: RollingSum;
+
+  constructor(private period: number = 20) {
+    super();
+    this.flow = new RollingSum(period - 1);
+    this.volume = new RollingSum(period - 1);
+  }
+
+  protected compute(candle: OHLCV): number {
+    if (this.index < this.period - 1) return NaN;
+    const volume = this.volume.sum + (candle.volume || 0);
+    if (volume === 0) return 0;
+    return (this.flow.sum + moneyFlowMultiplier(candle) * (candle.volume || 0)) / volume;
+  }
+
+  protected commit(candle: OHLCV): void {
+    this.flow.push(moneyFlowMultiplier(candle) * (candle.volume || 0));
+    this.volume.push(candle.volume || 0);
+  }
+}
+
+// Fast volume EMA relative to the slow one, in percent
+export class IncrementalVolumeOscillator implements StreamingIndicator<OHLCV, number> {
+  private fast: IncrementalEMA;
+  private slow: IncrementalEMA;
+
+  constructor(fastPeriod: number = 5, slowPeriod: number = 10) {
+    this.fast = new IncrementalEMA(fastPeriod);
+    this.slow = new IncrementalEMA(slowPeriod);
+  }
+
+  add(candle: OHLCV): number {
+    return this.percent(this.fast.add(candle.volume || 0), this.slow.add(candle.volume || 0));
+  }
+
+  update(candle: OHLCV): number {
+    return this.percent(this.fast.update(candle.volume || 0), this.slow.update(candle.volume || 0));
+  }
+
+  private percent(fast: number, slow: number): number {
+    if (isNaN(fast) || isNaN(slow)) return NaN;
+    return slow > 0 ? ((fast - slow) / slow) * 100 : 0;
+  }
+}
+
+export interface KlingerPoint {
+  kvo: number;
+  signal: number;
+}
+
+// Klinger Volume Oscillator in its common simplified form: volume signed by the
+// direction of the typical price, fast EMA minus slow EMA, with an EMA signal line
+export class IncrementalKlinger implements StreamingIndicator<OHLCV, KlingerPoint> {
+  private fast: IncrementalEMA;
+  private slow: IncrementalEMA;
+  private signal: IncrementalEMA;
+  private prevTypical = NaN;    // last committed bar
+  private pendingTypical = NaN;
+  private signalFed = false;
+
+  constructor(fastPeriod: number = 34, slowPeriod: number = 55, signalPeriod: number = 13) {
+    this.fast = new IncrementalEMA(fastPeriod);
+    this.slow = new IncrementalEMA(slowPeriod);
+    this.signal = new IncrementalEMA(signalPeriod);
+  }
+
+  add(candle: OHLCV): KlingerPoint {
+    this.prevTypical = this.pendingTypical;
+    this.signalFed = false;
+    const force = this.force(candle);
+    return this.next(this.fast.add(force), this.slow.add(force));
+  }
+
+  update(candle: OHLCV): KlingerPoint {
+    const force = this.force(candle);
+    return this.next(this.fast.update(force), this.slow.update(force));
+  }
+
+  private force(candle: OHLCV): number {
+    const typical = (candle.high + candle.low + candle.close) / 3;
+    this.pendingTypical = typical;
+    const volume = candle.volume || 0;
+    return isNaN(this.prevTypical) || typical >= this.prevTypical ? volume : -volume;
+  }
+
+  private next(fast: number, slow: number): KlingerPoint {
+    if (isNaN(fast) || isNaN(slow)) return { kvo: NaN, signal: NaN };
+    const kvo = fast - slow;
+    const signal = this.signalFed ? this.signal.update(kvo) : this.signal.add(kvo);
+    this.signalFed = true;
+    return { kvo, signal };
+  }
+}
+
+export interface BollingerWidthPoint {
+  percentB: number;  // close between the bands: 0 = lower band, 1 = upper band
+  bandwidth: number; // band width as a percent of the middle band
+}
+
+export class IncrementalBollingerWidth implements StreamingIndicator<number, BollingerWidthPoint> {
+  private bands: IncrementalBollingerBands;
+
+  constructor(period: number = 20, stdDev: number = 2) {
+    this.bands = new IncrementalBollingerBands(period, stdDev);
+  }
+
+  add(close: number): BollingerWidthPoint {
+    return this.width(close, this.bands.add(close));
+  }
+
+  update(close: number): BollingerWidthPoint {
+    return this.width(close, this.bands.update(close));
+  }
+
+  private width(close: number, { upper, middle, lower }: BandPoint): BollingerWidthPoint {
+    if (isNaN(middle)) return { percentB: NaN, bandwidth: NaN };
+    const width = upper - lower;
+    return {
+      percentB: width > 0 ? (close - lower) / width : 0.5,
+      bandwidth: middle !== 0 ? (width / middle) * 100 : 0,
+    };
+  }
+}
+
+export interface SqueezePoint {
+  on: boolean;      // Bollinger Bands inside the Keltner Channels
+  fired: boolean;   // squeeze released on this bar
+  momentum: number; // linear regression of the close against the midpoint of its range
+}
+
+// Least-squares line through the values (x = 0, 1, ...), evaluated at the last one
+function linearRegressionEnd(values: number[]): number {
+  const n = values.length;
+  let sumX = 0, sumY = 0, sumXY = 0, sumXX = 0;
+  values.forEach((y, x) => {
+    sumX += x;
+    sumY += y;
+    sumXY += x * y;
+    sumXX += x * x;
+  });
+  const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
+  return sumY / n + slope * (n - 1 - sumX / n);
+}
+
+// TTM-style squeeze: volatility is compressed while the Bollinger Bands sit inside the
+// Keltner Channels, and the squeeze fires on the first bar they move back outside
+export class IncrementalSqueeze implements StreamingIndicator<OHLCV, SqueezePoint> {
+  private bands: IncrementalBollingerBands;
+  private keltner: IncrementalKeltnerChannels;
+  private basis: IncrementalSMA;
+  private range: RollingExtremes;
+  private deltas: number[] = []; // committed momentum inputs, at most period - 1
+  private committedBars = 0;
+  private wasOn = false;         // squeeze state of the last committed bar
+  private pending: { candle: OHLCV; delta: number; on: boolean } | null = null;
+
+  constructor(private period: number = 20, bbMultiplier: number = 2, kcMultiplier: number = 1.5) {
+    this.bands = new IncrementalBollingerBands(period, bbMultiplier);
+    this.keltner = new IncrementalKeltnerChannels(period, period, kcMultiplier);
+    this.basis = new IncrementalSMA(period);
+    this.range = new RollingExtremes(period);
+  }
+
+  add(candle: OHLCV): SqueezePoint {
+    if (this.pending) {
+      const { candle: last, delta, on } = this.pending;
+      this.range.commit(last.high, last.low);
+      if (!isNaN(delta)) {
+        this.deltas.push(delta);
+        if (this.deltas.length > this.period - 1) this.deltas.shift();
+      }
+      this.wasOn = on;
+      this.committedBars++;
+    }
+    return this.next(candle, this.bands.add(candle.close), this.keltner.add(candle), this.basis.add(candle.close));
+  }
+
+  update(candle: OHLCV): SqueezePoint {
+    return this.next(candle, this.bands.update(candle.close), this.keltner.update(candle), this.basis.update(candle.close));
+  }
+
+  private next(candle: OHLCV, bands: BandPoint, keltner: BandPoint, basis: number): SqueezePoint {
+    const ready = !isNaN(bands.middle) && !isNaN(keltner.middle);
+    const on = ready && bands.upper < keltner.upper && bands.lower > keltner.lower;
+
+    let delta = NaN;
+    if (this.committedBars >= this.period - 1 && !isNaN(basis)) {
+      const { high, low } = this.range.peek(candle.high, candle.low);
+      delta = candle.close - ((high + low) / 2 + basis) / 2;
+    }
+    const momentum = !isNaN(delta) && this.deltas.length === this.period - 1
+      ? linearRegressionEnd([...this.deltas, delta])
+      : NaN;
+
+    this.pending = { candle, delta, on };
+    return { on, fired: ready && this.wasOn && !on, momentum };
+  }
+}
+
+export type VolatilityMethod = 'closeToClose' | 'parkinson' | 'garmanKlass';
+
+const LN2 = Math.log(2);
+
+// Annualized realized volatility over `period` bars, in percent. Close-to-close is the
+// sample deviation of log returns; Parkinson uses the high-low range and Garman-Klass
+// adds the open-close move, both more efficient estimators on the same bars.
+export class IncrementalHistoricalVolatility extends PendingIndicator<OHLCV, number> {
+  private sum: RollingSum;
+  private squares: RollingSum;
+  private prevClose = NaN;
+
+  constructor(private method: VolatilityMethod = 'closeToClose', private period: number = 20, private barsPerYear: number = 365) {
+    super();
+    this.sum = new RollingSum(period - 1);
+    this.squares = new RollingSum(period - 1);
+  }
+
+  // Per-bar term: a log return, or a variance estimate for the range-based methods
+  private term(candle: OHLCV): number {
+    const range = Math.log(candle.high / candle.low);
+    switch (this.method) {
+      case 'closeToClose':
+        return Math.log(candle.close / this.prevClose);
+      case 'parkinson':
+        return (range * range) / (4 * LN2);
+      case 'garmanKlass': {
+        const body = Math.log(candle.close / candle.open);
+        return 0.5 * range * range - (2 * LN2 - 1) * body * body;
+      }
+    }
+  }
+
+  protected compute(candle: OHLCV): number {
+    const term = this.term(candle);
+    let variance: number;
+    if (this.method === 'closeToClose') {
+      // The first bar has no return, so a full window needs one more bar
+      if (this.index < this.period) return NaN;
+      const sum = this.sum.sum + term;
+      variance = (this.squares.sum + term * term - (sum * sum) / this.period) / (this.period - 1);
+    } else {
+      if (this.index < this.period - 1) return NaN;
+      variance = (this.sum.sum + term) / this.period;
+    }
+    return Math.sqrt(Math.max(0, variance) * this.barsPerYear) * 100;
+  }
+
+  protected commit(candle: OHLCV): void {
+    const term = this.term(candle);
+    if (!isNaN(term)) {
+      this.sum.push(term);
+      this.squares.push(term * term);
+    }
+    this.prevClose = candle.close;
+  }
+}
+
+function barsFingerprint(bars: OHLCV[], count: number): string {
+  const full = (bar: OHLCV) => `${bar.time}:${bar.open}:${bar.high}:${bar.low}:${bar.close}`;
+  const last = bars[count - 1];
+  return [
+    full(bars[0]),
+    count > 1 ? full(bars[count - 2]) : '',
+    `${last.time}:${last.open}`,
+  ].join('|');
+}
+
+/**
+ * Keeps an indicator in step with a bar array that grows at the end (loaded history
+ * plus live bars). Each sync re-feeds the previously last bar as an update and adds
+ * the new ones; any other change (new symbol, shorter array) starts over. Bars are
+ * matched by prices as well as times, since another series can share the timestamps.
+ * `values` always equals the batch output for the synced bars.
+ */
+export class BarSeriesCursor<In, Out> {
+  values: Out[] = [];
+  private indicator: StreamingIndicator<In, Out>;
+  // Fingerprint of the synced bars: the first and last settled bars in full, and the
+  // time and open of the last one, which live updates may still change otherwise
+  private fingerprint: string | null = null;
+
+  constructor(private create: () => StreamingIndicator<In, Out>, private select: (bar: OHLCV) => In) {
+    this.indicator = create();
+  }
+
+  sync(bars: OHLCV[]): Out[] {
+    const seen = this.values.length;
+    const continues = seen > 0
+      && bars.length >= seen
+      && barsFingerprint(bars, seen) === this.fingerprint;
+
+    let start = 0;
+    if (continues) {
+      this.values[seen - 1] = this.indicator.update(this.select(bars[seen - 1]));
+      start = seen;
+    } else {
+      this.indicator = this.create();
+      this.values = [];
+    }
+
+    for (let i = start; i < bars.length; i++) {
+      this.values.push(this.indicator.add(this.select(bars[i])));
+    }
+
+    this.fingerprint = bars.length > 0 ? barsFingerprint(bars, bars.length) : null;
+    return this.values;
+  }
+}
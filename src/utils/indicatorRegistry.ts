@@ -0,0 +1,796 @@
+// Indicator registry
+//
+// Every chartable indicator is declared once here: its input, parameters (with
+// defaults and ranges), outputs and where it is drawn. The toolbar, settings dialog,
+// chart overlays, indicator panes and the URL/template format are all driven from
+// these definitions, and a chart can hold several instances of the same indicator.
+
+import type { LineWidth } from 'lightweight-charts';
+import {
+  OHLCV,
+  FibonacciRetracement,
+  IchimokuCloud,
+  PivotMethod,
+  PivotPoints,
+  ZigZag,
+  ZigZagThreshold,
+} from './indicators';
+import {
+  IncrementalAccumulationDistribution,
+  IncrementalADX,
+  IncrementalATR,
+  IncrementalBollingerBands,
+  IncrementalBollingerWidth,
+  IncrementalCMF,
+  IncrementalDonchianChannels,
+  IncrementalEMA,
+  IncrementalHistoricalVolatility,
+  IncrementalKeltnerChannels,
+  IncrementalKlinger,
+  IncrementalMACD,
+  IncrementalMFI,
+  IncrementalOBV,
+  IncrementalParabolicSAR,
+  IncrementalRSI,
+  IncrementalSessionVWAP,
+  IncrementalSMA,
+  IncrementalSqueeze,
+  IncrementalStochasticRSI,
+  IncrementalSupertrend,
+  IncrementalVolumeOscillator,
+  SessionPeriod,
+  StreamingIndicator,
+} from './indicatorEngine';
+
+export type IndicatorPane = 'overlay' | 'separate';
+export type IndicatorInput = 'close' | 'ohlc' | 'ohlcv';
+
+export type ParamValue = number | string | boolean;
+export type IndicatorParams = Record<string, ParamValue>;
+
+export type IndicatorParam =
+  | { key: string; label: string; type: 'number'; default: number; min: number; max: number; step?: number }
+  | { key: string; label: string; type: 'select'; default: string; options: { value: string; label: string }[] }
+  | { key: string; label: string; type: 'boolean'; default: boolean };
+
+// How an output is drawn:
+// line / dashed   - plain line (the only styles that extend with live bars)
+// histogram       - bars colored by sign
+// rising          - bars colored by whether they rose from the previous bar
+// momentum        - signed bars, brighter while they grow away from zero
+// points          - markers, green/red by the `flag` output
+// trend           - line split into green/red segments by the `flag` output
+// state           - dots on the zero line, red while the output is 1
+// flag            - not drawn; a 0/1 series other outputs are colored by
+export type OutputStyle = 'line' | 'dashed' | 'histogram' | 'rising' | 'momentum' | 'points' | 'trend' | 'state' | 'flag';
+
+export interface IndicatorOutput {
+  key: string;
+  label: string; // series title; empty for unlabelled overlay lines
+  color: string;
+  style?: OutputStyle;
+  lineWidth?: LineWidth;
+  flag?: string; // output key for `points` and `trend` coloring
+}
+
+// Values of one bar, by output key (flags are 1 / 0)
+export type IndicatorValues = Record<string, number>;
+
+// Facts about the chart an indicator may need beyond its parameters
+export interface IndicatorContext {
+  barsPerYear: number;
+}
+
+interface BaseDefinition {
+  type: string;
+  name: string;  // toolbar label
+  title: string; // full name for pane headers and the settings dialog
+  input: IndicatorInput;
+  pane: IndicatorPane;
+  params: IndicatorParam[];
+}
+
+export interface SeriesIndicatorDefinition extends BaseDefinition {
+  kind: 'series';
+  outputs: IndicatorOutput[];
+  levels?: { value: number; color: string }[]; // reference lines in a separate pane
+  // Incremental form, fed bar by bar (also used for live bars)
+  stream?: (params: IndicatorParams, context: IndicatorContext) => StreamingIndicator<OHLCV, IndicatorValues>;
+  // Whole-series form, for indicators that look ahead (Ichimoku's lagging span)
+  compute?: (candles: OHLCV[], params: IndicatorParams, context: IndicatorContext) => Record<string, number[]>;
+}
+
+export interface PriceLevel {
+  label: string;
+  price: number;
+  color: string;
+}
+
+// Horizontal price lines for the latest bars rather than a value per bar
+export interface LevelIndicatorDefinition extends BaseDefinition {
+  kind: 'levels';
+  levels: (candles: OHLCV[], params: IndicatorParams) => PriceLevel[];
+}
+
+export type IndicatorDefinition = SeriesIndicatorDefinition | LevelIndicatorDefinition;
+
+export interface IndicatorInstance {
+  id: string; // unique per chart, e.g. 'sma-2'
+  type: string;
+  params: IndicatorParams;
+}
+
+// Feeds bars to an incremental indicator and names its outputs
+function streamOf<In, Out>(
+  indicator: StreamingIndicator<In, Out>,
+  select: (bar: OHLCV) => In,
+  values: (out: Out) => IndicatorValues
+): StreamingIndicator<OHLCV, IndicatorValues> {
+  return {
+    add: bar => values(indicator.add(select(bar))),
+    update: bar => values(indicator.update(select(bar))),
+  };
+}
+
+const close = (bar: OHLCV) => bar.close;
+const bar = (candle: OHLCV) => candle;
+const num = (params: IndicatorParams, key: string) => params[key] as number;
+const flag = (value: boolean) => (value ? 1 : 0);
+
+const period = (defaultValue: number, label = 'Period', max = 200): IndicatorParam =>
+  ({ key: 'period', label, type: 'number', default: defaultValue, min: 2, max });
+
+const FIB_COLORS: Record<string, string> = {
+  '0%': 'rgba(255, 152, 0, 0.8)',     // Orange - high
+  '23.6%': 'rgba(255, 193, 7, 0.6)',  // Amber
+  '38.2%': 'rgba(255, 235, 59, 0.6)', // Yellow
+  '50%': 'rgba(76, 175, 80, 0.6)',    // Green - key level
+  '61.8%': 'rgba(33, 150, 243, 0.6)', // Blue - golden ratio
+  '78.6%': 'rgba(156, 39, 176, 0.6)', // Purple
+  '100%': 'rgba(255, 152, 0, 0.8)',   // Orange - low
+};
+
+const SESSION_OPTIONS: { value: SessionPeriod; label: string }[] = [
+  { value: 'day', label: 'Daily' },
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+];
+
+export const INDICATORS: IndicatorDefinition[] = [
+  // Overlays
+  {
+    kind: 'series',
+    type: 'sma',
+    name: 'SMA',
+    title: 'Simple Moving Average',
+    input: 'close',
+    pane: 'overlay',
+    params: [period(20, 'Period', 500)],
+    outputs: [{ key: 'value', label: '', color: '#2962ff' }],
+    stream: p => streamOf(new IncrementalSMA(num(p, 'period')), close, value => ({ value })),
+  },
+  {
+    kind: 'series',
+    type: 'ema',
+    name: 'EMA',
+    title: 'Exponential Moving Average',
+    input: 'close',
+    pane: 'overlay',
+    params: [period(12, 'Period', 500)],
+    outputs: [{ key: 'value', label: '', color: '#00bcd4' }],
+    stream: p => streamOf(new IncrementalEMA(num(p, 'period')), close, value => ({ value })),
+  },
+  {
+    kind: 'series',
+    type: 'bb',
+    name: 'Bollinger',
+    title: 'Bollinger Bands',
+    input: 'close',
+    pane: 'overlay',
+    params: [
+      period(20),
+      { key: 'stdDev', label: 'Std dev', type: 'number', default: 2, min: 0.5, max: 5, step: 0.1 },
+    ],
+    outputs: [
+      { key: 'upper', label: '', color: 'rgba(76, 175, 80, 0.5)' },
+      { key: 'lower', label: '', color: 'rgba(76, 175, 80, 0.5)' },
+    ],
+    stream: p => streamOf(new IncrementalBollingerBands(num(p, 'period'), num(p, 'stdDev')), close, b => ({ upper: b.upper, lower: b.lower })),
+  },
+  {
+    kind: 'series',
+    type: 'vwap',
+    name: 'VWAP',
+    title: 'Session VWAP',
+    input: 'ohlcv',
+    pane: 'overlay',
+    params: [
+      { key: 'reset', label: 'Session reset (UTC)', type: 'select', default: 'day', options: SESSION_OPTIONS },
+      { key: 'bands', label: '±1σ / ±2σ bands', type: 'boolean', default: true },
+    ],
+    outputs: [
+      { key: 'vwap', label: '', color: '#e91e63', lineWidth: 2 },
+      { key: 'upper1', label: '', color: 'rgba(233, 30, 99, 0.45)', style: 'dashed' },
+      { key: 'lower1', label: '', color: 'rgba(233, 30, 99, 0.45)', style: 'dashed' },
+      { key: 'upper2', label: '', color: 'rgba(233, 30, 99, 0.25)', style: 'dashed' },
+      { key: 'lower2', label: '', color: 'rgba(233, 30, 99, 0.25)', style: 'dashed' },
+    ],
+    stream: p => streamOf(new IncrementalSessionVWAP(p.reset as SessionPeriod), bar, ({ vwap, stdDev }) => {
+      const band = (multiplier: number) => (p.bands ? vwap + multiplier * stdDev : NaN);
+      return { vwap, upper1: band(1), lower1: band(-1), upper2: band(2), lower2: band(-2) };
+    }),
+  },
+  {
+    kind: 'levels',
+    type: 'fib',
+    name: 'Fibonacci',
+    title: 'Fibonacci Retracement',
+    input: 'ohlc',
+    pane: 'overlay',
+    params: [],
+    levels: candles => FibonacciRetracement(candles).map(fib => ({
+      label: `Fib ${fib.label}`,
+      price: fib.price,
+      color: FIB_COLORS[fib.label] || 'rgba(158, 158, 158, 0.5)',
+    })),
+  },
+  {
+    kind: 'levels',
+    type: 'pivots',
+    name: 'Pivots',
+    title: 'Pivot Points',
+    input: 'ohlc',
+    pane: 'overlay',
+    params: [
+      {
+        key: 'method',
+        label: 'Formula',
+        type: 'select',
+        default: 'classic',
+        options: [
+          { value: 'classic', label: 'Classic' },
+          { value: 'fibonacci', label: 'Fibonacci' },
+          { value: 'camarilla', label: 'Camarilla' },
+          { value: 'woodie', label: 'Woodie' },
+          { value: 'demark', label: 'DeMark' },
+        ],
+      },
+      {
+        key: 'timeframe',
+        label: 'From the prior',
+        type: 'select',
+        default: 'day',
+        options: [
+          { value: 'day', label: 'Day' },
+          { value: 'week', label: 'Week' },
+          { value: 'month', label: 'Month' },
+        ],
+      },
+    ],
+    // Resistance red, supports green, pivot amber
+    levels: (candles, p) => PivotPoints(candles, p.method as PivotMethod, p.timeframe as SessionPeriod).map(level => ({
+      ...level,
+      color: level.label.startsWith('R') ? 'rgba(239, 83, 80, 0.8)'
+        : level.label.startsWith('S') ? 'rgba(38, 166, 154, 0.8)'
+        : 'rgba(255, 193, 7, 0.9)',
+    })),
+  },
+  {
+    kind: 'series',
+    type: 'ichimoku',
+    name: 'Ichimoku',
+    title: 'Ichimoku Cloud',
+    input: 'ohlc',
+    pane: 'overlay',
+    params: [
+      { key: 'tenkan', label: 'Conversion', type: 'number', default: 9, min: 2, max: 100 },
+      { key: 'kijun', label: 'Base', type: 'number', default: 26, min: 2, max: 200 },
+      { key: 'senkouB', label: 'Leading span B', type: 'number', default: 52, min: 2, max: 300 },
+      { key: 'displacement', label: 'Displacement', type: 'number', default: 26, min: 0, max: 200 },
+    ],
+    outputs: [
+      { key: 'tenkanSen', label: 'Tenkan', color: '#2962ff' },
+      { key: 'kijunSen', label: 'Kijun', color: '#b71c1c' },
+      { key: 'senkouSpanA', label: 'Span A', color: 'rgba(76, 175, 80, 0.5)' },
+      { key: 'senkouSpanB', label: 'Span B', color: 'rgba(244, 67, 54, 0.5)' },
+      { key: 'chikouSpan', label: 'Chikou', color: 'rgba(156, 39, 176, 0.7)', style: 'dashed' },
+    ],
+    compute: (candles, p) => ({
+      ...IchimokuCloud(candles, num(p, 'tenkan'), num(p, 'kijun'), num(p, 'senkouB'), num(p, 'displacement')),
+    }),
+  },
+  {
+    kind: 'series',
+    type: 'sar',
+    name: 'Parabolic SAR',
+    title: 'Parabolic SAR',
+    input: 'ohlc',
+    pane: 'overlay',
+    params: [
+      { key: 'step', label: 'Step', type: 'number', default: 0.02, min: 0.001, max: 0.2, step: 0.001 },
+      { key: 'maxStep', label: 'Max step', type: 'number', default: 0.2, min: 0.01, max: 1, step: 0.01 },
+    ],
+    outputs: [
+      { key: 'sar', label: 'SAR', color: '#26a69a', style: 'points', flag: 'uptrend' },
+      { key: 'uptrend', label: '', color: '', style: 'flag' },
+    ],
+    stream: p => streamOf(new IncrementalParabolicSAR(num(p, 'step'), num(p, 'maxStep')), bar, point => ({
+      sar: point.value,
+      uptrend: flag(point.uptrend),
+    })),
+  },
+  {
+    kind: 'series',
+    type: 'supertrend',
+    name: 'Supertrend',
+    title: 'Supertrend',
+    input: 'ohlc',
+    pane: 'overlay',
+    params: [
+      period(10, 'ATR period'),
+      { key: 'multiplier', label: 'ATR multiplier', type: 'number', default: 3, min: 0.5, max: 10, step: 0.1 },
+    ],
+    outputs: [
+      { key: 'supertrend', label: '', color: '#26a69a', style: 'trend', flag: 'uptrend', lineWidth: 2 },
+      { key: 'uptrend', label: '', color: '', style: 'flag' },
+    ],
+    stream: p => streamOf(new IncrementalSupertrend(num(p, 'period'), num(p, 'multiplier')), bar, point => ({
+      supertrend: point.value,
+      uptrend: flag(point.uptrend),
+    })),
+  },
+  {
+    kind: 'series',
+    type: 'zigzag',
+    name: 'ZigZag',
+    title: 'ZigZag',
+    input: 'ohlc',
+    pane: 'overlay',
+    params: [
+      {
+        key: 'threshold',
+        label: 'Threshold',
+        type: 'select',
+        default: 'percent',
+        options: [
+          { value: 'percent', label: 'Percent' },
+          { value: 'atr', label: 'ATR multiple' },
+        ],
+      },
+      { key: 'size', label: 'Minimum swing', type: 'number', default: 5, min: 0.1, max: 50, step: 0.1 },
+      { key: 'lookback', label: 'Pivot bars each side', type: 'number', default: 2, min: 1, max: 20 },
+    ],
+    outputs: [{ key: 'value', label: '', color: '#ffeb3b', lineWidth: 2 }],
+    // Swings are only confirmed bars later, so the whole line is recomputed
+    compute: (candles, p) => {
+      const value = candles.map(() => NaN);
+      ZigZag(candles, p.threshold as ZigZagThreshold, num(p, 'size'), num(p, 'lookback')).forEach(swing => {
+        value[swing.index] = swing.price;
+      });
+      return { value };
+    },
+  },
+  {
+    kind: 'series',
+    type: 'keltner',
+    name: 'Keltner',
+    title: 'Keltner Channels',
+    input: 'ohlc',
+    pane: 'overlay',
+    params: [
+      period(20, 'EMA period'),
+      { key: 'atrPeriod', label: 'ATR period', type: 'number', default: 10, min: 2, max: 200 },
+      { key: 'multiplier', label: 'ATR multiplier', type: 'number', default: 2, min: 0.5, max: 10, step: 0.1 },
+    ],
+    outputs: [
+      { key: 'upper', label: 'KC', color: 'rgba(0, 188, 212, 0.6)' },
+      { key: 'lower', label: 'KC', color: 'rgba(0, 188, 212, 0.6)' },
+    ],
+    stream: p => streamOf(
+      new IncrementalKeltnerChannels(num(p, 'period'), num(p, 'atrPeriod'), num(p, 'multiplier')),
+      bar,
+      b => ({ upper: b.upper, lower: b.lower })
+    ),
+  },
+  {
+    kind: 'series',
+    type: 'donchian',
+    name: 'Donchian',
+    title: 'Donchian Channels',
+    input: 'ohlc',
+    pane: 'overlay',
+    params: [period(20)],
+    outputs: [
+      { key: 'upper', label: 'DC', color: 'rgba(255, 193, 7, 0.6)' },
+      { key: 'lower', label: 'DC', color: 'rgba(255, 193, 7, 0.6)' },
+    ],
+    stream: p => streamOf(new IncrementalDonchianChannels(num(p, 'period')), bar, b => ({ upper: b.upper, lower: b.lower })),
+  },
+
+  // Separate panes
+  {
+    kind: 'series',
+    type: 'rsi',
+    name: 'RSI',
+    title: 'RSI',
+    input: 'close',
+    pane: 'separate',
+    params: [period(14, 'Period', 100)],
+    outputs: [{ key: 'rsi', label: 'RSI', color: '#9c27b0', lineWidth: 2 }],
+    levels: [
+      { value: 70, color: 'rgba(239, 83, 80, 0.4)' },
+      { value: 30, color: 'rgba(38, 166, 154, 0.4)' },
+      { value: 50, color: 'rgba(255, 255, 255, 0.15)' },
+    ],
+    stream: p => streamOf(new IncrementalRSI(num(p, 'period')), close, rsi => ({ rsi })),
+  },
+  {
+    kind: 'series',
+    type: 'macd',
+    name: 'MACD',
+    title: 'MACD',
+    input: 'close',
+    pane: 'separate',
+    params: [
+      { key: 'fast', label: 'Fast', type: 'number', default: 12, min: 2, max: 100 },
+      { key: 'slow', label: 'Slow', type: 'number', default: 26, min: 2, max: 200 },
+      { key: 'signal', label: 'Signal', type: 'number', default: 9, min: 2, max: 50 },
+    ],
+    outputs: [
+      { key: 'histogram', label: 'Histogram', color: '', style: 'histogram' },
+      { key: 'macd', label: 'MACD', color: '#2962ff', lineWidth: 2 },
+      { key: 'signal', label: 'Signal', color: '#ff6d00', style: 'dashed' },
+    ],
+    levels: [{ value: 0, color: 'rgba(255, 255, 255, 0.15)' }],
+    stream: p => streamOf(new IncrementalMACD(num(p, 'fast'), num(p, 'slow'), num(p, 'signal')), close, m => ({ ...m })),
+  },
+  {
+    kind: 'series',
+    type: 'stochRsi',
+    name: 'Stoch RSI',
+    title: 'Stochastic RSI',
+    input: 'close',
+    pane: 'separate',
+    params: [
+      { key: 'rsiPeriod', label: 'RSI period', type: 'number', default: 14, min: 2, max: 100 },
+      { key: 'stochPeriod', label: 'Stochastic period', type: 'number', default: 14, min: 2, max: 100 },
+      { key: 'k', label: '%K smoothing', type: 'number', default: 3, min: 1, max: 20 },
+      { key: 'd', label: '%D smoothing', type: 'number', default: 3, min: 1, max: 20 },
+    ],
+    outputs: [
+      { key: 'k', label: '%K', color: '#2962ff', lineWidth: 2 },
+      { key: 'd', label: '%D', color: '#ff6d00', style: 'dashed' },
+    ],
+    levels: [
+      { value: 80, color: 'rgba(239, 83, 80, 0.4)' },
+      { value: 20, color: 'rgba(38, 166, 154, 0.4)' },
+    ],
+    stream: p => streamOf(
+      new IncrementalStochasticRSI(num(p, 'rsiPeriod'), num(p, 'stochPeriod'), num(p, 'k'), num(p, 'd')),
+      close,
+      s => ({ ...s })
+    ),
+  },
+  {
+    kind: 'series',
+    type: 'atr',
+    name: 'ATR',
+    title: 'ATR',
+    input: 'ohlc',
+    pane: 'separate',
+    params: [period(14, 'Period', 100)],
+    outputs: [{ key: 'atr', label: 'ATR', color: '#ff9800', lineWidth: 2 }],
+    stream: p => streamOf(new IncrementalATR(num(p, 'period')), bar, atr => ({ atr })),
+  },
+  {
+    kind: 'series',
+    type: 'obv',
+    name: 'OBV',
+    title: 'OBV',
+    input: 'ohlcv',
+    pane: 'separate',
+    params: [],
+    outputs: [{ key: 'obv', label: 'OBV', color: '#26a69a', style: 'rising' }],
+    stream: () => streamOf(new IncrementalOBV(), bar, obv => ({ obv })),
+  },
+  {
+    kind: 'series',
+    type: 'adx',
+    name: 'ADX/DMI',
+    title: 'ADX / DMI',
+    input: 'ohlc',
+    pane: 'separate',
+    params: [period(14, 'Period', 100)],
+    outputs: [
+      { key: 'plusDI', label: '+DI', color: '#26a69a' },
+      { key: 'minusDI', label: '-DI', color: '#ef5350' },
+      { key: 'adx', label: 'ADX', color: '#ffeb3b', lineWidth: 2 },
+    ],
+    // Trend threshold: ADX above 25 means a trending market
+    levels: [{ value: 25, color: 'rgba(255, 255, 255, 0.25)' }],
+    stream: p => streamOf(new IncrementalADX(num(p, 'period')), bar, dmi => ({ ...dmi })),
+  },
+  {
+    kind: 'series',
+    type: 'mfi',
+    name: 'MFI',
+    title: 'Money Flow Index',
+    input: 'ohlcv',
+    pane: 'separate',
+    params: [period(14, 'Period', 100)],
+    outputs: [{ key: 'mfi', label: 'MFI', color: '#ab47bc', lineWidth: 2 }],
+    levels: [
+      { value: 80, color: 'rgba(239, 83, 80, 0.4)' },
+      { value: 20, color: 'rgba(38, 166, 154, 0.4)' },
+    ],
+    stream: p => streamOf(new IncrementalMFI(num(p, 'period')), bar, mfi => ({ mfi })),
+  },
+  {
+    kind: 'series',
+    type: 'cmf',
+    name: 'CMF',
+    title: 'Chaikin Money Flow',
+    input: 'ohlcv',
+    pane: 'separate',
+    params: [period(20, 'Period', 100)],
+    outputs: [{ key: 'cmf', label: 'CMF', color: '', style: 'histogram' }],
+    stream: p => streamOf(new IncrementalCMF(num(p, 'period')), bar, cmf => ({ cmf })),
+  },
+  {
+    kind: 'series',
+    type: 'ad',
+    name: 'A/D',
+    title: 'Accumulation / Distribution',
+    input: 'ohlcv',
+    pane: 'separate',
+    params: [],
+    outputs: [{ key: 'ad', label: 'A/D', color: '#42a5f5', lineWidth: 2 }],
+    stream: () => streamOf(new IncrementalAccumulationDistribution(), bar, ad => ({ ad })),
+  },
+  {
+    kind: 'series',
+    type: 'volumeOsc',
+    name: 'Vol Osc',
+    title: 'Volume Oscillator',
+    input: 'ohlcv',
+    pane: 'separate',
+    params: [
+      { key: 'fast', label: 'Fast', type: 'number', default: 5, min: 2, max: 100 },
+      { key: 'slow', label: 'Slow', type: 'number', default: 10, min: 2, max: 200 },
+    ],
+    outputs: [{ key: 'oscillator', label: 'Vol Osc %', color: '', style: 'histogram' }],
+    stream: p => streamOf(new IncrementalVolumeOscillator(num(p, 'fast'), num(p, 'slow')), bar, oscillator => ({ oscillator })),
+  },
+  {
+    kind: 'series',
+    type: 'klinger',
+    name: 'Klinger',
+    title: 'Klinger Oscillator',
+    input: 'ohlcv',
+    pane: 'separate',
+    params: [
+      { key: 'fast', label: 'Fast', type: 'number', default: 34, min: 2, max: 200 },
+      { key: 'slow', label: 'Slow', type: 'number', default: 55, min: 2, max: 300 },
+      { key: 'signal', label: 'Signal', type: 'number', default: 13, min: 2, max: 50 },
+    ],
+    outputs: [
+      { key: 'kvo', label: 'KVO', color: '#2962ff', lineWidth: 2 },
+      { key: 'signal', label: 'Signal', color: '#ff6d00', style: 'dashed' },
+    ],
+    levels: [{ value: 0, color: 'rgba(255, 255, 255, 0.15)' }],
+    stream: p => streamOf(new IncrementalKlinger(num(p, 'fast'), num(p, 'slow'), num(p, 'signal')), bar, k => ({ ...k })),
+  },
+  {
+    kind: 'series',
+    type: 'percentB',
+    name: '%B',
+    title: 'Bollinger %B',
+    input: 'close',
+    pane: 'separate',
+    params: [
+      period(20),
+      { key: 'stdDev', label: 'Std dev', type: 'number', default: 2, min: 0.5, max: 5, step: 0.1 },
+    ],
+    outputs: [{ key: 'percentB', label: '%B', color: '#42a5f5', lineWidth: 2 }],
+    levels: [
+      { value: 1, color: 'rgba(239, 83, 80, 0.4)' },
+      { value: 0, color: 'rgba(38, 166, 154, 0.4)' },
+    ],
+    stream: p => streamOf(new IncrementalBollingerWidth(num(p, 'period'), num(p, 'stdDev')), close, w => ({ percentB: w.percentB })),
+  },
+  {
+    kind: 'series',
+    type: 'bandwidth',
+    name: 'BB Width',
+    title: 'Bollinger Bandwidth',
+    input: 'close',
+    pane: 'separate',
+    params: [
+      period(20),
+      { key: 'stdDev', label: 'Std dev', type: 'number', default: 2, min: 0.5, max: 5, step: 0.1 },
+    ],
+    outputs: [{ key: 'bandwidth', label: 'BBW %', color: '#ff9800', lineWidth: 2 }],
+    stream: p => streamOf(new IncrementalBollingerWidth(num(p, 'period'), num(p, 'stdDev')), close, w => ({ bandwidth: w.bandwidth })),
+  },
+  {
+    kind: 'series',
+    type: 'squeeze',
+    name: 'Squeeze',
+    title: 'Squeeze',
+    input: 'ohlc',
+    pane: 'separate',
+    params: [
+      period(20),
+      { key: 'bbMultiplier', label: 'BB std dev', type: 'number', default: 2, min: 0.5, max: 5, step: 0.1 },
+      { key: 'kcMultiplier', label: 'KC ATR multiplier', type: 'number', default: 1.5, min: 0.5, max: 5, step: 0.1 },
+    ],
+    outputs: [
+      { key: 'momentum', label: 'Momentum', color: '', style: 'momentum' },
+      { key: 'on', label: '', color: '', style: 'state' },
+      { key: 'fired', label: '', color: '', style: 'flag' },
+    ],
+    stream: p => streamOf(
+      new IncrementalSqueeze(num(p, 'period'), num(p, 'bbMultiplier'), num(p, 'kcMultiplier')),
+      bar,
+      s => ({ momentum: s.momentum, on: flag(s.on), fired: flag(s.fired) })
+    ),
+  },
+  {
+    kind: 'series',
+    type: 'hv',
+    name: 'Hist Vol',
+    title: 'Historical Volatility (annualized %)',
+    input: 'ohlc',
+    pane: 'separate',
+    params: [period(20, 'Period', 100)],
+    outputs: [
+      { key: 'closeToClose', label: 'Close', color: '#ab47bc', lineWidth: 2 },
+      { key: 'parkinson', label: 'Parkinson', color: '#42a5f5' },
+      { key: 'garmanKlass', label: 'Garman-Klass', color: '#ff9800' },
+    ],
+    stream: (p, context) => {
+      const methods = ['closeToClose', 'parkinson', 'garmanKlass'] as const;
+      const estimators = methods.map(method =>
+        new IncrementalHistoricalVolatility(method, num(p, 'period'), context.barsPerYear));
+      const values = (results: number[]) => Object.fromEntries(methods.map((method, i) => [method, results[i]]));
+      return {
+        add: candle => values(estimators.map(e => e.add(candle))),
+        update: candle => values(estimators.map(e => e.update(candle))),
+      };
+    },
+  },
+];
+
+const BY_TYPE = new Map(INDICATORS.map(definition => [definition.type, definition]));
+
+export function getIndicator(type: string): IndicatorDefinition | undefined {
+  return BY_TYPE.get(type);
+}
+
+export function defaultParams(definition: IndicatorDefinition): IndicatorParams {
+  return Object.fromEntries(definition.params.map(param => [param.key, param.default]));
+}
+
+// Coerce a stored or user-entered value into the parameter's type and range
+function normalizeParam(param: IndicatorParam, value: unknown): ParamValue {
+  switch (param.type) {
+    case 'number': {
+      const n = typeof value === 'number' ? value : parseFloat(String(value));
+      return isFinite(n) ? Math.min(param.max, Math.max(param.min, n)) : param.default;
+    }
+    case 'select':
+      return param.options.some(o => o.value === value) ? (value as string) : param.default;
+    case 'boolean':
+      return typeof value === 'boolean' ? value : value === '1' ? true : value === '0' ? false : param.default;
+  }
+}
+
+export function normalizeParams(definition: IndicatorDefinition, params: Partial<IndicatorParams>): IndicatorParams {
+  return Object.fromEntries(definition.params.map(param => [param.key, normalizeParam(param, params[param.key])]));
+}
+
+// "RSI (14)", "MACD (12, 26, 9)", "VWAP (Daily)"; boolean switches are left out
+export function indicatorLabel(definition: IndicatorDefinition, params: IndicatorParams, name: string = definition.name): string {
+  const parts = definition.params.flatMap(param => {
+    if (param.type === 'boolean') return [];
+    if (param.type === 'select') return [param.options.find(o => o.value === params[param.key])?.label ?? String(params[param.key])];
+    return [String(params[param.key])];
+  });
+  return parts.length > 0 ? `${name} (${parts.join(', ')})` : name;
+}
+
+// Values per output over `candles`, one per bar
+export function computeIndicator(
+  definition: SeriesIndicatorDefinition,
+  candles: OHLCV[],
+  params: IndicatorParams,
+  context: IndicatorContext
+): Record<string, number[]> {
+  if (definition.compute) return definition.compute(candles, params, context);
+
+  const indicator = definition.stream!(params, context);
+  const result: Record<string, number[]> = {};
+  candles.forEach((candle, i) => {
+    const values = indicator.add(candle);
+    for (const key in values) {
+      (result[key] ??= new Array(candles.length).fill(NaN))[i] = values[key];
+    }
+  });
+  return result;
+}
+
+// Lowest free id for another instance of `type`
+function nextInstanceId(instances: IndicatorInstance[], type: string): string {
+  let n = 1;
+  while (instances.some(instance => instance.id === `${type}-${n}`)) n++;
+  return `${type}-${n}`;
+}
+
+export function addIndicatorInstance(
+  instances: IndicatorInstance[],
+  type: string,
+  params: Partial<IndicatorParams> = {}
+): IndicatorInstance[] {
+  const definition = getIndicator(type);
+  if (!definition) return instances;
+  return [...instances, { id: nextInstanceId(instances, type), type, params: normalizeParams(definition, params) }];
+}
+
+// URL / template format: one token per instance, the type followed by its parameter
+// values in declaration order, trailing defaults dropped ("sma:50", "vwap:week:0").
+export function serializeIndicators(instances: IndicatorInstance[]): string[] {
+  return instances.flatMap(instance => {
+    const definition = getIndicator(instance.type);
+    if (!definition) return [];
+    const values = definition.params.map(param => {
+      const value = instance.params[param.key];
+      return typeof value === 'boolean' ? (value ? '1' : '0') : String(value);
+    });
+    // A bare "ema" still means the old EMA 12/26 pair, so such types keep one value
+    const minLength = LEGACY_TOKENS[instance.type] ? 1 : 0;
+    while (values.length > minLength && values[values.length - 1] === String(serializedDefault(definition.params[values.length - 1]))) {
+      values.pop();
+    }
+    return [[instance.type, ...values].join(':')];
+  });
+}
+
+function serializedDefault(param: IndicatorParam): string {
+  return typeof param.default === 'boolean' ? (param.default ? '1' : '0') : String(param.default);
+}
+
+// Ids from before indicators took parameters, still found in saved links and templates
+const LEGACY_TOKENS: Record<string, string[]> = {
+  sma20: ['sma:20'],
+  sma50: ['sma:50'],
+  ema: ['ema:12', 'ema:26'],
+};
+
+// Unknown types are skipped and bad values fall back to the defaults
+export function parseIndicators(tokens: string[]): IndicatorInstance[] {
+  return tokens
+    .flatMap(token => LEGACY_TOKENS[token] ?? [token])
+    .reduce<IndicatorInstance[]>((instances, token) => {
+      const [type, ...values] = token.split(':');
+      const definition = getIndicator(type);
+      if (!definition) return instances;
+      const params = Object.fromEntries(
+        definition.params.flatMap((param, i) => (values[i] !== undefined && values[i] !== '' ? [[param.key, values[i]]] : []))
+      );
+      return addIndicatorInstance(instances, type, params);
+    }, []);
+}
+
+// Removes the instances a token describes if they are all on the chart, otherwise
+// adds the missing ones ("sma:50", or "ema" for the EMA 12/26 pair)
+export function toggleIndicatorToken(instances: IndicatorInstance[], token: string): IndicatorInstance[] {
+  const targets = parseIndicators([token]);
+  const targetTokens = serializeIndicators(targets);
+  const current = serializeIndicators(instances);
+  if (targetTokens.every(t => current.includes(t))) {
+    return instances.filter((_, i) => !targetTokens.includes(current[i]));
+  }
+  return targets
+    .filter((_, i) => !current.includes(targetTokens[i]))
+    .reduce((list, target) => addIndicatorInstance(list, target.type, target.params), instances);
+}
@@ -0,0 +1,164 @@
+import type { IChartApi, ISeriesApi } from 'lightweight-charts';
+import type { IndicatorOutput } from './indicatorRegistry';
+
+const UP = '#26a69a';
+const DOWN = '#ef5350';
+const UP_BAR = 'rgba(38, 166, 154, 0.7)';
+const DOWN_BAR = 'rgba(239, 83, 80, 0.7)';
+
+// Identifies one output series of a chart overlay, for live updates
+export function overlayKey(overlayId: string, outputKey: string): string {
+  return `${overlayId}:${outputKey}`;
+}
+
+// Line points, skipping warm-up values
+export function lineData(data: { time: number }[], values: number[]) {
+  return values
+    .map((value, i) => ({
+      time: data[i]?.time,
+      value: isNaN(value) ? null : value,
+    }))
+    .filter(d => d.time && d.value !== null);
+}
+
+// Histogram bars colored by sign
+function signedHistogramData(data: { time: number }[], values: number[]) {
+  return values
+    .map((value, i) => ({
+      time: data[i]?.time,
+      value,
+      color: value >= 0 ? UP_BAR : DOWN_BAR,
+    }))
+    .filter(d => d.time && !isNaN(d.value));
+}
+
+/**
+ * Adds the series for one indicator output, styled by `output.style`. `flags` holds
+ * the output named by `output.flag`, if any. Returns the series when it is a plain
+ * line that can be extended with live values, otherwise null.
+ */
+export function addOutputSeries(
+  chart: IChartApi,
+  data: { time: number }[],
+  output: IndicatorOutput,
+  values: number[],
+  flags?: number[],
+  color: string = output.color
+): ISeriesApi<'Line'> | null {
+  const title = output.label || undefined;
+
+  switch (output.style ?? 'line') {
+    case 'line':
+    case 'dashed': {
+      const series = chart.addLineSeries({
+        color,
+        lineWidth: output.lineWidth ?? 1,
+        lineStyle: output.style === 'dashed' ? 2 : 0,
+        title,
+      });
+      series.setData(lineData(data, values) as any);
+      return series;
+    }
+    case 'histogram':
+      chart.addHistogramSeries({ title }).setData(signedHistogramData(data, values) as any);
+      return null;
+    case 'rising':
+      chart.addHistogramSeries({ color, title }).setData(values.map((value, i) => ({
+        time: data[i].time,
+        value,
+        color: i > 0 && value >= values[i - 1] ? UP_BAR : DOWN_BAR,
+      })) as any);
+      return null;
+    case 'momentum': {
+      // Brighter while the bars grow away from zero
+      const momentumData = values
+        .map((value, i) => {
+          const prev = values[i - 1];
+          const growing = isNaN(prev) || Math.abs(value) >= Math.abs(prev);
+          const shade = growing ? 0.9 : 0.4;
+          return {
+            time: data[i].time,
+            value,
+            color: value >= 0 ? `rgba(38, 166, 154, ${shade})` : `rgba(239, 83, 80, ${shade})`,
+          };
+        })
+        .filter(d => !isNaN(d.value));
+      chart.addHistogramSeries({ title }).setData(momentumData as any);
+      return null;
+    }
+    case 'points': {
+      // e.g. SAR dots below price in an uptrend, above in a downtrend
+      const series = chart.addLineSeries({
+        lineVisible: false,
+        pointMarkersVisible: true,
+        pointMarkersRadius: 2,
+        lastValueVisible: false,
+        priceLineVisible: false,
+        title,
+      });
+      const pointData = values
+        .map((value, i) => ({
+          time: data[i]?.time,
+          value,
+          color: !flags || flags[i] === 1 ? UP : DOWN,
+        }))
+        .filter(d => d.time && !isNaN(d.value));
+      series.setData(pointData as any);
+      return null;
+    }
+    case 'trend': {
+      // One series per side so the line breaks where the trend flips
+      [1, 0].forEach((side) => {
+        const sideSeries = chart.addLineSeries({
+          color: side ? UP : DOWN,
+          lineWidth: output.lineWidth ?? 1,
+          lastValueVisible: false,
+          priceLineVisible: false,
+          title,
+        });
+        const sideData = values
+          .map((value, i) => (
+            !data[i] ? null
+              : isNaN(value) || (flags?.[i] ?? 1) !== side ? { time: data[i].time }
+              : { time: data[i].time, value }
+          ))
+          .filter(Boolean);
+        sideSeries.setData(sideData as any);
+      });
+      return null;
+    }
+    case 'state': {
+      // Dots on the zero line: red while the state is on, green otherwise
+      const series = chart.addLineSeries({
+        lineVisible: false,
+        pointMarkersVisible: true,
+        lastValueVisible: false,
+        priceLineVisible: false,
+      });
+      series.setData(values.map((value, i) => ({
+        time: data[i].time,
+        value: 0,
+        color: value === 1 ? DOWN : UP,
+      })) as any);
+      return null;
+    }
+    case 'flag':
+      return null;
+  }
+}
+
+// Dashed horizontal reference level across the whole range
+export function addLevelLine(chart: IChartApi, data: { time: number }[], value: number, color: string) {
+  if (data.length < 2) return;
+  const level = chart.addLineSeries({
+    color,
+    lineWidth: 1,
+    lineStyle: 2,
+    lastValueVisible: false,
+    priceLineVisible: false,
+  });
+  level.setData([
+    { time: data[0].time, value },
+    { time: data[data.length - 1].time, value },
+  ] as any);
+}
@@ -1,4 +1,38 @@
 // Technical Analysis Indicators
+//
+// Batch versions over whole arrays. The rolling indicators are built on the
+// incremental classes in indicatorEngine, so live updates match these exactly.
+
+import {
+  IncrementalAccumulationDistribution,
+  IncrementalADX,
+  IncrementalATR,
+  IncrementalBollingerBands,
+  IncrementalBollingerWidth,
+  IncrementalCMF,
+  IncrementalDonchianChannels,
+  IncrementalEMA,
+  IncrementalHistoricalVolatility,
+  IncrementalIchimoku,
+  IncrementalKeltnerChannels,
+  IncrementalKlinger,
+  IncrementalMACD,
+  IncrementalMFI,
+  IncrementalOBV,
+  IncrementalParabolicSAR,
+  IncrementalRSI,
+  IncrementalSessionVWAP,
+  IncrementalSMA,
+  IncrementalSqueeze,
+  IncrementalStochasticRSI,
+  IncrementalSupertrend,
+  IncrementalVolumeOscillator,
+  IncrementalVWAP,
+  SessionPeriod,
+  sessionKey,
+  VolatilityMethod,
+  VWAPReset,
+} from './indicatorEngine';
 
 export interface OHLCV {
   time: number;
@@ -11,74 +45,20 @@ export interface OHLCV {
 
 // Simple Moving Average
 export function SMA(data: number[], period: number): number[] {
-  const result: number[] = [];
-  for (let i = 0; i < data.length; i++) {
-    if (i < period - 1) {
-      result.push(NaN);
-      continue;
-    }
-    const slice = data.slice(i - period + 1, i + 1);
-    const avg = slice.reduce((a, b) => a + b, 0) / period;
-    result.push(avg);
-  }
-  return result;
+  const sma = new IncrementalSMA(period);
+  return data.map(value => sma.add(value));
 }
 
 // Exponential Moving Average
 export function EMA(data: number[], period: number): number[] {
-  const result: number[] = [];
-  const multiplier = 2 / (period + 1);
-  
-  // First EMA is SMA
-  let ema = data.slice(0, period).reduce((a, b) => a + b, 0) / period;
-  
-  for (let i = 0; i < data.length; i++) {
-    if (i < period - 1) {
-      result.push(NaN);
-      continue;
-    }
-    if (i === period - 1) {
-      result.push(ema);
-      continue;
-    }
-    ema = (data[i] - ema) * multiplier + ema;
-    result.push(ema);
-  }
-  return result;
+  const ema = new IncrementalEMA(period);
+  return data.map(value => ema.add(value));
 }
 
 // Relative Strength Index
 export function RSI(closes: number[], period: number = 14): number[] {
-  const result: number[] = [];
-  const gains: number[] = [];
-  const losses: number[] = [];
-  
-  // Calculate price changes
-  for (let i = 1; i < closes.length; i++) {
-    const change = closes[i] - closes[i - 1];
-    gains.push(change > 0 ? change : 0);
-    losses.push(change < 0 ? Math.abs(change) : 0);
-  }
-  
-  // Calculate RSI
-  for (let i = 0; i < closes.length; i++) {
-    if (i < period) {
-      result.push(NaN);
-      continue;
-    }
-    
-    const avgGain = gains.slice(i - period, i).reduce((a, b) => a + b, 0) / period;
-    const avgLoss = losses.slice(i - period, i).reduce((a, b) => a + b, 0) / period;
-    
-    if (avgLoss === 0) {
-      result.push(100);
-    } else {
-      const rs = avgGain / avgLoss;
-      result.push(100 - (100 / (1 + rs)));
-    }
-  }
-  
-  return result;
+  const rsi = new IncrementalRSI(period);
+  return closes.map(close => rsi.add(close));
 }
 
 // MACD
@@ -87,43 +67,13 @@ export function MACD(closes: number[], fastPeriod: number = 12, slowPeriod: numb
   signal: number[];
   histogram: number[];
 } {
-  const fastEMA = EMA(closes, fastPeriod);
-  const slowEMA = EMA(closes, slowPeriod);
-  
-  const macdLine: number[] = [];
-  for (let i = 0; i < closes.length; i++) {
-    if (isNaN(fastEMA[i]) || isNaN(slowEMA[i])) {
-      macdLine.push(NaN);
-    } else {
-      macdLine.push(fastEMA[i] - slowEMA[i]);
-    }
-  }
-  
-  const validMacd = macdLine.filter(v => !isNaN(v));
-  const signalLine = EMA(validMacd, signalPeriod);
-  
-  // Pad signal line
-  const paddedSignal: number[] = [];
-  let signalIdx = 0;
-  for (let i = 0; i < macdLine.length; i++) {
-    if (isNaN(macdLine[i])) {
-      paddedSignal.push(NaN);
-    } else {
-      paddedSignal.push(signalLine[signalIdx] || NaN);
-      signalIdx++;
-    }
-  }
-  
-  const histogram: number[] = [];
-  for (let i = 0; i < macdLine.length; i++) {
-    if (isNaN(macdLine[i]) || isNaN(paddedSignal[i])) {
-      histogram.push(NaN);
-    } else {
-      histogram.push(macdLine[i] - paddedSignal[i]);
-    }
-  }
-  
-  return { macd: macdLine, signal: paddedSignal, histogram };
+  const indicator = new IncrementalMACD(fastPeriod, slowPeriod, signalPeriod);
+  const points = closes.map(close => indicator.add(close));
+  return {
+    macd: points.map(p => p.macd),
+    signal: points.map(p => p.signal),
+    histogram: points.map(p => p.histogram),
+  };
 }
 
 // Bollinger Bands
@@ -132,46 +82,68 @@ export function BollingerBands(closes: number[], period: number = 20, stdDev: nu
   middle: number[];
   lower: number[];
 } {
-  const middle = SMA(closes, period);
-  const upper: number[] = [];
-  const lower: number[] = [];
-  
-  for (let i = 0; i < closes.length; i++) {
-    if (i < period - 1) {
-      upper.push(NaN);
-      lower.push(NaN);
-      continue;
-    }
-    
-    const slice = closes.slice(i - period + 1, i + 1);
-    const mean = middle[i];
-    const variance = slice.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / period;
-    const std = Math.sqrt(variance);
-    
-    upper.push(mean + stdDev * std);
-    lower.push(mean - stdDev * std);
-  }
-  
-  return { upper, middle, lower };
+  const bands = new IncrementalBollingerBands(period, stdDev);
+  const points = closes.map(close => bands.add(close));
+  return {
+    upper: points.map(p => p.upper),
+    middle: points.map(p => p.middle),
+    lower: points.map(p => p.lower),
+  };
+}
+
+// Bollinger %B and Bandwidth
+export function BollingerWidth(closes: number[], period: number = 20, stdDev: number = 2): {
+  percentB: number[];
+  bandwidth: number[];
+} {
+  const width = new IncrementalBollingerWidth(period, stdDev);
+  const points = closes.map(close => width.add(close));
+  return {
+    percentB: points.map(p => p.percentB),
+    bandwidth: points.map(p => p.bandwidth),
+  };
 }
 
-// Volume Weighted Average Price
+// Volume Weighted Average Price (cumulative over the candles given)
 export function VWAP(candles: OHLCV[]): number[] {
-  const result: number[] = [];
-  let cumulativeTPV = 0;
-  let cumulativeVolume = 0;
-  
-  for (const candle of candles) {
-    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
-    const volume = candle.volume || 1;
-    
-    cumulativeTPV += typicalPrice * volume;
-    cumulativeVolume += volume;
-    
-    result.push(cumulativeTPV / cumulativeVolume);
-  }
-  
-  return result;
+  const vwap = new IncrementalVWAP();
+  return candles.map(candle => vwap.add(candle));
+}
+
+// VWAP restarting each day, week or month (UTC), so it doesn't depend on how much
+// history is loaded, with bands at `multipliers` standard deviations
+export interface VWAPBands {
+  multiplier: number;
+  upper: number[];
+  lower: number[];
+}
+
+export function SessionVWAP(candles: OHLCV[], reset: VWAPReset = 'day', multipliers: number[] = [1, 2]): {
+  vwap: number[];
+  bands: VWAPBands[];
+} {
+  const indicator = new IncrementalSessionVWAP(reset);
+  const points = candles.map(candle => indicator.add(candle));
+  return {
+    vwap: points.map(p => p.vwap),
+    bands: multipliers.map(multiplier => ({
+      multiplier,
+      upper: points.map(p => p.vwap + multiplier * p.stdDev),
+      lower: points.map(p => p.vwap - multiplier * p.stdDev),
+    })),
+  };
+}
+
+// VWAP accumulated from the first bar at or after `anchorTime`. An anchor before the
+// first candle can't be computed from what is loaded, so it gives no values.
+export function AnchoredVWAP(candles: OHLCV[], anchorTime: number): number[] {
+  const start = candles.length > 0 && anchorTime >= candles[0].time
+    ? candles.findIndex(candle => candle.time >= anchorTime)
+    : -1;
+  if (start < 0) return candles.map(() => NaN);
+
+  const indicator = new IncrementalSessionVWAP('none');
+  return candles.map((candle, i) => (i < start ? NaN : indicator.add(candle).vwap));
 }
 
 // Fibonacci Retracement Levels
@@ -214,6 +186,160 @@ export function FibonacciRetracement(candles: OHLCV[]): FibonacciLevel[] {
   }));
 }
 
+// Pivot Points
+export type PivotMethod = 'classic' | 'fibonacci' | 'camarilla' | 'woodie' | 'demark';
+
+export interface PivotLevel {
+  label: string; // 'P', 'R1'..'R4', 'S1'..'S4'
+  price: number;
+}
+
+// Levels from one period's bar, resistances down through the pivot to supports
+function pivotLevels(bar: OHLCV, method: PivotMethod): PivotLevel[] {
+  const { open, high, low, close } = bar;
+  const range = high - low;
+  const classicPivot = (high + low + close) / 3;
+
+  switch (method) {
+    case 'classic':
+      return [
+        { label: 'R3', price: high + 2 * (classicPivot - low) },
+        { label: 'R2', price: classicPivot + range },
+        { label: 'R1', price: 2 * classicPivot - low },
+        { label: 'P', price: classicPivot },
+        { label: 'S1', price: 2 * classicPivot - high },
+        { label: 'S2', price: classicPivot - range },
+        { label: 'S3', price: low - 2 * (high - classicPivot) },
+      ];
+    case 'fibonacci':
+      return [
+        { label: 'R3', price: classicPivot + range },
+        { label: 'R2', price: classicPivot + 0.618 * range },
+        { label: 'R1', price: classicPivot + 0.382 * range },
+        { label: 'P', price: classicPivot },
+        { label: 'S1', price: classicPivot - 0.382 * range },
+        { label: 'S2', price: classicPivot - 0.618 * range },
+        { label: 'S3', price: classicPivot - range },
+      ];
+    case 'camarilla':
+      return [
+        { label: 'R4', price: close + (range * 1.1) / 2 },
+        { label: 'R3', price: close + (range * 1.1) / 4 },
+        { label: 'R2', price: close + (range * 1.1) / 6 },
+        { label: 'R1', price: close + (range * 1.1) / 12 },
+        { label: 'P', price: classicPivot },
+        { label: 'S1', price: close - (range * 1.1) / 12 },
+        { label: 'S2', price: close - (range * 1.1) / 6 },
+        { label: 'S3', price: close - (range * 1.1) / 4 },
+        { label: 'S4', price: close - (range * 1.1) / 2 },
+      ];
+    case 'woodie': {
+      const pivot = (high + low + 2 * close) / 4;
+      return [
+        { label: 'R2', price: pivot + range },
+        { label: 'R1', price: 2 * pivot - low },
+        { label: 'P', price: pivot },
+        { label: 'S1', price: 2 * pivot - high },
+        { label: 'S2', price: pivot - range },
+      ];
+    }
+    case 'demark': {
+      // Weighted towards the side the period closed on
+      const x = close < open ? high + 2 * low + close
+        : close > open ? 2 * high + low + close
+        : high + low + 2 * close;
+      return [
+        { label: 'R1', price: x / 2 - low },
+        { label: 'P', price: x / 4 },
+        { label: 'S1', price: x / 2 - high },
+      ];
+    }
+  }
+}
+
+// Pivot levels for the period of the last candle, derived from the period before it.
+// Empty until the candles reach back into a previous period.
+export function PivotPoints(
+  candles: OHLCV[],
+  method: PivotMethod = 'classic',
+  timeframe: SessionPeriod = 'day'
+): PivotLevel[] {
+  const periods = resampleToPeriod(candles, timeframe);
+  if (periods.length < 2) return [];
+  return pivotLevels(periods[periods.length - 2], method);
+}
+
+// Local peaks and troughs: bars whose high (low) beats the `lookback` bars on each side
+export function findPivots(candles: OHLCV[], lookback: number = 5): { peaks: number[]; troughs: number[] } {
+  const peaks: number[] = [];
+  const troughs: number[] = [];
+  
+  for (let i = lookback; i < candles.length - lookback; i++) {
+    let isPeak = true;
+    let isTrough = true;
+    
+    for (let j = 1; j <= lookback; j++) {
+      if (candles[i].high <= candles[i - j].high || candles[i].high <= candles[i + j].high) {
+        isPeak = false;
+      }
+      if (candles[i].low >= candles[i - j].low || candles[i].low >= candles[i + j].low) {
+        isTrough = false;
+      }
+    }
+    
+    if (isPeak) peaks.push(i);
+    if (isTrough) troughs.push(i);
+  }
+  
+  return { peaks, troughs };
+}
+
+export type ZigZagThreshold = 'percent' | 'atr';
+
+export interface SwingPoint {
+  index: number;
+  time: number;
+  price: number;
+  type: 'high' | 'low';
+}
+
+// Alternating swing highs and lows. Pivots come from findPivots; a swing only counts
+// once price has moved `size` percent (or `size` ATRs) from the previous one, and
+// of two same-side pivots in a row the more extreme is kept. With an ATR threshold,
+// swings start once the ATR has warmed up. The last few bars can't be pivots yet, so
+// the final leg forms after the fact.
+export function ZigZag(
+  candles: OHLCV[],
+  threshold: ZigZagThreshold = 'percent',
+  size: number = 5,
+  lookback: number = 2,
+  atrPeriod: number = 14
+): SwingPoint[] {
+  const { peaks, troughs } = findPivots(candles, lookback);
+  const atr = threshold === 'atr' ? ATR(candles, atrPeriod) : [];
+  const start = threshold === 'atr' ? atr.findIndex(value => Number.isFinite(value)) : 0;
+  if (start === -1) return [];
+  const candidates: SwingPoint[] = [
+    ...peaks.map(i => ({ index: i, time: candles[i].time, price: candles[i].high, type: 'high' as const })),
+    ...troughs.map(i => ({ index: i, time: candles[i].time, price: candles[i].low, type: 'low' as const })),
+  ].filter(pivot => pivot.index >= start).sort((a, b) => a.index - b.index);
+
+  const swings: SwingPoint[] = [];
+  for (const candidate of candidates) {
+    const last = swings[swings.length - 1];
+    if (!last) {
+      swings.push(candidate);
+    } else if (candidate.type === last.type) {
+      const further = candidate.type === 'high' ? candidate.price > last.price : candidate.price < last.price;
+      if (further) swings[swings.length - 1] = candidate;
+    } else {
+      const minMove = threshold === 'atr' ? atr[candidate.index] * size : last.price * size / 100;
+      if (Math.abs(candidate.price - last.price) >= minMove) swings.push(candidate);
+    }
+  }
+  return swings;
+}
+
 // Heikin Ashi Candles
 export function HeikinAshi(candles: OHLCV[]): OHLCV[] {
   if (candles.length === 0) return [];
@@ -247,117 +373,445 @@ export function HeikinAshi(candles: OHLCV[]): OHLCV[] {
   return result;
 }
 
-// Stochastic RSI
-export function StochasticRSI(
-  closes: number[],
-  rsiPeriod: number = 14,
-  stochPeriod: number = 14,
-  kSmoothing: number = 3,
-  dSmoothing: number = 3
-): { k: number[]; d: number[] } {
-  const rsiValues = RSI(closes, rsiPeriod);
-  
-  const stochK: number[] = [];
-  
-  for (let i = 0; i < rsiValues.length; i++) {
-    if (isNaN(rsiValues[i]) || i < rsiPeriod + stochPeriod - 1) {
-      stochK.push(NaN);
+// Price-driven charts
+//
+// Renko, Kagi, Point & Figure, Line Break and Range bars ignore time: a new bar forms
+// only once price has moved far enough. Each output bar carries the time of the
+// source candle it was last updated on. Several can share one, so charts plot them
+// by position rather than by time.
+
+export type BarTransform = 'renko' | 'kagi' | 'pointfigure' | 'linebreak' | 'range';
+
+export const BAR_TRANSFORMS: BarTransform[] = ['renko', 'kagi', 'pointfigure', 'linebreak', 'range'];
+
+export function isBarTransform(type: string): type is BarTransform {
+  return (BAR_TRANSFORMS as string[]).includes(type);
+}
+
+export interface BarTransformSettings {
+  boxSizing: 'fixed' | 'atr';
+  boxSize: number;   // price units, used when fixed
+  atrPeriod: number; // box size is the latest ATR otherwise
+  reversal: number;  // Point & Figure boxes needed to start a new column
+  lines: number;     // lines a Line Break reversal has to break
+}
+
+export const DEFAULT_BAR_TRANSFORM: BarTransformSettings = {
+  boxSizing: 'atr',
+  boxSize: 1,
+  atrPeriod: 14,
+  reversal: 3,
+  lines: 3,
+};
+
+// Box size for Renko and Point & Figure, Kagi's reversal amount and the Range bar size
+export function transformBoxSize(candles: OHLCV[], settings: BarTransformSettings): number {
+  if (settings.boxSizing === 'fixed') return settings.boxSize;
+  const atr = ATR(candles, settings.atrPeriod).filter(v => !isNaN(v));
+  return atr.length > 0 ? atr[atr.length - 1] : NaN;
+}
+
+// Renko bricks from closes. A brick in the same direction needs one box of movement
+// past the last brick, a reversal two.
+export function Renko(candles: OHLCV[], boxSize: number): OHLCV[] {
+  if (candles.length === 0 || !(boxSize > 0)) return [];
+
+  const bricks: OHLCV[] = [];
+  let top = candles[0].close;
+  let bottom = candles[0].close;
+
+  for (const c of candles) {
+    while (c.close >= top + boxSize) {
+      bricks.push({ time: c.time, open: top, high: top + boxSize, low: top, close: top + boxSize });
+      bottom = top;
+      top += boxSize;
+    }
+    while (c.close <= bottom - boxSize) {
+      bricks.push({ time: c.time, open: bottom, high: bottom, low: bottom - boxSize, close: bottom - boxSize });
+      top = bottom;
+      bottom -= boxSize;
+    }
+  }
+
+  return bricks;
+}
+
+export interface KagiLine extends OHLCV {
+  yang: boolean; // thick line: price broke above the previous shoulder
+}
+
+// Kagi lines from closes. The line turns once price reverses by `reversal`; it turns
+// yang (thick) above the previous shoulder and yin (thin) below the previous waist.
+export function Kagi(candles: OHLCV[], reversal: number): KagiLine[] {
+  if (candles.length === 0 || !(reversal > 0)) return [];
+
+  const lines: KagiLine[] = [];
+  let shoulder: number | undefined;
+  let waist: number | undefined;
+  let current: KagiLine | null = null;
+  const start = candles[0].close;
+
+  const finish = (line: KagiLine) => {
+    const up = line.close > line.open;
+    if (up) {
+      if (shoulder === undefined || line.close > shoulder) line.yang = true;
+      shoulder = line.close;
+    } else {
+      if (waist === undefined || line.close < waist) line.yang = false;
+      waist = line.close;
+    }
+    lines.push(line);
+  };
+
+  for (const c of candles) {
+    if (!current) {
+      if (Math.abs(c.close - start) >= reversal) {
+        current = { time: c.time, open: start, high: Math.max(start, c.close), low: Math.min(start, c.close), close: c.close, yang: c.close > start };
+      }
       continue;
     }
-    
-    const rsiSlice = rsiValues.slice(i - stochPeriod + 1, i + 1).filter(v => !isNaN(v));
-    if (rsiSlice.length < stochPeriod) {
-      stochK.push(NaN);
+
+    const up = current.close > current.open;
+    if (up ? c.close > current.close : c.close < current.close) {
+      current.close = c.close;
+      current.high = Math.max(current.high, c.close);
+      current.low = Math.min(current.low, c.close);
+      current.time = c.time;
+    } else if (Math.abs(current.close - c.close) >= reversal) {
+      const turn = current.close;
+      finish(current);
+      current = { time: c.time, open: turn, high: Math.max(turn, c.close), low: Math.min(turn, c.close), close: c.close, yang: current.yang };
+    }
+  }
+
+  // The forming line is colored by where it stands now
+  if (current) finish(current);
+  return lines;
+}
+
+// Point & Figure columns from highs and lows, as bars spanning each column's boxes
+// (rising X columns open at the bottom, falling O columns at the top)
+export function PointAndFigure(candles: OHLCV[], boxSize: number, reversal: number = 3): OHLCV[] {
+  if (candles.length === 0 || !(boxSize > 0)) return [];
+
+  // Small epsilon so prices on a box boundary count as reaching it
+  const boxFloor = (price: number) => Math.floor(price / boxSize + 1e-9) * boxSize;
+  const boxCeil = (price: number) => Math.ceil(price / boxSize - 1e-9) * boxSize;
+  const column = (time: number, rising: boolean, top: number, bottom: number): OHLCV =>
+    ({ time, open: rising ? bottom : top, high: top, low: bottom, close: rising ? top : bottom });
+
+  const columns: OHLCV[] = [];
+  const reference = boxFloor(candles[0].close);
+
+  for (const c of candles) {
+    const last = columns[columns.length - 1];
+
+    if (!last) {
+      if (boxFloor(c.high) >= reference + boxSize) columns.push(column(c.time, true, boxFloor(c.high), reference));
+      else if (boxCeil(c.low) <= reference - boxSize) columns.push(column(c.time, false, reference, boxCeil(c.low)));
       continue;
     }
-    
-    const minRSI = Math.min(...rsiSlice);
-    const maxRSI = Math.max(...rsiSlice);
-    
-    if (maxRSI === minRSI) {
-      stochK.push(50);
+
+    const rising = last.close > last.open;
+    if (rising) {
+      if (boxFloor(c.high) > last.high) {
+        columns[columns.length - 1] = column(c.time, true, boxFloor(c.high), last.low);
+      } else if (boxCeil(c.low) <= last.high - reversal * boxSize) {
+        columns.push(column(c.time, false, last.high - boxSize, boxCeil(c.low)));
+      }
     } else {
-      stochK.push(((rsiValues[i] - minRSI) / (maxRSI - minRSI)) * 100);
+      if (boxCeil(c.low) < last.low) {
+        columns[columns.length - 1] = column(c.time, false, last.high, boxCeil(c.low));
+      } else if (boxFloor(c.high) >= last.low + reversal * boxSize) {
+        columns.push(column(c.time, true, boxFloor(c.high), last.low + boxSize));
+      }
     }
   }
-  
-  // Smooth K with SMA
-  const k = SMA(stochK.map(v => isNaN(v) ? 0 : v), kSmoothing);
-  // Re-apply NaN mask
-  for (let i = 0; i < stochK.length; i++) {
-    if (isNaN(stochK[i])) k[i] = NaN;
-  }
-  
-  // D is SMA of K
-  const d = SMA(k.map(v => isNaN(v) ? 0 : v), dSmoothing);
-  for (let i = 0; i < k.length; i++) {
-    if (isNaN(k[i])) d[i] = NaN;
-  }
-  
-  return { k, d };
+
+  return columns;
 }
 
-// Average True Range (ATR)
-export function ATR(candles: OHLCV[], period: number = 14): number[] {
+// Line Break (three-line break by default) from closes. A new line continues the
+// trend past the last close; a reversal has to clear the extreme of the last
+// `lines` lines.
+export function LineBreak(candles: OHLCV[], lines: number = 3): OHLCV[] {
   if (candles.length === 0) return [];
-  
-  const trueRanges: number[] = [];
-  
-  for (let i = 0; i < candles.length; i++) {
-    if (i === 0) {
-      trueRanges.push(candles[i].high - candles[i].low);
-    } else {
-      const tr = Math.max(
-        candles[i].high - candles[i].low,
-        Math.abs(candles[i].high - candles[i - 1].close),
-        Math.abs(candles[i].low - candles[i - 1].close)
-      );
-      trueRanges.push(tr);
+
+  const result: OHLCV[] = [];
+  const reference = candles[0].close;
+
+  for (const c of candles) {
+    const last = result[result.length - 1];
+    if (!last) {
+      if (c.close !== reference) {
+        result.push({ time: c.time, open: reference, high: Math.max(reference, c.close), low: Math.min(reference, c.close), close: c.close });
+      }
+      continue;
+    }
+
+    const rising = last.close > last.open;
+    const recent = result.slice(-lines);
+    const breaksUp = rising ? c.close > last.close : c.close > Math.max(...recent.map(l => l.high));
+    const breaksDown = rising ? c.close < Math.min(...recent.map(l => l.low)) : c.close < last.close;
+
+    if (breaksUp) {
+      result.push({ time: c.time, open: last.high, high: c.close, low: last.high, close: c.close });
+    } else if (breaksDown) {
+      result.push({ time: c.time, open: last.low, high: last.low, low: c.close, close: c.close });
     }
   }
-  
-  const result: number[] = [];
-  
-  for (let i = 0; i < trueRanges.length; i++) {
-    if (i < period - 1) {
-      result.push(NaN);
-      continue;
+
+  return result;
+}
+
+// Range bars: each bar spans `range` from its low to its high. Candles are walked
+// open → nearer extreme → other extreme → close, the usual guess at the intrabar path.
+export function RangeBars(candles: OHLCV[], range: number): OHLCV[] {
+  if (candles.length === 0 || !(range > 0)) return [];
+
+  const bars: OHLCV[] = [];
+  const first = candles[0].open;
+  let bar: OHLCV = { time: candles[0].time, open: first, high: first, low: first, close: first };
+
+  const moveTo = (time: number, price: number) => {
+    // Price beyond the range closes the bar at its boundary and opens the next there
+    while (price > bar.low + range || price < bar.high - range) {
+      const boundary = price > bar.low + range ? bar.low + range : bar.high - range;
+      bars.push({ ...bar, time, high: Math.max(bar.high, boundary), low: Math.min(bar.low, boundary), close: boundary });
+      bar = { time, open: boundary, high: boundary, low: boundary, close: boundary };
     }
-    
-    if (i === period - 1) {
-      // First ATR is simple average
-      const sum = trueRanges.slice(0, period).reduce((a, b) => a + b, 0);
-      result.push(sum / period);
+    bar = { ...bar, time, high: Math.max(bar.high, price), low: Math.min(bar.low, price), close: price };
+  };
+
+  for (const c of candles) {
+    const path = c.close >= c.open ? [c.open, c.low, c.high, c.close] : [c.open, c.high, c.low, c.close];
+    path.forEach(price => moveTo(c.time, price));
+  }
+
+  // The forming bar
+  bars.push(bar);
+  return bars;
+}
+
+export function PriceDrivenBars(candles: OHLCV[], type: BarTransform, settings: BarTransformSettings): OHLCV[] {
+  if (type === 'linebreak') return LineBreak(candles, settings.lines);
+
+  const boxSize = transformBoxSize(candles, settings);
+  switch (type) {
+    case 'renko': return Renko(candles, boxSize);
+    case 'kagi': return Kagi(candles, boxSize);
+    case 'pointfigure': return PointAndFigure(candles, boxSize, settings.reversal);
+    case 'range': return RangeBars(candles, boxSize);
+  }
+}
+
+// Resample candles into fixed buckets (e.g. 1h -> 4h). Bucket times are
+// aligned to the epoch, so each bar is stamped with its bucket start.
+export function resampleOHLCV(candles: OHLCV[], bucketSeconds: number): OHLCV[] {
+  const result: OHLCV[] = [];
+
+  for (const c of candles) {
+    const bucketTime = Math.floor(c.time / bucketSeconds) * bucketSeconds;
+    const last = result[result.length - 1];
+
+    if (last && last.time === bucketTime) {
+      last.high = Math.max(last.high, c.high);
+      last.low = Math.min(last.low, c.low);
+      last.close = c.close;
+      if (c.volume !== undefined) {
+        last.volume = (last.volume || 0) + c.volume;
+      }
     } else {
-      // Subsequent ATR uses smoothing
-      result.push((result[i - 1] * (period - 1) + trueRanges[i]) / period);
+      result.push({ ...c, time: bucketTime });
     }
   }
-  
+
   return result;
 }
 
-// On-Balance Volume (OBV)
-export function OBV(candles: OHLCV[]): number[] {
-  if (candles.length === 0) return [];
-  
-  const result: number[] = [candles[0].volume || 0];
-  
-  for (let i = 1; i < candles.length; i++) {
-    const volume = candles[i].volume || 0;
-    
-    if (candles[i].close > candles[i - 1].close) {
-      result.push(result[i - 1] + volume);
-    } else if (candles[i].close < candles[i - 1].close) {
-      result.push(result[i - 1] - volume);
+// Resample candles into calendar periods (UTC days, Monday-based weeks, months).
+// Each bar is stamped with the time of its first candle.
+export function resampleToPeriod(candles: OHLCV[], period: SessionPeriod): OHLCV[] {
+  const result: OHLCV[] = [];
+  let currentKey = NaN;
+
+  for (const c of candles) {
+    const key = sessionKey(c.time, period);
+    const last = result[result.length - 1];
+
+    if (last && key === currentKey) {
+      last.high = Math.max(last.high, c.high);
+      last.low = Math.min(last.low, c.low);
+      last.close = c.close;
+      if (c.volume !== undefined) {
+        last.volume = (last.volume || 0) + c.volume;
+      }
     } else {
-      result.push(result[i - 1]);
+      result.push({ ...c });
+      currentKey = key;
     }
   }
-  
+
   return result;
 }
 
+// Stochastic RSI
+export function StochasticRSI(
+  closes: number[],
+  rsiPeriod: number = 14,
+  stochPeriod: number = 14,
+  kSmoothing: number = 3,
+  dSmoothing: number = 3
+): { k: number[]; d: number[] } {
+  const stoch = new IncrementalStochasticRSI(rsiPeriod, stochPeriod, kSmoothing, dSmoothing);
+  const points = closes.map(close => stoch.add(close));
+  return { k: points.map(p => p.k), d: points.map(p => p.d) };
+}
+
+// Average True Range (ATR)
+export function ATR(candles: OHLCV[], period: number = 14): number[] {
+  const atr = new IncrementalATR(period);
+  return candles.map(candle => atr.add(candle));
+}
+
+// Squeeze (Bollinger Bands inside Keltner Channels) with its momentum histogram
+export function Squeeze(
+  candles: OHLCV[],
+  period: number = 20,
+  bbMultiplier: number = 2,
+  kcMultiplier: number = 1.5
+): { on: boolean[]; fired: boolean[]; momentum: number[] } {
+  const squeeze = new IncrementalSqueeze(period, bbMultiplier, kcMultiplier);
+  const points = candles.map(candle => squeeze.add(candle));
+  return {
+    on: points.map(p => p.on),
+    fired: points.map(p => p.fired),
+    momentum: points.map(p => p.momentum),
+  };
+}
+
+// Annualized realized volatility (%)
+export function HistoricalVolatility(
+  candles: OHLCV[],
+  method: VolatilityMethod = 'closeToClose',
+  period: number = 20,
+  barsPerYear: number = 365
+): number[] {
+  const volatility = new IncrementalHistoricalVolatility(method, period, barsPerYear);
+  return candles.map(candle => volatility.add(candle));
+}
+
+// Bars in a year for annualizing: a bar per `barSeconds` of each trading session,
+// and at least one per trading day
+export function barsPerYear(barSeconds: number, tradingDaysPerYear: number = 365, sessionSeconds: number = 86400): number {
+  return tradingDaysPerYear * Math.max(1, sessionSeconds / barSeconds);
+}
+
+// On-Balance Volume (OBV)
+export function OBV(candles: OHLCV[]): number[] {
+  const obv = new IncrementalOBV();
+  return candles.map(candle => obv.add(candle));
+}
+
+// Money Flow Index
+export function MFI(candles: OHLCV[], period: number = 14): number[] {
+  const mfi = new IncrementalMFI(period);
+  return candles.map(candle => mfi.add(candle));
+}
+
+// Chaikin Money Flow
+export function CMF(candles: OHLCV[], period: number = 20): number[] {
+  const cmf = new IncrementalCMF(period);
+  return candles.map(candle => cmf.add(candle));
+}
+
+// Accumulation/Distribution Line
+export function AccumulationDistribution(candles: OHLCV[]): number[] {
+  const ad = new IncrementalAccumulationDistribution();
+  return candles.map(candle => ad.add(candle));
+}
+
+// Volume Oscillator (percent difference of fast and slow volume EMAs)
+export function VolumeOscillator(candles: OHLCV[], fastPeriod: number = 5, slowPeriod: number = 10): number[] {
+  const oscillator = new IncrementalVolumeOscillator(fastPeriod, slowPeriod);
+  return candles.map(candle => oscillator.add(candle));
+}
+
+// Klinger Volume Oscillator
+export function Klinger(candles: OHLCV[], fastPeriod: number = 34, slowPeriod: number = 55, signalPeriod: number = 13): {
+  kvo: number[];
+  signal: number[];
+} {
+  const klinger = new IncrementalKlinger(fastPeriod, slowPeriod, signalPeriod);
+  const points = candles.map(candle => klinger.add(candle));
+  return { kvo: points.map(p => p.kvo), signal: points.map(p => p.signal) };
+}
+
+// Average Directional Index with the directional indicators (+DI / -DI)
+export function ADX(candles: OHLCV[], period: number = 14): {
+  adx: number[];
+  plusDI: number[];
+  minusDI: number[];
+} {
+  const indicator = new IncrementalADX(period);
+  const points = candles.map(candle => indicator.add(candle));
+  return {
+    adx: points.map(p => p.adx),
+    plusDI: points.map(p => p.plusDI),
+    minusDI: points.map(p => p.minusDI),
+  };
+}
+
+// Parabolic SAR
+export function ParabolicSAR(candles: OHLCV[], step: number = 0.02, maxStep: number = 0.2): {
+  sar: number[];
+  uptrend: boolean[];
+} {
+  const indicator = new IncrementalParabolicSAR(step, maxStep);
+  const points = candles.map(candle => indicator.add(candle));
+  return { sar: points.map(p => p.value), uptrend: points.map(p => p.uptrend) };
+}
+
+// Supertrend
+export function Supertrend(candles: OHLCV[], period: number = 10, multiplier: number = 3): {
+  supertrend: number[];
+  uptrend: boolean[];
+} {
+  const indicator = new IncrementalSupertrend(period, multiplier);
+  const points = candles.map(candle => indicator.add(candle));
+  return { supertrend: points.map(p => p.value), uptrend: points.map(p => p.uptrend) };
+}
+
+// Keltner Channels
+export function KeltnerChannels(candles: OHLCV[], emaPeriod: number = 20, atrPeriod: number = 10, multiplier: number = 2): {
+  upper: number[];
+  middle: number[];
+  lower: number[];
+} {
+  const channels = new IncrementalKeltnerChannels(emaPeriod, atrPeriod, multiplier);
+  const points = candles.map(candle => channels.add(candle));
+  return {
+    upper: points.map(p => p.upper),
+    middle: points.map(p => p.middle),
+    lower: points.map(p => p.lower),
+  };
+}
+
+// Donchian Channels
+export function DonchianChannels(candles: OHLCV[], period: number = 20): {
+  upper: number[];
+  middle: number[];
+  lower: number[];
+} {
+  const channels = new IncrementalDonchianChannels(period);
+  const points = candles.map(candle => channels.add(candle));
+  return {
+    upper: points.map(p => p.upper),
+    middle: points.map(p => p.middle),
+    lower: points.map(p => p.lower),
+  };
+}
+
 // Ichimoku Cloud
 export interface IchimokuData {
   tenkanSen: number[];    // Conversion Line (9-period)
@@ -367,16 +821,6 @@ export interface IchimokuData {
   chikouSpan: number[];   // Lagging Span (displaced 26 periods back)
 }
 
-function highLowAvg(candles: OHLCV[], start: number, period: number): number {
-  let high = -Infinity;
-  let low = Infinity;
-  for (let i = start; i < start + period && i < candles.length; i++) {
-    if (candles[i].high > high) high = candles[i].high;
-    if (candles[i].low < low) low = candles[i].low;
-  }
-  return (high + low) / 2;
-}
-
 export function IchimokuCloud(
   candles: OHLCV[],
   tenkanPeriod: number = 9,
@@ -384,46 +828,17 @@ export function IchimokuCloud(
   senkouBPeriod: number = 52,
   displacement: number = 26
 ): IchimokuData {
-  const len = candles.length;
-  const tenkanSen: number[] = new Array(len).fill(NaN);
-  const kijunSen: number[] = new Array(len).fill(NaN);
-  const senkouSpanA: number[] = new Array(len + displacement).fill(NaN);
-  const senkouSpanB: number[] = new Array(len + displacement).fill(NaN);
-  const chikouSpan: number[] = new Array(len).fill(NaN);
-
-  for (let i = 0; i < len; i++) {
-    // Tenkan-sen (Conversion Line)
-    if (i >= tenkanPeriod - 1) {
-      tenkanSen[i] = highLowAvg(candles, i - tenkanPeriod + 1, tenkanPeriod);
-    }
-
-    // Kijun-sen (Base Line)
-    if (i >= kijunPeriod - 1) {
-      kijunSen[i] = highLowAvg(candles, i - kijunPeriod + 1, kijunPeriod);
-    }
-
-    // Senkou Span A (average of Tenkan & Kijun, displaced forward)
-    if (!isNaN(tenkanSen[i]) && !isNaN(kijunSen[i])) {
-      senkouSpanA[i + displacement] = (tenkanSen[i] + kijunSen[i]) / 2;
-    }
+  const ichimoku = new IncrementalIchimoku(tenkanPeriod, kijunPeriod, senkouBPeriod, displacement);
+  const points = candles.map(candle => ichimoku.add(candle));
 
-    // Senkou Span B (52-period high-low avg, displaced forward)
-    if (i >= senkouBPeriod - 1) {
-      senkouSpanB[i + displacement] = highLowAvg(candles, i - senkouBPeriod + 1, senkouBPeriod);
-    }
-
-    // Chikou Span (current close, displaced backward)
-    if (i >= displacement) {
-      chikouSpan[i - displacement] = candles[i].close;
-    }
-  }
+  // Chikou Span (current close, displaced backward)
+  const chikouSpan = candles.map((_, i) => (i + displacement < candles.length ? candles[i + displacement].close : NaN));
 
-  // Trim spans to original length for chart alignment
   return {
-    tenkanSen,
-    kijunSen,
-    senkouSpanA: senkouSpanA.slice(0, len),
-    senkouSpanB: senkouSpanB.slice(0, len),
+    tenkanSen: points.map(p => p.tenkanSen),
+    kijunSen: points.map(p => p.kijunSen),
+    senkouSpanA: points.map(p => p.senkouSpanA),
+    senkouSpanB: points.map(p => p.senkouSpanB),
     chikouSpan,
   };
 }
@@ -0,0 +1,235 @@
+// Market Profile (TPO) and volume profile
+//
+// A TPO profile cuts each session into fixed periods lettered A, B, C... and every
+// price row a period trades through gets that period's letter once. A volume profile
+// spreads each bar's volume over the rows it spans. Either way the busiest rows mark
+// where the market did its business. Sessions are UTC days, like session VWAP.
+
+import type { OHLCV } from './indicators';
+import { sessionKey } from './indicatorEngine';
+
+// Periods past the 52nd share the last letter
+const TPO_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+const VALUE_AREA_SHARE = 0.7;
+
+export type ProfileMode = 'session' | 'composite';
+
+export interface TPORow {
+  price: number;   // bottom of the row
+  letters: string; // one per period that traded here, in time order
+}
+
+export interface MarketProfile {
+  start: number; // first bar time
+  end: number;   // last bar time
+  sessions: number;
+  rowSize: number;
+  rows: TPORow[]; // ascending by price
+  poc: number;    // middle of the row with the most TPOs
+  valueAreaHigh: number;
+  valueAreaLow: number;
+  // First two periods (A and B); single-session profiles only
+  initialBalance?: { high: number; low: number };
+  // Rows with one TPO between busier rows (tails at the extremes are left out)
+  singlePrints: number[];
+}
+
+export interface ProfileOptions {
+  mode: ProfileMode;
+  sessions: number;      // latest sessions to show, or to combine into a composite
+  periodMinutes: number; // length of one TPO period
+}
+
+export function groupBySession(bars: OHLCV[]): OHLCV[][] {
+  const groups: OHLCV[][] = [];
+  let currentKey: number | null = null;
+  for (const bar of bars) {
+    const key = sessionKey(bar.time, 'day');
+    if (key !== currentKey) {
+      groups.push([]);
+      currentKey = key;
+    }
+    groups[groups.length - 1].push(bar);
+  }
+  return groups;
+}
+
+// Smallest 1, 2, 2.5 or 5 times a power of ten that is at least `size`
+function niceSize(size: number): number {
+  if (!(size > 0)) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(size)));
+  const step = [1, 2, 2.5, 5, 10].find(s => s * magnitude >= size) ?? 10;
+  return step * magnitude;
+}
+
+// Row height giving a typical session about 30 rows
+export function profileRowSize(sessions: OHLCV[][]): number {
+  const ranges = sessions
+    .map(bars => Math.max(...bars.map(b => b.high)) - Math.min(...bars.map(b => b.low)))
+    .filter(range => range > 0)
+    .sort((a, b) => a - b);
+  return niceSize(ranges.length > 0 ? ranges[Math.floor(ranges.length / 2)] / 30 : 0);
+}
+
+// Value area: grow out from the POC, two rows at a time on the busier side, until
+// it holds 70% of the total. Returns the lowest and highest row index inside.
+function valueArea(counts: number[], pocIndex: number): { low: number; high: number } {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  const sum = (from: number, to: number) =>
+    counts.slice(Math.max(0, from), Math.max(0, to)).reduce((acc, count) => acc + count, 0);
+  let low = pocIndex;
+  let high = pocIndex;
+  let count = counts[pocIndex];
+  while (count < total * VALUE_AREA_SHARE && (low > 0 || high < counts.length - 1)) {
+    const above = high < counts.length - 1 ? sum(high + 1, high + 3) : -1;
+    const below = low > 0 ? sum(low - 2, low) : -1;
+    if (above >= below) {
+      count += above;
+      high = Math.min(counts.length - 1, high + 2);
+    } else {
+      count += below;
+      low = Math.max(0, low - 2);
+    }
+  }
+  return { low, high };
+}
+
+function buildProfile(sessions: OHLCV[][], rowSize: number, periodSeconds: number): MarketProfile | null {
+  const bars = sessions.flat();
+  if (bars.length === 0) return null;
+
+  // Row index -> letters, plus the last session/period counted so each prints once
+  const letters = new Map<number, string[]>();
+  const lastPrint = new Map<number, string>();
+  sessions.forEach((sessionBars, s) => {
+    const open = sessionBars[0].time;
+    sessionBars.forEach(bar => {
+      const period = Math.floor((bar.time - open) / periodSeconds);
+      const letter = TPO_LETTERS[Math.min(period, TPO_LETTERS.length - 1)];
+      const print = `${s}:${period}`;
+      for (let row = Math.floor(bar.low / rowSize); row <= Math.floor(bar.high / rowSize); row++) {
+        if (lastPrint.get(row) === print) continue;
+        lastPrint.set(row, print);
+        const rowLetters = letters.get(row);
+        if (rowLetters) rowLetters.push(letter);
+        else letters.set(row, [letter]);
+      }
+    });
+  });
+
+  const indexes = Array.from(letters.keys());
+  const lowest = Math.min(...indexes);
+  const highest = Math.max(...indexes);
+  const rows: TPORow[] = [];
+  for (let row = lowest; row <= highest; row++) {
+    rows.push({ price: row * rowSize, letters: (letters.get(row) ?? []).join('') });
+  }
+
+  // Point of control; ties go to the row nearest the middle of the range
+  const middle = (rows.length - 1) / 2;
+  let pocIndex = 0;
+  rows.forEach((row, i) => {
+    const best = rows[pocIndex].letters.length;
+    if (row.letters.length > best || (row.letters.length === best && Math.abs(i - middle) < Math.abs(pocIndex - middle))) {
+      pocIndex = i;
+    }
+  });
+
+  const { low, high } = valueArea(rows.map(row => row.letters.length), pocIndex);
+
+  // Initial balance from the bars of the first two periods
+  let initialBalance: MarketProfile['initialBalance'];
+  if (sessions.length === 1) {
+    const opening = bars.filter(bar => bar.time - bars[0].time < 2 * periodSeconds);
+    initialBalance = {
+      high: Math.max(...opening.map(b => b.high)),
+      low: Math.min(...opening.map(b => b.low)),
+    };
+  }
+
+  const firstBusy = rows.findIndex(row => row.letters.length > 1);
+  const lastBusy = rows.length - 1 - [...rows].reverse().findIndex(row => row.letters.length > 1);
+  const singlePrints = firstBusy === -1 ? [] : rows
+    .filter((row, i) => row.letters.length === 1 && i > firstBusy && i < lastBusy)
+    .map(row => row.price);
+
+  return {
+    start: bars[0].time,
+    end: bars[bars.length - 1].time,
+    sessions: sessions.length,
+    rowSize,
+    rows,
+    poc: rows[pocIndex].price + rowSize / 2,
+    valueAreaHigh: rows[high].price + rowSize,
+    valueAreaLow: rows[low].price,
+    initialBalance,
+    singlePrints,
+  };
+}
+
+// One profile per session for the latest sessions, or a single composite of them
+export function marketProfiles(bars: OHLCV[], options: ProfileOptions): MarketProfile[] {
+  const sessions = groupBySession(bars).slice(-options.sessions);
+  if (sessions.length === 0) return [];
+
+  const rowSize = profileRowSize(sessions);
+  const periodSeconds = options.periodMinutes * 60;
+  const profiles = options.mode === 'composite'
+    ? [buildProfile(sessions, rowSize, periodSeconds)]
+    : sessions.map(session => buildProfile([session], rowSize, periodSeconds));
+  return profiles.filter((profile): profile is MarketProfile => profile !== null);
+}
+
+export interface VolumeRow {
+  price: number; // bottom of the row
+  up: number;    // volume from rising bars
+  down: number;  // volume from falling bars
+}
+
+export interface VolumeProfile {
+  rowSize: number;
+  rows: VolumeRow[]; // ascending by price
+  poc: number;       // middle of the row with the most volume
+  valueAreaHigh: number;
+  valueAreaLow: number;
+}
+
+// Each bar's volume is spread evenly over the rows its range covers. Bars without
+// volume are skipped rather than guessed at; null when none have any.
+export function volumeProfile(bars: OHLCV[], rowCount: number): VolumeProfile | null {
+  const traded = bars.filter(bar => (bar.volume ?? 0) > 0);
+  if (traded.length === 0 || rowCount < 1) return null;
+
+  const low = Math.min(...traded.map(bar => bar.low));
+  const high = Math.max(...traded.map(bar => bar.high));
+  const count = high > low ? rowCount : 1;
+  const rowSize = high > low ? (high - low) / rowCount : Math.abs(high) * 0.001 || 1;
+  const rowOf = (price: number) => Math.min(count - 1, Math.max(0, Math.floor((price - low) / rowSize)));
+  const rows: VolumeRow[] = Array.from({ length: count }, (_, i) => ({ price: low + i * rowSize, up: 0, down: 0 }));
+
+  for (const bar of traded) {
+    const side = bar.close >= bar.open ? 'up' : 'down';
+    const range = bar.high - bar.low;
+    const first = rowOf(bar.low);
+    const last = rowOf(bar.high);
+    for (let i = first; i <= last; i++) {
+      const overlap = range > 0
+        ? (Math.min(bar.high, rows[i].price + rowSize) - Math.max(bar.low, rows[i].price)) / range
+        : 1;
+      rows[i][side] += bar.volume! * Math.max(0, overlap);
+    }
+  }
+
+  const totals = rows.map(row => row.up + row.down);
+  const pocIndex = totals.indexOf(Math.max(...totals));
+  const area = valueArea(totals, pocIndex);
+
+  return {
+    rowSize,
+    rows,
+    poc: rows[pocIndex].price + rowSize / 2,
+    valueAreaHigh: rows[area.high].price + rowSize,
+    valueAreaLow: rows[area.low].price,
+  };
+}
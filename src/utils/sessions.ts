@@ -0,0 +1,132 @@
+import { OHLCV } from './indicators';
+import type { TradingHours } from '@/lib/instruments';
+
+export type Session = 'pre' | 'regular' | 'post' | 'closed';
+
+// Extended-hours window around the regular session (matches Yahoo's pre/post data)
+const PRE_MARKET_OPEN = '04:00';
+const AFTER_HOURS_CLOSE = '20:00';
+
+export interface SessionStats {
+  high: number;
+  low: number;
+  change: number; // % vs the reference close (previous regular close, or today's for after-hours)
+}
+
+export interface SessionSummary {
+  pre: SessionStats | null;
+  regular: SessionStats | null;
+  post: SessionStats | null;
+}
+
+function toMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock time at the exchange for a unix timestamp
+function exchangeClock(time: number, timezone: string): { day: string; weekday: number; minutes: number } {
+  let fmt = formatters.get(timezone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timezone, fmt);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of fmt.formatToParts(new Date(time * 1000))) parts[part.type] = part.value;
+
+  return {
+    day: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minutes: parseInt(parts.hour) * 60 + parseInt(parts.minute),
+  };
+}
+
+/**
+ * Label each bar with the trading session it falls in. Continuous markets and
+ * daily (or coarser) bars are always 'regular'.
+ */
+export function classifySessions(candles: OHLCV[], hours: TradingHours): Session[] {
+  if (hours.type === 'continuous' || candles.length < 2) return candles.map(() => 'regular');
+  if (candles[1].time - candles[0].time >= 24 * 60 * 60) return candles.map(() => 'regular');
+
+  const open = toMinutes(hours.open);
+  const close = toMinutes(hours.close);
+  const preOpen = toMinutes(PRE_MARKET_OPEN);
+  const postClose = toMinutes(AFTER_HOURS_CLOSE);
+
+  return candles.map(c => {
+    const { weekday, minutes } = exchangeClock(c.time, hours.timezone);
+    if (!hours.days.includes(weekday)) return 'closed';
+    if (minutes >= open && minutes < close) return 'regular';
+    if (minutes >= preOpen && minutes < open) return 'pre';
+    if (minutes >= close && minutes < postClose) return 'post';
+    return 'closed';
+  });
+}
+
+// Spread values computed over regular-hours bars back onto the full bar list
+// (extended bars get NaN so the chart skips them)
+export function expandToSessionBars(values: number[], sessions: Session[]): number[] {
+  const expanded: number[] = [];
+  let j = 0;
+  for (const session of sessions) {
+    expanded.push(session === 'regular' ? values[j++] ?? NaN : NaN);
+  }
+  return expanded;
+}
+
+function stats(bars: OHLCV[], reference: number | undefined): SessionStats | null {
+  if (bars.length === 0) return null;
+  const last = bars[bars.length - 1].close;
+  return {
+    high: Math.max(...bars.map(b => b.high)),
+    low: Math.min(...bars.map(b => b.low)),
+    change: reference ? ((last - reference) / reference) * 100 : 0,
+  };
+}
+
+/**
+ * High/low/change per session for the latest trading day in the data.
+ * Pre-market and regular compare to the previous regular close; after-hours
+ * compares to the same day's regular close.
+ */
+export function summarizeSessions(candles: OHLCV[], sessions: Session[], hours: TradingHours): SessionSummary | null {
+  if (hours.type === 'continuous' || candles.length === 0) return null;
+
+  const days = candles.map(c => exchangeClock(c.time, hours.timezone).day);
+  const lastDay = days[days.length - 1];
+
+  const today = { pre: [] as OHLCV[], regular: [] as OHLCV[], post: [] as OHLCV[] };
+  let prevRegularClose: number | undefined;
+
+  candles.forEach((c, i) => {
+    const session = sessions[i];
+    if (session === 'closed') return;
+    if (days[i] === lastDay) {
+      today[session].push(c);
+    } else if (session === 'regular') {
+      prevRegularClose = c.close;
+    }
+  });
+
+  const todayRegularClose = today.regular[today.regular.length - 1]?.close;
+
+  return {
+    pre: stats(today.pre, prevRegularClose),
+    regular: stats(today.regular, prevRegularClose),
+    post: stats(today.post, todayRegularClose),
+  };
+}
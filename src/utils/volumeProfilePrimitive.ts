@@ -0,0 +1,191 @@
+import type {
+  IChartApi,
+  ISeriesApi,
+  ISeriesPrimitive,
+  ISeriesPrimitivePaneRenderer,
+  ISeriesPrimitivePaneView,
+  Logical,
+  SeriesAttachedParameter,
+  SeriesType,
+  Time,
+} from 'lightweight-charts';
+import type { OHLCV } from './indicators';
+import { VolumeProfile, groupBySession, volumeProfile } from './marketProfile';
+
+export type VolumeProfileMode = 'visible' | 'session' | 'fixed';
+
+export interface VolumeProfileOptions {
+  mode: VolumeProfileMode;
+  rows: number;
+  range?: { from: number; to: number }; // bar times, for the fixed mode
+}
+
+type RenderTarget = Parameters<ISeriesPrimitivePaneRenderer['draw']>[0];
+
+// A profile and the bar indexes it covers (none: pinned to the right edge)
+interface PlacedProfile {
+  profile: VolumeProfile;
+  from?: number;
+  to?: number;
+}
+
+const UP = 'rgba(38, 166, 154, ';
+const DOWN = 'rgba(239, 83, 80, ';
+const POC_COLOR = 'rgba(255, 193, 7, 0.9)';
+const VALUE_AREA_COLOR = 'rgba(66, 165, 245, 0.8)';
+
+// Share of the pane a right-edge profile may take up
+const EDGE_WIDTH = 0.25;
+
+function firstIndexAtOrAfter(bars: OHLCV[], time: number): number {
+  const index = bars.findIndex(bar => bar.time >= time);
+  return index === -1 ? bars.length - 1 : index;
+}
+
+/**
+ * Horizontal volume histogram drawn behind the price series: over the visible bars
+ * (pinned to the right edge and recomputed as the chart scrolls), one per session,
+ * or over a fixed range of bars. POC, VAH and VAL are marked on each profile.
+ */
+export class VolumeProfilePrimitive implements ISeriesPrimitive<Time> {
+  private chart: IChartApi | null = null;
+  private series: ISeriesApi<SeriesType> | null = null;
+  private requestUpdate: (() => void) | null = null;
+  private placed: PlacedProfile[] = [];
+  private visibleKey = '';
+  private readonly views: readonly ISeriesPrimitivePaneView[];
+
+  constructor(private bars: OHLCV[], private options: VolumeProfileOptions) {
+    this.views = [{ zOrder: () => 'bottom', renderer: () => ({ draw: target => this.draw(target) }) }];
+    this.placeProfiles();
+  }
+
+  attached({ chart, series, requestUpdate }: SeriesAttachedParameter<Time>) {
+    this.chart = chart as IChartApi;
+    this.series = series;
+    this.requestUpdate = requestUpdate;
+    this.updateAllViews();
+  }
+
+  detached() {
+    this.chart = null;
+    this.series = null;
+    this.requestUpdate = null;
+  }
+
+  paneViews() {
+    return this.views;
+  }
+
+  // The visible-range profile follows scrolling; the others only change with their options
+  updateAllViews() {
+    if (this.options.mode !== 'visible' || !this.chart) return;
+    const range = this.chart.timeScale().getVisibleLogicalRange();
+    if (!range) return;
+    const from = Math.max(0, Math.ceil(range.from));
+    const to = Math.min(this.bars.length - 1, Math.floor(range.to));
+    const key = `${from}:${to}`;
+    if (key === this.visibleKey) return;
+    this.visibleKey = key;
+    const profile = volumeProfile(this.bars.slice(from, to + 1), this.options.rows);
+    this.placed = profile ? [{ profile }] : [];
+  }
+
+  // Used while a fixed range is being dragged out
+  setOptions(options: VolumeProfileOptions) {
+    this.options = options;
+    this.visibleKey = '';
+    this.placeProfiles();
+    this.updateAllViews();
+    this.requestUpdate?.();
+  }
+
+  private placeProfiles() {
+    const { mode, rows, range } = this.options;
+    if (mode === 'session') {
+      let start = 0;
+      this.placed = groupBySession(this.bars).flatMap(session => {
+        const from = start;
+        start += session.length;
+        const profile = volumeProfile(session, rows);
+        return profile ? [{ profile, from, to: start - 1 }] : [];
+      });
+    } else if (mode === 'fixed' && range && this.bars.length > 0) {
+      const from = firstIndexAtOrAfter(this.bars, Math.min(range.from, range.to));
+      const to = firstIndexAtOrAfter(this.bars, Math.max(range.from, range.to));
+      const profile = volumeProfile(this.bars.slice(from, to + 1), rows);
+      this.placed = profile ? [{ profile, from, to }] : [];
+    } else {
+      this.placed = [];
+    }
+  }
+
+  private draw(target: RenderTarget) {
+    const chart = this.chart;
+    const series = this.series;
+    if (!chart || !series) return;
+
+    target.useMediaCoordinateSpace(({ context: ctx, mediaSize }) => {
+      const timeScale = chart.timeScale();
+      const barSpacing = timeScale.options().barSpacing;
+
+      this.placed.forEach(({ profile, from, to }) => {
+        // Pinned profiles grow left from the right edge, ranged ones right from their first bar
+        const pinned = from === undefined || to === undefined;
+        const left = pinned ? mediaSize.width : timeScale.logicalToCoordinate(from as Logical);
+        const right = pinned ? mediaSize.width : timeScale.logicalToCoordinate(to as Logical);
+        if (left === null || right === null) return;
+        const maxWidth = pinned ? mediaSize.width * EDGE_WIDTH : Math.max(right - left + barSpacing, barSpacing);
+        if (!pinned && (right < 0 || left > mediaSize.width)) return;
+
+        const maxVolume = Math.max(...profile.rows.map(row => row.up + row.down));
+        if (!(maxVolume > 0)) return;
+
+        // Shade the bars a fixed-range profile was built from
+        if (!pinned && this.options.mode === 'fixed') {
+          ctx.fillStyle = 'rgba(66, 165, 245, 0.05)';
+          ctx.fillRect(left - barSpacing / 2, 0, maxWidth, mediaSize.height);
+        }
+
+        profile.rows.forEach(row => {
+          const top = series.priceToCoordinate(row.price + profile.rowSize);
+          const bottom = series.priceToCoordinate(row.price);
+          if (top === null || bottom === null) return;
+          const height = Math.max(1, bottom - top - 1);
+          const inValueArea = row.price >= profile.valueAreaLow && row.price < profile.valueAreaHigh;
+          const alpha = inValueArea ? '0.45)' : '0.2)';
+          const upWidth = (row.up / maxVolume) * maxWidth;
+          const downWidth = (row.down / maxVolume) * maxWidth;
+          const start = pinned ? mediaSize.width - upWidth - downWidth : left - barSpacing / 2;
+
+          ctx.fillStyle = UP + alpha;
+          ctx.fillRect(start, top, upWidth, height);
+          ctx.fillStyle = DOWN + alpha;
+          ctx.fillRect(start + upWidth, top, downWidth, height);
+        });
+
+        // POC, VAH and VAL lines across the profile
+        const markLeft = pinned ? mediaSize.width - maxWidth : left - barSpacing / 2;
+        [
+          { label: 'POC', price: profile.poc, color: POC_COLOR },
+          { label: 'VAH', price: profile.valueAreaHigh, color: VALUE_AREA_COLOR },
+          { label: 'VAL', price: profile.valueAreaLow, color: VALUE_AREA_COLOR },
+        ].forEach(({ label, price, color }) => {
+          const y = series.priceToCoordinate(price);
+          if (y === null) return;
+          ctx.strokeStyle = color;
+          ctx.fillStyle = color;
+          ctx.lineWidth = label === 'POC' ? 1.5 : 1;
+          ctx.setLineDash(label === 'POC' ? [] : [4, 3]);
+          ctx.beginPath();
+          ctx.moveTo(markLeft, y);
+          ctx.lineTo(markLeft + maxWidth, y);
+          ctx.stroke();
+          ctx.font = '10px sans-serif';
+          ctx.fillText(label, markLeft + 2, y - 2);
+        });
+        ctx.setLineDash([]);
+      });
+    });
+  }
+}